@@ -1,5 +1,22 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { useSQLEngine } from '../hooks/useSQLEngine';
+import { useDatabase } from '../hooks/useDatabase';
+import { tableOverview } from '../utils/sqlCatalog';
+import { downloadTextFile, runScript } from '../utils/sqlDump';
+import { ExportFormat, formatResult, guessTableName, parseExportFormat } from '../utils/sqlExport';
+import { ResultExport } from './ResultExport';
+import { IMPLICIT_COMMIT_SQL } from '../utils/sqlTransactions';
+import { TimelineCommand, parseTimelineCommand } from '../utils/sqlTimeline';
+import { dialectInfo, dialectPrompt, dialectTip, isDialectError, rowsStatus, commandStatus } from '../utils/sqlDialects';
+import { explainSQL } from '../utils/sqlExplain';
+import { DialectSelector } from './DialectSelector';
+import { DataDiff } from './DataDiff';
+import { TableDiff, previewWithDiff, runWithDiff } from '../utils/sqlDiff';
+import { ClientCommand, asciiTable, clearsBuffer, pagerFilter, parseClientCommand, statementEnd, statusText, tableText, verticalText } from '../utils/sqlClient';
+import { formatWarning } from '../utils/sqlWarnings';
+import { commonPrefix, completeSQL, formatCandidates } from '../utils/sqlComplete';
+import { SplitResult, splitStatements } from '../utils/sqlSplit';
+import { NlSettings, loadNlSettings, naturalLanguageRequest, nlProvider, patternProvider, saveNlSettings, translateWithPatterns } from '../utils/sqlNaturalLanguage';
+import { CommandHistory, EMPTY_HISTORY, HistoryCommand, addToHistory, findHistoryEntry, historyText, loadHistory, parseHistoryCommand, saveHistory, searchHistory } from '../utils/sqlHistory';
 
 interface AICommandLineProps {
   isDark: boolean;
@@ -11,6 +28,12 @@ interface CommandEntry {
   type: 'input' | 'continuation' | 'result' | 'error' | 'warning' | 'info' | 'ai';
   content: string;
   table?: { columns: string[]; rows: (string | number | null)[][] };
+  // Result text when an output format is set with \o
+  output?: string;
+  // Rows changed (or, for preview, about to change) by a DML statement
+  diff?: TableDiff;
+  sql?: string;
+  prompt?: string;
   timestamp: Date;
 }
 
@@ -28,19 +51,6 @@ const dangerousCommands: DangerousCommand[] = [
   { pattern: /^UPDATE\s+\w+\s+SET\s+[^W]*$/i, warning: '⚠️ CẢNH BÁO: UPDATE không có WHERE sẽ cập nhật TẤT CẢ hàng!', level: 'medium' },
 ];
 
-// Vietnamese to SQL mappings
-const vietnameseToSQL: { pattern: RegExp; template: string }[] = [
-  { pattern: /lấy\s+tất\s+cả\s+(?:từ\s+)?(?:bảng\s+)?(\w+)/i, template: 'SELECT * FROM $1' },
-  { pattern: /đếm\s+(?:số\s+)?(?:lượng\s+)?(?:trong\s+)?(?:bảng\s+)?(\w+)/i, template: 'SELECT COUNT(*) FROM $1' },
-  { pattern: /xem\s+(?:bảng\s+)?(\w+)/i, template: 'SELECT * FROM $1' },
-  { pattern: /hiển\s+thị\s+(?:tất\s+cả\s+)?(?:bảng\s+)?(\w+)/i, template: 'SELECT * FROM $1' },
-  { pattern: /tìm\s+(.+)\s+trong\s+(\w+)\s+(?:với|có|where)\s+(.+)/i, template: 'SELECT $1 FROM $2 WHERE $3' },
-  { pattern: /sắp\s+xếp\s+(\w+)\s+theo\s+(\w+)\s+(?:tăng|tăng\s+dần)/i, template: 'SELECT * FROM $1 ORDER BY $2 ASC' },
-  { pattern: /sắp\s+xếp\s+(\w+)\s+theo\s+(\w+)\s+(?:giảm|giảm\s+dần)/i, template: 'SELECT * FROM $1 ORDER BY $2 DESC' },
-  { pattern: /thêm\s+(.+)\s+vào\s+(\w+)/i, template: 'INSERT INTO $2 VALUES ($1)' },
-  { pattern: /xóa\s+(?:từ\s+)?(\w+)\s+(?:với|có|where)\s+(.+)/i, template: 'DELETE FROM $1 WHERE $2' },
-];
-
 // SQL syntax corrections
 const sqlCorrections: { pattern: RegExp; fix: string; message: string }[] = [
   { pattern: /SLECT/gi, fix: 'SELECT', message: 'Sửa lỗi: SLECT → SELECT' },
@@ -55,24 +65,75 @@ const sqlCorrections: { pattern: RegExp; fix: string; message: string }[] = [
   { pattern: /JION/gi, fix: 'JOIN', message: 'Sửa lỗi: JION → JOIN' },
 ];
 
+// What an entry looks like as plain text, for tee
+function entryText(entry: CommandEntry): string {
+  if (entry.type === 'input' || entry.type === 'continuation') return `${entry.prompt ?? ''}${entry.content}`;
+  return [entry.table && tableText(entry.table), entry.output, entry.content.trim()].filter(Boolean).join('\n');
+}
+
 export function AICommandLine({ isDark, mode }: AICommandLineProps) {
   // Buffer for multi-line input (giống MySQL CLI)
   const [buffer, setBuffer] = useState<string[]>([]);
   const [currentLine, setCurrentLine] = useState('');
   const [history, setHistory] = useState<CommandEntry[]>([]);
-  const [commandHistory, setCommandHistory] = useState<string[]>([]);
+  const [commandHistory, setCommandHistory] = useState<CommandHistory>(EMPTY_HISTORY);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [aiEnabled, setAiEnabled] = useState(true);
   const [learningMode, setLearningMode] = useState(true);
   const [showSettings, setShowSettings] = useState(false);
   const [pendingDangerousCommand, setPendingDangerousCommand] = useState<string | null>(null);
   const [isMultiLine, setIsMultiLine] = useState(false);
+  const [outputFormat, setOutputFormat] = useState<ExportFormat | null>(null);
+  // mysql client settings: DELIMITER, pager, and whether warnings print after each statement
+  const [delimiter, setDelimiter] = useState(';');
+  const [pager, setPager] = useState<string | null>(null);
+  const [showWarnings, setShowWarnings] = useState(false);
+  // mysql --force: a script keeps going past statements that fail
+  const [forceMode, setForceMode] = useState(false);
+  // Who turns Vietnamese into SQL: the built-in patterns, or a model behind an OpenAI-compatible URL
+  const [nlSettings, setNlSettings] = useState<NlSettings>(loadNlSettings);
+  // Ctrl+R: what has been typed so far and the history entry it found
+  const [search, setSearch] = useState<{ query: string; index: number; failed: boolean } | null>(null);
   
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const terminalRef = useRef<HTMLDivElement>(null);
   const idCounter = useRef(0);
+  const sourceInputRef = useRef<HTMLInputElement>(null);
+  // tee: everything printed while it is on, downloaded as the file on notee
+  const teeRef = useRef<{ file: string; lines: string[] } | null>(null);
+  const lastTeeFile = useRef<string | null>(null);
+  const connectedAt = useRef(Date.now());
+  const questions = useRef(0);
+  // Line as it was after the last Tab: a second Tab that changes nothing lists the candidates
+  const lastTab = useRef<string | null>(null);
+  // What was being typed before ↑ or Ctrl+R replaced it, so ↓ can bring it back
+  const draft = useRef('');
   
-  const { executeSQL, resetDB, isReady } = useSQLEngine();
+  const {
+    executeSQL,
+    runQuery,
+    cancelQuery,
+    isQueryRunning,
+    queryTimeout,
+    setQueryTimeout,
+    inTransaction,
+    dialect,
+    currentUser,
+    connectAs,
+    resetDB,
+    restoreSampleData,
+    undo,
+    redo,
+    runAsStep,
+    namedSnapshots,
+    saveNamedSnapshot,
+    restoreNamedSnapshot,
+    deleteNamedSnapshot,
+    readCatalog,
+    isReady,
+    activeWorkspace,
+    workspaces,
+  } = useDatabase();
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -93,6 +154,7 @@ export function AICommandLine({ isDark, mode }: AICommandLineProps) {
 ║     • Enter = xuống dòng (tiếp tục nhập)                         ║
 ║     • Kết thúc bằng ; = thực thi lệnh                            ║
 ║     • Ctrl+Enter = thực thi ngay                                 ║
+║     • Bảng và dữ liệu của bạn được tự động lưu                   ║
 ║                                                                  ║
 ║  📚 Gõ "help" để xem hướng dẫn                                   ║
 ╚══════════════════════════════════════════════════════════════════╝
@@ -108,41 +170,55 @@ export function AICommandLine({ isDark, mode }: AICommandLineProps) {
       timestamp: new Date(),
       ...options,
     };
+    teeRef.current?.lines.push(entryText(entry));
     setHistory(prev => [...prev, entry]);
   }, []);
 
+  // Each workspace keeps its own history, across reloads
+  useEffect(() => {
+    setCommandHistory(loadHistory(activeWorkspace));
+    setHistoryIndex(-1);
+    setSearch(null);
+  }, [activeWorkspace]);
+
+  // Switching dialect is like connecting to another server
+  const shownDialect = useRef(dialect);
+  useEffect(() => {
+    if (shownDialect.current === dialect) return;
+    shownDialect.current = dialect;
+    const { icon, label } = dialectInfo(dialect);
+    addEntry('info', `${icon} Đã chuyển sang ${label}: cú pháp và thông báo lỗi giờ theo ${label}.`);
+  }, [dialect, addEntry]);
+
   // Check if command is complete (ends with ;)
   const isCommandComplete = (text: string): boolean => {
     const trimmed = text.trim();
     // Special commands don't need ;
-    const specialCommands = ['help', 'clear', 'reset', 'tables', 'yes', 'no', 'y', 'n', 'ai on', 'ai off', 'learn on', 'learn off'];
+    const specialCommands = ['help', 'clear', 'reset', 'restore sample', 'tables', 'yes', 'no', 'y', 'n', 'ai on', 'ai off', 'learn on', 'learn off', 'force on', 'force off', 'edit'];
     const lowerTrimmed = trimmed.toLowerCase();
     
     if (specialCommands.some(cmd => lowerTrimmed === cmd)) return true;
     if (lowerTrimmed.startsWith('desc ') || lowerTrimmed.startsWith('describe ')) return true;
+    // Client commands are one line and need no terminator
+    if (!trimmed.includes('\n') && parseClientCommand(trimmed)) return true;
+    if (/^\\o\b/.test(lowerTrimmed)) return true;
+    if (/^(\\connect|connect)\s+\S+/.test(lowerTrimmed)) return true;
+    if (parseTimelineCommand(trimmed)) return true;
+    if (!trimmed.includes('\n') && parseHistoryCommand(trimmed)) return true;
     
-    // Vietnamese commands (don't need ;)
-    for (const mapping of vietnameseToSQL) {
-      if (mapping.pattern.test(trimmed)) return true;
-    }
+    // Vietnamese commands and "ai <yêu cầu>" (don't need ;)
+    if (naturalLanguageRequest(trimmed)) return true;
     
-    // SQL commands need ;
-    return trimmed.endsWith(';');
+    // SQL commands need the delimiter (; unless changed with DELIMITER), \g or \G
+    return statementEnd(trimmed, delimiter) !== null;
   };
 
-  // Convert Vietnamese to SQL
-  const convertVietnameseToSQL = (text: string): string | null => {
-    for (const mapping of vietnameseToSQL) {
-      const match = text.match(mapping.pattern);
-      if (match) {
-        let sql = mapping.template;
-        for (let i = 1; i < match.length; i++) {
-          sql = sql.replace(`$${i}`, match[i]);
-        }
-        return sql + ';';
-      }
-    }
-    return null;
+  // A submission with several statements, or with DELIMITER lines, is run as a script
+  const scriptStatements = (text: string): SplitResult | null => {
+    const split = splitStatements(text, delimiter);
+    if (split.remainder) split.statements.push({ sql: split.remainder, line: split.remainderLine });
+    if (split.statements.length < 2 && !/^[ \t]*DELIMITER[ \t]/im.test(text)) return null;
+    return split;
   };
 
   // Fix SQL typos
@@ -170,110 +246,15 @@ export function AICommandLine({ isDark, mode }: AICommandLineProps) {
     return null;
   };
 
-  // Explain SQL parts
-  const explainSQL = (sql: string): string => {
-    const parts: string[] = [];
-    const upperSQL = sql.toUpperCase();
-    
-    if (upperSQL.includes('SELECT')) {
-      const selectMatch = sql.match(/SELECT\s+(.+?)\s+FROM/i);
-      if (selectMatch) {
-        const columns = selectMatch[1].trim();
-        parts.push(mode === 'easy' 
-          ? `📋 Lấy ${columns === '*' ? 'tất cả cột' : `cột: ${columns}`}`
-          : `SELECT: Retrieves ${columns === '*' ? 'all columns' : `columns: ${columns}`}`);
-      }
-    }
-
-    if (upperSQL.includes('FROM')) {
-      const fromMatch = sql.match(/FROM\s+(\w+)/i);
-      if (fromMatch) {
-        parts.push(mode === 'easy'
-          ? `📁 Từ bảng: ${fromMatch[1]}`
-          : `FROM: Source table "${fromMatch[1]}"`);
-      }
-    }
-
-    if (upperSQL.includes('WHERE')) {
-      const whereMatch = sql.match(/WHERE\s+(.+?)(?:\s+ORDER|\s+GROUP|\s+LIMIT|;|$)/i);
-      if (whereMatch) {
-        parts.push(mode === 'easy'
-          ? `🔍 Điều kiện: ${whereMatch[1].trim()}`
-          : `WHERE: Filter condition "${whereMatch[1].trim()}"`);
-      }
+  // DDL commits the open transaction, so only DML inside a transaction can be undone
+  const getRollbackHint = (sql: string): string => {
+    if (inTransaction && !IMPLICIT_COMMIT_SQL.test(sql)) {
+      return '↩️ Bạn đang trong transaction: vẫn có thể gõ ROLLBACK; để hoàn tác.';
     }
-
-    if (upperSQL.includes('ORDER BY')) {
-      const orderMatch = sql.match(/ORDER\s+BY\s+(\w+)\s*(ASC|DESC)?/i);
-      if (orderMatch) {
-        const direction = orderMatch[2]?.toUpperCase() === 'DESC' ? 'giảm dần' : 'tăng dần';
-        parts.push(mode === 'easy'
-          ? `📊 Sắp xếp: ${orderMatch[1]} (${direction})`
-          : `ORDER BY: Sort by "${orderMatch[1]}" ${orderMatch[2] || 'ASC'}`);
-      }
+    if (inTransaction) {
+      return '⛔ Lệnh này tự động COMMIT transaction hiện tại, sau đó KHÔNG thể ROLLBACK.';
     }
-
-    if (upperSQL.includes('GROUP BY')) {
-      const groupMatch = sql.match(/GROUP\s+BY\s+(\w+)/i);
-      if (groupMatch) {
-        parts.push(mode === 'easy'
-          ? `📦 Nhóm theo: ${groupMatch[1]}`
-          : `GROUP BY: Group rows by "${groupMatch[1]}"`);
-      }
-    }
-
-    if (upperSQL.includes('JOIN')) {
-      parts.push(mode === 'easy'
-        ? '🔗 Kết nối các bảng với nhau'
-        : 'JOIN: Combines rows from multiple tables');
-    }
-
-    if (upperSQL.includes('INSERT')) {
-      const insertMatch = sql.match(/INSERT\s+INTO\s+(\w+)/i);
-      if (insertMatch) {
-        parts.push(mode === 'easy'
-          ? `➕ Thêm dữ liệu vào bảng: ${insertMatch[1]}`
-          : `INSERT: Add new row(s) to "${insertMatch[1]}"`);
-      }
-    }
-
-    if (upperSQL.includes('UPDATE')) {
-      const updateMatch = sql.match(/UPDATE\s+(\w+)/i);
-      if (updateMatch) {
-        parts.push(mode === 'easy'
-          ? `✏️ Cập nhật bảng: ${updateMatch[1]}`
-          : `UPDATE: Modify rows in "${updateMatch[1]}"`);
-      }
-    }
-
-    if (upperSQL.includes('DELETE')) {
-      const deleteMatch = sql.match(/DELETE\s+FROM\s+(\w+)/i);
-      if (deleteMatch) {
-        parts.push(mode === 'easy'
-          ? `🗑️ Xóa từ bảng: ${deleteMatch[1]}`
-          : `DELETE: Remove rows from "${deleteMatch[1]}"`);
-      }
-    }
-
-    if (upperSQL.includes('CREATE TABLE')) {
-      const createMatch = sql.match(/CREATE\s+TABLE\s+(\w+)/i);
-      if (createMatch) {
-        parts.push(mode === 'easy'
-          ? `🏗️ Tạo bảng mới: ${createMatch[1]}`
-          : `CREATE TABLE: Creates new table "${createMatch[1]}"`);
-      }
-    }
-
-    if (upperSQL.includes('ALTER TABLE')) {
-      const alterMatch = sql.match(/ALTER\s+TABLE\s+(\w+)/i);
-      if (alterMatch) {
-        parts.push(mode === 'easy'
-          ? `🔧 Thay đổi cấu trúc bảng: ${alterMatch[1]}`
-          : `ALTER TABLE: Modifies table structure "${alterMatch[1]}"`);
-      }
-    }
-
-    return parts.join('\n');
+    return '💡 Autocommit đang bật nên không thể ROLLBACK. Gõ START TRANSACTION; trước nếu muốn hoàn tác được.';
   };
 
   // Get optimization suggestions
@@ -300,21 +281,68 @@ export function AICommandLine({ isDark, mode }: AICommandLineProps) {
     return tips;
   };
 
-  const getErrorHelp = (error: string): string | null => {
-    if (error.includes('không tồn tại') || error.includes('not found') || error.includes('no such table')) {
+  const getErrorHelp = (error: string, sql: string): string | null => {
+    // Syntax from another database is the most common slip when switching dialects
+    const tip = dialectTip(sql, dialect);
+    if (tip) return `💡 ${dialectInfo(dialect).label}: ${tip}`;
+    if (error.includes('không tồn tại') || error.includes('not found') || error.includes('no such') || error.includes("doesn't exist") || error.includes('does not exist')) {
       return `💡 Gợi ý: Kiểm tra lại tên bảng/cột. Gõ "tables" để xem danh sách bảng.`;
     }
+    if (error.includes('command denied') || error.includes('Access denied')) {
+      return `💡 Gợi ý: User "${currentUser}" chưa được cấp quyền này. Gõ \\connect root rồi GRANT ... TO '${currentUser}'@'localhost';`;
+    }
     if (error.includes('cú pháp') || error.includes('Syntax') || error.includes('syntax')) {
       return `💡 Gợi ý: Kiểm tra lại cú pháp SQL. Ví dụ: SELECT column FROM table WHERE condition;`;
     }
     return null;
   };
 
+  const runTimelineCommand = (command: TimelineCommand) => {
+    try {
+      switch (command.type) {
+        case 'undo':
+        case 'redo': {
+          const moved = command.type === 'undo' ? undo(command.steps) : redo(command.steps);
+          const title = command.type === 'undo' ? '↩️ Đã hoàn tác' : '↪️ Đã làm lại';
+          addEntry('info', `${title} ${moved.length} thay đổi:\n${moved.map(e => `  • ${e.label}`).join('\n')}`);
+          break;
+        }
+        case 'save':
+          saveNamedSnapshot(command.name);
+          addEntry('info', `📸 Đã lưu snapshot "${command.name}" (${readCatalog().tables.length} bảng). Gõ snapshot restore ${command.name} để quay lại.`);
+          break;
+        case 'restore':
+          restoreNamedSnapshot(command.name);
+          addEntry('info', `⏪ Đã khôi phục snapshot "${command.name}". Gõ undo nếu muốn quay lại trạng thái trước đó.`);
+          break;
+        case 'delete':
+          deleteNamedSnapshot(command.name);
+          addEntry('info', `🗑️ Đã xóa snapshot "${command.name}"`);
+          break;
+        case 'list':
+          if (namedSnapshots.length === 0) {
+            addEntry('info', '📭 Chưa có snapshot nào. Thử: snapshot save truoc_khi_xoa');
+          } else {
+            addEntry('result', `${namedSnapshots.length} snapshot trong database "${activeWorkspace}"`, {
+              table: {
+                columns: ['Name', 'Created', 'Tables'],
+                rows: namedSnapshots.map(s => [s.name, new Date(s.createdAt).toLocaleString('vi-VN'), s.snapshot.tables.length]),
+              },
+            });
+          }
+          break;
+      }
+    } catch (err) {
+      addEntry('error', `ERROR: ${(err as Error).message}`);
+    }
+  };
+
   // Execute the final command
   const executeCommand = useCallback((fullSQL: string) => {
     // Add to command history
     setCommandHistory(prev => {
-      const newHistory = [fullSQL, ...prev.filter(c => c !== fullSQL)].slice(0, 50);
+      const newHistory = addToHistory(prev, fullSQL);
+      saveHistory(activeWorkspace, newHistory);
       return newHistory;
     });
     setHistoryIndex(-1);
@@ -333,25 +361,85 @@ export function AICommandLine({ isDark, mode }: AICommandLineProps) {
   • Enter        = Xuống dòng (tiếp tục nhập)
   • Kết thúc ;   = Thực thi lệnh tự động  
   • Ctrl+Enter   = Thực thi ngay (không cần ;)
-  • ↑ / ↓        = Duyệt lịch sử lệnh
+  • ↑ / ↓        = Duyệt lịch sử lệnh (lệnh nhiều dòng được gọi lại nguyên vẹn)
+  • Ctrl+R       = Tìm ngược trong lịch sử (Ctrl+R tiếp = kết quả cũ hơn, Enter = chạy, → = sửa, Esc = thôi)
+  • Tab          = Gợi ý tên bảng, cột, từ khóa (Tab hai lần = xem danh sách)
   • Ctrl+L       = Xóa màn hình
-  • Ctrl+C       = Hủy lệnh đang nhập
+  • Ctrl+C       = Hủy lệnh đang nhập / dừng truy vấn đang chạy
+  • \\G thay cho ; = In kết quả theo chiều dọc, mỗi cột một dòng
+  • \\c cuối dòng = Bỏ câu lệnh đang gõ dở
+  • Dán nhiều câu lệnh = Chạy lần lượt từng câu, mỗi câu một kết quả
 
 📋 LỆNH HỆ THỐNG:
 ────────────────────────────────────────────────────────────
   help          - Hiển thị hướng dẫn này
   clear         - Xóa màn hình terminal
-  reset         - Khôi phục database về ban đầu
-  tables        - Xem danh sách các bảng
+  reset         - Xóa toàn bộ bài làm, về database ban đầu
+  restore sample - Nạp lại dữ liệu mẫu (giữ bảng bạn tạo)
+  tables        - Xem danh sách bảng (số hàng, các cột)
   desc <table>  - Xem cấu trúc bảng
+  preview <UPDATE|DELETE ...>; - Xem trước các dòng sẽ bị sửa/xóa (chưa thực thi)
+  \\o csv        - In kết quả dạng csv / json / md / insert (\\o = bảng)
+  SHOW TABLES; / SHOW COLUMNS FROM t; / SHOW CREATE TABLE t; / SHOW INDEX FROM t;
+  history [n]   - Xem lịch sử lệnh của database này (n lệnh gần nhất)
+  !n / !! / !-n - Gọi lại lệnh số n / lệnh vừa chạy / lệnh thứ n tính từ cuối
+  !select       - Gọi lại lệnh gần nhất bắt đầu bằng "select"
   ai on/off     - Bật/tắt AI hỗ trợ
+  force on/off  - Dán nhiều câu lệnh: chạy tiếp dù có câu lỗi (mặc định dừng ở lỗi đầu tiên)
   learn on/off  - Bật/tắt chế độ học tập
 
+🐬  LỆNH CỦA MYSQL CLIENT:
+────────────────────────────────────────────────────────────
+  status / \\s                   - Thông tin kết nối, delimiter, pager, uptime
+  DELIMITER // / \\d //          - Đổi dấu kết thúc lệnh (để viết thân PROCEDURE)
+  source file.sql / \\. file     - Chọn file .sql để chạy (hoặc kéo thả vào terminal)
+  tee phien.txt / \\T phien.txt  - Ghi lại mọi thứ in ra; notee (\\t) để tải file về
+  pager grep -i an / \\P less    - Lọc kết quả qua less, more, grep, head, tail, sort, wc -l
+  nopager / \\n                  - In kết quả thẳng ra màn hình
+  warnings / \\W                 - In cảnh báo ngay sau mỗi lệnh (nowarnings / \\w để tắt)
+  SHOW WARNINGS; / SHOW ERRORS; - Xem cảnh báo / lỗi của lệnh vừa chạy
+
+🗄️  WORKSPACE (DATABASE):
+────────────────────────────────────────────────────────────
+  SHOW DATABASES;               - Xem các workspace
+  CREATE DATABASE my_homework;  - Tạo workspace trống
+  CREATE DATABASE s2 TEMPLATE school; - Tạo từ mẫu/nhân bản
+  USE my_homework;              - Chuyển workspace
+  DROP DATABASE my_homework;    - Xóa workspace
+
+🔁  TRANSACTION (autocommit mặc định BẬT):
+────────────────────────────────────────────────────────────
+  START TRANSACTION; / BEGIN;   - Mở transaction (prompt đổi thành mysql*>)
+  SAVEPOINT sp1;                - Đánh dấu điểm khôi phục
+  ROLLBACK TO sp1;              - Quay lại savepoint
+  COMMIT; / ROLLBACK;           - Lưu hoặc hủy mọi thay đổi
+  SET autocommit = 0;           - Mỗi lệnh tự mở transaction
+
+⏪  HOÀN TÁC / SNAPSHOT:
+────────────────────────────────────────────────────────────
+  undo [n] / redo [n]           - Hoàn tác / làm lại n thay đổi gần nhất
+  snapshot save <tên>           - Lưu trạng thái hiện tại (vd: truoc_khi_xoa)
+  snapshot restore <tên>        - Quay về snapshot đã lưu
+  snapshot list / snapshot delete <tên>
+
+👤  USER / ROLE / QUYỀN:
+────────────────────────────────────────────────────────────
+  CREATE USER 'an'@'localhost'; / CREATE ROLE reader;
+  GRANT SELECT, INSERT ON school.* TO 'an'@'localhost';
+  GRANT SELECT (name) ON students TO reader;   - Quyền theo cột
+  GRANT reader TO 'an'@'localhost';  / SET ROLE reader;
+  REVOKE INSERT ON school.* FROM 'an'@'localhost';
+  SHOW GRANTS FOR 'an'@'localhost'; / SELECT CURRENT_USER();
+  \\connect an                  - Đăng nhập bằng user khác (\\connect root để quay lại)
+
 🗣️  GÕ TIẾNG VIỆT (AI tự chuyển sang SQL):
 ────────────────────────────────────────────────────────────
   "lấy tất cả từ students"
   "đếm số lượng trong products"  
   "sắp xếp employees theo salary giảm dần"
+  ai <yêu cầu bất kỳ>  - Gửi cho model ngôn ngữ đã chọn trong ⚙️ (Ollama, llama.cpp,
+                         hay server tương thích OpenAI), kèm cấu trúc các bảng hiện có.
+                         SQL nhận về chỉ chạy khi bạn gõ "yes" ("edit" để sửa trước).
 
 📝 VÍ DỤ SQL NHIỀU DÒNG:
 ────────────────────────────────────────────────────────────
@@ -369,40 +457,87 @@ export function AICommandLine({ isDark, mode }: AICommandLineProps) {
     }
 
     if (lowerSQL === 'reset') {
-      resetDB();
-      addEntry('info', '✅ Database đã được khôi phục về trạng thái ban đầu!');
+      try {
+        resetDB();
+        addEntry('info', '✅ Database đã được khôi phục về trạng thái ban đầu!');
+      } catch (err) {
+        addEntry('error', `ERROR: ${(err as Error).message}`);
+      }
+      return;
+    }
+
+    if (lowerSQL === 'restore sample') {
+      try {
+        restoreSampleData();
+        addEntry('info', '🌱 Đã nạp lại dữ liệu mẫu. Các bảng bạn tự tạo vẫn được giữ nguyên.');
+      } catch (err) {
+        addEntry('error', `ERROR: ${(err as Error).message}`);
+      }
       return;
     }
 
     if (lowerSQL === 'tables') {
-      addEntry('info', `
-📊 DANH SÁCH BẢNG:
-────────────────────────────────────────
-  • students   (id, name, age, grade, class)
-  • products   (id, name, price, category, stock)
-  • orders     (id, customer_name, product_id, quantity, order_date)
-  • employees  (id, name, department, salary, hire_date)
-      `);
+      const overview = tableOverview(readCatalog());
+      if (overview.rows.length === 0) {
+        addEntry('info', `📭 Database "${activeWorkspace}" chưa có bảng nào. Thử: CREATE TABLE ...;`);
+      } else {
+        addEntry('result', `${overview.rows.length} bảng trong database "${activeWorkspace}"`, { table: overview });
+      }
       return;
     }
 
     if (lowerSQL.startsWith('desc ') || lowerSQL.startsWith('describe ')) {
       const tableName = trimmedSQL.split(/\s+/)[1]?.replace(';', '');
-      const tableInfo: Record<string, string[]> = {
-        students: ['id INT PRIMARY KEY', 'name VARCHAR(100)', 'age INT', 'grade VARCHAR(10)', 'class VARCHAR(20)'],
-        products: ['id INT PRIMARY KEY', 'name VARCHAR(100)', 'price INT', 'category VARCHAR(50)', 'stock INT'],
-        orders: ['id INT PRIMARY KEY', 'customer_name VARCHAR(100)', 'product_id INT', 'quantity INT', 'order_date DATE'],
-        employees: ['id INT PRIMARY KEY', 'name VARCHAR(100)', 'department VARCHAR(50)', 'salary INT', 'hire_date DATE'],
-      };
-      
-      if (tableName && tableInfo[tableName.toLowerCase()]) {
-        addEntry('info', `
-📋 Cấu trúc bảng: ${tableName}
-────────────────────────────────────────
-${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
-        `);
+      if (tableName) {
+        runSQL(`DESCRIBE ${tableName}`);
+      } else {
+        addEntry('error', '❌ Thiếu tên bảng. Ví dụ: desc students');
+      }
+      return;
+    }
+
+    const previewMatch = trimmedSQL.match(/^preview\s+([\s\S]+)$/i);
+    if (previewMatch) {
+      previewSQL(previewMatch[1]);
+      return;
+    }
+
+    const clientCommand = parseClientCommand(trimmedSQL);
+    if (clientCommand) {
+      runClientCommand(clientCommand);
+      return;
+    }
+
+    const timelineCommand = parseTimelineCommand(trimmedSQL);
+    if (timelineCommand) {
+      runTimelineCommand(timelineCommand);
+      return;
+    }
+
+    const connectMatch = trimmedSQL.match(/^(?:\\connect|connect)\s+'?([\w$]+)'?(?:@'?[\w.%]+'?)?;?$/i);
+    if (connectMatch) {
+      try {
+        connectAs(connectMatch[1]);
+        addEntry('info', `Connected as '${connectMatch[1]}'@'localhost'`);
+      } catch (err) {
+        addEntry('error', (err as Error).message);
+      }
+      return;
+    }
+
+    if (/^\\o\b/.test(lowerSQL)) {
+      const arg = trimmedSQL.slice(2).replace(/;$/, '').trim();
+      if (!arg) {
+        setOutputFormat(null);
+        addEntry('info', '📋 Kết quả hiển thị dạng bảng (mặc định)');
+        return;
+      }
+      const format = parseExportFormat(arg);
+      if (format) {
+        setOutputFormat(format);
+        addEntry('info', `📋 Kết quả sẽ in dạng ${format.toUpperCase()} để copy vào báo cáo. Gõ \\o để quay lại dạng bảng.`);
       } else {
-        addEntry('error', `❌ Bảng "${tableName}" không tồn tại!`);
+        addEntry('error', `❌ Không hỗ trợ định dạng "${arg}". Dùng: csv, json, md, insert`);
       }
       return;
     }
@@ -431,32 +566,74 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
       return;
     }
 
+    if (lowerSQL === 'force on' || lowerSQL === 'force off') {
+      setForceMode(lowerSQL === 'force on');
+      addEntry('info', lowerSQL === 'force on'
+        ? '💪 Force BẬT: nhiều câu lệnh dán cùng lúc sẽ chạy tiếp dù có câu bị lỗi (giống mysql --force)'
+        : '🛑 Force TẮT: dừng ở câu lệnh lỗi đầu tiên');
+      return;
+    }
+
     // Handle pending dangerous command confirmation
     if (pendingDangerousCommand) {
       if (lowerSQL === 'yes' || lowerSQL === 'y') {
         const cmd = pendingDangerousCommand;
         setPendingDangerousCommand(null);
-        runSQL(cmd);
+        const script = scriptStatements(cmd);
+        if (script) runStatements(script);
+        else runSQL(cmd);
         return;
       } else if (lowerSQL === 'no' || lowerSQL === 'n') {
         setPendingDangerousCommand(null);
         addEntry('info', '❌ Đã hủy lệnh.');
         return;
+      } else if (lowerSQL === 'edit') {
+        // Into the input, to fix before running it
+        setPendingDangerousCommand(null);
+        loadInput(pendingDangerousCommand);
+        return;
+      }
+    }
+
+    // Several statements at once: each dangerous one is flagged, and one "yes" confirms the whole script
+    const script = scriptStatements(trimmedSQL);
+    if (script) {
+      if (aiEnabled) {
+        const dangers = script.statements.flatMap(statement => {
+          const dangerous = checkDangerousCommand(statement.sql);
+          return dangerous ? [{ statement, dangerous }] : [];
+        });
+        dangers.forEach(({ statement, dangerous }) => {
+          addEntry('warning', `${dangerous.warning}\n   → dòng ${statement.line}: ${statement.sql}\n${getRollbackHint(statement.sql)}`);
+        });
+        if (dangers.some(({ dangerous }) => dangerous.level === 'high')) {
+          setPendingDangerousCommand(trimmedSQL);
+          addEntry('warning', `⚡ Gõ "yes" để chạy cả ${script.statements.length} câu lệnh hoặc "no" để hủy`);
+          return;
+        }
       }
+      runStatements(script);
+      return;
     }
 
-    // Process SQL command
-    let sqlToExecute = trimmedSQL;
+    // "ai <yêu cầu>" and Vietnamese phrases go to the selected NL→SQL provider
+    const request = aiEnabled ? naturalLanguageRequest(trimmedSQL) : null;
+    if (request) {
+      translateRequest(request);
+      return;
+    }
+
+    // Process SQL command; the terminator (delimiter, \g or \G) becomes a plain ;
+    const ending = statementEnd(trimmedSQL, delimiter);
+    checkAndRunSQL(ending?.sql ?? trimmedSQL, ending?.vertical ?? false);
+  }, [aiEnabled, addEntry, resetDB, restoreSampleData, readCatalog, activeWorkspace, mode, learningMode, pendingDangerousCommand, outputFormat, inTransaction, connectAs, namedSnapshots, dialect, currentUser, delimiter, pager, showWarnings, forceMode, nlSettings]);
+
+  // Typos are fixed and dangerous commands wait for "yes" before anything runs
+  const checkAndRunSQL = (sql: string, vertical = false) => {
+    let sqlToExecute = sql;
 
     // AI Processing
     if (aiEnabled) {
-      // Try to convert Vietnamese to SQL
-      const convertedSQL = convertVietnameseToSQL(trimmedSQL);
-      if (convertedSQL) {
-        sqlToExecute = convertedSQL;
-        addEntry('ai', `🔄 Chuyển đổi tiếng Việt → SQL:\n   ${convertedSQL}`);
-      }
-
       // Fix typos
       const { fixed, corrections } = fixSQLTypos(sqlToExecute);
       if (corrections.length > 0) {
@@ -467,7 +644,7 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
       // Check dangerous commands
       const dangerous = checkDangerousCommand(sqlToExecute);
       if (dangerous) {
-        addEntry('warning', dangerous.warning);
+        addEntry('warning', `${dangerous.warning}\n${getRollbackHint(sqlToExecute)}`);
         if (dangerous.level === 'high') {
           setPendingDangerousCommand(sqlToExecute);
           addEntry('warning', '⚡ Gõ "yes" để xác nhận thực thi hoặc "no" để hủy');
@@ -476,38 +653,168 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
       }
     }
 
-    runSQL(sqlToExecute);
-  }, [aiEnabled, addEntry, resetDB, mode, learningMode, pendingDangerousCommand]);
+    runSQL(sqlToExecute, vertical);
+  };
+
+  // SQL written by a model is shown and waits for "yes"; when the model fails, times out
+  // or gives up, the built-in patterns (which need no server) get a try
+  const translateRequest = async (request: string) => {
+    const provider = nlProvider(nlSettings);
+    let sql: string | null = null;
+    if (provider.confirm) addEntry('ai', `🧠 Đang hỏi ${provider.label}...`);
+    try {
+      sql = await provider.translate(request, { schema: readCatalog(), dialect, database: activeWorkspace });
+      if (!sql && provider !== patternProvider) addEntry('warning', `⚠️ ${provider.label} không viết được SQL cho yêu cầu này.`);
+    } catch (err) {
+      addEntry('warning', `⚠️ ${(err as Error).message}`);
+    }
+
+    const modelSQL = sql;
+    if (!sql && provider !== patternProvider) {
+      sql = translateWithPatterns(request);
+      if (sql) addEntry('info', '↩️ Dùng mẫu câu có sẵn thay thế.');
+    }
+    if (!sql) {
+      addEntry('error', `❌ Chưa hiểu yêu cầu "${request}". Thử: lấy tất cả từ students, đếm students, tìm name trong students với age > 20${provider.confirm ? '' : ' — hoặc kết nối một model ngôn ngữ trong ⚙️'}`);
+      return;
+    }
 
-  const runSQL = (sql: string) => {
-    const result = executeSQL(sql);
+    addEntry('ai', `🔄 Chuyển đổi tiếng Việt → SQL:\n   ${sql}`);
+    if (!modelSQL) {
+      checkAndRunSQL(sql);
+      return;
+    }
+    const dangerous = checkDangerousCommand(sql);
+    if (dangerous) addEntry('warning', `${dangerous.warning}\n${getRollbackHint(sql)}`);
+    setPendingDangerousCommand(sql);
+    addEntry('warning', '⚡ Gõ "yes" để chạy, "edit" để sửa trước khi chạy, hoặc "no" để hủy');
+  };
+
+  const updateNlSettings = (changes: Partial<NlSettings>) => {
+    const next = { ...nlSettings, ...changes };
+    setNlSettings(next);
+    saveNlSettings(next);
+  };
+
+  // Client commands: settings of this terminal, never sent to the server
+  const runClientCommand = (command: ClientCommand) => {
+    switch (command.type) {
+      case 'status':
+        addEntry('info', statusText({
+          database: activeWorkspace,
+          user: currentUser,
+          delimiter,
+          pager,
+          outfile: teeRef.current?.file ?? null,
+          tables: readCatalog().tables.length,
+          questions: questions.current,
+          uptimeSeconds: Math.round((Date.now() - connectedAt.current) / 1000),
+        }));
+        break;
+      case 'delimiter':
+        if (!command.delimiter || command.delimiter.includes('\\')) {
+          addEntry('error', 'DELIMITER must be followed by a \'delimiter\' character or string');
+        } else {
+          setDelimiter(command.delimiter);
+          if (command.delimiter !== ';') {
+            addEntry('info', `💡 Từ giờ lệnh kết thúc bằng ${command.delimiter}, nên ; bên trong BEGIN ... END không làm lệnh chạy sớm. Gõ DELIMITER ; để quay lại.`);
+          }
+        }
+        break;
+      case 'tee': {
+        const file = command.file ?? lastTeeFile.current;
+        if (!file) {
+          addEntry('error', 'No outfile specified!');
+          break;
+        }
+        lastTeeFile.current = file;
+        if (teeRef.current?.file !== file) teeRef.current = { file, lines: [] };
+        addEntry('info', `Logging to file '${file}'\n💡 Trình duyệt không ghi thẳng ra đĩa được: gõ notee để tải file về.`);
+        break;
+      }
+      case 'notee': {
+        const tee = teeRef.current;
+        teeRef.current = null;
+        if (tee) downloadTextFile(tee.file, tee.lines.join('\n') + '\n');
+        addEntry('info', 'Outfile disabled.');
+        break;
+      }
+      case 'pager':
+        if (!command.command) {
+          setPager('less');
+          addEntry('info', "PAGER set to 'less'");
+        } else if (pagerFilter(command.command)) {
+          setPager(command.command);
+          addEntry('info', `PAGER set to '${command.command}'`);
+        } else {
+          addEntry('error', `❌ Không chạy được pager '${command.command}' trong trình duyệt. Dùng: less, more, cat, grep [-i] [-v], head [-n N], tail [-n N], sort [-n] [-r], wc -l (nối bằng |)`);
+        }
+        break;
+      case 'nopager':
+        setPager(null);
+        addEntry('info', 'PAGER set to stdout');
+        break;
+      case 'warnings':
+        setShowWarnings(command.enabled);
+        addEntry('info', command.enabled ? 'Show warnings enabled.' : 'Show warnings disabled.');
+        break;
+      case 'source':
+        // Trình duyệt không đọc được đường dẫn, nên `source file.sql` mở hộp chọn file
+        addEntry('info', `📂 Chọn file ${command.file ?? '.sql'} để chạy...`);
+        sourceInputRef.current?.click();
+        break;
+    }
+  };
+
+  // Whether the statement succeeded, so a script knows when to stop
+  const runSQL = async (sql: string, vertical = false): Promise<boolean> => {
+    questions.current++;
+    const { result, diff } = await runWithDiff(sql, dialect, readCatalog, runQuery);
+    const warnings = result.warnings ?? [];
 
     if (result.error) {
-      addEntry('error', `ERROR: ${result.error}`);
+      // Server errors already come in the selected database's wording
+      addEntry('error', isDialectError(result.error) ? result.error : `ERROR: ${result.error}`);
       
       // AI error explanation
       if (aiEnabled) {
-        const errorHelp = getErrorHelp(result.error);
+        const errorHelp = getErrorHelp(result.error, sql);
         if (errorHelp) {
           addEntry('ai', errorHelp);
         }
       }
+      return false;
     } else {
       // Show explanation
       if (aiEnabled) {
-        const explanation = explainSQL(sql);
+        const explanation = explainSQL(sql, mode, dialect).parts.map(part => part.explanation).join('\n');
         if (explanation) {
           addEntry('ai', `📝 Giải thích:\n${explanation}`);
         }
       }
 
-      // Show result
+      // Show result: \G, then \o, then the table; the pager filters whichever text is printed
       if (result.columns.length > 0 && result.rows.length > 0) {
-        addEntry('result', `${result.rows.length} row(s) in set (${result.executionTime}ms)`, {
-          table: { columns: result.columns, rows: result.rows },
-        });
+        const status = rowsStatus(dialect, result.rows.length, result.executionTime, warnings.length);
+        const text = vertical
+          ? verticalText(result)
+          : outputFormat
+            ? formatResult(result, outputFormat, guessTableName(sql))
+            : pager ? tableText(result) : null;
+        if (text === null) {
+          addEntry('result', status, { table: { columns: result.columns, rows: result.rows }, sql });
+        } else {
+          addEntry('result', status, { output: pager ? pagerFilter(pager)!(text) : text });
+        }
+      } else if (result.columns.length > 0) {
+        addEntry('info', rowsStatus(dialect, 0, result.executionTime, warnings.length));
+      } else if (result.message) {
+        addEntry('info', result.message);
       } else {
-        addEntry('info', `Query OK, ${result.affectedRows || 0} row(s) affected (${result.executionTime}ms)`);
+        addEntry('info', commandStatus(dialect, sql, result.affectedRows || 0, result.executionTime, warnings.length), diff ? { diff } : undefined);
+      }
+      if (showWarnings && warnings.length > 0) {
+        addEntry('warning', warnings.map(formatWarning).join('\n'));
       }
 
       // Learning mode: show optimization tips
@@ -517,11 +824,193 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
           addEntry('ai', `📚 Gợi ý tối ưu:\n${tips.join('\n')}`);
         }
       }
+      return true;
+    }
+  };
+
+  // One statement after another, each with its own result and timing; the first error
+  // stops the rest unless force is on. DELIMITER lines in the script stay in effect after it.
+  const runStatements = async (script: SplitResult) => {
+    const { statements } = script;
+    if (script.delimiter !== delimiter) setDelimiter(script.delimiter);
+
+    let failed = 0;
+    for (const [i, statement] of statements.entries()) {
+      const vertical = /\\G$/.test(statement.sql);
+      const sql = statement.sql.replace(/\\[gG]$/, '').trimEnd();
+      const firstLine = sql.split('\n')[0];
+      addEntry('info', `▶ [${i + 1}/${statements.length}] ${firstLine.length > 80 ? `${firstLine.slice(0, 80)}…` : firstLine}`);
+      if (await runSQL(sql, vertical)) continue;
+
+      failed++;
+      if (!forceMode && i < statements.length - 1) {
+        addEntry('info', `⏹ Dừng ở câu lệnh ${i + 1}/${statements.length} (dòng ${statement.line}), ${statements.length - i - 1} câu sau chưa chạy. Gõ "force on" để bỏ qua lỗi và chạy tiếp.`);
+        return;
+      }
+    }
+    if (failed === 0) addEntry('info', `✅ Đã chạy ${statements.length} câu lệnh`);
+    else if (forceMode) addEntry('warning', `⚠️ Đã chạy ${statements.length} câu lệnh, ${failed} câu bị lỗi (force on)`);
+  };
+
+  const previewSQL = async (sql: string) => {
+    const preview = await previewWithDiff(sql, dialect, readCatalog, runQuery);
+    if (!preview) {
+      addEntry('error', '❌ preview chỉ dùng cho UPDATE hoặc DELETE. Ví dụ: preview DELETE FROM students WHERE age < 18;');
+    } else if (preview.error) {
+      addEntry('error', isDialectError(preview.error) ? preview.error : `ERROR: ${preview.error}`);
+    } else if (preview.diff) {
+      addEntry('info', `👁️ ${preview.diff.changes.length} dòng sẽ bị ảnh hưởng. Bỏ chữ "preview" để thực thi thật.`, { diff: preview.diff });
+    }
+  };
+
+  const runSourceFile = async (file: File) => {
+    const text = await file.text();
+    addEntry('info', `📥 source ${file.name}`);
+    const summary = runAsStep(`source ${file.name}`, () => runScript(text, executeSQL, (_sql, result) => {
+      if (!result.error && result.columns.length > 0) {
+        addEntry('result', rowsStatus(dialect, result.rows.length, result.executionTime), {
+          table: { columns: result.columns, rows: result.rows },
+        });
+      }
+    }));
+
+    if (summary.failed) {
+      addEntry('error', `ERROR at line ${summary.failed.line} in file: '${file.name}': ${summary.failed.message}`);
+      addEntry('info', `Đã chạy ${summary.executed} câu lệnh trước khi gặp lỗi.`);
+    } else {
+      addEntry('info', `✅ Đã chạy ${summary.executed} câu lệnh từ ${file.name}`);
+    }
+  };
+
+  // Tab completes like the mysql client's readline: the whole word when only one fits,
+  // as much as all candidates share otherwise, and a second Tab lists them
+  const completeAtCursor = (cursor: number) => {
+    const previousLines = buffer.length > 0 ? buffer.join('\n') + '\n' : '';
+    const completion = completeSQL(
+      previousLines + currentLine,
+      previousLines.length + cursor,
+      readCatalog(),
+      dialect,
+      workspaces.map(w => w.name),
+    );
+    if (!completion || completion.candidates.length === 0) return;
+
+    const head = currentLine.slice(0, completion.start - previousLines.length);
+    const tail = currentLine.slice(cursor);
+    const { candidates, prefix } = completion;
+    let insert = '';
+    if (candidates.length === 1) {
+      insert = candidates[0] + (tail.startsWith(' ') ? '' : ' ');
+    } else if (commonPrefix(candidates).length > prefix.length) {
+      insert = commonPrefix(candidates);
+    } else if (lastTab.current === currentLine) {
+      addEntry('info', formatCandidates(candidates));
+      return;
+    }
+
+    const line = insert ? head + insert + tail : currentLine;
+    lastTab.current = line;
+    if (insert) {
+      setCurrentLine(line);
+      const caret = head.length + insert.length;
+      requestAnimationFrame(() => inputRef.current?.setSelectionRange(caret, caret));
+    }
+  };
+
+  // Put a command back into the input; a multi-line one fills the buffer again line by line
+  const loadInput = (text: string) => {
+    const lines = text.split('\n');
+    setBuffer(lines.slice(0, -1));
+    setCurrentLine(lines[lines.length - 1]);
+    setIsMultiLine(lines.length > 1);
+  };
+
+  // ↑ / ↓ step through history; index -1 is whatever was being typed before
+  const recallHistory = (index: number) => {
+    if (historyIndex === -1 && index !== -1) draft.current = [...buffer, currentLine].join('\n');
+    setHistoryIndex(index);
+    loadInput(index === -1 ? draft.current : commandHistory.commands[index]);
+  };
+
+  // history lists, !n recalls into the input so the command can be checked before it runs
+  const runHistoryCommand = (command: HistoryCommand) => {
+    if (command.type === 'list') {
+      addEntry('info', commandHistory.commands.length > 0 ? historyText(commandHistory, command.count) : '📭 Database này chưa có lệnh nào trong lịch sử.');
+      return;
+    }
+    const entry = findHistoryEntry(commandHistory, command.reference);
+    if (entry === null) {
+      addEntry('error', `!${command.reference}: event not found`);
+      return;
+    }
+    setHistoryIndex(-1);
+    loadInput(entry);
+  };
+
+  // Echo the lines with their prompts, then run them
+  const submitInput = (lines: string[]) => {
+    lines.forEach((line, idx) => {
+      if (line || idx === 0) {
+        addEntry(idx === 0 ? 'input' : 'continuation', line, { prompt: getPrompt(idx === 0) });
+      }
+    });
+    setBuffer([]);
+    setCurrentLine('');
+    setIsMultiLine(false);
+
+    const historyCommand = lines.length === 1 ? parseHistoryCommand(lines[0]) : null;
+    if (historyCommand) runHistoryCommand(historyCommand);
+    else executeCommand(lines.join('\n').trim());
+  };
+
+  // Keys while Ctrl+R is searching: typing narrows, Ctrl+R goes further back, Enter runs the match
+  const handleSearchKey = (e: React.KeyboardEvent<HTMLTextAreaElement>, { query, index }: NonNullable<typeof search>) => {
+    const find = (text: string, from: number) => {
+      const found = text ? searchHistory(commandHistory.commands, text, from) : -1;
+      setSearch(found >= 0 || !text ? { query: text, index: found, failed: false } : { query: text, index, failed: true });
+    };
+
+    if (e.key === 'r' && e.ctrlKey) {
+      find(query, index + 1);
+    } else if (e.key === 'Escape' || (e.ctrlKey && (e.key === 'g' || e.key === 'c'))) {
+      setSearch(null);
+    } else if (e.key === 'Backspace') {
+      find(query.slice(0, -1), 0);
+    } else if (e.key === 'Enter') {
+      setSearch(null);
+      if (index >= 0 && isQueryRunning) recallHistory(index);
+      else if (index >= 0) submitInput(commandHistory.commands[index].split('\n'));
+    } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey) {
+      find(query + e.key, Math.max(index, 0));
+    } else if (['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'End', 'Tab'].includes(e.key)) {
+      // Take the match into the input to edit it
+      setSearch(null);
+      if (index >= 0) recallHistory(index);
     }
   };
 
   // Handle key press in textarea
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (search) {
+      e.preventDefault();
+      handleSearchKey(e, search);
+      return;
+    }
+
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      completeAtCursor(e.currentTarget.selectionStart);
+      return;
+    }
+    lastTab.current = null;
+
+    // Ctrl+R = reverse-i-search through history
+    if (e.key === 'r' && e.ctrlKey) {
+      e.preventDefault();
+      setSearch({ query: '', index: -1, failed: false });
+      return;
+    }
+
     // Ctrl+L = clear screen
     if (e.key === 'l' && e.ctrlKey) {
       e.preventDefault();
@@ -529,15 +1018,20 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
       return;
     }
 
-    // Ctrl+C = cancel current input
+    // Ctrl+C = kill the running query, otherwise cancel current input
     if (e.key === 'c' && e.ctrlKey) {
       e.preventDefault();
+      if (isQueryRunning) {
+        addEntry('info', '^C -- query aborted');
+        cancelQuery();
+        return;
+      }
       if (buffer.length > 0 || currentLine) {
         // Show cancelled input in history
         const cancelledLines = [...buffer, currentLine].filter(l => l);
         if (cancelledLines.length > 0) {
           cancelledLines.forEach((line, idx) => {
-            addEntry(idx === 0 ? 'input' : 'continuation', line);
+            addEntry(idx === 0 ? 'input' : 'continuation', line, { prompt: getPrompt(idx === 0) });
           });
         }
         addEntry('info', '^C');
@@ -545,77 +1039,54 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
       setBuffer([]);
       setCurrentLine('');
       setIsMultiLine(false);
+      setHistoryIndex(-1);
       return;
     }
 
     // Ctrl+Enter = execute immediately
     if (e.key === 'Enter' && e.ctrlKey) {
       e.preventDefault();
-      const fullCommand = [...buffer, currentLine].join('\n').trim();
-      if (fullCommand) {
-        // Display all lines in history
-        const allLines = [...buffer, currentLine];
-        allLines.forEach((line, idx) => {
-          if (line || idx === 0) {
-            addEntry(idx === 0 ? 'input' : 'continuation', line);
-          }
-        });
-        
-        // Execute
-        executeCommand(fullCommand);
-        setBuffer([]);
-        setCurrentLine('');
-        setIsMultiLine(false);
-      }
+      if (isQueryRunning) return;
+      if ([...buffer, currentLine].join('\n').trim()) submitInput([...buffer, currentLine]);
       return;
     }
 
-    // Arrow Up = previous command in history (only when buffer is empty)
-    if (e.key === 'ArrowUp' && buffer.length === 0 && currentLine === '') {
+    // Arrow Up = previous command in history, also halfway through a multi-line statement:
+    // the whole statement is swapped for the recalled one and ↓ brings it back
+    if (e.key === 'ArrowUp' && (currentLine === '' || historyIndex >= 0)) {
       e.preventDefault();
-      if (historyIndex < commandHistory.length - 1) {
-        const newIndex = historyIndex + 1;
-        setHistoryIndex(newIndex);
-        setCurrentLine(commandHistory[newIndex]);
-      }
+      if (historyIndex < commandHistory.commands.length - 1) recallHistory(historyIndex + 1);
       return;
     }
 
     // Arrow Down = next command in history
-    if (e.key === 'ArrowDown' && buffer.length === 0) {
+    if (e.key === 'ArrowDown' && historyIndex >= 0) {
       e.preventDefault();
-      if (historyIndex > 0) {
-        const newIndex = historyIndex - 1;
-        setHistoryIndex(newIndex);
-        setCurrentLine(commandHistory[newIndex]);
-      } else if (historyIndex === 0) {
-        setHistoryIndex(-1);
-        setCurrentLine('');
-      }
+      recallHistory(historyIndex - 1);
       return;
     }
 
     // Enter = new line OR execute if ends with ;
     if (e.key === 'Enter' && !e.shiftKey && !e.ctrlKey) {
       e.preventDefault();
+      if (isQueryRunning) return;
       
       const fullCommand = [...buffer, currentLine].join('\n');
-      
-      // Check if command is complete
-      if (isCommandComplete(fullCommand)) {
-        // Display all lines in history
-        const allLines = [...buffer, currentLine];
-        allLines.forEach((line, idx) => {
-          if (line || idx === 0) {
-            addEntry(idx === 0 ? 'input' : 'continuation', line);
-          }
+
+      // \c = drop the statement silently, like the real client
+      if (clearsBuffer(fullCommand)) {
+        [...buffer, currentLine].forEach((line, idx) => {
+          addEntry(idx === 0 ? 'input' : 'continuation', line, { prompt: getPrompt(idx === 0) });
         });
-        
-        // Execute the command
-        executeCommand(fullCommand.trim());
         setBuffer([]);
         setCurrentLine('');
         setIsMultiLine(false);
+        return;
+      }
+      
+      // Check if command is complete
+      if (isCommandComplete(fullCommand)) {
+        submitInput([...buffer, currentLine]);
       } else {
         // Command not complete, continue on new line
         setBuffer(prev => [...prev, currentLine]);
@@ -628,22 +1099,16 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
 
   // Render table (giống MySQL CLI)
   const renderTable = (table: { columns: string[]; rows: (string | number | null)[][] }) => {
-    const colWidths = table.columns.map((col, i) => {
-      const maxDataWidth = Math.max(...table.rows.map(row => String(row[i] ?? 'NULL').length));
-      return Math.max(col.length, maxDataWidth, 4);
-    });
-
-    const separator = '+' + colWidths.map(w => '-'.repeat(w + 2)).join('+') + '+';
-    const header = '|' + table.columns.map((col, i) => ` ${col.padEnd(colWidths[i])} `).join('|') + '|';
+    const { separator, header, rows } = asciiTable(table);
 
     return (
       <div className="font-mono text-xs sm:text-sm overflow-x-auto whitespace-pre">
         <div className="text-cyan-400">{separator}</div>
         <div className="text-yellow-400 font-bold">{header}</div>
         <div className="text-cyan-400">{separator}</div>
-        {table.rows.slice(0, 25).map((row, rowIndex) => (
+        {rows.slice(0, 25).map((row, rowIndex) => (
           <div key={rowIndex} className="text-green-300">
-            |{row.map((cell, i) => ` ${String(cell ?? 'NULL').padEnd(colWidths[i])} `).join('|')}|
+            {row}
           </div>
         ))}
         <div className="text-cyan-400">{separator}</div>
@@ -655,8 +1120,9 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
   };
 
   // Get prompt string
+  // The * marks an open transaction so uncommitted work is visible at a glance
   const getPrompt = (isFirstLine: boolean) => {
-    return isFirstLine ? 'mysql> ' : '    -> ';
+    return dialectPrompt(dialect, inTransaction, isFirstLine);
   };
 
   return (
@@ -670,11 +1136,18 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
             <div className="w-3 h-3 rounded-full bg-green-500 shadow-lg shadow-green-500/50" />
           </div>
           <span className="text-gray-300 text-sm font-mono font-medium">
-            🐬 MySQL 8.0 Command Line Client — AI Enhanced
+            {dialectInfo(dialect).icon} {dialectInfo(dialect).client} — AI Enhanced
           </span>
+          {currentUser !== 'root' && (
+            <span className="px-2 py-0.5 rounded bg-purple-600/30 text-purple-300 text-xs font-mono">
+              👤 {currentUser}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
+          <DialectSelector className="bg-gray-700 text-gray-200 text-xs" />
+
           {/* AI Toggle */}
           <button
             onClick={() => setAiEnabled(!aiEnabled)}
@@ -724,7 +1197,73 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
               <span className="flex items-center gap-1"><kbd className="px-1.5 py-0.5 bg-gray-700 rounded">;</kbd> Thực thi</span>
               <span className="flex items-center gap-1"><kbd className="px-1.5 py-0.5 bg-gray-700 rounded">Ctrl+Enter</kbd> Chạy ngay</span>
               <span className="flex items-center gap-1"><kbd className="px-1.5 py-0.5 bg-gray-700 rounded">↑↓</kbd> Lịch sử</span>
+              <span className="flex items-center gap-1"><kbd className="px-1.5 py-0.5 bg-gray-700 rounded">Ctrl+R</kbd> Tìm lệnh cũ</span>
+              <span className="flex items-center gap-1"><kbd className="px-1.5 py-0.5 bg-gray-700 rounded">Tab</kbd> Gợi ý tên bảng/cột</span>
             </div>
+            <label className="flex items-center gap-2">
+              <span className="text-gray-400">Giới hạn thời gian:</span>
+              <select
+                value={queryTimeout}
+                onChange={(e) => setQueryTimeout(Number(e.target.value))}
+                className="bg-gray-700 text-gray-200 rounded px-2 py-0.5 text-xs outline-none"
+              >
+                {[5, 10, 30, 60].map(sec => (
+                  <option key={sec} value={sec * 1000}>{sec} giây</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-gray-400">Tiếng Việt → SQL:</span>
+              <select
+                value={nlSettings.provider}
+                onChange={(e) => updateNlSettings({ provider: e.target.value as NlSettings['provider'] })}
+                className="bg-gray-700 text-gray-200 rounded px-2 py-0.5 text-xs outline-none"
+              >
+                <option value="patterns">Mẫu câu có sẵn (offline)</option>
+                <option value="openai">Model qua API tương thích OpenAI</option>
+              </select>
+            </label>
+            {nlSettings.provider === 'openai' && (
+              <div className="flex flex-wrap items-center gap-2 text-xs w-full">
+                <input
+                  value={nlSettings.url}
+                  onChange={(e) => updateNlSettings({ url: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  title="Ollama: http://localhost:11434/v1 • llama.cpp server: http://localhost:8080/v1"
+                  className="bg-gray-700 text-gray-200 rounded px-2 py-1 outline-none font-mono flex-1 min-w-[220px]"
+                />
+                <input
+                  value={nlSettings.model}
+                  onChange={(e) => updateNlSettings({ model: e.target.value })}
+                  placeholder="model"
+                  className="bg-gray-700 text-gray-200 rounded px-2 py-1 outline-none font-mono w-40"
+                />
+                <input
+                  type="password"
+                  value={nlSettings.apiKey}
+                  onChange={(e) => updateNlSettings({ apiKey: e.target.value })}
+                  placeholder="API key (nếu cần)"
+                  title="Lưu trong trình duyệt này"
+                  className="bg-gray-700 text-gray-200 rounded px-2 py-1 outline-none font-mono w-36"
+                />
+                <select
+                  value={nlSettings.timeout}
+                  onChange={(e) => updateNlSettings({ timeout: Number(e.target.value) })}
+                  className="bg-gray-700 text-gray-200 rounded px-2 py-1 outline-none"
+                >
+                  {[10, 30, 60, 120].map(sec => (
+                    <option key={sec} value={sec * 1000}>chờ tối đa {sec} giây</option>
+                  ))}
+                </select>
+                <span className="text-gray-500 w-full">
+                  💡 Ollama cần OLLAMA_ORIGINS=* để trình duyệt gọi được. Lỗi hoặc quá giờ thì dùng lại mẫu câu có sẵn.
+                </span>
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-gray-400">
+              <input type="checkbox" checked={forceMode} onChange={(e) => setForceMode(e.target.checked)} className="accent-green-500" />
+              Chạy tiếp khi có lệnh lỗi (--force)
+            </label>
           </div>
         </div>
       )}
@@ -734,7 +1273,7 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
         <div className="bg-yellow-900/30 border-b border-yellow-700/50 px-4 py-2 flex items-center gap-2">
           <span className="text-yellow-400 text-xs animate-pulse">⏳</span>
           <span className="text-yellow-300 text-xs">
-            Lệnh chưa kết thúc, tiếp tục nhập... (kết thúc bằng <kbd className="px-1 py-0.5 bg-yellow-800 rounded text-yellow-200">;</kbd> hoặc <kbd className="px-1 py-0.5 bg-yellow-800 rounded text-yellow-200">Ctrl+Enter</kbd>)
+            Lệnh chưa kết thúc, tiếp tục nhập... (kết thúc bằng <kbd className="px-1 py-0.5 bg-yellow-800 rounded text-yellow-200">{delimiter}</kbd>, <kbd className="px-1 py-0.5 bg-yellow-800 rounded text-yellow-200">\G</kbd> hoặc <kbd className="px-1 py-0.5 bg-yellow-800 rounded text-yellow-200">Ctrl+Enter</kbd>)
           </span>
         </div>
       )}
@@ -744,20 +1283,37 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
         ref={terminalRef}
         className="p-4 h-[500px] overflow-y-auto font-mono text-sm bg-black cursor-text"
         onClick={() => inputRef.current?.focus()}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          const file = e.dataTransfer.files[0];
+          if (file) runSourceFile(file);
+        }}
       >
+        <input
+          ref={sourceInputRef}
+          type="file"
+          accept=".sql,text/plain"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) runSourceFile(file);
+            e.target.value = '';
+          }}
+        />
         {/* History */}
         {history.map(entry => (
           <div key={entry.id} className="mb-1">
             {entry.type === 'input' && (
               <div className="flex">
-                <span className="text-green-500 select-none">mysql&gt; </span>
+                <span className="text-green-500 select-none whitespace-pre">{entry.prompt ?? 'mysql> '}</span>
                 <span className="text-white">{entry.content}</span>
               </div>
             )}
             
             {entry.type === 'continuation' && (
               <div className="flex">
-                <span className="text-green-500 select-none">    -&gt; </span>
+                <span className="text-green-500 select-none whitespace-pre">{entry.prompt ?? '    -> '}</span>
                 <span className="text-white">{entry.content}</span>
               </div>
             )}
@@ -765,7 +1321,13 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
             {entry.type === 'result' && (
               <div className="my-2">
                 {entry.table && renderTable(entry.table)}
+                {entry.output && <pre className="text-gray-200 whitespace-pre-wrap">{entry.output}</pre>}
                 <div className="text-green-400 mt-1">{entry.content}</div>
+                {entry.table && (
+                  <div className="mt-1 opacity-50 hover:opacity-100 transition-opacity">
+                    <ResultExport result={entry.table} sql={entry.sql} isDark />
+                  </div>
+                )}
               </div>
             )}
             
@@ -774,13 +1336,16 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
             )}
             
             {entry.type === 'warning' && (
-              <div className="text-yellow-400 bg-yellow-900/20 px-3 py-2 rounded my-1 border-l-2 border-yellow-500">
+              <div className="text-yellow-400 bg-yellow-900/20 px-3 py-2 rounded my-1 border-l-2 border-yellow-500 whitespace-pre-wrap">
                 {entry.content}
               </div>
             )}
             
             {entry.type === 'info' && (
-              <div className="text-cyan-400 whitespace-pre-wrap py-1">{entry.content}</div>
+              <div className="text-cyan-400 whitespace-pre-wrap py-1">
+                {entry.content}
+                {entry.diff && <div className="mt-2 font-sans"><DataDiff diff={entry.diff} isDark /></div>}
+              </div>
             )}
             
             {entry.type === 'ai' && (
@@ -792,22 +1357,29 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
         ))}
 
         {/* Buffer lines (multi-line input in progress) */}
-        {buffer.map((line, idx) => (
+        {!search && buffer.map((line, idx) => (
           <div key={`buffer-${idx}`} className="flex">
             <span className="text-green-500 select-none">{getPrompt(idx === 0)}</span>
             <span className="text-white">{line}</span>
           </div>
         ))}
 
+        {isQueryRunning && (
+          <div className="text-yellow-400 py-1 animate-pulse">⏳ Query running… (Ctrl+C để hủy)</div>
+        )}
+
         {/* Current Input Line */}
         <div className="flex items-start">
           <span className="text-green-500 select-none shrink-0">
-            {getPrompt(buffer.length === 0)}
+            {search
+              ? `(${search.failed ? 'failed ' : ''}reverse-i-search)\`${search.query}': `
+              : getPrompt(buffer.length === 0)}
           </span>
           <textarea
             ref={inputRef}
-            value={currentLine}
+            value={search ? (search.index >= 0 ? commandHistory.commands[search.index].replace(/\n/g, ' ') : '') : currentLine}
             onChange={(e) => setCurrentLine(e.target.value)}
+            readOnly={!!search}
             onKeyDown={handleKeyDown}
             className="flex-1 bg-transparent text-white outline-none resize-none overflow-hidden caret-green-500"
             style={{ 
@@ -834,12 +1406,7 @@ ${tableInfo[tableName.toLowerCase()].map(col => `  ${col}`).join('\n')}
             <button
               key={i}
               onClick={() => {
-                setCurrentLine(example.includes('\n') ? example.split('\n')[0] : example);
-                if (example.includes('\n')) {
-                  const lines = example.split('\n');
-                  setBuffer([]);
-                  setCurrentLine(lines.join('\n'));
-                }
+                loadInput(example);
                 inputRef.current?.focus();
               }}
               className="px-3 py-1.5 text-xs rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white transition-colors whitespace-nowrap shrink-0"
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { SQLCategory, SQLCommand } from '../data/sqlCategories';
 import { CodeRunner } from './CodeRunner';
 import { SQLHighlighter } from './SQLHighlighter';
+import { TableDesigner } from './TableDesigner';
 import { useTextToSpeech } from '../hooks/useTextToSpeech';
 
 interface CategorySectionProps {
@@ -22,6 +23,7 @@ export function CategorySection({
   const [selectedCommand, setSelectedCommand] = useState<SQLCommand | null>(null);
   const [activeTab, setActiveTab] = useState<'learn' | 'practice'>('learn');
   const [showCodeRunner, setShowCodeRunner] = useState(false);
+  const [showDesigner, setShowDesigner] = useState(false);
   
   const { speak, isSpeaking, stop } = useTextToSpeech();
 
@@ -105,6 +107,28 @@ export function CategorySection({
         })}
       </div>
 
+      {/* Visual table designer (DDL only) */}
+      {category.id === 'ddl' && (
+        <div className={`rounded-2xl ${bgClass} shadow-xl border ${borderClass}`}>
+          <button
+            onClick={() => setShowDesigner(!showDesigner)}
+            className="w-full p-4 flex items-center gap-3 text-left"
+          >
+            <span className="text-2xl">🧩</span>
+            <div className="flex-1">
+              <div className={`font-semibold ${textClass}`}>Thiết kế bảng trực quan</div>
+              <div className={`text-sm ${mutedClass}`}>Chọn cột, kiểu dữ liệu, khóa... và xem câu CREATE / ALTER TABLE được tạo ra</div>
+            </div>
+            <span className={mutedClass}>{showDesigner ? '🔼' : '🔽'}</span>
+          </button>
+          {showDesigner && (
+            <div className={`p-4 border-t ${borderClass}`}>
+              <TableDesigner isDark={isDark} mode={mode} />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Selected Command Detail */}
       {selectedCommand && (
         <div className={`rounded-2xl ${bgClass} shadow-xl overflow-hidden border ${borderClass}`}>
@@ -1,6 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
-import { useSQLEngine } from '../hooks/useSQLEngine';
+import { useDatabase } from '../hooks/useDatabase';
 import { useTextToSpeech } from '../hooks/useTextToSpeech';
+import { ResultExport } from './ResultExport';
+import { DialectSelector } from './DialectSelector';
+import { DataDiff } from './DataDiff';
+import { summarizeSQL } from '../utils/sqlExplain';
+import { TableDiff, runWithDiff } from '../utils/sqlDiff';
 
 interface CodeRunnerProps {
   code: string;
@@ -14,6 +19,7 @@ interface LineExecution {
   sql: string;
   status: 'pending' | 'running' | 'success' | 'error';
   result?: { columns: string[]; rows: (string | number | null)[][]; error?: string };
+  diff?: TableDiff | null;
   time?: number;
 }
 
@@ -26,7 +32,7 @@ export function CodeRunner({ code, isDark, mode, onLineChange }: CodeRunnerProps
   const [editedCode, setEditedCode] = useState(code);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   
-  const { executeSQL, resetDB } = useSQLEngine();
+  const { runQuery, cancelQuery, isQueryRunning, restoreSampleData, dialect, readCatalog } = useDatabase();
   const { speak, isSpeaking, stop: stopSpeak } = useTextToSpeech();
 
   // Parse code into lines
@@ -51,7 +57,8 @@ export function CodeRunner({ code, isDark, mode, onLineChange }: CodeRunnerProps
 
   // Auto-run effect
   useEffect(() => {
-    if (autoRun && isRunning && currentLine < lines.length - 1) {
+    // Wait for the current statement to finish before scheduling the next one
+    if (autoRun && isRunning && !isQueryRunning && currentLine < lines.length - 1) {
       timerRef.current = setTimeout(() => {
         runNextLine();
       }, speed);
@@ -59,9 +66,9 @@ export function CodeRunner({ code, isDark, mode, onLineChange }: CodeRunnerProps
     return () => {
       if (timerRef.current) clearTimeout(timerRef.current);
     };
-  }, [autoRun, isRunning, currentLine, lines.length, speed]);
+  }, [autoRun, isRunning, isQueryRunning, currentLine, lines.length, speed]);
 
-  const runLine = (index: number) => {
+  const runLine = async (index: number) => {
     if (index >= lines.length) {
       setIsRunning(false);
       return;
@@ -77,7 +84,7 @@ export function CodeRunner({ code, isDark, mode, onLineChange }: CodeRunnerProps
 
     // Execute SQL
     const startTime = performance.now();
-    const result = executeSQL(lines[index].sql);
+    const { result, diff } = await runWithDiff(lines[index].sql, dialect, readCatalog, runQuery);
     const endTime = performance.now();
 
     // Update with result
@@ -86,6 +93,7 @@ export function CodeRunner({ code, isDark, mode, onLineChange }: CodeRunnerProps
         ...l,
         status: result.error ? 'error' : 'success',
         result,
+        diff,
         time: Math.round(endTime - startTime),
       } : l
     ));
@@ -103,9 +111,19 @@ export function CodeRunner({ code, isDark, mode, onLineChange }: CodeRunnerProps
     runLine(currentLine + 1);
   };
 
+  // The lesson starts from the sample tables; the user's own tables are left alone.
+  // A user without DROP on the database runs it on the tables as they are
+  const restoreLessonTables = () => {
+    try {
+      restoreSampleData();
+    } catch {
+      // Each line is still checked against the user's privileges when it runs
+    }
+  };
+
   const runAll = () => {
-    resetDB();
-    setLines(prev => prev.map(l => ({ ...l, status: 'pending', result: undefined })));
+    restoreLessonTables();
+    setLines(prev => prev.map(l => ({ ...l, status: 'pending', result: undefined, diff: undefined })));
     setCurrentLine(-1);
     setIsRunning(true);
     setAutoRun(true);
@@ -114,8 +132,8 @@ export function CodeRunner({ code, isDark, mode, onLineChange }: CodeRunnerProps
 
   const runStep = () => {
     if (currentLine === -1) {
-      resetDB();
-      setLines(prev => prev.map(l => ({ ...l, status: 'pending', result: undefined })));
+      restoreLessonTables();
+      setLines(prev => prev.map(l => ({ ...l, status: 'pending', result: undefined, diff: undefined })));
     }
     setAutoRun(false);
     setIsRunning(true);
@@ -126,32 +144,18 @@ export function CodeRunner({ code, isDark, mode, onLineChange }: CodeRunnerProps
     setAutoRun(false);
     setIsRunning(false);
     if (timerRef.current) clearTimeout(timerRef.current);
+    if (isQueryRunning) cancelQuery();
   };
 
   const resetRun = () => {
     pauseRun();
     stopSpeak();
-    resetDB();
+    restoreLessonTables();
     setCurrentLine(-1);
-    setLines(prev => prev.map(l => ({ ...l, status: 'pending', result: undefined, time: undefined })));
+    setLines(prev => prev.map(l => ({ ...l, status: 'pending', result: undefined, diff: undefined, time: undefined })));
   };
 
-  const getLineExplanation = (sql: string): string => {
-    const upper = sql.toUpperCase();
-    if (upper.startsWith('CREATE DATABASE')) return 'Tạo database mới';
-    if (upper.startsWith('CREATE TABLE')) return 'Tạo bảng mới với các cột';
-    if (upper.startsWith('CREATE INDEX')) return 'Tạo index để tìm kiếm nhanh hơn';
-    if (upper.startsWith('ALTER TABLE')) return 'Thay đổi cấu trúc bảng';
-    if (upper.startsWith('DROP TABLE')) return 'Xóa bảng khỏi database';
-    if (upper.startsWith('TRUNCATE')) return 'Xóa toàn bộ dữ liệu trong bảng';
-    if (upper.startsWith('SELECT')) return 'Truy vấn lấy dữ liệu';
-    if (upper.startsWith('INSERT')) return 'Thêm dữ liệu mới vào bảng';
-    if (upper.startsWith('UPDATE')) return 'Cập nhật dữ liệu trong bảng';
-    if (upper.startsWith('DELETE')) return 'Xóa dữ liệu khỏi bảng';
-    if (upper.startsWith('GRANT')) return 'Cấp quyền cho user';
-    if (upper.startsWith('REVOKE')) return 'Thu hồi quyền của user';
-    return 'Thực thi câu lệnh SQL';
-  };
+  const getLineExplanation = (sql: string): string => summarizeSQL(sql, dialect);
 
   const bgClass = isDark ? 'bg-slate-900' : 'bg-white';
   const borderClass = isDark ? 'border-slate-700' : 'border-slate-200';
@@ -175,6 +179,7 @@ export function CodeRunner({ code, isDark, mode, onLineChange }: CodeRunnerProps
 
           {/* Speed control */}
           <div className="flex items-center gap-2">
+            <DialectSelector />
             <span className="text-white text-sm">Tốc độ:</span>
             <select
               value={speed}
@@ -200,12 +205,12 @@ export function CodeRunner({ code, isDark, mode, onLineChange }: CodeRunnerProps
           </button>
           <button
             onClick={runStep}
-            disabled={currentLine >= lines.length - 1}
+            disabled={currentLine >= lines.length - 1 || isQueryRunning}
             className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50 flex items-center gap-2"
           >
             ⏭️ Từng bước
           </button>
-          {isRunning && autoRun && (
+          {((isRunning && autoRun) || isQueryRunning) && (
             <button
               onClick={pauseRun}
               className="px-4 py-2 bg-yellow-500 hover:bg-yellow-600 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
@@ -294,6 +299,7 @@ export function CodeRunner({ code, isDark, mode, onLineChange }: CodeRunnerProps
                 {/* Explanation */}
                 <p className={`text-xs mt-1 ${mutedClass}`}>
                   {getLineExplanation(line.sql)}
+                  {line.status === 'running' && ' • ⏳ Đang chạy truy vấn… (bấm Tạm dừng để hủy)'}
                 </p>
 
                 {/* Result */}
@@ -332,7 +338,12 @@ export function CodeRunner({ code, isDark, mode, onLineChange }: CodeRunnerProps
                             ... và {line.result.rows.length - 5} hàng nữa
                           </div>
                         )}
+                        <div className={`px-2 py-1 border-t ${isDark ? 'border-slate-700' : 'border-slate-200'}`}>
+                          <ResultExport result={line.result} sql={line.sql} isDark={isDark} />
+                        </div>
                       </div>
+                    ) : line.diff ? (
+                      <DataDiff diff={line.diff} isDark={isDark} />
                     ) : (
                       <span className={`text-xs ${isDark ? 'text-green-400' : 'text-green-600'}`}>
                         ✓ Thành công
@@ -0,0 +1,89 @@
+import { RowChange, TableDiff } from '../utils/sqlDiff';
+
+interface DataDiffProps {
+  diff: TableDiff;
+  isDark: boolean;
+}
+
+const MAX_CHANGES = 50;
+
+const show = (value: unknown) => {
+  if (value === null || value === undefined) return 'NULL';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+};
+
+const markers: Record<RowChange['kind'], string> = { inserted: '+', deleted: '−', updated: '~' };
+
+export function DataDiff({ diff, isDark }: DataDiffProps) {
+  const count = (kind: RowChange['kind']) => diff.changes.filter(c => c.kind === kind).length;
+  const inserted = count('inserted');
+  const deleted = count('deleted');
+  const updated = count('updated');
+
+  const mutedClass = isDark ? 'text-slate-400' : 'text-slate-500';
+  const borderClass = isDark ? 'border-slate-700' : 'border-slate-200';
+
+  const rowClass = (change: RowChange) => {
+    if (change.kind === 'inserted') return isDark ? 'bg-green-900/30 text-green-300' : 'bg-green-50 text-green-800';
+    if (change.kind === 'deleted') return isDark ? 'bg-red-900/30 text-red-300 line-through' : 'bg-red-50 text-red-800 line-through';
+    return isDark ? 'bg-amber-900/20 text-slate-300' : 'bg-amber-50 text-slate-700';
+  };
+
+  return (
+    <div className={`rounded-xl border ${borderClass} overflow-hidden text-sm`}>
+      <div className={`flex flex-wrap items-center gap-2 px-3 py-2 ${isDark ? 'bg-slate-800' : 'bg-slate-50'}`}>
+        <span className={`font-semibold ${isDark ? 'text-white' : 'text-slate-800'}`}>📝 {diff.table}</span>
+        {diff.preview && (
+          <span className="px-2 py-0.5 rounded-full text-xs bg-violet-500/20 text-violet-600 dark:text-violet-300">
+            👁️ Xem trước — chưa thực thi
+          </span>
+        )}
+        {inserted > 0 && <span className="px-2 py-0.5 rounded-full text-xs bg-green-500/20 text-green-600 dark:text-green-400">+{inserted} thêm</span>}
+        {deleted > 0 && <span className="px-2 py-0.5 rounded-full text-xs bg-red-500/20 text-red-600 dark:text-red-400">−{deleted} xóa</span>}
+        {updated > 0 && <span className="px-2 py-0.5 rounded-full text-xs bg-amber-500/20 text-amber-600 dark:text-amber-400">~{updated} sửa</span>}
+        <span className={`text-xs ${mutedClass}`}>{diff.unchanged} dòng không đổi</span>
+      </div>
+
+      {diff.changes.length === 0 ? (
+        <p className={`px-3 py-4 text-center text-xs ${mutedClass}`}>
+          {diff.preview ? '📭 Không có dòng nào thỏa điều kiện, câu lệnh sẽ không thay đổi gì.' : '📭 Không có dòng nào thay đổi.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto max-h-80">
+          <table className="w-full text-xs font-mono">
+            <thead className={isDark ? 'bg-slate-800 text-slate-300' : 'bg-slate-100 text-slate-700'}>
+              <tr>
+                <th className="px-2 py-1.5 w-6"></th>
+                {diff.columns.map(c => <th key={c} className="px-2 py-1.5 text-left whitespace-nowrap">{c}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {diff.changes.slice(0, MAX_CHANGES).map((change, i) => (
+                <tr key={i} className={`border-t ${borderClass} ${rowClass(change)}`}>
+                  <td className="px-2 py-1 font-bold text-center">{markers[change.kind]}</td>
+                  {diff.columns.map(c => (
+                    <td key={c} className="px-2 py-1 whitespace-nowrap">
+                      {change.changed.includes(c) ? (
+                        <>
+                          <span className="line-through text-red-500">{show(change.before?.[c])}</span>
+                          <span className={mutedClass}> → </span>
+                          <span className="font-semibold text-green-600 dark:text-green-400">{show(change.after?.[c])}</span>
+                        </>
+                      ) : (
+                        show((change.after ?? change.before)?.[c])
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {diff.changes.length > MAX_CHANGES && (
+        <p className={`px-3 py-1.5 text-xs ${mutedClass}`}>… và {diff.changes.length - MAX_CHANGES} dòng thay đổi nữa</p>
+      )}
+    </div>
+  );
+}
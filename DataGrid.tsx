@@ -0,0 +1,241 @@
+import { useMemo, useState } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+import { TableDiff, runWithDiff } from '../utils/sqlDiff';
+import { SortDirection, cellText, deleteRowSQL, insertRowSQL, matchingRows, updateCellSQL, visibleRows } from '../utils/sqlGrid';
+import { DataDiff } from './DataDiff';
+import { SQLHighlighter } from './SQLHighlighter';
+
+interface DataGridProps {
+  isDark: boolean;
+  mode: 'easy' | 'technical';
+  table?: string;
+}
+
+const MAX_ROWS = 200;
+
+export function DataGrid({ isDark, mode, table: initialTable }: DataGridProps) {
+  const { readCatalog, catalogVersion, activeWorkspace, runQuery, isQueryRunning, dialect } = useDatabase();
+  const [tableName, setTableName] = useState(initialTable ?? '');
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [sort, setSort] = useState<{ column: string; direction: SortDirection } | null>(null);
+  const [editing, setEditing] = useState<{ row: number; column: string; text: string } | null>(null);
+  const [draft, setDraft] = useState<Record<string, string> | null>(null);
+  // Every edit becomes a statement the student sees before it runs
+  const [pending, setPending] = useState<{ sql: string; label: string; warning?: string } | null>(null);
+  const [last, setLast] = useState<{ sql: string; error?: string; affectedRows: number; diff: TableDiff | null } | null>(null);
+
+  const catalog = useMemo(() => readCatalog(), [readCatalog, catalogVersion, activeWorkspace]);
+  const table = catalog.tables.find(t => t.name.toLowerCase() === tableName.toLowerCase()) ?? catalog.tables[0];
+  const order = useMemo(() => (table ? visibleRows(table, filters, sort) : []), [table, filters, sort]);
+
+  const pickTable = (name: string) => {
+    setTableName(name);
+    setFilters({});
+    setSort(null);
+    setEditing(null);
+    setDraft(null);
+    setPending(null);
+  };
+
+  const toggleSort = (column: string) => {
+    if (sort?.column !== column) setSort({ column, direction: 'asc' });
+    else if (sort.direction === 'asc') setSort({ column, direction: 'desc' });
+    else setSort(null);
+  };
+
+  // Identical rows in a table without a key all change together; say so before it happens
+  const duplicateWarning = (rowIndex: number) => {
+    const count = table ? matchingRows(table, table.rows[rowIndex]) : 1;
+    return count > 1 ? `Bảng không có khóa chính nên WHERE phải so mọi cột — ${count} dòng giống hệt nhau sẽ cùng bị ảnh hưởng.` : undefined;
+  };
+
+  const commitEdit = () => {
+    if (!table || !editing) return;
+    const row = table.rows[editing.row];
+    const column = table.columns.find(c => c.name === editing.column)!;
+    setEditing(null);
+    if (editing.text === cellText(row[column.name])) return;
+    setPending({
+      sql: updateCellSQL(table, row, column, editing.text, dialect),
+      label: `✏️ Sửa ô ${column.name}`,
+      warning: duplicateWarning(editing.row),
+    });
+  };
+
+  const commitDraft = () => {
+    if (!table || !draft) return;
+    const sql = insertRowSQL(table, draft, dialect);
+    if (!sql) return;
+    setDraft(null);
+    setPending({ sql, label: '➕ Thêm dòng' });
+  };
+
+  const runPending = async () => {
+    if (!pending) return;
+    const { result, diff } = await runWithDiff(pending.sql, dialect, readCatalog, runQuery);
+    setLast({ sql: pending.sql, error: result.error, affectedRows: result.affectedRows ?? 0, diff });
+    setPending(null);
+  };
+
+  const textClass = isDark ? 'text-white' : 'text-slate-800';
+  const mutedClass = isDark ? 'text-slate-400' : 'text-slate-500';
+  const borderClass = isDark ? 'border-slate-700' : 'border-slate-200';
+  const inputClass = `w-full px-1.5 py-0.5 rounded border text-xs font-mono ${
+    isDark ? 'bg-slate-800 border-slate-600 text-white' : 'bg-white border-slate-300 text-slate-800'
+  }`;
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm transition-colors ${
+    isDark ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+  }`;
+
+  if (!table) {
+    return <p className={`p-4 border-b ${borderClass} text-sm text-center ${mutedClass}`}>📭 Database chưa có bảng nào.</p>;
+  }
+
+  return (
+    <div className={`p-4 border-b ${borderClass} space-y-3`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className={`font-semibold ${textClass}`}>✏️ Sửa dữ liệu</h3>
+        <select value={table.name} onChange={e => pickTable(e.target.value)} className={`${inputClass} !w-auto !text-sm !py-1`}>
+          {catalog.tables.map(t => (
+            <option key={t.name} value={t.name}>{t.name}</option>
+          ))}
+        </select>
+        <span className={`text-xs ${mutedClass}`}>
+          {order.length}/{table.rows.length} dòng • nháy đúp vào ô để sửa • bấm tên cột để sắp xếp
+        </span>
+        <button onClick={() => setDraft(draft ? null : {})} className={`ml-auto ${buttonClass}`}>
+          {draft ? '✕ Bỏ dòng mới' : '➕ Thêm dòng'}
+        </button>
+      </div>
+
+      <div className={`overflow-auto max-h-[420px] rounded-xl border ${borderClass}`}>
+        <table className="w-full text-xs font-mono">
+          <thead className={`sticky top-0 ${isDark ? 'bg-slate-800 text-slate-300' : 'bg-slate-100 text-slate-700'}`}>
+            <tr>
+              {table.columns.map(col => (
+                <th key={col.name} onClick={() => toggleSort(col.name)} className="px-2 py-1.5 text-left whitespace-nowrap cursor-pointer select-none">
+                  {table.primaryKey.includes(col.name) && '🔑 '}
+                  {col.name}
+                  {sort?.column === col.name && (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                </th>
+              ))}
+              <th className="w-8"></th>
+            </tr>
+            <tr>
+              {table.columns.map(col => (
+                <th key={col.name} className="px-1 pb-1">
+                  <input
+                    value={filters[col.name] ?? ''}
+                    onChange={e => setFilters(f => ({ ...f, [col.name]: e.target.value }))}
+                    placeholder="🔍 lọc"
+                    className={inputClass}
+                  />
+                </th>
+              ))}
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {order.slice(0, MAX_ROWS).map(rowIndex => {
+              const row = table.rows[rowIndex];
+              return (
+                <tr key={rowIndex} className={`border-t ${borderClass} ${isDark ? 'hover:bg-slate-800/60' : 'hover:bg-slate-50'}`}>
+                  {table.columns.map(col => (
+                    <td
+                      key={col.name}
+                      onDoubleClick={() => setEditing({ row: rowIndex, column: col.name, text: cellText(row[col.name]) })}
+                      className={`px-2 py-1 whitespace-nowrap ${isDark ? 'text-slate-300' : 'text-slate-700'}`}
+                    >
+                      {editing?.row === rowIndex && editing.column === col.name ? (
+                        <input
+                          autoFocus
+                          value={editing.text}
+                          onChange={e => setEditing({ ...editing, text: e.target.value })}
+                          onBlur={commitEdit}
+                          onKeyDown={e => {
+                            if (e.key === 'Enter') commitEdit();
+                            if (e.key === 'Escape') setEditing(null);
+                          }}
+                          className={inputClass}
+                        />
+                      ) : row[col.name] === null || row[col.name] === undefined ? (
+                        <span className={`italic ${mutedClass}`}>NULL</span>
+                      ) : (
+                        cellText(row[col.name])
+                      )}
+                    </td>
+                  ))}
+                  <td className="px-1 text-center">
+                    <button
+                      onClick={() => setPending({ sql: deleteRowSQL(table, row, dialect), label: '🗑️ Xóa dòng', warning: duplicateWarning(rowIndex) })}
+                      className="text-red-500 hover:bg-red-500/10 rounded px-1"
+                      title="Xóa dòng"
+                    >
+                      🗑️
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+            {draft && (
+              <tr className={`border-t ${borderClass} ${isDark ? 'bg-green-900/20' : 'bg-green-50'}`}>
+                {table.columns.map(col => (
+                  <td key={col.name} className="px-1 py-1">
+                    <input
+                      value={draft[col.name] ?? ''}
+                      onChange={e => setDraft({ ...draft, [col.name]: e.target.value })}
+                      onKeyDown={e => e.key === 'Enter' && commitDraft()}
+                      placeholder={col.autoIncrement ? 'tự tăng' : col.defaultValue ? `mặc định ${col.defaultValue}` : col.type.toLowerCase()}
+                      className={inputClass}
+                    />
+                  </td>
+                ))}
+                <td className="px-1 text-center">
+                  <button onClick={commitDraft} className="text-green-600 hover:bg-green-500/10 rounded px-1" title="Tạo câu INSERT">
+                    ✔️
+                  </button>
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+        {order.length > MAX_ROWS && <p className={`px-2 py-1.5 text-xs ${mutedClass}`}>… và {order.length - MAX_ROWS} dòng nữa (lọc để thu hẹp)</p>}
+      </div>
+
+      {pending && (
+        <div className={`rounded-xl border-2 border-dashed p-3 space-y-2 ${isDark ? 'border-violet-700' : 'border-violet-300'}`}>
+          <div className={`text-sm font-semibold ${textClass}`}>{pending.label} — câu lệnh tương ứng:</div>
+          <SQLHighlighter sql={pending.sql} mode={mode} />
+          {pending.warning && <p className="text-xs text-amber-600 dark:text-amber-400">⚠️ {pending.warning}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={runPending}
+              disabled={isQueryRunning}
+              className="px-4 py-1.5 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-lg text-sm font-semibold hover:opacity-90 disabled:opacity-50"
+            >
+              ▶ Chạy câu lệnh
+            </button>
+            <button onClick={() => setPending(null)} className={buttonClass}>Hủy</button>
+          </div>
+        </div>
+      )}
+
+      {last && !pending && (
+        <div className="space-y-2">
+          <code className={`block text-xs ${mutedClass}`}>{last.sql}</code>
+          {last.error ? (
+            <div className="p-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">{last.error}</div>
+          ) : last.affectedRows === 0 ? (
+            // The row changed since the grid was read, or its WHERE no longer matches the stored value
+            <p className="text-xs text-amber-600 dark:text-amber-400">⚠️ Câu lệnh chạy xong nhưng không có dòng nào bị ảnh hưởng — dữ liệu không thay đổi.</p>
+          ) : (
+            <>
+              <p className={`text-xs ${mutedClass}`}>✓ {last.affectedRows} dòng bị ảnh hưởng</p>
+              {last.diff && <DataDiff diff={last.diff} isDark={isDark} />}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
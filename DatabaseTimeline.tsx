@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+
+interface DatabaseTimelineProps {
+  isDark: boolean;
+  onChange?: () => void;
+}
+
+export function DatabaseTimeline({ isDark, onChange }: DatabaseTimelineProps) {
+  const {
+    undo,
+    redo,
+    undoTimeline,
+    redoTimeline,
+    namedSnapshots,
+    saveNamedSnapshot,
+    restoreNamedSnapshot,
+    deleteNamedSnapshot,
+  } = useDatabase();
+  const [snapshotName, setSnapshotName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Every action here may refuse (e.g. inside a transaction); show why instead of throwing
+  const attempt = (action: () => void, changesTables = true) => {
+    try {
+      action();
+      setError(null);
+      if (changesTables) onChange?.();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleSave = () => {
+    attempt(() => {
+      saveNamedSnapshot(snapshotName);
+      setSnapshotName('');
+    }, false);
+  };
+
+  const textClass = isDark ? 'text-white' : 'text-slate-800';
+  const mutedClass = isDark ? 'text-slate-400' : 'text-slate-500';
+  const buttonClass = `flex-1 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+    isDark ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+  }`;
+  const stepClass = `w-full text-left px-2 py-1 rounded-md font-mono text-xs truncate transition-colors ${
+    isDark ? 'hover:bg-slate-800' : 'hover:bg-slate-100'
+  }`;
+  const formatTime = (at: number) => new Date(at).toLocaleTimeString('vi-VN');
+
+  return (
+    <div className="mb-4 space-y-2">
+      <h3 className={`font-semibold ${textClass} flex items-center gap-2 text-sm`}>
+        <span>⏪</span> Lịch sử thay đổi
+      </h3>
+
+      <div className="flex gap-2">
+        <button onClick={() => attempt(() => undo())} disabled={undoTimeline.length === 0} className={buttonClass}>
+          ↩️ Undo
+        </button>
+        <button onClick={() => attempt(() => redo())} disabled={redoTimeline.length === 0} className={buttonClass}>
+          ↪️ Redo
+        </button>
+      </div>
+
+      {/* Oldest first; clicking a step moves the tables to just after it */}
+      <div className={`max-h-48 overflow-y-auto rounded-xl border p-1 ${isDark ? 'border-slate-700' : 'border-slate-200'}`}>
+        <button
+          onClick={() => attempt(() => undo(undoTimeline.length))}
+          disabled={undoTimeline.length === 0}
+          className={`${stepClass} ${mutedClass} disabled:cursor-default`}
+        >
+          ○ Ban đầu
+        </button>
+        {undoTimeline.map((entry, index) => {
+          const isCurrent = index === undoTimeline.length - 1;
+          return (
+            <button
+              key={entry.id}
+              onClick={() => attempt(() => undo(undoTimeline.length - 1 - index))}
+              disabled={isCurrent}
+              title={`${entry.label} • ${formatTime(entry.at)}`}
+              className={`${stepClass} ${
+                isCurrent
+                  ? 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 font-semibold'
+                  : textClass
+              }`}
+            >
+              {isCurrent ? '●' : '○'} {entry.label}
+            </button>
+          );
+        })}
+        {/* Undone steps, next one to redo first */}
+        {[...redoTimeline].reverse().map((entry, index) => (
+          <button
+            key={entry.id}
+            onClick={() => attempt(() => redo(index + 1))}
+            title={`${entry.label} • ${formatTime(entry.at)}`}
+            className={`${stepClass} ${mutedClass} line-through opacity-60`}
+          >
+            ○ {entry.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={snapshotName}
+          onChange={(e) => setSnapshotName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Tên snapshot, vd: trước khi DELETE"
+          className={`flex-1 min-w-0 px-2 py-1.5 rounded-lg text-xs border focus:outline-none focus:ring-2 focus:ring-emerald-500 ${
+            isDark ? 'bg-slate-800 text-white border-slate-700' : 'bg-white text-slate-800 border-slate-200'
+          }`}
+        />
+        <button
+          onClick={handleSave}
+          disabled={!snapshotName.trim()}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-emerald-500 hover:bg-emerald-600 text-white transition-colors disabled:opacity-40"
+        >
+          📸 Lưu
+        </button>
+      </div>
+
+      {namedSnapshots.length > 0 && (
+        <div className="space-y-1">
+          {namedSnapshots.map(snapshot => (
+            <div
+              key={snapshot.name}
+              className={`flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs ${isDark ? 'bg-slate-800' : 'bg-slate-50'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className={`truncate font-medium ${textClass}`}>📸 {snapshot.name}</div>
+                <div className={mutedClass}>
+                  {new Date(snapshot.createdAt).toLocaleString('vi-VN')} • {snapshot.snapshot.tables.length} bảng
+                </div>
+              </div>
+              <button
+                onClick={() => attempt(() => restoreNamedSnapshot(snapshot.name))}
+                className="px-2 py-1 rounded-md text-emerald-600 dark:text-emerald-400 hover:bg-emerald-500/10"
+                title="Khôi phục (có thể Undo)"
+              >
+                ⏪
+              </button>
+              <button
+                onClick={() => attempt(() => deleteNamedSnapshot(snapshot.name), false)}
+                className="px-2 py-1 rounded-md text-red-500 hover:bg-red-500/10"
+                title="Xóa snapshot"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="text-xs p-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+          ❌ {error}
+        </div>
+      )}
+    </div>
+  );
+}
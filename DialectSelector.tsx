@@ -0,0 +1,26 @@
+import { useDatabase } from '../hooks/useDatabase';
+import { Dialect, dialects } from '../utils/sqlDialects';
+
+interface DialectSelectorProps {
+  className?: string;
+}
+
+// One switch for the whole app: terminal, sandbox and code runner share the engine
+export function DialectSelector({ className = 'bg-white/20 text-white' }: DialectSelectorProps) {
+  const { dialect, setDialect } = useDatabase();
+
+  return (
+    <select
+      value={dialect}
+      onChange={(e) => setDialect(e.target.value as Dialect)}
+      title="Chọn hệ quản trị CSDL: cú pháp được chấp nhận và thông báo lỗi sẽ theo hệ này"
+      className={`rounded-lg px-2 py-1.5 text-sm font-medium outline-none cursor-pointer ${className}`}
+    >
+      {dialects.map(d => (
+        <option key={d.id} value={d.id} className="text-black">
+          {d.icon} {d.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState, useRef } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+import { buildDump, runScript, downloadTextFile, ScriptSummary } from '../utils/sqlDump';
+
+interface DumpToolsProps {
+  isDark: boolean;
+  onImported?: () => void;
+}
+
+export function DumpTools({ isDark, onImported }: DumpToolsProps) {
+  const { executeSQL, runAsStep, readCatalog, activeWorkspace } = useDatabase();
+  const [isDragging, setIsDragging] = useState(false);
+  const [status, setStatus] = useState<{ fileName: string; summary: ScriptSummary } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    downloadTextFile(`${activeWorkspace}.sql`, buildDump(readCatalog(), activeWorkspace), 'application/sql');
+  };
+
+  const importFile = async (file: File) => {
+    const text = await file.text();
+    const summary = runAsStep(`source ${file.name}`, () => runScript(text, executeSQL));
+    setStatus({ fileName: file.name, summary });
+    onImported?.();
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) importFile(file);
+  };
+
+  const mutedClass = isDark ? 'text-slate-400' : 'text-slate-500';
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+        className={`p-3 rounded-xl border-2 border-dashed text-center cursor-pointer transition-colors ${
+          isDragging
+            ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/30'
+            : isDark ? 'border-slate-700 hover:border-slate-500' : 'border-slate-300 hover:border-slate-400'
+        }`}
+      >
+        <div className="text-2xl">📥</div>
+        <div className={`text-xs ${mutedClass}`}>
+          Kéo thả file <span className="font-mono">.sql</span> vào đây hoặc bấm để chọn
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".sql,text/plain"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <button
+        onClick={handleExport}
+        className={`w-full py-2 rounded-xl text-sm font-medium transition-colors ${
+          isDark ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+        }`}
+      >
+        ⬇️ Tải về {activeWorkspace}.sql
+      </button>
+
+      {status && (
+        <div className={`text-xs p-2 rounded-lg ${
+          status.summary.failed
+            ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400'
+            : 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400'
+        }`}>
+          {status.summary.failed ? (
+            <>
+              ❌ {status.fileName}: lỗi ở dòng {status.summary.failed.line} sau {status.summary.executed} câu lệnh
+              <div className="font-mono mt-1 break-all">{status.summary.failed.message}</div>
+            </>
+          ) : (
+            <>✅ {status.fileName}: đã chạy {status.summary.executed} câu lệnh</>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+import { syntaxErrorPart } from '../utils/sqlExplain';
+import { QueryStage, StageView, buildStageView, planStages } from '../utils/sqlStages';
+import { TablePreview } from './TablePreview';
+
+interface ExecutionOrderProps {
+  sql: string;
+  isDark: boolean;
+}
+
+interface StageResult {
+  view: StageView | null;
+  error?: string;
+}
+
+const PREVIEW_ROWS = 50;
+
+// How the clauses appear on screen, to contrast with how they run
+const WRITTEN_ORDER = ['SELECT', 'DISTINCT', 'FROM', 'JOIN', 'WHERE', 'GROUP BY', 'HAVING', 'ORDER BY', 'LIMIT'];
+
+export function ExecutionOrder({ sql, isDark }: ExecutionOrderProps) {
+  const { runQuery, readCatalog, dialect } = useDatabase();
+  const [stages, setStages] = useState<QueryStage[]>([]);
+  const [results, setResults] = useState<StageResult[]>([]);
+  const [notes, setNotes] = useState<string[]>([]);
+  const [active, setActive] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Results belong to the statement they were run for
+  useEffect(() => {
+    setStages([]);
+    setResults([]);
+    setNotes([]);
+  }, [sql, dialect]);
+
+  const runStages = async () => {
+    const plan = planStages(sql, dialect, readCatalog().tables);
+    if (plan.error) {
+      setNotes([syntaxErrorPart(plan.error, 'easy').explanation]);
+      return;
+    }
+    setNotes(plan.notes);
+    setIsRunning(true);
+
+    const collected: StageResult[] = [];
+    for (const stage of plan.stages) {
+      const result = await runQuery(stage.sql);
+      if (result.error) {
+        collected.push({ view: null, error: result.error });
+        continue;
+      }
+      const kept = stage.keepSql ? await runQuery(stage.keepSql) : null;
+      if (kept?.error) {
+        collected.push({ view: null, error: kept.error });
+        continue;
+      }
+      collected.push({ view: buildStageView(stage, result.columns, result.rows, kept?.rows) });
+    }
+
+    setStages(plan.stages);
+    setResults(collected);
+    setActive(0);
+    setIsRunning(false);
+  };
+
+  const textClass = isDark ? 'text-white' : 'text-slate-800';
+  const mutedClass = isDark ? 'text-slate-400' : 'text-slate-500';
+  const borderClass = isDark ? 'border-slate-700' : 'border-slate-200';
+
+  const stage = stages[active];
+  const result = results[active];
+  const view = result?.view;
+  const written = WRITTEN_ORDER.filter(label => stages.some(s => (s.kind === 'join' ? 'JOIN' : s.label) === label));
+
+  const summary = (current: QueryStage, shown: StageView) => {
+    if (current.groupKeys !== undefined) {
+      const groups = shown.rows.length > 0 ? shown.rows[shown.rows.length - 1][0] : 0;
+      return `${shown.rows.length} dòng → ${groups} nhóm`;
+    }
+    if (current.keepSql) {
+      const unit = current.kind === 'having' ? 'nhóm' : 'dòng';
+      return `${shown.rows.length} ${unit} → giữ ${shown.kept.length}, loại ${shown.dropped.length}`;
+    }
+    return `${shown.rows.length} dòng`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <button
+        onClick={runStages}
+        disabled={isRunning || !sql.trim()}
+        className="w-full py-3 bg-gradient-to-r from-violet-500 to-purple-600 text-white rounded-xl font-semibold hover:from-violet-600 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isRunning ? (
+          <>
+            <span className="animate-spin">⏳</span> Đang chạy từng bước...
+          </>
+        ) : (
+          <>
+            <span>⏱️</span> Chạy từng bước trên database
+          </>
+        )}
+      </button>
+
+      {notes.map((note, i) => (
+        <p key={i} className="text-sm text-amber-600 dark:text-amber-400">💡 {note}</p>
+      ))}
+
+      {stages.length > 0 && (
+        <>
+          {/* Written order vs execution order */}
+          <div className={`rounded-xl border ${borderClass} p-4 space-y-3`}>
+            <div className="flex flex-wrap items-center gap-1.5 text-xs">
+              <span className={`w-32 font-medium ${mutedClass}`}>✍️ Thứ tự bạn viết:</span>
+              {written.map((label, i) => (
+                <span key={label} className="flex items-center gap-1.5">
+                  {i > 0 && <span className={mutedClass}>→</span>}
+                  <span className={`px-2 py-1 rounded font-mono ${isDark ? 'bg-slate-800 text-slate-300' : 'bg-slate-100 text-slate-600'}`}>{label}</span>
+                </span>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-1.5 text-xs">
+              <span className={`w-32 font-medium ${mutedClass}`}>⚙️ Database chạy:</span>
+              {stages.map((s, i) => (
+                <span key={i} className="flex items-center gap-1.5">
+                  {i > 0 && <span className={mutedClass}>→</span>}
+                  <button
+                    onClick={() => setActive(i)}
+                    className={`px-2 py-1 rounded font-mono transition-colors ${
+                      i === active
+                        ? 'bg-violet-500 text-white'
+                        : results[i]?.error
+                        ? 'bg-red-500/20 text-red-600 dark:text-red-400'
+                        : isDark ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                    }`}
+                  >
+                    {i + 1}. {s.label}
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {/* Current stage */}
+          {stage && (
+            <div className={`rounded-xl border ${borderClass} p-4 space-y-3`}>
+              <div className="flex items-center gap-2">
+                <span className="px-2 py-1 rounded text-xs font-bold bg-violet-500/20 text-violet-600 dark:text-violet-300">
+                  Bước {active + 1}/{stages.length}
+                </span>
+                <code className={`font-mono text-sm ${textClass}`}>{stage.clause}</code>
+                {view && <span className={`ml-auto text-xs ${mutedClass}`}>{summary(stage, view)}</span>}
+              </div>
+              <p className={`text-sm ${mutedClass}`}>{stage.description}</p>
+
+              {result?.error && (
+                <p className="text-sm text-red-600 dark:text-red-400">❌ Bước này lỗi: {result.error}</p>
+              )}
+
+              {view && (
+                <TablePreview
+                  name={`Sau bước ${stage.label}${view.rows.length > PREVIEW_ROWS ? ` — ${PREVIEW_ROWS}/${view.rows.length} dòng đầu` : ''}`}
+                  columns={view.columns}
+                  rows={view.rows.slice(0, PREVIEW_ROWS).map(row => row.map(v => (v === null ? 'NULL' : v)))}
+                  highlightedRows={view.kept}
+                  droppedRows={view.dropped}
+                  animateIn={view.rows.length <= 12}
+                />
+              )}
+
+              <div className="flex justify-between">
+                <button
+                  onClick={() => setActive(a => a - 1)}
+                  disabled={active === 0}
+                  className={`px-3 py-1.5 rounded-lg text-sm transition-colors disabled:opacity-40 ${isDark ? 'bg-slate-800 text-slate-300' : 'bg-slate-100 text-slate-600'}`}
+                >
+                  ← Bước trước
+                </button>
+                <button
+                  onClick={() => setActive(a => a + 1)}
+                  disabled={active === stages.length - 1}
+                  className={`px-3 py-1.5 rounded-lg text-sm transition-colors disabled:opacity-40 ${isDark ? 'bg-slate-800 text-slate-300' : 'bg-slate-100 text-slate-600'}`}
+                >
+                  Bước tiếp →
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+import { syntaxErrorPart } from '../utils/sqlExplain';
+import { GroupPlan, GroupView, buildGroups, explainAggregate, formatCell, hasGroups, planGroups } from '../utils/sqlGroups';
+import { TablePreview } from './TablePreview';
+
+interface GroupVisualizerProps {
+  sql: string;
+  isDark: boolean;
+}
+
+type Step = 'color' | 'buckets' | 'having';
+
+const PREVIEW_ROWS = 50;
+const MAX_BUCKETS = 24;
+
+// One color per group; row backgrounds and bucket headers use the same index
+const rowColors = ['bg-rose-100', 'bg-sky-100', 'bg-amber-100', 'bg-emerald-100', 'bg-violet-100', 'bg-lime-100', 'bg-orange-100', 'bg-cyan-100'];
+const headerColors = ['bg-rose-500', 'bg-sky-500', 'bg-amber-500', 'bg-emerald-500', 'bg-violet-500', 'bg-lime-500', 'bg-orange-500', 'bg-cyan-500'];
+
+export function GroupVisualizer({ sql, isDark }: GroupVisualizerProps) {
+  const { runQuery, readCatalog, dialect } = useDatabase();
+  const [plan, setPlan] = useState<GroupPlan | null>(null);
+  const [view, setView] = useState<GroupView | null>(null);
+  const [notes, setNotes] = useState<string[]>([]);
+  const [step, setStep] = useState<Step>('color');
+  const [selected, setSelected] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const visible = useMemo(() => hasGroups(sql, dialect), [sql, dialect]);
+
+  useEffect(() => {
+    setPlan(null);
+    setView(null);
+    setNotes([]);
+  }, [sql, dialect]);
+
+  if (!visible) return null;
+
+  const load = async () => {
+    const planned = planGroups(sql, dialect, readCatalog().tables);
+    if (!planned.plan) {
+      setNotes(planned.error ? [syntaxErrorPart(planned.error, 'easy').explanation] : planned.notes);
+      return;
+    }
+    const current = planned.plan;
+    setIsLoading(true);
+    const rows = await runQuery(current.rowsSql);
+    const groups = await runQuery(current.groupsSql);
+    const kept = current.keptSql ? await runQuery(current.keptSql) : null;
+    setIsLoading(false);
+
+    const failed = rows.error ?? groups.error ?? kept?.error;
+    if (failed) {
+      setNotes([...planned.notes, `❌ ${failed}`]);
+      return;
+    }
+    setNotes(planned.notes);
+    setPlan(current);
+    setView(buildGroups(current, rows.columns, rows.rows, groups.rows, kept?.rows ?? null));
+    setStep('color');
+    setSelected(null);
+  };
+
+  const textClass = isDark ? 'text-white' : 'text-slate-800';
+  const mutedClass = isDark ? 'text-slate-400' : 'text-slate-500';
+  const borderClass = isDark ? 'border-slate-700' : 'border-slate-200';
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm transition-colors ${
+    isDark ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+  }`;
+
+  const keyLabel = (key: (string | number | null)[]) =>
+    plan && plan.keys.length > 0 ? plan.keys.map((k, i) => `${k} = ${formatCell(key[i])}`).join(', ') : 'Toàn bộ các dòng';
+
+  const steps: [Step, string][] = [
+    ['color', '🎨 1. Tô màu theo nhóm'],
+    ['buckets', '🧺 2. Gom thành giỏ và tính'],
+    ...(plan?.having ? [['having', '🚦 3. Lọc nhóm bằng HAVING'] as [Step, string]] : []),
+  ];
+
+  return (
+    <div className={`mt-6 rounded-xl border ${borderClass} p-4 space-y-4`}>
+      <div className="flex items-center gap-2">
+        <span className="text-xl">🧺</span>
+        <h3 className={`font-semibold ${textClass}`}>GROUP BY từng bước</h3>
+        <button onClick={load} disabled={isLoading} className={`ml-auto ${buttonClass}`}>
+          {isLoading ? '⏳ Đang chạy...' : view ? '🔄 Chạy lại' : '▶️ Xem cách gom nhóm'}
+        </button>
+      </div>
+
+      {notes.map((note, i) => (
+        <p key={i} className="text-sm text-amber-600 dark:text-amber-400">💡 {note}</p>
+      ))}
+
+      {plan && view && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {steps.map(([id, title]) => (
+              <button
+                key={id}
+                onClick={() => setStep(id)}
+                className={step === id ? 'px-3 py-1.5 rounded-lg text-sm bg-violet-500 text-white' : buttonClass}
+              >
+                {title}
+              </button>
+            ))}
+          </div>
+
+          {step === 'color' && (
+            <>
+              <p className={`text-sm ${mutedClass}`}>
+                {plan.keys.length > 0
+                  ? `Mỗi giá trị khác nhau của ${plan.keys.join(', ')} là một nhóm, mỗi nhóm một màu. Bấm vào một nhóm để tô đậm các dòng của nó.`
+                  : 'Không có GROUP BY nên mọi dòng (sau WHERE) thuộc cùng MỘT nhóm.'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {view.buckets.slice(0, MAX_BUCKETS).map((bucket, i) => (
+                  <button
+                    key={i}
+                    onClick={() => setSelected(selected === i ? null : i)}
+                    className={`px-2 py-1 rounded text-xs font-mono text-slate-800 ${rowColors[i % rowColors.length]} ${selected === i ? 'ring-2 ring-violet-500' : ''}`}
+                  >
+                    {keyLabel(bucket.key)} • {bucket.rows.length} dòng
+                  </button>
+                ))}
+              </div>
+              <TablePreview
+                name={`Các dòng sau WHERE${view.rows.length > PREVIEW_ROWS ? ` — ${PREVIEW_ROWS}/${view.rows.length} dòng đầu` : ''}`}
+                columns={view.columns}
+                rows={view.rows.slice(0, PREVIEW_ROWS).map(row => row.map(v => (v === null ? 'NULL' : v)))}
+                highlightedRows={selected === null ? [] : view.buckets[selected].rows}
+                rowClasses={view.rowBucket.slice(0, PREVIEW_ROWS).map(b => rowColors[b % rowColors.length])}
+                animateIn={false}
+              />
+            </>
+          )}
+
+          {(step === 'buckets' || step === 'having') && (
+            <>
+              <p className={`text-sm ${mutedClass}`}>
+                {step === 'having'
+                  ? `HAVING ${plan.having} được kiểm tra trên từng GIỎ (không phải từng dòng). Giỏ bị loại bị làm mờ.`
+                  : 'Các dòng cùng nhóm được gom vào một giỏ. Hàm gộp tính trên từng giỏ và mỗi giỏ chỉ còn lại 1 dòng kết quả.'}
+              </p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {view.buckets.slice(0, MAX_BUCKETS).map((bucket, i) => {
+                  const rejected = step === 'having' && !bucket.kept;
+                  return (
+                    <div
+                      key={i}
+                      className={`rounded-xl border ${borderClass} overflow-hidden transition-all ${rejected ? 'opacity-40 grayscale' : ''}`}
+                    >
+                      <div className={`px-3 py-2 text-white text-sm font-semibold flex items-center gap-2 ${headerColors[i % headerColors.length]}`}>
+                        <span className="truncate">🧺 {keyLabel(bucket.key)}</span>
+                        <span className="ml-auto text-xs font-normal whitespace-nowrap">
+                          {step === 'having' ? (bucket.kept ? '✅ Giữ' : '❌ Bị loại') : `${bucket.rows.length} dòng`}
+                        </span>
+                      </div>
+                      <ul className={`px-3 py-2 space-y-1 text-xs font-mono ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
+                        {plan.aggregates.map((aggregate, a) => (
+                          <li key={a}>
+                            <span className="font-semibold text-violet-600 dark:text-violet-300">{aggregate.text}</span>
+                            <span className={mutedClass}> : </span>
+                            {explainAggregate(aggregate, bucket, a)}
+                          </li>
+                        ))}
+                        {plan.aggregates.length === 0 && <li className={mutedClass}>Không có hàm gộp: giỏ chỉ gộp các dòng trùng nhóm thành 1 dòng.</li>}
+                      </ul>
+                    </div>
+                  );
+                })}
+              </div>
+              {view.buckets.length > MAX_BUCKETS && (
+                <p className={`text-xs ${mutedClass}`}>… và {view.buckets.length - MAX_BUCKETS} nhóm nữa</p>
+              )}
+              {step === 'having' && (
+                <p className={`text-sm ${textClass}`}>
+                  Còn lại {view.buckets.filter(b => b.kept).length}/{view.buckets.length} nhóm → đó là số dòng của kết quả.
+                </p>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState, useMemo } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+import { TablePreview } from './TablePreview';
+import { findTable } from '../utils/sqlCatalog';
+import {
+  ParsedData,
+  ImportColumn,
+  ImportType,
+  parseImportFile,
+  suggestColumns,
+  tableNameFromFile,
+  formatImportType,
+  convertRows,
+  validateImport,
+  buildCreateImportTable,
+  buildImportInserts,
+} from '../utils/sqlImport';
+
+interface ImportWizardProps {
+  isDark: boolean;
+  onImported: (tableName: string) => void;
+  onClose: () => void;
+}
+
+const importTypes: ImportType[] = ['INT', 'DECIMAL', 'DATE', 'VARCHAR'];
+const defaultSize: Record<ImportType, string> = { INT: '', DECIMAL: '10,2', DATE: '', VARCHAR: '255' };
+const PREVIEW_ROWS = 5;
+
+export function ImportWizard({ isDark, onImported, onClose }: ImportWizardProps) {
+  const { executeSQL, runAsStep, readCatalog } = useDatabase();
+  const [fileName, setFileName] = useState('');
+  const [data, setData] = useState<ParsedData | null>(null);
+  const [columns, setColumns] = useState<ImportColumn[]>([]);
+  const [included, setIncluded] = useState<boolean[]>([]);
+  const [importMode, setImportMode] = useState<'create' | 'append'>('create');
+  const [tableName, setTableName] = useState('');
+  const [targetTable, setTargetTable] = useState('');
+  const [primaryKey, setPrimaryKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const catalog = useMemo(() => readCatalog(), [readCatalog, data, importMode]);
+  const target = findTable(catalog, targetTable);
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      const suggested = suggestColumns(parsed);
+      setFileName(file.name);
+      setData(parsed);
+      setColumns(suggested);
+      setIncluded(suggested.map(() => true));
+      setTableName(tableNameFromFile(file.name));
+      // Spreadsheets usually start with an id column
+      setPrimaryKey(suggested[0]?.type === 'INT' ? suggested[0].name : null);
+      setError(null);
+    } catch (err) {
+      setData(null);
+      setError((err as Error).message);
+    }
+  };
+
+  const updateColumn = (index: number, changes: Partial<ImportColumn>) => {
+    if (changes.name !== undefined && primaryKey === columns[index].name) setPrimaryKey(changes.name);
+    setColumns(prev => prev.map((col, i) => (i === index ? { ...col, ...changes } : col)));
+  };
+
+  // Match file columns to the existing table by name, skip the rest
+  const handleTargetChange = (name: string) => {
+    setTargetTable(name);
+    const table = findTable(catalog, name);
+    if (!table) return;
+    setIncluded(columns.map(col => table.columns.some(c => c.name.toLowerCase() === col.name.toLowerCase())));
+    setColumns(prev => prev.map(col => ({
+      ...col,
+      name: table.columns.find(c => c.name.toLowerCase() === col.name.toLowerCase())?.name ?? col.name,
+    })));
+  };
+
+  const activeColumns = columns.filter((_, i) => included[i]);
+  const rows = data ? convertRows(data, activeColumns) : [];
+
+  const handleImport = () => {
+    const table = importMode === 'create' ? tableName.trim() : targetTable;
+    if (importMode === 'create' && findTable(catalog, table)) {
+      setError(`Table '${table}' already exists — chọn tên khác hoặc dùng chế độ "Thêm vào bảng có sẵn"`);
+      return;
+    }
+    if (activeColumns.length === 0) {
+      setError('Chọn ít nhất một cột để nhập');
+      return;
+    }
+    const problem = validateImport(activeColumns, rows, importMode === 'create' ? primaryKey : null);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    const statements = buildImportInserts(table, activeColumns.map(c => c.name), rows);
+    if (importMode === 'create') {
+      statements.unshift(buildCreateImportTable(table, activeColumns, primaryKey));
+    }
+
+    const failure = runAsStep(`import ${fileName} → ${table}`, () => {
+      for (const sql of statements) {
+        const result = executeSQL(sql);
+        if (result.error) {
+          // Don't leave a half-filled new table behind
+          if (importMode === 'create') executeSQL(`DROP TABLE IF EXISTS \`${table}\``);
+          return result.error;
+        }
+      }
+      return null;
+    });
+    if (failure) {
+      setError(failure);
+      return;
+    }
+    onImported(table);
+  };
+
+  const textClass = isDark ? 'text-white' : 'text-slate-800';
+  const mutedClass = isDark ? 'text-slate-400' : 'text-slate-500';
+  const inputClass = `px-2 py-1.5 rounded-lg text-sm border focus:outline-none focus:ring-2 focus:ring-emerald-500 ${
+    isDark ? 'bg-slate-800 text-white border-slate-700' : 'bg-white text-slate-800 border-slate-200'
+  }`;
+
+  return (
+    <div className={`p-4 border-b ${isDark ? 'border-slate-700 bg-slate-800/40' : 'border-slate-200 bg-slate-50'}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className={`font-semibold ${textClass} flex items-center gap-2`}>
+          <span>📊</span> Nhập dữ liệu từ CSV / TSV / JSON
+        </h3>
+        <button onClick={onClose} className={`text-sm ${mutedClass} hover:text-red-500`}>✕ Đóng</button>
+      </div>
+
+      <label className={`block p-4 rounded-xl border-2 border-dashed text-center cursor-pointer ${
+        isDark ? 'border-slate-700 hover:border-slate-500' : 'border-slate-300 hover:border-slate-400'
+      }`}>
+        <span className={`text-sm ${mutedClass}`}>
+          {fileName ? `📄 ${fileName} — ${data?.rows.length ?? 0} dòng` : '📂 Chọn file .csv, .tsv hoặc .json (file xuất từ Excel/Google Sheets)'}
+        </span>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {data && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className={`flex items-center gap-1 ${textClass}`}>
+              <input type="radio" checked={importMode === 'create'} onChange={() => setImportMode('create')} />
+              Tạo bảng mới
+            </label>
+            <label className={`flex items-center gap-1 ${textClass}`}>
+              <input type="radio" checked={importMode === 'append'} onChange={() => setImportMode('append')} />
+              Thêm vào bảng có sẵn
+            </label>
+            {importMode === 'create' ? (
+              <input value={tableName} onChange={(e) => setTableName(e.target.value)} placeholder="tên bảng" className={`${inputClass} font-mono`} />
+            ) : (
+              <select value={targetTable} onChange={(e) => handleTargetChange(e.target.value)} className={inputClass}>
+                <option value="">— chọn bảng —</option>
+                {catalog.tables.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+              </select>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className={mutedClass}>
+                  <th className="text-left p-1">Nhập</th>
+                  <th className="text-left p-1">Cột trong file</th>
+                  <th className="text-left p-1">Tên cột</th>
+                  <th className="text-left p-1">Kiểu</th>
+                  {importMode === 'create' && <th className="text-left p-1">Khóa chính</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {columns.map((col, i) => (
+                  <tr key={col.source} className={included[i] ? '' : 'opacity-50'}>
+                    <td className="p-1">
+                      <input
+                        type="checkbox"
+                        checked={included[i]}
+                        onChange={(e) => setIncluded(prev => prev.map((v, j) => (j === i ? e.target.checked : v)))}
+                      />
+                    </td>
+                    <td className={`p-1 ${textClass}`}>{data.headers[col.source]}</td>
+                    <td className="p-1">
+                      {importMode === 'append' && target ? (
+                        <select value={col.name} onChange={(e) => updateColumn(i, { name: e.target.value })} className={`${inputClass} font-mono`}>
+                          {!target.columns.some(c => c.name === col.name) && <option value={col.name}>—</option>}
+                          {target.columns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+                        </select>
+                      ) : (
+                        <input value={col.name} onChange={(e) => updateColumn(i, { name: e.target.value })} className={`${inputClass} font-mono w-36`} />
+                      )}
+                    </td>
+                    <td className="p-1 flex gap-1">
+                      <select
+                        value={col.type}
+                        onChange={(e) => {
+                          const type = e.target.value as ImportType;
+                          updateColumn(i, { type, size: defaultSize[type] });
+                        }}
+                        className={inputClass}
+                      >
+                        {importTypes.map(t => <option key={t} value={t}>{t}</option>)}
+                      </select>
+                      {(col.type === 'VARCHAR' || col.type === 'DECIMAL') && (
+                        <input value={col.size} onChange={(e) => updateColumn(i, { size: e.target.value })} className={`${inputClass} font-mono w-16`} />
+                      )}
+                    </td>
+                    {importMode === 'create' && (
+                      <td className="p-1">
+                        <input
+                          type="radio"
+                          name="import-primary-key"
+                          checked={primaryKey === col.name}
+                          disabled={!included[i]}
+                          onChange={() => setPrimaryKey(col.name)}
+                        />
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {importMode === 'create' && (
+              <button onClick={() => setPrimaryKey(null)} className={`mt-1 text-xs ${mutedClass} hover:underline`}>
+                Không dùng khóa chính
+              </button>
+            )}
+          </div>
+
+          <TablePreview
+            name={`${importMode === 'create' ? tableName : targetTable || '?'} — ${Math.min(PREVIEW_ROWS, rows.length)}/${rows.length} dòng đầu`}
+            columns={activeColumns.map(c => `${c.name} ${formatImportType(c)}`)}
+            rows={rows.slice(0, PREVIEW_ROWS).map(row => row.map(v => (v === null ? 'NULL' : v)))}
+            animateIn={false}
+          />
+
+          <button
+            onClick={handleImport}
+            disabled={importMode === 'append' && !target}
+            className="w-full py-2.5 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-xl font-semibold hover:from-emerald-600 hover:to-teal-700 transition-all disabled:opacity-50"
+          >
+            📥 {importMode === 'create' ? `Tạo bảng ${tableName}` : `Thêm vào ${targetTable || '...'}`} ({rows.length} dòng)
+          </button>
+        </div>
+      )}
+
+      {error && <div className="mt-3 text-sm text-red-500">❌ {error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+import { syntaxErrorPart } from '../utils/sqlExplain';
+import { JoinMatch, JoinStep, hasJoins, matchJoin, planJoins } from '../utils/sqlJoins';
+
+interface JoinVisualizerProps {
+  sql: string;
+  isDark: boolean;
+}
+
+type Rows = (string | number | null)[][];
+
+interface JoinData {
+  leftColumns: string[];
+  left: Rows;
+  rightColumns: string[];
+  right: Rows;
+  matches: JoinMatch[];
+}
+
+// Fixed geometry so the connecting lines can be drawn between row centers
+const ROW_HEIGHT = 32;
+const LINK_WIDTH = 96;
+const PREVIEW_ROWS = 15;
+const RESULT_ROWS = 50;
+const STEP_DELAY = 700;
+
+const joinHints: Record<JoinStep['joinType'], string> = {
+  INNER: 'Chỉ những cặp dòng thỏa điều kiện mới vào kết quả. Dòng không có cặp bị bỏ.',
+  LEFT: 'Mọi dòng bên trái đều vào kết quả. Dòng không có cặp được điền NULL cho phần bên phải.',
+  RIGHT: 'Mọi dòng bên phải đều vào kết quả. Dòng không có cặp được điền NULL cho phần bên trái.',
+  FULL: 'Giữ mọi dòng của cả hai bảng. Phía nào không có cặp thì điền NULL.',
+  CROSS: 'Mỗi dòng bên trái ghép với TẤT CẢ các dòng bên phải.',
+  NATURAL: 'Tự ghép theo các cột trùng tên ở hai bảng.',
+};
+
+export function JoinVisualizer({ sql, isDark }: JoinVisualizerProps) {
+  const { runQuery, readCatalog, dialect } = useDatabase();
+  const [steps, setSteps] = useState<JoinStep[]>([]);
+  const [data, setData] = useState<(JoinData | null)[]>([]);
+  const [notes, setNotes] = useState<string[]>([]);
+  const [active, setActive] = useState(0);
+  const [revealed, setRevealed] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const visible = useMemo(() => hasJoins(sql, dialect), [sql, dialect]);
+
+  useEffect(() => {
+    setSteps([]);
+    setData([]);
+    setNotes([]);
+    setIsPlaying(false);
+  }, [sql, dialect]);
+
+  const current = data[active];
+
+  // Build the result one row per tick
+  useEffect(() => {
+    if (!isPlaying || !current) return;
+    if (revealed >= current.matches.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setRevealed(r => r + 1), STEP_DELAY);
+    return () => clearTimeout(timer);
+  }, [isPlaying, revealed, current]);
+
+  if (!visible) return null;
+
+  const load = async () => {
+    const plan = planJoins(sql, dialect, readCatalog().tables);
+    if (plan.error) {
+      setNotes([syntaxErrorPart(plan.error, 'easy').explanation]);
+      return;
+    }
+    setIsLoading(true);
+    const errors: string[] = [];
+    const loaded: (JoinData | null)[] = [];
+    for (const step of plan.steps) {
+      const [left, right, pairs] = [await runQuery(step.leftSql), await runQuery(step.rightSql), await runQuery(step.pairSql)];
+      const failed = left.error ?? right.error ?? pairs.error;
+      if (failed) {
+        errors.push(`${step.clause}: ${failed}`);
+        loaded.push(null);
+        continue;
+      }
+      loaded.push({
+        leftColumns: left.columns,
+        left: left.rows,
+        rightColumns: right.columns,
+        right: right.rows,
+        matches: matchJoin(step, left.rows, right.rows, pairs.rows),
+      });
+    }
+    setNotes([...plan.notes, ...errors.map(e => `❌ ${e}`)]);
+    setSteps(plan.steps);
+    setData(loaded);
+    setActive(0);
+    setRevealed(0);
+    setIsPlaying(true);
+    setIsLoading(false);
+  };
+
+  const selectStep = (index: number) => {
+    setActive(index);
+    setRevealed(0);
+    setIsPlaying(true);
+  };
+
+  const textClass = isDark ? 'text-white' : 'text-slate-800';
+  const mutedClass = isDark ? 'text-slate-400' : 'text-slate-500';
+  const borderClass = isDark ? 'border-slate-700' : 'border-slate-200';
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm transition-colors disabled:opacity-40 ${
+    isDark ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+  }`;
+
+  const step = steps[active];
+  const shown = current ? current.matches.slice(0, revealed) : [];
+  const latest = shown[shown.length - 1];
+  const done = !!current && revealed >= current.matches.length;
+
+  // Row colors: the pair being placed, rows already used, NULL-padded rows, and rows that never made it
+  const rowClass = (side: 'left' | 'right', index: number) => {
+    const other = side === 'left' ? 'right' : 'left';
+    if (latest && latest[side] === index) return 'bg-violet-200 text-violet-900';
+    const used = shown.filter(m => m[side] === index);
+    if (used.some(m => m[other] === null)) return 'bg-amber-100 text-amber-900';
+    if (used.length > 0) return isDark ? 'bg-emerald-900/40' : 'bg-emerald-50';
+    if (done && !current!.matches.some(m => m[side] === index)) return 'opacity-40 line-through';
+    return '';
+  };
+
+  const renderTable = (title: string, columns: string[], rows: Rows, side: 'left' | 'right') => (
+    <div className="flex-1 min-w-0">
+      <div className={`text-xs font-semibold mb-1 truncate ${textClass}`}>📋 {title}</div>
+      <div className={`overflow-x-auto rounded-lg border ${borderClass}`}>
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr style={{ height: ROW_HEIGHT }} className={isDark ? 'bg-slate-800 text-slate-300' : 'bg-slate-100 text-slate-700'}>
+              {columns.map(c => <th key={c} className="px-2 text-left whitespace-nowrap">{c}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+              <tr key={i} style={{ height: ROW_HEIGHT }} className={`transition-colors ${isDark ? 'text-slate-300' : 'text-slate-600'} ${rowClass(side, i)}`}>
+                {row.map((v, j) => <td key={j} className="px-2 whitespace-nowrap">{v === null ? 'NULL' : v}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {rows.length > PREVIEW_ROWS && (
+        <p className={`text-xs mt-1 ${mutedClass}`}>… và {rows.length - PREVIEW_ROWS} dòng nữa</p>
+      )}
+    </div>
+  );
+
+  // Title line (16px + margin) sits above both tables, so rows start below it and the header
+  const rowCenter = (index: number) => 20 + ROW_HEIGHT * (index + 1) + ROW_HEIGHT / 2;
+  const linkHeight = current ? 20 + ROW_HEIGHT * (Math.min(PREVIEW_ROWS, Math.max(current.left.length, current.right.length)) + 1) : 0;
+
+  return (
+    <div className={`mt-6 rounded-xl border ${borderClass} p-4 space-y-4`}>
+      <div className="flex items-center gap-2">
+        <span className="text-xl">🔗</span>
+        <h3 className={`font-semibold ${textClass}`}>JOIN từng dòng</h3>
+        <button onClick={load} disabled={isLoading} className={`ml-auto ${buttonClass}`}>
+          {isLoading ? '⏳ Đang chạy...' : steps.length > 0 ? '🔄 Chạy lại' : '▶️ Xem JOIN ghép dòng'}
+        </button>
+      </div>
+
+      {notes.map((note, i) => (
+        <p key={i} className="text-sm text-amber-600 dark:text-amber-400">💡 {note}</p>
+      ))}
+
+      {steps.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {steps.map((s, i) => (
+            <button
+              key={i}
+              onClick={() => selectStep(i)}
+              className={`px-2 py-1 rounded text-xs font-mono ${i === active ? 'bg-violet-500 text-white' : buttonClass}`}
+            >
+              {i + 1}. {s.clause.length > 40 ? `${s.clause.slice(0, 40)}...` : s.clause}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {step && current && (
+        <>
+          <div>
+            <code className={`block font-mono text-sm ${textClass}`}>{step.clause}</code>
+            <p className={`text-sm mt-1 ${mutedClass}`}>{joinHints[step.joinType]}</p>
+          </div>
+
+          <div className="flex items-start">
+            {renderTable(step.leftName, current.leftColumns, current.left, 'left')}
+            <svg width={LINK_WIDTH} height={linkHeight} className="shrink-0">
+              {shown.map((m, i) => m.left !== null && m.right !== null && m.left < PREVIEW_ROWS && m.right < PREVIEW_ROWS && (
+                <line
+                  key={i}
+                  x1={4}
+                  y1={rowCenter(m.left)}
+                  x2={LINK_WIDTH - 4}
+                  y2={rowCenter(m.right)}
+                  stroke={m === latest ? '#8b5cf6' : '#10b981'}
+                  strokeWidth={m === latest ? 3 : 1.5}
+                  strokeLinecap="round"
+                />
+              ))}
+            </svg>
+            {renderTable(step.rightName, current.rightColumns, current.right, 'right')}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button onClick={() => setIsPlaying(p => !p)} disabled={done} className={buttonClass}>
+              {isPlaying ? '⏸️ Tạm dừng' : '▶️ Chạy tiếp'}
+            </button>
+            <button onClick={() => setRevealed(r => r + 1)} disabled={done || isPlaying} className={buttonClass}>⏭️ Dòng tiếp</button>
+            <button onClick={() => setRevealed(current.matches.length)} disabled={done} className={buttonClass}>⏩ Xem hết</button>
+            <button onClick={() => { setRevealed(0); setIsPlaying(false); }} className={buttonClass}>↺ Làm lại</button>
+            <span className={`ml-auto text-xs ${mutedClass}`}>
+              {revealed}/{current.matches.length} dòng kết quả
+            </span>
+          </div>
+
+          {/* The result, growing as pairs are found */}
+          <div>
+            <div className={`text-xs font-semibold mb-1 ${textClass}`}>✨ Kết quả JOIN</div>
+            <div className={`overflow-x-auto rounded-lg border ${borderClass}`}>
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className={isDark ? 'bg-slate-800 text-slate-300' : 'bg-slate-100 text-slate-700'}>
+                    {[...current.leftColumns, ...current.rightColumns].map(c => (
+                      <th key={c} className="px-2 py-1.5 text-left whitespace-nowrap">{c}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.slice(0, RESULT_ROWS).map((m, i) => (
+                    <tr key={i} className={`${isDark ? 'text-slate-300' : 'text-slate-600'} ${m === latest ? 'bg-violet-100 text-violet-900' : ''}`}>
+                      {current.leftColumns.map((_, j) => (
+                        m.left === null
+                          ? <td key={`l${j}`} className="px-2 py-1 italic text-amber-600">NULL</td>
+                          : <td key={`l${j}`} className="px-2 py-1 whitespace-nowrap">{current.left[m.left][j] ?? 'NULL'}</td>
+                      ))}
+                      {current.rightColumns.map((_, j) => (
+                        m.right === null
+                          ? <td key={`r${j}`} className="px-2 py-1 italic text-amber-600">NULL</td>
+                          : <td key={`r${j}`} className="px-2 py-1 whitespace-nowrap">{current.right[m.right][j] ?? 'NULL'}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {shown.length === 0 && (
+                <p className={`px-3 py-4 text-center text-xs ${mutedClass}`}>
+                  {current.matches.length === 0 ? '📭 Không có cặp dòng nào thỏa điều kiện' : 'Bấm ▶️ để bắt đầu ghép'}
+                </p>
+              )}
+            </div>
+            {shown.length > RESULT_ROWS && (
+              <p className={`text-xs mt-1 ${mutedClass}`}>… và {shown.length - RESULT_ROWS} dòng nữa</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { Lesson } from '../types';
 import { SQLHighlighter } from './SQLHighlighter';
 import { useTextToSpeech } from '../hooks/useTextToSpeech';
-import { useSQLEngine } from '../hooks/useSQLEngine';
+import { useDatabase } from '../hooks/useDatabase';
 import { sqlKeywordExplanations } from '../data/database';
 
 interface LessonReaderProps {
@@ -19,7 +19,7 @@ export function LessonReader({ lesson, mode, isDark, onKeywordClick }: LessonRea
   const [activeKeyword, setActiveKeyword] = useState<string | null>(null);
   
   const { speak, speakSQL, isSpeaking, stop, rate, setRate } = useTextToSpeech();
-  const { executeSQL } = useSQLEngine();
+  const { executeSQL } = useDatabase();
 
   const handleRunCode = (index: number, sql: string) => {
     const result = executeSQL(sql);
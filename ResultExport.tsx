@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { ExportFormat, ExportableResult, exportFormats, formatResult, guessTableName } from '../utils/sqlExport';
+import { downloadTextFile } from '../utils/sqlDump';
+
+interface ResultExportProps {
+  result: ExportableResult;
+  sql?: string;
+  isDark: boolean;
+}
+
+export function ResultExport({ result, sql, isDark }: ResultExportProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [copyState, setCopyState] = useState<'copied' | 'failed' | null>(null);
+
+  const content = () => formatResult(result, format, guessTableName(sql));
+
+  const handleDownload = () => {
+    const info = exportFormats.find(f => f.id === format)!;
+    downloadTextFile(`${guessTableName(sql)}.${info.extension}`, content(), info.mime);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(content());
+      setCopyState('copied');
+    } catch {
+      // No clipboard over plain http or without permission: hand over the file instead
+      handleDownload();
+      setCopyState('failed');
+    }
+    setTimeout(() => setCopyState(null), 3000);
+  };
+
+  const buttonClass = `px-2 py-0.5 rounded text-xs transition-colors ${
+    isDark ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+  }`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {exportFormats.map(f => (
+        <button
+          key={f.id}
+          onClick={() => setFormat(f.id)}
+          className={format === f.id ? 'px-2 py-0.5 rounded text-xs bg-emerald-500 text-white' : buttonClass}
+        >
+          {f.label}
+        </button>
+      ))}
+      <button onClick={handleCopy} className={buttonClass} title="Copy để dán vào báo cáo">
+        {copyState === 'copied' ? '✓ Đã copy' : copyState === 'failed' ? '⚠️ Không copy được, đã tải file về' : '📋 Copy'}
+      </button>
+      <button onClick={handleDownload} className={buttonClass} title="Tải về file">
+        ⬇️
+      </button>
+    </div>
+  );
+}
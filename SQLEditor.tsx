@@ -1,4 +1,6 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+import { completeSQL } from '../utils/sqlComplete';
 
 interface SQLEditorProps {
   value: string;
@@ -12,35 +14,25 @@ export function SQLEditor({ value, onChange, onSubmit, placeholder }: SQLEditorP
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const { readCatalog, dialect, catalogVersion, activeWorkspace } = useDatabase();
+  const catalog = useMemo(() => readCatalog(), [readCatalog, catalogVersion, activeWorkspace]);
 
-  const sqlKeywordsList = [
-    'SELECT', 'FROM', 'WHERE', 'AND', 'OR', 'ORDER BY', 'ASC', 'DESC',
-    'INSERT INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE FROM',
-    'LIMIT', 'DISTINCT', 'COUNT', 'SUM', 'AVG', 'MIN', 'MAX',
-    'GROUP BY', 'HAVING', 'JOIN', 'LEFT JOIN', 'RIGHT JOIN', 'INNER JOIN',
-    '*', 'students', 'name', 'age', 'grade', 'id'
-  ];
+  // Tables, columns and keywords that fit where the text ends, from the live catalog
+  const completion = useMemo(() => completeSQL(value, value.length, catalog, dialect), [value, catalog, dialect]);
 
   useEffect(() => {
-    const words = value.split(/\s+/);
-    const lastWord = words[words.length - 1]?.toUpperCase() || '';
-    
-    if (lastWord.length > 0) {
-      const filtered = sqlKeywordsList.filter(kw => 
-        kw.toUpperCase().startsWith(lastWord) && kw.toUpperCase() !== lastWord
-      );
+    if (completion && completion.prefix.length > 0) {
+      const filtered = completion.candidates.filter(c => c.toLowerCase() !== completion.prefix.toLowerCase());
       setSuggestions(filtered.slice(0, 5));
       setShowSuggestions(filtered.length > 0);
       setSelectedIndex(0);
     } else {
       setShowSuggestions(false);
     }
-  }, [value]);
+  }, [completion]);
 
   const applySuggestion = (suggestion: string) => {
-    const words = value.split(/\s+/);
-    words[words.length - 1] = suggestion;
-    onChange(words.join(' ') + ' ');
+    onChange(value.slice(0, completion?.start ?? value.length) + suggestion + ' ');
     setShowSuggestions(false);
     inputRef.current?.focus();
   };
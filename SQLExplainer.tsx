@@ -1,22 +1,24 @@
 import { useState } from 'react';
 import { SQLHighlighter } from './SQLHighlighter';
+import { SQLTranslator } from './SQLTranslator';
+import { ExecutionOrder } from './ExecutionOrder';
+import { JoinVisualizer } from './JoinVisualizer';
+import { GroupVisualizer } from './GroupVisualizer';
 import { sqlKeywordExplanations } from '../data/database';
+import { useDatabase } from '../hooks/useDatabase';
+import { ExplainPart, explainSQL, syntaxErrorPart } from '../utils/sqlExplain';
 
 interface SQLExplainerProps {
   isDark: boolean;
   mode: 'easy' | 'technical';
 }
 
-interface SQLPart {
-  type: string;
-  content: string;
-  explanation: string;
-}
-
 export function SQLExplainer({ isDark, mode }: SQLExplainerProps) {
   const [sql, setSQL] = useState('');
-  const [parts, setParts] = useState<SQLPart[]>([]);
+  const { dialect } = useDatabase();
+  const [parts, setParts] = useState<ExplainPart[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [view, setView] = useState<'explain' | 'order' | 'translate'>('explain');
 
   const analyzeSQL = () => {
     if (!sql.trim()) return;
@@ -25,122 +27,12 @@ export function SQLExplainer({ isDark, mode }: SQLExplainerProps) {
     
     // Simulate AI analysis
     setTimeout(() => {
-      const analyzed = parseSQLParts(sql, mode);
-      setParts(analyzed);
+      const { parts: analyzed, error } = explainSQL(sql, mode, dialect);
+      setParts(error ? [syntaxErrorPart(error, mode)] : analyzed);
       setIsAnalyzing(false);
     }, 500);
   };
 
-  const parseSQLParts = (sqlText: string, explainMode: 'easy' | 'technical'): SQLPart[] => {
-    const result: SQLPart[] = [];
-    const upperSQL = sqlText.toUpperCase();
-    
-    // Parse SELECT
-    if (upperSQL.includes('SELECT')) {
-      const selectMatch = sqlText.match(/SELECT\s+(.*?)\s+FROM/i);
-      if (selectMatch) {
-        const explanation = explainMode === 'easy'
-          ? `🎯 Chọn các cột: ${selectMatch[1] === '*' ? 'TẤT CẢ các cột' : selectMatch[1]}`
-          : `SELECT clause: Specifies columns ${selectMatch[1]} to be returned in the result set`;
-        result.push({ type: 'SELECT', content: `SELECT ${selectMatch[1]}`, explanation });
-      }
-    }
-
-    // Parse FROM
-    const fromMatch = sqlText.match(/FROM\s+(\w+)/i);
-    if (fromMatch) {
-      const explanation = explainMode === 'easy'
-        ? `📋 Lấy dữ liệu từ bảng: ${fromMatch[1]}`
-        : `FROM clause: Specifies the source table "${fromMatch[1]}" for the query`;
-      result.push({ type: 'FROM', content: `FROM ${fromMatch[1]}`, explanation });
-    }
-
-    // Parse WHERE
-    const whereMatch = sqlText.match(/WHERE\s+(.+?)(?:\s+ORDER|\s+GROUP|\s+LIMIT|$)/i);
-    if (whereMatch) {
-      const explanation = explainMode === 'easy'
-        ? `🔍 Lọc với điều kiện: ${whereMatch[1]}`
-        : `WHERE clause: Filters rows based on condition "${whereMatch[1]}"`;
-      result.push({ type: 'WHERE', content: `WHERE ${whereMatch[1]}`, explanation });
-    }
-
-    // Parse ORDER BY
-    const orderMatch = sqlText.match(/ORDER\s+BY\s+(\w+)(?:\s+(ASC|DESC))?/i);
-    if (orderMatch) {
-      const direction = orderMatch[2]?.toUpperCase() === 'DESC' ? 'giảm dần' : 'tăng dần';
-      const explanation = explainMode === 'easy'
-        ? `📊 Sắp xếp theo ${orderMatch[1]} (${direction})`
-        : `ORDER BY clause: Sorts result by column "${orderMatch[1]}" in ${orderMatch[2] || 'ASC'} order`;
-      result.push({ type: 'ORDER BY', content: `ORDER BY ${orderMatch[1]} ${orderMatch[2] || ''}`.trim(), explanation });
-    }
-
-    // Parse GROUP BY
-    const groupMatch = sqlText.match(/GROUP\s+BY\s+(\w+)/i);
-    if (groupMatch) {
-      const explanation = explainMode === 'easy'
-        ? `📦 Nhóm theo: ${groupMatch[1]}`
-        : `GROUP BY clause: Groups rows by column "${groupMatch[1]}" for aggregation`;
-      result.push({ type: 'GROUP BY', content: `GROUP BY ${groupMatch[1]}`, explanation });
-    }
-
-    // Parse JOIN
-    const joinMatch = sqlText.match(/((?:INNER|LEFT|RIGHT|FULL)?\s*JOIN)\s+(\w+)\s+ON\s+(.+?)(?:\s+WHERE|\s+ORDER|\s+GROUP|$)/i);
-    if (joinMatch) {
-      const explanation = explainMode === 'easy'
-        ? `🔗 Kết nối với bảng ${joinMatch[2]} dựa trên: ${joinMatch[3]}`
-        : `${joinMatch[1].trim()} clause: Combines rows from "${joinMatch[2]}" based on condition "${joinMatch[3]}"`;
-      result.push({ type: 'JOIN', content: `${joinMatch[1]} ${joinMatch[2]} ON ${joinMatch[3]}`, explanation });
-    }
-
-    // Parse LIMIT
-    const limitMatch = sqlText.match(/LIMIT\s+(\d+)/i);
-    if (limitMatch) {
-      const explanation = explainMode === 'easy'
-        ? `🔢 Chỉ lấy ${limitMatch[1]} kết quả đầu tiên`
-        : `LIMIT clause: Restricts output to first ${limitMatch[1]} rows`;
-      result.push({ type: 'LIMIT', content: `LIMIT ${limitMatch[1]}`, explanation });
-    }
-
-    // Parse INSERT
-    const insertMatch = sqlText.match(/INSERT\s+INTO\s+(\w+)/i);
-    if (insertMatch) {
-      const explanation = explainMode === 'easy'
-        ? `➕ Thêm dữ liệu mới vào bảng: ${insertMatch[1]}`
-        : `INSERT INTO clause: Adds new row(s) to table "${insertMatch[1]}"`;
-      result.push({ type: 'INSERT', content: `INSERT INTO ${insertMatch[1]}`, explanation });
-    }
-
-    // Parse UPDATE
-    const updateMatch = sqlText.match(/UPDATE\s+(\w+)\s+SET\s+(.+?)(?:\s+WHERE|$)/i);
-    if (updateMatch) {
-      const explanation = explainMode === 'easy'
-        ? `✏️ Cập nhật bảng ${updateMatch[1]}: ${updateMatch[2]}`
-        : `UPDATE clause: Modifies existing rows in "${updateMatch[1]}" with values "${updateMatch[2]}"`;
-      result.push({ type: 'UPDATE', content: `UPDATE ${updateMatch[1]} SET ${updateMatch[2]}`, explanation });
-    }
-
-    // Parse DELETE
-    const deleteMatch = sqlText.match(/DELETE\s+FROM\s+(\w+)/i);
-    if (deleteMatch) {
-      const explanation = explainMode === 'easy'
-        ? `🗑️ Xóa dữ liệu từ bảng: ${deleteMatch[1]}`
-        : `DELETE FROM clause: Removes rows from table "${deleteMatch[1]}"`;
-      result.push({ type: 'DELETE', content: `DELETE FROM ${deleteMatch[1]}`, explanation });
-    }
-
-    if (result.length === 0) {
-      result.push({
-        type: 'Unknown',
-        content: sqlText,
-        explanation: explainMode === 'easy'
-          ? '🤔 Không nhận diện được câu lệnh. Kiểm tra lại cú pháp!'
-          : 'Unable to parse SQL statement. Please verify syntax.'
-      });
-    }
-
-    return result;
-  };
-
   const bgClass = isDark ? 'bg-slate-900' : 'bg-white';
   const textClass = isDark ? 'text-white' : 'text-slate-800';
   const borderClass = isDark ? 'border-slate-700' : 'border-slate-200';
@@ -155,6 +47,22 @@ export function SQLExplainer({ isDark, mode }: SQLExplainerProps) {
     "DELETE FROM students WHERE age < 16"
   ];
 
+  // Queries with enough clauses to make the evaluation order visible
+  const orderExamples = [
+    "SELECT name, age FROM students WHERE age > 18 ORDER BY age DESC LIMIT 3",
+    "SELECT department, COUNT(*) AS so_nguoi FROM employees WHERE salary > 1000 GROUP BY department HAVING COUNT(*) > 1 ORDER BY so_nguoi DESC",
+    "SELECT DISTINCT department FROM employees ORDER BY department"
+  ];
+
+  // Statements that read differently on each database
+  const translateExamples = [
+    "SELECT `name`, IFNULL(email, 'n/a') FROM students ORDER BY name LIMIT 10, 5",
+    "CREATE TABLE logs (id INT AUTO_INCREMENT PRIMARY KEY, msg TEXT, created DATETIME)",
+    "SELECT DATE_ADD(order_date, INTERVAL 7 DAY), DATEDIFF(NOW(), order_date) FROM orders",
+    "SELECT department, GROUP_CONCAT(name SEPARATOR ', ') FROM employees GROUP BY department",
+    "SELECT TOP (5) [name] FROM students WHERE name LIKE 'A%' ORDER BY age"
+  ];
+
   return (
     <div className={`rounded-2xl ${bgClass} shadow-xl overflow-hidden border ${borderClass}`}>
       {/* Header */}
@@ -163,9 +71,28 @@ export function SQLExplainer({ isDark, mode }: SQLExplainerProps) {
           <span className="text-3xl">🧠</span>
           <div>
             <h2 className="text-xl font-bold text-white">AI Giải thích SQL</h2>
-            <p className="text-violet-100 text-sm">Dán câu SQL để xem giải thích từng phần</p>
+            <p className="text-violet-100 text-sm">
+              {view === 'explain'
+                ? 'Dán câu SQL để xem giải thích từng phần'
+                : view === 'order'
+                ? 'Xem database thực sự chạy câu SELECT theo thứ tự nào, từng bước trên dữ liệu thật'
+                : 'Viết một lần, xem bản tương đương trên MySQL, PostgreSQL, SQLite và SQL Server'}
+            </p>
           </div>
         </div>
+        <div className="flex gap-2 mt-4">
+          {([['explain', '🔍 Giải thích'], ['order', '⏱️ Thứ tự chạy'], ['translate', '🌐 Dịch dialect']] as const).map(([id, title]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                view === id ? 'bg-white text-violet-700' : 'bg-white/20 text-white hover:bg-white/30'
+              }`}
+            >
+              {title}
+            </button>
+          ))}
+        </div>
       </div>
 
       <div className="p-6">
@@ -183,28 +110,30 @@ export function SQLExplainer({ isDark, mode }: SQLExplainerProps) {
             } border`}
           />
           
-          <button
-            onClick={analyzeSQL}
-            disabled={isAnalyzing || !sql.trim()}
-            className="mt-3 w-full py-3 bg-gradient-to-r from-violet-500 to-purple-600 text-white rounded-xl font-semibold hover:from-violet-600 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-          >
-            {isAnalyzing ? (
-              <>
-                <span className="animate-spin">⏳</span> Đang phân tích...
-              </>
-            ) : (
-              <>
-                <span>🔍</span> Phân tích SQL
-              </>
-            )}
-          </button>
+          {view === 'explain' && (
+            <button
+              onClick={analyzeSQL}
+              disabled={isAnalyzing || !sql.trim()}
+              className="mt-3 w-full py-3 bg-gradient-to-r from-violet-500 to-purple-600 text-white rounded-xl font-semibold hover:from-violet-600 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isAnalyzing ? (
+                <>
+                  <span className="animate-spin">⏳</span> Đang phân tích...
+                </>
+              ) : (
+                <>
+                  <span>🔍</span> Phân tích SQL
+                </>
+              )}
+            </button>
+          )}
         </div>
 
         {/* Example queries */}
         <div className="mb-6">
           <h3 className={`text-sm font-medium ${mutedClass} mb-2`}>Thử với ví dụ:</h3>
           <div className="flex flex-wrap gap-2">
-            {examples.map((ex, i) => (
+            {(view === 'translate' ? translateExamples : view === 'order' ? orderExamples : examples).map((ex, i) => (
               <button
                 key={i}
                 onClick={() => setSQL(ex)}
@@ -220,8 +149,12 @@ export function SQLExplainer({ isDark, mode }: SQLExplainerProps) {
           </div>
         </div>
 
+        {view === 'translate' && <SQLTranslator sql={sql} isDark={isDark} />}
+
+        {view === 'order' && <ExecutionOrder sql={sql} isDark={isDark} />}
+
         {/* SQL Preview */}
-        {sql && (
+        {view === 'explain' && sql && (
           <div className="mb-6">
             <h3 className={`text-sm font-medium ${textClass} mb-2`}>Câu lệnh:</h3>
             <SQLHighlighter sql={sql} mode={mode} />
@@ -229,7 +162,7 @@ export function SQLExplainer({ isDark, mode }: SQLExplainerProps) {
         )}
 
         {/* Analysis Result */}
-        {parts.length > 0 && (
+        {view === 'explain' && parts.length > 0 && (
           <div className="space-y-4">
             <h3 className={`font-semibold ${textClass} flex items-center gap-2`}>
               <span>📝</span> Phân tích từng phần:
@@ -244,7 +177,7 @@ export function SQLExplainer({ isDark, mode }: SQLExplainerProps) {
                   part.type === 'WHERE' ? 'border-yellow-500 bg-yellow-50 dark:bg-yellow-900/20' :
                   part.type === 'ORDER BY' ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20' :
                   part.type === 'GROUP BY' ? 'border-pink-500 bg-pink-50 dark:bg-pink-900/20' :
-                  part.type === 'JOIN' ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20' :
+                  part.type.endsWith('JOIN') ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20' :
                   part.type === 'INSERT' ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20' :
                   part.type === 'UPDATE' ? 'border-cyan-500 bg-cyan-50 dark:bg-cyan-900/20' :
                   part.type === 'DELETE' ? 'border-red-500 bg-red-50 dark:bg-red-900/20' :
@@ -285,6 +218,10 @@ export function SQLExplainer({ isDark, mode }: SQLExplainerProps) {
             ))}
           </div>
         )}
+
+        {view === 'explain' && parts.length > 0 && <JoinVisualizer sql={sql} isDark={isDark} />}
+
+        {view === 'explain' && parts.length > 0 && <GroupVisualizer sql={sql} isDark={isDark} />}
       </div>
     </div>
   );
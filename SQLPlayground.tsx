@@ -1,8 +1,19 @@
 import { useState, useEffect } from 'react';
-import { useSQLEngine } from '../hooks/useSQLEngine';
+import { useDatabase } from '../hooks/useDatabase';
 import { useTextToSpeech } from '../hooks/useTextToSpeech';
 import { sampleDatabases } from '../data/database';
 import { SQLHighlighter } from './SQLHighlighter';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
+import { DumpTools } from './DumpTools';
+import { DatabaseTimeline } from './DatabaseTimeline';
+import { DialectSelector } from './DialectSelector';
+import { ImportWizard } from './ImportWizard';
+import { ResultExport } from './ResultExport';
+import { GroupVisualizer } from './GroupVisualizer';
+import { DataDiff } from './DataDiff';
+import { SchemaDiagram } from './SchemaDiagram';
+import { DataGrid } from './DataGrid';
+import { TableDiff, canPreview, previewWithDiff, runWithDiff } from '../utils/sqlDiff';
 
 interface SQLPlaygroundProps {
   mode: 'easy' | 'technical';
@@ -14,24 +25,80 @@ export function SQLPlayground({ mode, isDark }: SQLPlaygroundProps) {
   const [result, setResult] = useState<{ columns: string[]; rows: (string | number | null)[][]; error?: string; executionTime?: number } | null>(null);
   const [selectedTable, setSelectedTable] = useState('students');
   const [history, setHistory] = useState<string[]>([]);
-  const { executeSQL, resetDB, isReady } = useSQLEngine();
+  const [showImport, setShowImport] = useState(false);
+  const [showDiagram, setShowDiagram] = useState(false);
+  const [showGrid, setShowGrid] = useState(false);
+  // Rows an INSERT / UPDATE / DELETE changed, or would change when previewed
+  const [diff, setDiff] = useState<TableDiff | null>(null);
+  const { runQuery, cancelQuery, isQueryRunning, resetDB, restoreSampleData, isReady, activeWorkspace, dialect, readCatalog } = useDatabase();
   const { speakSQL, isSpeaking, stop } = useTextToSpeech();
 
-  const handleRun = () => {
-    const queryResult = executeSQL(sql);
+  const handleRun = async () => {
+    const { result: queryResult, diff: changes } = await runWithDiff(sql, dialect, readCatalog, runQuery);
     setResult(queryResult);
+    setDiff(changes);
     
     if (!queryResult.error && !history.includes(sql)) {
       setHistory(prev => [sql, ...prev].slice(0, 10));
     }
   };
 
-  const handleReset = () => {
-    resetDB();
+  // UPDATE / DELETE: show the rows the WHERE clause would touch, without writing anything
+  const handlePreview = async () => {
+    const preview = await previewWithDiff(sql, dialect, readCatalog, runQuery);
+    if (!preview) return;
+    setResult(preview.error ? { columns: [], rows: [], error: preview.error } : null);
+    setDiff(preview.diff);
+  };
+
+  const clearResult = () => {
     setResult(null);
+    setDiff(null);
+  };
+
+  const showError = (err: unknown) => {
+    setResult({ columns: [], rows: [], error: (err as Error).message });
+    setDiff(null);
+  };
+
+  const handleRestoreSample = () => {
+    try {
+      restoreSampleData();
+    } catch (err) {
+      showError(err);
+      return;
+    }
+    handleRun();
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Xóa toàn bộ bảng và dữ liệu bạn đã tạo? (Có thể bấm ↩️ Undo để lấy lại)')) return;
+    try {
+      resetDB();
+    } catch (err) {
+      showError(err);
+      return;
+    }
+    clearResult();
     setSQL('SELECT * FROM students');
   };
 
+  const handleImported = (tableName: string) => {
+    const query = `SELECT * FROM ${tableName}`;
+    setShowImport(false);
+    setSQL(query);
+    runQuery(query).then(setResult);
+  };
+
+  // Clicking a box in the ER diagram: show that table's rows straight away
+  const openTable = (tableName: string) => {
+    const query = `SELECT * FROM ${tableName}`;
+    setSelectedTable(tableName);
+    setSQL(query);
+    setDiff(null);
+    runQuery(query).then(setResult);
+  };
+
   const loadTablePreview = (tableName: string) => {
     setSelectedTable(tableName);
     setSQL(`SELECT * FROM ${tableName}`);
@@ -43,6 +110,11 @@ export function SQLPlayground({ mode, isDark }: SQLPlaygroundProps) {
     }
   }, [isReady]);
 
+  // Results from another workspace would be misleading
+  useEffect(() => {
+    clearResult();
+  }, [activeWorkspace]);
+
   const bgClass = isDark ? 'bg-slate-900' : 'bg-white';
   const textClass = isDark ? 'text-white' : 'text-slate-800';
   const borderClass = isDark ? 'border-slate-700' : 'border-slate-200';
@@ -55,23 +127,65 @@ export function SQLPlayground({ mode, isDark }: SQLPlaygroundProps) {
           <span className="text-3xl">🧪</span>
           <div>
             <h2 className="text-xl font-bold text-white">SQL Sandbox</h2>
-            <p className="text-emerald-100 text-sm">Chạy SQL thật với database mẫu</p>
+            <p className="text-emerald-100 text-sm">Chạy SQL thật với database mẫu • 💾 Tự động lưu</p>
           </div>
         </div>
         
         <div className="flex items-center gap-2">
+          <DialectSelector />
           <button
-            onClick={handleReset}
+            onClick={() => setShowDiagram(!showDiagram)}
+            className={`px-3 py-1.5 text-white rounded-lg text-sm font-medium transition-colors ${showDiagram ? 'bg-white/40' : 'bg-white/20 hover:bg-white/30'}`}
+            title="Sơ đồ quan hệ giữa các bảng, tự cập nhật khi bạn CREATE / ALTER / DROP"
+          >
+            🗺️ Sơ đồ ER
+          </button>
+          <button
+            onClick={() => setShowGrid(!showGrid)}
+            className={`px-3 py-1.5 text-white rounded-lg text-sm font-medium transition-colors ${showGrid ? 'bg-white/40' : 'bg-white/20 hover:bg-white/30'}`}
+            title="Sửa, thêm, xóa dòng như bảng tính — xem câu SQL tương ứng trước khi chạy"
+          >
+            ✏️ Sửa dữ liệu
+          </button>
+          <button
+            onClick={() => setShowImport(!showImport)}
+            className="px-3 py-1.5 bg-white/20 hover:bg-white/30 text-white rounded-lg text-sm font-medium transition-colors"
+            title="Tạo bảng từ file CSV, TSV hoặc JSON"
+          >
+            📊 Nhập CSV/JSON
+          </button>
+          <button
+            onClick={handleRestoreSample}
             className="px-3 py-1.5 bg-white/20 hover:bg-white/30 text-white rounded-lg text-sm font-medium transition-colors"
+            title="Nạp lại dữ liệu gốc cho các bảng mẫu, giữ nguyên bảng bạn tạo"
           >
-            🔄 Reset DB
+            🌱 Dữ liệu mẫu
+          </button>
+          <button
+            onClick={handleReset}
+            className="px-3 py-1.5 bg-white/20 hover:bg-red-500/60 text-white rounded-lg text-sm font-medium transition-colors"
+            title="Xóa mọi bảng và dữ liệu bạn đã tạo"
+          >
+            🗑️ Xóa bài làm
           </button>
         </div>
       </div>
 
+      {showImport && (
+        <ImportWizard isDark={isDark} onImported={handleImported} onClose={() => setShowImport(false)} />
+      )}
+
+      {showDiagram && <SchemaDiagram isDark={isDark} onOpenTable={openTable} />}
+
+      {showGrid && <DataGrid key={selectedTable} isDark={isDark} mode={mode} table={selectedTable} />}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-0">
         {/* Left: Tables */}
         <div className={`p-4 border-r ${borderClass}`}>
+          <WorkspaceSwitcher isDark={isDark} />
+          <DumpTools isDark={isDark} onImported={clearResult} />
+          <DatabaseTimeline isDark={isDark} onChange={clearResult} />
+
           <h3 className={`font-semibold ${textClass} mb-3 flex items-center gap-2`}>
             <span>📊</span> Database mẫu
           </h3>
@@ -152,7 +266,7 @@ export function SQLPlayground({ mode, isDark }: SQLPlaygroundProps) {
             onKeyDown={(e) => {
               if (e.key === 'Enter' && e.ctrlKey) {
                 e.preventDefault();
-                handleRun();
+                if (!isQueryRunning) handleRun();
               }
             }}
             className={`w-full h-32 p-3 rounded-xl font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-emerald-500 ${
@@ -162,12 +276,32 @@ export function SQLPlayground({ mode, isDark }: SQLPlaygroundProps) {
           />
 
           <div className="flex gap-2 mt-3">
-            <button
-              onClick={handleRun}
-              className="flex-1 py-2.5 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-xl font-semibold hover:from-emerald-600 hover:to-teal-700 transition-all flex items-center justify-center gap-2"
-            >
-              <span>▶</span> Chạy (Ctrl+Enter)
-            </button>
+            {isQueryRunning ? (
+              <button
+                onClick={cancelQuery}
+                className="flex-1 py-2.5 bg-gradient-to-r from-red-500 to-rose-600 text-white rounded-xl font-semibold hover:from-red-600 hover:to-rose-700 transition-all flex items-center justify-center gap-2"
+              >
+                <span>⏹</span> Dừng truy vấn
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                className="flex-1 py-2.5 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-xl font-semibold hover:from-emerald-600 hover:to-teal-700 transition-all flex items-center justify-center gap-2"
+              >
+                <span>▶</span> Chạy (Ctrl+Enter)
+              </button>
+            )}
+            {canPreview(sql, dialect) && !isQueryRunning && (
+              <button
+                onClick={handlePreview}
+                title="Xem các dòng sẽ bị ảnh hưởng mà chưa thực thi"
+                className={`px-4 py-2.5 rounded-xl font-semibold transition-all ${
+                  isDark ? 'bg-violet-900/50 text-violet-300 hover:bg-violet-900' : 'bg-violet-100 text-violet-700 hover:bg-violet-200'
+                }`}
+              >
+                👁️ Xem trước
+              </button>
+            )}
             <button
               onClick={() => setSQL('')}
               className={`px-4 py-2.5 rounded-xl font-semibold transition-all ${
@@ -215,7 +349,12 @@ export function SQLPlayground({ mode, isDark }: SQLPlaygroundProps) {
             )}
           </h3>
 
-          {result?.error ? (
+          {isQueryRunning ? (
+            <div className={`text-center py-8 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+              <span className="text-4xl inline-block animate-spin">⏳</span>
+              <p className="mt-2">Đang chạy truy vấn…</p>
+            </div>
+          ) : result?.error ? (
             <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4">
               <div className="text-red-600 dark:text-red-400 whitespace-pre-wrap text-sm">
                 {result.error}
@@ -233,6 +372,18 @@ export function SQLPlayground({ mode, isDark }: SQLPlaygroundProps) {
                 </ul>
               </div>
             </div>
+          ) : diff ? (
+            <div className="space-y-3">
+              <DataDiff diff={diff} isDark={isDark} />
+              {diff.preview && (
+                <button
+                  onClick={handleRun}
+                  className="w-full py-2 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-xl font-semibold hover:from-emerald-600 hover:to-teal-700 transition-all"
+                >
+                  ✅ Thực thi thật
+                </button>
+              )}
+            </div>
           ) : result?.columns.length ? (
             <div className="overflow-auto max-h-80 rounded-xl border border-slate-200 dark:border-slate-700">
               <table className="w-full text-sm">
@@ -266,10 +417,14 @@ export function SQLPlayground({ mode, isDark }: SQLPlaygroundProps) {
           )}
 
           {result && !result.error && (
-            <div className={`mt-3 text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
-              📊 {result.rows.length} hàng
+            <div className={`mt-3 text-sm flex flex-wrap items-center justify-between gap-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+              <span>📊 {result.rows.length} hàng</span>
+              {result.columns.length > 0 && <ResultExport result={result} sql={sql} isDark={isDark} />}
             </div>
           )}
+
+          {/* Only shows up for GROUP BY / aggregate queries */}
+          {result && !result.error && <GroupVisualizer sql={sql} isDark={isDark} />}
         </div>
       </div>
     </div>
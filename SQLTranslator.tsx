@@ -0,0 +1,114 @@
+import { useMemo, useRef, useState } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+import { TranslateDialect, translateDialects, translateToAll } from '../utils/sqlTranslate';
+
+interface SQLTranslatorProps {
+  sql: string;
+  isDark: boolean;
+}
+
+export function SQLTranslator({ sql, isDark }: SQLTranslatorProps) {
+  const { dialect } = useDatabase();
+  // Starts from the dialect the app runs in, since that is what the user has been writing
+  const [from, setFrom] = useState<TranslateDialect>(dialect);
+  const [copied, setCopied] = useState<{ target: TranslateDialect; ok: boolean } | null>(null);
+  const codeBlocks = useRef<Partial<Record<TranslateDialect, HTMLPreElement | null>>>({});
+
+  const translations = useMemo(() => (sql.trim() ? translateToAll(sql, from) : []), [sql, from]);
+
+  const handleCopy = async (target: TranslateDialect, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied({ target, ok: true });
+    } catch {
+      // No clipboard over plain http or without permission: select the code so Ctrl+C works
+      const block = codeBlocks.current[target];
+      if (block) window.getSelection()?.selectAllChildren(block);
+      setCopied({ target, ok: false });
+    }
+    setTimeout(() => setCopied(null), 3000);
+  };
+
+  const textClass = isDark ? 'text-white' : 'text-slate-800';
+  const mutedClass = isDark ? 'text-slate-400' : 'text-slate-500';
+  const borderClass = isDark ? 'border-slate-700' : 'border-slate-200';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <label className={`text-sm font-medium ${textClass}`}>Câu lệnh đang viết cho:</label>
+        <select
+          value={from}
+          onChange={(e) => setFrom(e.target.value as TranslateDialect)}
+          className={`rounded-lg px-2 py-1.5 text-sm border outline-none cursor-pointer ${
+            isDark ? 'bg-slate-800 text-white border-slate-700' : 'bg-white text-slate-800 border-slate-200'
+          }`}
+        >
+          {translateDialects.map(d => (
+            <option key={d.id} value={d.id}>
+              {d.icon} {d.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {translations.length === 0 && (
+        <p className={`text-sm ${mutedClass}`}>Nhập câu lệnh SQL ở trên để xem bản tương đương trên từng hệ quản trị.</p>
+      )}
+
+      {translations.map(t => {
+        const info = translateDialects.find(d => d.id === t.target)!;
+        const isSource = t.target === from;
+        const warnings = t.notes.filter(n => n.level === 'warning').length;
+        return (
+          <div key={t.target} className={`rounded-xl border ${borderClass} overflow-hidden`}>
+            <div className={`flex items-center gap-2 px-4 py-2 ${isDark ? 'bg-slate-800' : 'bg-slate-50'}`}>
+              <span>{info.icon}</span>
+              <span className={`font-semibold text-sm ${textClass}`}>{info.label}</span>
+              {isSource ? (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-violet-500/20 text-violet-600 dark:text-violet-300">Bản gốc</span>
+              ) : t.notes.length === 0 ? (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-emerald-500/20 text-emerald-600 dark:text-emerald-300">Giữ nguyên</span>
+              ) : warnings > 0 && (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-amber-500/20 text-amber-600 dark:text-amber-300">
+                  ⚠️ {warnings} chỗ cần xem lại
+                </span>
+              )}
+              <button
+                onClick={() => handleCopy(t.target, t.sql)}
+                className={`ml-auto px-2 py-0.5 rounded text-xs transition-colors ${
+                  isDark ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-white text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                {copied?.target !== t.target ? '📋 Copy' : copied.ok ? '✓ Đã copy' : '⚠️ Không copy được, đã chọn sẵn: nhấn Ctrl+C'}
+              </button>
+            </div>
+
+            {/* Numbered so the notes below can point at lines */}
+            <pre ref={el => { codeBlocks.current[t.target] = el; }} className={`p-4 font-mono text-sm overflow-x-auto ${isDark ? 'bg-slate-900 text-green-400' : 'bg-white text-slate-800'}`}>
+              {t.sql.split('\n').map((line, i) => (
+                <div key={i} className="flex">
+                  <span className={`select-none w-8 shrink-0 text-right pr-3 ${mutedClass}`}>{i + 1}</span>
+                  <span className="whitespace-pre">{line}</span>
+                </div>
+              ))}
+            </pre>
+
+            {t.notes.length > 0 && (
+              <ul className={`px-4 py-3 space-y-1 text-xs border-t ${borderClass}`}>
+                {t.notes.map((note, i) => (
+                  <li
+                    key={i}
+                    className={note.level === 'warning' ? 'text-amber-600 dark:text-amber-400' : 'text-blue-600 dark:text-blue-400'}
+                  >
+                    {note.level === 'warning' ? '⚠️' : '↪️'} Dòng {note.line} • {note.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useMemo, useRef, useState } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+import { HEADER_HEIGHT, ROW_HEIGHT, buildDiagram, linkPath } from '../utils/sqlDiagram';
+import { downloadBlob, downloadTextFile } from '../utils/sqlDump';
+
+interface SchemaDiagramProps {
+  isDark: boolean;
+  onOpenTable?: (table: string) => void;
+}
+
+// Colors go on the SVG elements themselves (not Tailwind classes) so the exported file looks the same
+const palettes = {
+  dark: { background: '#0f172a', box: '#1e293b', border: '#475569', header: '#059669', text: '#e2e8f0', muted: '#94a3b8', pk: '#fbbf24', fk: '#38bdf8', link: '#64748b', active: '#34d399' },
+  light: { background: '#ffffff', box: '#f8fafc', border: '#cbd5e1', header: '#10b981', text: '#1e293b', muted: '#64748b', pk: '#d97706', fk: '#0284c7', link: '#94a3b8', active: '#059669' },
+};
+
+export function SchemaDiagram({ isDark, onOpenTable }: SchemaDiagramProps) {
+  const { readCatalog, catalogVersion, activeWorkspace } = useDatabase();
+  const [hovered, setHovered] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Re-read the catalog after every CREATE / ALTER / DROP (or any other change)
+  const diagram = useMemo(() => buildDiagram(readCatalog()), [readCatalog, catalogVersion, activeWorkspace]);
+  const colors = isDark ? palettes.dark : palettes.light;
+
+  const serialize = () => (svgRef.current ? new XMLSerializer().serializeToString(svgRef.current) : '');
+
+  const exportSVG = () => {
+    downloadTextFile(`${activeWorkspace}-er.svg`, serialize(), 'image/svg+xml');
+  };
+
+  const exportPNG = () => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([serialize()], { type: 'image/svg+xml;charset=utf-8' }));
+    image.onload = () => {
+      // Twice the size so the image stays sharp when pasted into a report
+      const canvas = document.createElement('canvas');
+      canvas.width = diagram.width * 2;
+      canvas.height = diagram.height * 2;
+      const context = canvas.getContext('2d');
+      if (context) {
+        context.scale(2, 2);
+        context.drawImage(image, 0, 0);
+        canvas.toBlob(blob => blob && downloadBlob(`${activeWorkspace}-er.png`, blob), 'image/png');
+      }
+      URL.revokeObjectURL(url);
+    };
+    image.src = url;
+  };
+
+  const mutedClass = isDark ? 'text-slate-400' : 'text-slate-500';
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm transition-colors ${
+    isDark ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+  }`;
+  const inferredCount = diagram.links.filter(l => l.inferred).length;
+
+  return (
+    <div className={`p-4 border-b ${isDark ? 'border-slate-700' : 'border-slate-200'} space-y-3`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className={`font-semibold flex items-center gap-2 ${isDark ? 'text-white' : 'text-slate-800'}`}>
+          <span>🗺️</span> Sơ đồ ER — {activeWorkspace}
+        </h3>
+        <span className={`text-xs ${mutedClass}`}>
+          {diagram.tables.length} bảng • {diagram.links.length} quan hệ
+          {inferredCount > 0 && ` (${inferredCount} đoán theo tên cột)`}
+        </span>
+        <div className="ml-auto flex gap-2">
+          <button onClick={exportSVG} disabled={diagram.tables.length === 0} className={buttonClass}>⬇️ SVG</button>
+          <button onClick={exportPNG} disabled={diagram.tables.length === 0} className={buttonClass}>🖼️ PNG</button>
+        </div>
+      </div>
+
+      {diagram.tables.length === 0 ? (
+        <p className={`text-sm text-center py-6 ${mutedClass}`}>📭 Database chưa có bảng nào. Thử: CREATE TABLE ...</p>
+      ) : (
+        <div className={`overflow-auto max-h-[480px] rounded-xl border ${isDark ? 'border-slate-700' : 'border-slate-200'}`}>
+          <svg
+            ref={svgRef}
+            xmlns="http://www.w3.org/2000/svg"
+            width={diagram.width}
+            height={diagram.height}
+            viewBox={`0 0 ${diagram.width} ${diagram.height}`}
+            fontFamily="ui-monospace, SFMono-Regular, Menlo, monospace"
+            fontSize={12}
+          >
+            <defs>
+              <marker id="er-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={colors.link} />
+              </marker>
+              <marker id="er-arrow-active" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={colors.active} />
+              </marker>
+            </defs>
+            <rect width={diagram.width} height={diagram.height} fill={colors.background} />
+
+            {diagram.links.map((link, i) => {
+              const path = linkPath(diagram, link);
+              const active = hovered !== null && (link.from.table === hovered || link.to.table === hovered);
+              return path && (
+                <path
+                  key={i}
+                  d={path}
+                  fill="none"
+                  stroke={active ? colors.active : colors.link}
+                  strokeWidth={active ? 2.5 : 1.5}
+                  strokeDasharray={link.inferred ? '5 4' : undefined}
+                  markerEnd={`url(#${active ? 'er-arrow-active' : 'er-arrow'})`}
+                >
+                  <title>{`${link.from.table}.${link.from.column} → ${link.to.table}.${link.to.column}${link.inferred ? ' (đoán theo tên cột)' : ''}`}</title>
+                </path>
+              );
+            })}
+
+            {diagram.tables.map(table => (
+              <g
+                key={table.name}
+                transform={`translate(${table.x}, ${table.y})`}
+                onClick={() => onOpenTable?.(table.name)}
+                onMouseEnter={() => setHovered(table.name)}
+                onMouseLeave={() => setHovered(null)}
+                style={{ cursor: onOpenTable ? 'pointer' : 'default' }}
+              >
+                <title>{`SELECT * FROM ${table.name}`}</title>
+                <rect
+                  width={table.width}
+                  height={table.height}
+                  rx={8}
+                  fill={colors.box}
+                  stroke={hovered === table.name ? colors.active : colors.border}
+                  strokeWidth={hovered === table.name ? 2 : 1}
+                />
+                <path
+                  d={`M 0 8 Q 0 0 8 0 L ${table.width - 8} 0 Q ${table.width} 0 ${table.width} 8 L ${table.width} ${HEADER_HEIGHT} L 0 ${HEADER_HEIGHT} z`}
+                  fill={colors.header}
+                />
+                <text x={10} y={HEADER_HEIGHT / 2 + 4} fill="#ffffff" fontWeight="bold" fontSize={13}>{table.name}</text>
+                <text x={table.width - 10} y={HEADER_HEIGHT / 2 + 4} fill="#ecfdf5" textAnchor="end" fontSize={10}>{table.rows} dòng</text>
+
+                {table.columns.map((col, i) => {
+                  const y = HEADER_HEIGHT + i * ROW_HEIGHT + ROW_HEIGHT / 2 + 4;
+                  const marker = col.primaryKey ? 'PK' : col.foreignKey ? 'FK' : '';
+                  return (
+                    <g key={col.name}>
+                      {marker && (
+                        <text x={8} y={y} fill={col.primaryKey ? colors.pk : colors.fk} fontWeight="bold" fontSize={9}>{marker}</text>
+                      )}
+                      <text x={28} y={y} fill={colors.text} fontWeight={col.primaryKey ? 'bold' : 'normal'}>{col.name}</text>
+                      <text x={table.width - 10} y={y} fill={colors.muted} textAnchor="end">{col.type}</text>
+                    </g>
+                  );
+                })}
+                {table.columns.length === 0 && (
+                  <text x={10} y={HEADER_HEIGHT + ROW_HEIGHT / 2 + 4} fill={colors.muted} fontStyle="italic">(không có cột)</text>
+                )}
+              </g>
+            ))}
+          </svg>
+        </div>
+      )}
+
+      <p className={`text-xs ${mutedClass}`}>
+        <span className="font-bold text-amber-500">PK</span> khóa chính •{' '}
+        <span className="font-bold text-sky-500">FK</span> khóa ngoại • ── FOREIGN KEY đã khai báo • ╌╌ đoán theo tên cột (vd: orders.product_id → products.id) • Bấm vào bảng để xem dữ liệu
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+import { runScript, ScriptSummary } from '../utils/sqlDump';
+import {
+  COLUMN_TYPES,
+  DesignColumn,
+  DesignIndex,
+  TableDesign,
+  alterTableSQL,
+  createTableSQL,
+  designFromTable,
+  designProblems,
+  emptyDesign,
+  newColumn,
+} from '../utils/sqlDesigner';
+import { SQLHighlighter } from './SQLHighlighter';
+
+interface TableDesignerProps {
+  isDark: boolean;
+  mode: 'easy' | 'technical';
+}
+
+const nextId = (items: { id: number }[]) => Math.max(0, ...items.map(item => item.id)) + 1;
+
+export function TableDesigner({ isDark, mode }: TableDesignerProps) {
+  const { readCatalog, catalogVersion, executeSQL, runAsStep, activeWorkspace } = useDatabase();
+  // '' while designing a new table, otherwise the table being edited
+  const [source, setSource] = useState('');
+  const [design, setDesign] = useState<TableDesign>(emptyDesign);
+  const [status, setStatus] = useState<ScriptSummary | null>(null);
+
+  const catalog = useMemo(() => readCatalog(), [readCatalog, catalogVersion, activeWorkspace]);
+  const original = source ? catalog.tables.find(t => t.name === source) : undefined;
+
+  // The table went away (DROP, workspace switch): start over with a new one
+  useEffect(() => {
+    if (source && !original) {
+      setSource('');
+      setDesign(emptyDesign());
+    }
+  }, [source, original]);
+
+  const problems = designProblems(design, catalog.tables, original);
+  const statements = problems.length > 0 ? [] : original ? alterTableSQL(original, design) : createTableSQL(design);
+
+  const pickSource = (name: string) => {
+    const table = catalog.tables.find(t => t.name === name);
+    setSource(table ? table.name : '');
+    setDesign(table ? designFromTable(table) : emptyDesign());
+    setStatus(null);
+  };
+
+  const apply = () => {
+    const summary = runAsStep(`Thiết kế bảng ${design.name}`, () => runScript(statements.join('\n'), executeSQL));
+    setStatus(summary);
+    if (summary.failed) return;
+    // Keep editing what was just created or changed, now as it really is
+    const table = readCatalog().tables.find(t => t.name.toLowerCase() === design.name.trim().toLowerCase());
+    setSource(table?.name ?? '');
+    setDesign(table ? designFromTable(table) : emptyDesign());
+  };
+
+  const updateColumn = (id: number, patch: Partial<DesignColumn>) => {
+    setDesign(d => ({ ...d, columns: d.columns.map(c => (c.id === id ? { ...c, ...patch } : c)) }));
+  };
+  const removeColumn = (id: number) => {
+    setDesign(d => ({
+      ...d,
+      columns: d.columns.filter(c => c.id !== id),
+      indexes: d.indexes.map(ix => ({ ...ix, columns: ix.columns.filter(c => c !== id) })),
+    }));
+  };
+  const updateIndex = (id: number, patch: Partial<DesignIndex>) => {
+    setDesign(d => ({ ...d, indexes: d.indexes.map(ix => (ix.id === id ? { ...ix, ...patch } : ix)) }));
+  };
+  const addIndex = () => {
+    setDesign(d => ({ ...d, indexes: [...d.indexes, { id: nextId(d.indexes), name: `idx_${d.name || 'bang'}_${d.indexes.length + 1}`, columns: [] }] }));
+  };
+
+  const textClass = isDark ? 'text-white' : 'text-slate-800';
+  const mutedClass = isDark ? 'text-slate-400' : 'text-slate-500';
+  const borderClass = isDark ? 'border-slate-700' : 'border-slate-200';
+  const inputClass = `px-2 py-1 rounded-lg border text-sm font-mono ${
+    isDark ? 'bg-slate-800 border-slate-600 text-white' : 'bg-white border-slate-300 text-slate-800'
+  }`;
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm transition-colors ${
+    isDark ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+  }`;
+  const otherTables = catalog.tables.filter(t => t.name !== source);
+
+  const toggle = (label: string, title: string, checked: boolean, onChange: (value: boolean) => void, disabled = false) => (
+    <label title={title} className={`flex items-center gap-1 text-xs ${disabled ? 'opacity-50' : 'cursor-pointer'} ${mutedClass}`}>
+      <input type="checkbox" checked={checked} disabled={disabled} onChange={e => onChange(e.target.checked)} />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={source} onChange={e => pickSource(e.target.value)} className={inputClass}>
+          <option value="">➕ Tạo bảng mới</option>
+          {catalog.tables.map(t => (
+            <option key={t.name} value={t.name}>✏️ Sửa bảng {t.name}</option>
+          ))}
+        </select>
+        <input
+          value={design.name}
+          onChange={e => setDesign(d => ({ ...d, name: e.target.value }))}
+          placeholder="tên_bảng"
+          className={`${inputClass} flex-1 min-w-[10rem]`}
+        />
+        <button onClick={() => pickSource(source)} className={buttonClass} title="Bỏ mọi chỉnh sửa chưa áp dụng">
+          ↺ Làm lại
+        </button>
+      </div>
+
+      {/* Columns */}
+      <div className={`rounded-xl border ${borderClass} divide-y ${isDark ? 'divide-slate-700' : 'divide-slate-200'}`}>
+        {design.columns.map(col => (
+          <div key={col.id} className="p-3 flex flex-wrap items-center gap-2">
+            <input
+              value={col.name}
+              onChange={e => updateColumn(col.id, { name: e.target.value })}
+              placeholder="tên_cột"
+              className={`${inputClass} w-36`}
+            />
+            <select value={col.type} onChange={e => updateColumn(col.id, { type: e.target.value })} className={inputClass}>
+              {(COLUMN_TYPES.includes(col.type) ? COLUMN_TYPES : [col.type, ...COLUMN_TYPES]).map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            <input
+              value={col.size}
+              onChange={e => updateColumn(col.id, { size: e.target.value })}
+              placeholder="độ dài"
+              title="VARCHAR(100) → 100, DECIMAL(10,2) → 10,2"
+              className={`${inputClass} w-20`}
+            />
+            {toggle('PK', 'Khóa chính (PRIMARY KEY)', col.primaryKey, v => updateColumn(col.id, { primaryKey: v, notNull: v || col.notNull }))}
+            {toggle('NOT NULL', 'Bắt buộc có giá trị', col.notNull || col.primaryKey, v => updateColumn(col.id, { notNull: v }), col.primaryKey)}
+            {toggle('UNIQUE', 'Không được trùng', col.unique, v => updateColumn(col.id, { unique: v }))}
+            {toggle('AUTO_INCREMENT', 'Tự tăng (cột số làm khóa chính)', col.autoIncrement, v => updateColumn(col.id, { autoIncrement: v }))}
+            <input
+              value={col.defaultValue}
+              onChange={e => updateColumn(col.id, { defaultValue: e.target.value })}
+              placeholder="DEFAULT"
+              className={`${inputClass} w-28`}
+            />
+            <select
+              value={col.references?.table ?? ''}
+              onChange={e => {
+                const parent = otherTables.find(t => t.name === e.target.value);
+                updateColumn(col.id, { references: parent ? { table: parent.name, column: parent.primaryKey[0] ?? parent.columns[0]?.name ?? '' } : null });
+              }}
+              className={inputClass}
+              title="Khóa ngoại (FOREIGN KEY)"
+            >
+              <option value="">🔗 không tham chiếu</option>
+              {otherTables.map(t => (
+                <option key={t.name} value={t.name}>→ {t.name}</option>
+              ))}
+            </select>
+            {col.references && (
+              <select
+                value={col.references.column}
+                onChange={e => updateColumn(col.id, { references: { table: col.references!.table, column: e.target.value } })}
+                className={inputClass}
+              >
+                {(otherTables.find(t => t.name === col.references!.table)?.columns ?? []).map(c => (
+                  <option key={c.name} value={c.name}>{c.name}</option>
+                ))}
+              </select>
+            )}
+            <button onClick={() => removeColumn(col.id)} className="ml-auto px-2 py-1 rounded-lg text-sm text-red-500 hover:bg-red-500/10" title="Xóa cột">
+              ✕
+            </button>
+          </div>
+        ))}
+        <div className="p-3">
+          <button onClick={() => setDesign(d => ({ ...d, columns: [...d.columns, newColumn(nextId(d.columns))] }))} className={buttonClass}>
+            ➕ Thêm cột
+          </button>
+        </div>
+      </div>
+
+      {/* Indexes */}
+      <div className="space-y-2">
+        <h4 className={`font-semibold text-sm ${textClass}`}>⚡ Chỉ mục (INDEX)</h4>
+        {design.indexes.map(ix => (
+          <div key={ix.id} className="flex flex-wrap items-center gap-2">
+            <input value={ix.name} onChange={e => updateIndex(ix.id, { name: e.target.value })} className={`${inputClass} w-40`} />
+            {design.columns.filter(c => c.name.trim()).map(col => {
+              const position = ix.columns.indexOf(col.id);
+              return (
+                <button
+                  key={col.id}
+                  onClick={() => updateIndex(ix.id, { columns: position >= 0 ? ix.columns.filter(c => c !== col.id) : [...ix.columns, col.id] })}
+                  className={`px-2 py-1 rounded text-xs font-mono ${position >= 0 ? 'bg-indigo-500 text-white' : buttonClass}`}
+                >
+                  {position >= 0 && `${position + 1}. `}{col.name}
+                </button>
+              );
+            })}
+            <button
+              onClick={() => setDesign(d => ({ ...d, indexes: d.indexes.filter(other => other.id !== ix.id) }))}
+              className="px-2 py-1 rounded-lg text-sm text-red-500 hover:bg-red-500/10"
+              title="Xóa chỉ mục"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button onClick={addIndex} className={buttonClass}>➕ Thêm chỉ mục</button>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="space-y-1">
+          {problems.map((problem, i) => (
+            <li key={i} className="text-sm text-amber-600 dark:text-amber-400">⚠️ {problem}</li>
+          ))}
+        </ul>
+      )}
+
+      {/* Generated DDL */}
+      <div>
+        <h4 className={`font-semibold text-sm mb-2 ${textClass}`}>
+          📜 SQL sẽ chạy {original ? '(chỉ những thay đổi — ALTER TABLE)' : '(CREATE TABLE)'}
+        </h4>
+        {statements.length > 0 ? (
+          <SQLHighlighter sql={statements.join('\n')} mode={mode} />
+        ) : (
+          <p className={`text-sm ${mutedClass}`}>
+            {problems.length > 0 ? 'Sửa các lỗi ở trên để xem SQL.' : 'Chưa có thay đổi nào so với bảng hiện tại.'}
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={apply}
+          disabled={statements.length === 0}
+          className="px-4 py-2 bg-gradient-to-r from-blue-500 to-cyan-600 text-white rounded-xl font-semibold hover:opacity-90 disabled:opacity-40 transition-all"
+        >
+          ✅ Áp dụng vào database {activeWorkspace}
+        </button>
+        {status && (
+          <span className={`text-sm ${status.failed ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>
+            {status.failed ? `❌ ${status.failed.message} — ${status.failed.sql}` : `✅ Đã chạy ${status.executed} câu lệnh`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,10 +5,14 @@ interface TablePreviewProps {
   columns: string[];
   rows: (string | number)[][];
   highlightedRows?: number[];
+  // Rows shown struck through, e.g. filtered out by WHERE
+  droppedRows?: number[];
+  // Per-row background, e.g. one color per group
+  rowClasses?: string[];
   animateIn?: boolean;
 }
 
-export function TablePreview({ name, columns, rows, highlightedRows = [], animateIn = true }: TablePreviewProps) {
+export function TablePreview({ name, columns, rows, highlightedRows = [], droppedRows = [], rowClasses = [], animateIn = true }: TablePreviewProps) {
   const [visibleRows, setVisibleRows] = useState<number[]>([]);
 
   useEffect(() => {
@@ -58,6 +62,10 @@ export function TablePreview({ name, columns, rows, highlightedRows = [], animat
                 } ${
                   highlightedRows.includes(rowIndex)
                     ? 'bg-green-100'
+                    : droppedRows.includes(rowIndex)
+                    ? 'bg-red-100 line-through'
+                    : rowClasses[rowIndex]
+                    ? rowClasses[rowIndex]
                     : rowIndex % 2 === 0 ? 'bg-white' : 'bg-slate-50'
                 }`}
               >
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+import { WorkspaceTemplate, workspaceTemplates } from '../utils/sqlWorkspaces';
+
+interface WorkspaceSwitcherProps {
+  isDark: boolean;
+}
+
+export function WorkspaceSwitcher({ isDark }: WorkspaceSwitcherProps) {
+  const { activeWorkspace, workspaces, createWorkspace, cloneWorkspace, switchWorkspace, deleteWorkspace } = useDatabase();
+  const [formMode, setFormMode] = useState<'create' | 'clone' | null>(null);
+  const [newName, setNewName] = useState('');
+  const [template, setTemplate] = useState<WorkspaceTemplate>('sample');
+  const [error, setError] = useState<string | null>(null);
+
+  const run = (action: () => void) => {
+    try {
+      action();
+      setError(null);
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+  };
+
+  const handleSubmit = () => {
+    const name = newName.trim();
+    const ok = run(() => {
+      if (formMode === 'clone') {
+        cloneWorkspace(activeWorkspace, name);
+      } else {
+        createWorkspace(name, template);
+      }
+      switchWorkspace(name);
+    });
+    if (ok) {
+      setFormMode(null);
+      setNewName('');
+    }
+  };
+
+  const handleDelete = (name: string) => {
+    if (!window.confirm(`Xóa workspace "${name}" và toàn bộ dữ liệu bên trong?`)) return;
+    run(() => deleteWorkspace(name));
+  };
+
+  const mutedClass = isDark ? 'text-slate-400' : 'text-slate-500';
+  const inputClass = `w-full px-2 py-1.5 rounded-lg text-sm border focus:outline-none focus:ring-2 focus:ring-emerald-500 ${
+    isDark ? 'bg-slate-800 text-white border-slate-700' : 'bg-white text-slate-800 border-slate-200'
+  }`;
+  const smallButtonClass = `px-2 py-1 text-xs rounded-lg transition-colors ${
+    isDark ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+  }`;
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className={`text-xs font-semibold uppercase tracking-wide ${mutedClass}`}>🗄️ Workspace</span>
+        <div className="flex gap-1">
+          <button onClick={() => setFormMode(formMode === 'create' ? null : 'create')} className={smallButtonClass} title="Tạo workspace mới">
+            ➕ Mới
+          </button>
+          <button onClick={() => setFormMode(formMode === 'clone' ? null : 'clone')} className={smallButtonClass} title="Nhân bản workspace hiện tại">
+            📄 Nhân bản
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {workspaces.map(ws => {
+          const info = workspaceTemplates.find(t => t.id === ws.template);
+          const isActive = ws.name === activeWorkspace;
+          return (
+            <div
+              key={ws.name}
+              className={`flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm ${
+                isActive
+                  ? 'bg-emerald-100 dark:bg-emerald-900/50 border border-emerald-500'
+                  : `${isDark ? 'bg-slate-800 hover:bg-slate-700' : 'bg-slate-50 hover:bg-slate-100'} border border-transparent`
+              }`}
+            >
+              <button
+                onClick={() => run(() => switchWorkspace(ws.name))}
+                className={`flex-1 text-left font-mono truncate ${isDark ? 'text-emerald-400' : 'text-emerald-700'}`}
+                title={info?.label}
+              >
+                {info?.icon} {ws.name}
+              </button>
+              {!isActive && (
+                <button
+                  onClick={() => handleDelete(ws.name)}
+                  className="text-xs text-red-400 hover:text-red-600"
+                  title="Xóa workspace"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {formMode && (
+        <div className={`mt-2 p-2 rounded-lg space-y-2 ${isDark ? 'bg-slate-800/50' : 'bg-slate-50'}`}>
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+            placeholder={formMode === 'clone' ? `${activeWorkspace}-copy` : 'my-homework'}
+            className={inputClass}
+            autoFocus
+          />
+          {formMode === 'create' && (
+            <select
+              value={template}
+              onChange={(e) => setTemplate(e.target.value as WorkspaceTemplate)}
+              className={inputClass}
+            >
+              {workspaceTemplates.map(t => (
+                <option key={t.id} value={t.id}>{t.icon} {t.label}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={handleSubmit}
+            disabled={!newName.trim()}
+            className="w-full py-1.5 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            {formMode === 'clone' ? `Nhân bản "${activeWorkspace}"` : 'Tạo workspace'}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-2 text-xs text-red-500">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { AlterAction, ColumnDefinition, Span, tokenize, tryParseSQL } from './sqlParser';
+import { ColumnSnapshot, DatabaseSnapshot, TableSnapshot } from './sqlSnapshot';
+import { checkName } from './sqlCatalog';
+
+type Row = Record<string, unknown>;
+
+const NUMERIC_TYPE = /^(TINYINT|SMALLINT|MEDIUMINT|INT|INTEGER|BIGINT|DECIMAL|NUMERIC|FLOAT|DOUBLE|REAL|BOOL|BOOLEAN|BIT)$/;
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// MySQL names a foreign key it wasn't given a name for <table>_ibfk_<n>, numbered in order
+export function foreignKeyName(table: TableSnapshot, column: string): string {
+  const position = table.columns.filter(c => c.references).findIndex(c => sameName(c.name, column));
+  return `${table.name}_ibfk_${position + 1}`;
+}
+
+// A CHECK stays as written, so the columns it mentions can't go away under it
+function checkUsing(table: TableSnapshot, column: string): string | null {
+  const index = (table.checks ?? []).findIndex(check =>
+    tokenize(check.expression).some(t => (t.type === 'word' || t.type === 'quoted') && sameName(t.value, column))
+  );
+  return index === -1 ? null : checkName(table, index);
+}
+
+// 'abc' → abc, 12 → 12; anything else (CURRENT_TIMESTAMP...) leaves existing rows NULL
+function literalValue(text: string | undefined): unknown {
+  if (text === undefined || /^NULL$/i.test(text)) return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  const quoted = text.match(/^'((?:[^']|'')*)'$/);
+  return quoted ? quoted[1].replace(/''/g, "'") : null;
+}
+
+const showValue = (value: unknown) => (value === null || value === undefined ? 'NULL' : String(value));
+
+function toColumn(definition: ColumnDefinition, sql: string, tables: TableSnapshot[], previous?: ColumnSnapshot): { column: ColumnSnapshot; primaryKey: boolean } {
+  const text = (node: { span: Span }) => sql.slice(node.span.start, node.span.end).trim();
+  const typeMatch = definition.dataType.match(/^([\w ]+?)\s*(?:\((\d+)(?:\s*,\s*(\d+))?\))?(?:\s+(?:UNSIGNED|SIGNED|ZEROFILL))*$/i);
+  const has = (kind: string) => definition.constraints.some(c => c.kind === kind);
+  const defaultValue = definition.constraints.find(c => c.kind === 'default' && c.value);
+  const references = definition.constraints.find(c => c.kind === 'references')?.references;
+  const target = references && tables.find(t => sameName(t.name, references.table));
+
+  return {
+    column: {
+      name: definition.name,
+      type: (typeMatch?.[1] ?? definition.dataType).toUpperCase(),
+      size: typeMatch?.[2] ? Number(typeMatch[2]) : undefined,
+      precision: typeMatch?.[3] ? Number(typeMatch[3]) : undefined,
+      notNull: has('not_null') || has('primary_key'),
+      unique: has('unique'),
+      defaultValue: defaultValue?.value ? text(defaultValue.value) : undefined,
+      autoIncrement: has('auto_increment') ? previous?.autoIncrement ?? { next: 1, step: 1 } : undefined,
+      references: references ? { table: target?.name ?? references.table, column: references.columns[0] ?? target?.primaryKey[0] ?? 'id' } : undefined,
+    },
+    primaryKey: has('primary_key'),
+  };
+}
+
+// First value a key or UNIQUE column would hold twice
+function findDuplicate(rows: Row[], columns: string[]): string | null {
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const key = JSON.stringify(columns.map(c => row[c] ?? null));
+    if (seen.has(key)) return columns.map(c => showValue(row[c])).join('-');
+    seen.add(key);
+  }
+  return null;
+}
+
+function checkReference(table: TableSnapshot, column: ColumnSnapshot, tables: TableSnapshot[]): string | null {
+  if (!column.references) return null;
+  const parent = tables.find(t => sameName(t.name, column.references!.table));
+  if (!parent) return `Failed to open the referenced table '${column.references.table}'`;
+  if (!parent.columns.some(c => sameName(c.name, column.references!.column))) {
+    return `Key column '${column.references.column}' doesn't exist in table`;
+  }
+  const parentValues = new Set(parent.rows.map(row => JSON.stringify(row[column.references!.column] ?? null)));
+  const orphan = table.rows.find(row => row[column.name] !== null && row[column.name] !== undefined && !parentValues.has(JSON.stringify(row[column.name])));
+  return orphan ? 'Cannot add or update a child row: a foreign key constraint fails' : null;
+}
+
+// Foreign keys pointing at a renamed column follow it, as MySQL updates them on RENAME / CHANGE COLUMN
+function renameReferences(table: TableSnapshot, parent: string, renames: [string, string][]): TableSnapshot {
+  const columns = table.columns.map(c => {
+    if (!c.references || !sameName(c.references.table, parent)) return c;
+    const column = renames.reduce((name, [from, to]) => (sameName(name, from) ? to : name), c.references.column);
+    return column === c.references.column ? c : { ...c, references: { ...c.references, column } };
+  });
+  return columns.some((c, i) => c !== table.columns[i]) ? { ...table, columns } : table;
+}
+
+// Every action of one ALTER TABLE, applied to a copy of the table; throws the MySQL error text.
+// Renamed columns are added to `renames` for the foreign keys that point at them
+function applyAction(table: TableSnapshot, action: AlterAction, sql: string, tables: TableSnapshot[], original: TableSnapshot, renames: [string, string][]): void {
+  const findColumn = (name: string) => table.columns.find(c => sameName(c.name, name));
+  const renameEverywhere = (from: string, to: string) => {
+    const check = checkUsing(table, from);
+    if (check) throw new Error(`Check constraint '${check}' uses column '${from}', hence column cannot be dropped or renamed.`);
+    renames.push([from, to]);
+    table.rows = table.rows.map(row => {
+      const { [from]: value, ...rest } = row;
+      return { ...rest, [to]: value };
+    });
+    table.primaryKey = table.primaryKey.map(c => (c === from ? to : c));
+    table.indexes = table.indexes.map(ix => ({ ...ix, columns: ix.columns.map(c => (c === from ? to : c)) }));
+    table.uniqueKeys = table.uniqueKeys?.map(key => key.map(c => (c === from ? to : c)));
+  };
+  const setPrimaryKey = (columns: string[]) => {
+    if (table.primaryKey.length > 0) throw new Error('Multiple primary key defined');
+    const names = columns.map(name => {
+      const col = findColumn(name);
+      if (!col) throw new Error(`Key column '${name}' doesn't exist in table`);
+      return col.name;
+    });
+    if (table.rows.some(row => names.some(c => row[c] === null || row[c] === undefined))) throw new Error('Invalid use of NULL value');
+    const duplicate = findDuplicate(table.rows, names);
+    if (duplicate) throw new Error(`Duplicate entry '${duplicate}' for key '${table.name}.PRIMARY'`);
+    table.primaryKey = names;
+    names.forEach(c => (findColumn(c)!.notNull = true));
+  };
+  const checkColumn = (col: ColumnSnapshot) => {
+    if (col.notNull && table.rows.some(row => row[col.name] === null || row[col.name] === undefined)) throw new Error('Invalid use of NULL value');
+    if (col.unique) {
+      const duplicate = findDuplicate(table.rows, [col.name]);
+      if (duplicate) throw new Error(`Duplicate entry '${duplicate}' for key '${table.name}.${col.name}'`);
+    }
+    const error = checkReference(table, col, tables);
+    if (error) throw new Error(error);
+  };
+
+  switch (action.action) {
+    case 'add_column': {
+      if (findColumn(action.column.name)) throw new Error(`Duplicate column name '${action.column.name}'`);
+      const { column, primaryKey } = toColumn(action.column, sql, tables);
+      // Existing rows get the DEFAULT, or the type's implicit default when the column is NOT NULL
+      const fill = column.defaultValue !== undefined ? literalValue(column.defaultValue) : column.notNull ? (NUMERIC_TYPE.test(column.type) ? 0 : '') : null;
+      let counter = 0;
+      table.rows = table.rows.map(row => ({ ...row, [column.name]: column.autoIncrement ? ++counter : fill }));
+      if (column.autoIncrement) column.autoIncrement = { next: counter + 1, step: 1 };
+      table.columns.push(column);
+      checkColumn(column);
+      if (primaryKey) setPrimaryKey([column.name]);
+      return;
+    }
+    case 'drop_column': {
+      const col = findColumn(action.name);
+      if (!col) throw new Error(`Can't DROP '${action.name}'; check that column/key exists`);
+      if (table.columns.length === 1) throw new Error('You can\'t delete all columns with ALTER TABLE; use DROP TABLE instead');
+      if (col.references) throw new Error(`Cannot drop column '${col.name}': needed in a foreign key constraint '${foreignKeyName(table, col.name)}'`);
+      // Children of this table, itself included when a column points at another column of it
+      for (const child of tables.map(t => (t === original ? table : t))) {
+        const referencing = child.columns.find(c => c.references && sameName(c.references.table, table.name) && sameName(c.references.column, col.name));
+        if (referencing) {
+          throw new Error(`Cannot drop column '${col.name}': needed in a foreign key constraint '${foreignKeyName(child, referencing.name)}' of table '${child.name}'`);
+        }
+      }
+      const check = checkUsing(table, col.name);
+      if (check) throw new Error(`Check constraint '${check}' uses column '${col.name}', hence column cannot be dropped or renamed.`);
+      table.columns = table.columns.filter(c => c !== col);
+      table.rows = table.rows.map(({ [col.name]: _dropped, ...rest }) => rest);
+      // Like MySQL, the column leaves its multi-column UNIQUE keys; one left over column stays unique on its own
+      const keys = (table.uniqueKeys ?? []).map(key => key.filter(c => c !== col.name)).filter(key => key.length > 0);
+      keys.filter(key => key.length === 1).forEach(([name]) => (findColumn(name)!.unique = true));
+      table.uniqueKeys = keys.filter(key => key.length > 1);
+      table.primaryKey = table.primaryKey.filter(c => c !== col.name);
+      table.indexes = table.indexes
+        .map(ix => ({ ...ix, columns: ix.columns.filter(c => c !== col.name) }))
+        .filter(ix => ix.columns.length > 0);
+      return;
+    }
+    case 'modify_column': {
+      const old = findColumn(action.from);
+      if (!old) throw new Error(`Unknown column '${action.from}' in '${table.name}'`);
+      if (!sameName(action.from, action.column.name) && findColumn(action.column.name)) throw new Error(`Duplicate column name '${action.column.name}'`);
+      const { column, primaryKey } = toColumn(action.column, sql, tables, old);
+      // MODIFY restates the whole definition, but keys defined elsewhere stay
+      column.notNull ||= table.primaryKey.includes(old.name);
+      if (old.name !== column.name) renameEverywhere(old.name, column.name);
+      table.columns = table.columns.map(c => (c === old ? column : c));
+      checkColumn(column);
+      if (primaryKey && !(table.primaryKey.length === 1 && table.primaryKey[0] === column.name)) setPrimaryKey([column.name]);
+      return;
+    }
+    case 'rename_column': {
+      const col = findColumn(action.from);
+      if (!col) throw new Error(`Unknown column '${action.from}' in '${table.name}'`);
+      if (findColumn(action.to)) throw new Error(`Duplicate column name '${action.to}'`);
+      renameEverywhere(col.name, action.to);
+      col.name = action.to;
+      return;
+    }
+    case 'add_constraint': {
+      const { constraint } = action;
+      if (constraint.kind === 'primary_key') return setPrimaryKey(constraint.columns);
+      if (constraint.kind === 'index') {
+        const name = constraint.name ?? constraint.columns[0];
+        if (table.indexes.some(ix => sameName(ix.name, name))) throw new Error(`Duplicate key name '${name}'`);
+        const columns = constraint.columns.map(c => findColumn(c)?.name ?? c);
+        const missing = columns.find(c => !findColumn(c));
+        if (missing) throw new Error(`Key column '${missing}' doesn't exist in table`);
+        table.indexes.push({ name, columns });
+        return;
+      }
+      const col = findColumn(constraint.columns[0] ?? '');
+      if (!col) throw new Error(`Key column '${constraint.columns[0]}' doesn't exist in table`);
+      if (constraint.kind === 'unique') {
+        col.unique = true;
+      } else if (constraint.kind === 'foreign_key' && constraint.references) {
+        const parent = tables.find(t => sameName(t.name, constraint.references!.table));
+        col.references = { table: parent?.name ?? constraint.references.table, column: constraint.references.columns[0] ?? parent?.primaryKey[0] ?? 'id' };
+      }
+      checkColumn(col);
+      return;
+    }
+    case 'drop_constraint': {
+      if (action.kind === 'PRIMARY KEY') {
+        if (table.primaryKey.length === 0) throw new Error(`Can't DROP 'PRIMARY'; check that column/key exists`);
+        table.primaryKey = [];
+        return;
+      }
+      const name = action.name ?? '';
+      const kind = action.kind.replace(/\s+/g, ' ');
+      // Names are numbered as the table was before this statement, so DROP FOREIGN KEY t_ibfk_1, DROP FOREIGN KEY t_ibfk_2 works
+      const foreignKey = table.columns.find(c => c.references && original.columns.some(o => o.name === c.name && sameName(foreignKeyName(original, o.name), name)));
+      if (foreignKey && (kind === 'FOREIGN KEY' || kind === 'CONSTRAINT')) {
+        foreignKey.references = undefined;
+        return;
+      }
+      if (kind === 'FOREIGN KEY') throw new Error(`Can't DROP '${name}'; check that column/key exists`);
+      // DROP INDEX: a named index, or the UNIQUE key MySQL names after its column
+      const index = table.indexes.find(ix => sameName(ix.name, name));
+      const unique = table.columns.find(c => c.unique && sameName(c.name, name));
+      if (index) table.indexes = table.indexes.filter(ix => ix !== index);
+      else if (unique) unique.unique = false;
+      else throw new Error(`Can't DROP '${name}'; check that column/key exists`);
+      return;
+    }
+  }
+}
+
+// alasql only runs a few ALTER TABLE forms (and forgets types on MODIFY), so ALTER TABLE is
+// applied to a copy of the tables instead. null: not an ALTER TABLE this can handle.
+export function alterTable(snapshot: DatabaseSnapshot, sql: string, database: string): { snapshot: DatabaseSnapshot } | { error: string } | null {
+  const { statement } = tryParseSQL(sql);
+  if (statement?.type !== 'alter_table') return null;
+  if (statement.actions.some(a => a.action === 'other' || a.action === 'rename_table' || (a.action === 'drop_constraint' && a.kind === 'CHECK'))) return null;
+  if (statement.actions.some(a => a.action === 'add_constraint' && (a.constraint.kind === 'check' || (a.constraint.kind !== 'primary_key' && a.constraint.kind !== 'index' && a.constraint.columns.length !== 1)))) return null;
+
+  const original = snapshot.tables.find(t => sameName(t.name, statement.table));
+  if (!original) return { error: `Table '${database}.${statement.table}' doesn't exist` };
+
+  const table: TableSnapshot = {
+    ...original,
+    columns: original.columns.map(c => ({ ...c })),
+    primaryKey: [...original.primaryKey],
+    indexes: original.indexes.map(ix => ({ ...ix, columns: [...ix.columns] })),
+    rows: original.rows.map(row => ({ ...row })),
+  };
+  const renames: [string, string][] = [];
+  try {
+    for (const action of statement.actions) applyAction(table, action, sql, snapshot.tables, original, renames);
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+  const tables = snapshot.tables.map(t => renameReferences(t === original ? table : t, table.name, renames));
+  return { snapshot: { ...snapshot, tables } };
+}
@@ -0,0 +1,178 @@
+import { DatabaseSnapshot, TableSnapshot, ColumnSnapshot, formatColumnType } from './sqlSnapshot';
+
+export interface CatalogResult {
+  columns: string[];
+  rows: (string | number | null)[][];
+}
+
+export type CatalogCommand =
+  | { type: 'tables'; database?: string }
+  | { type: 'status'; database?: string }
+  | { type: 'columns'; table: string; database?: string }
+  | { type: 'create'; table: string; database?: string }
+  | { type: 'index'; table: string; database?: string };
+
+const NAME = '(`[^`]+`|[\\w-]+)';
+const FROM_DB = `(?:\\s+(?:FROM|IN)\\s+${NAME})?`;
+const unquote = (name?: string) => name?.replace(/^`|`$/g, '');
+const quoteIdent = (name: string) => `\`${name.replace(/`/g, '``')}\``;
+
+export function parseCatalogCommand(sql: string): CatalogCommand | null {
+  const text = sql.trim().replace(/;\s*$/, '');
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(new RegExp(`^SHOW\\s+(?:FULL\\s+)?TABLES${FROM_DB}$`, 'i')))) {
+    return { type: 'tables', database: unquote(match[1]) };
+  }
+  if ((match = text.match(new RegExp(`^SHOW\\s+TABLE\\s+STATUS${FROM_DB}$`, 'i')))) {
+    return { type: 'status', database: unquote(match[1]) };
+  }
+  if ((match = text.match(new RegExp(`^SHOW\\s+(?:FULL\\s+)?(?:COLUMNS|FIELDS)\\s+(?:FROM|IN)\\s+${NAME}${FROM_DB}$`, 'i')))) {
+    return { type: 'columns', table: unquote(match[1])!, database: unquote(match[2]) };
+  }
+  if ((match = text.match(new RegExp(`^(?:DESC|DESCRIBE)\\s+${NAME}$`, 'i')))) {
+    return { type: 'columns', table: unquote(match[1])! };
+  }
+  if ((match = text.match(new RegExp(`^SHOW\\s+CREATE\\s+TABLE\\s+${NAME}$`, 'i')))) {
+    return { type: 'create', table: unquote(match[1])! };
+  }
+  if ((match = text.match(new RegExp(`^SHOW\\s+(?:INDEX|INDEXES|KEYS)\\s+(?:FROM|IN)\\s+${NAME}${FROM_DB}$`, 'i')))) {
+    return { type: 'index', table: unquote(match[1])!, database: unquote(match[2]) };
+  }
+  return null;
+}
+
+export function findTable(snapshot: DatabaseSnapshot, name: string): TableSnapshot | undefined {
+  return snapshot.tables.find(t => t.name.toLowerCase() === name.toLowerCase());
+}
+
+const isNullable = (table: TableSnapshot, col: ColumnSnapshot) => !col.notNull && !table.primaryKey.includes(col.name);
+
+// MySQL prints types lower-case: int, varchar(100), decimal(10,2)
+const mysqlType = (col: ColumnSnapshot) => formatColumnType(col).toLowerCase();
+
+function columnKey(table: TableSnapshot, col: ColumnSnapshot): string {
+  if (table.primaryKey.includes(col.name)) return 'PRI';
+  if (col.unique) return 'UNI';
+  if (col.references || table.indexes.some(ix => ix.columns[0] === col.name)) return 'MUL';
+  return '';
+}
+
+function displayDefault(value?: string): string | null {
+  if (value === undefined || value.toUpperCase() === 'NULL') return null;
+  return value.startsWith("'") ? value.slice(1, -1).replace(/''/g, "'") : value;
+}
+
+export function listTables(snapshot: DatabaseSnapshot, database: string): CatalogResult {
+  return {
+    columns: [`Tables_in_${database}`],
+    rows: snapshot.tables.map(t => [t.name]).sort((a, b) => a[0].localeCompare(b[0])),
+  };
+}
+
+export function tableStatus(snapshot: DatabaseSnapshot): CatalogResult {
+  return {
+    columns: ['Name', 'Engine', 'Rows', 'Auto_increment', 'Columns'],
+    rows: snapshot.tables.map(t => [
+      t.name,
+      'InnoDB',
+      t.rows.length,
+      t.columns.find(c => c.autoIncrement)?.autoIncrement?.next ?? null,
+      t.columns.length,
+    ]),
+  };
+}
+
+export function describeTable(table: TableSnapshot): CatalogResult {
+  return {
+    columns: ['Field', 'Type', 'Null', 'Key', 'Default', 'Extra'],
+    rows: table.columns.map(col => [
+      col.name,
+      mysqlType(col),
+      isNullable(table, col) ? 'YES' : 'NO',
+      columnKey(table, col),
+      displayDefault(col.defaultValue),
+      col.autoIncrement ? 'auto_increment' : '',
+    ]),
+  };
+}
+
+export function showIndexes(table: TableSnapshot): CatalogResult {
+  const rows: (string | number | null)[][] = [];
+  const add = (keyName: string, nonUnique: number, columns: string[]) => {
+    columns.forEach((column, i) => {
+      const col = table.columns.find(c => c.name === column);
+      rows.push([table.name, nonUnique, keyName, i + 1, column, col && isNullable(table, col) ? 'YES' : '', 'BTREE']);
+    });
+  };
+
+  if (table.primaryKey.length > 0) add('PRIMARY', 0, table.primaryKey);
+  table.columns.filter(c => c.unique).forEach(c => add(c.name, 0, [c.name]));
+  table.indexes.forEach(ix => add(ix.name, 1, ix.columns));
+
+  return {
+    columns: ['Table', 'Non_unique', 'Key_name', 'Seq_in_index', 'Column_name', 'Null', 'Index_type'],
+    rows,
+  };
+}
+
+// MySQL names a CHECK it wasn't given a name for <table>_chk_<n>
+export const checkName = (table: TableSnapshot, index: number) => table.checks?.[index]?.name ?? `${table.name}_chk_${index + 1}`;
+
+// CREATE TABLE in the layout mysqldump and SHOW CREATE TABLE use
+export function formatCreateTable(table: TableSnapshot): string {
+  const lines = table.columns.map(col => {
+    const parts = [quoteIdent(col.name), mysqlType(col)];
+    if (!isNullable(table, col)) parts.push('NOT NULL');
+    if (col.defaultValue !== undefined) {
+      // Saved in standard SQL; MySQL reads a backslash in a string as an escape
+      parts.push(`DEFAULT ${col.defaultValue.startsWith("'") ? col.defaultValue.replace(/\\/g, '\\\\') : col.defaultValue}`);
+    } else if (isNullable(table, col)) {
+      parts.push('DEFAULT NULL');
+    }
+    if (col.autoIncrement) parts.push('AUTO_INCREMENT');
+    return `  ${parts.join(' ')}`;
+  });
+
+  if (table.primaryKey.length > 0) {
+    lines.push(`  PRIMARY KEY (${table.primaryKey.map(quoteIdent).join(',')})`);
+  }
+  table.columns.filter(c => c.unique).forEach(c => {
+    lines.push(`  UNIQUE KEY ${quoteIdent(c.name)} (${quoteIdent(c.name)})`);
+  });
+  (table.uniqueKeys ?? []).forEach(key => {
+    lines.push(`  UNIQUE KEY ${quoteIdent(key[0])} (${key.map(quoteIdent).join(',')})`);
+  });
+  table.indexes.forEach(ix => {
+    lines.push(`  KEY ${quoteIdent(ix.name)} (${ix.columns.map(quoteIdent).join(',')})`);
+  });
+  table.columns.filter(c => c.references).forEach((c, i) => {
+    const ref = c.references!;
+    lines.push(`  CONSTRAINT ${quoteIdent(`${table.name}_ibfk_${i + 1}`)} FOREIGN KEY (${quoteIdent(c.name)}) REFERENCES ${quoteIdent(ref.table)} (${quoteIdent(ref.column)})`);
+  });
+  (table.checks ?? []).forEach((check, i) => {
+    lines.push(`  CONSTRAINT ${quoteIdent(checkName(table, i))} CHECK (${check.expression})`);
+  });
+
+  const autoIncrement = table.columns.find(c => c.autoIncrement)?.autoIncrement;
+  const options = ['ENGINE=InnoDB'];
+  if (autoIncrement && autoIncrement.next > 1) options.push(`AUTO_INCREMENT=${autoIncrement.next}`);
+  options.push('DEFAULT CHARSET=utf8mb4');
+
+  return `CREATE TABLE ${quoteIdent(table.name)} (\n${lines.join(',\n')}\n) ${options.join(' ')}`;
+}
+
+export function showCreateTable(table: TableSnapshot): CatalogResult {
+  return {
+    columns: ['Table', 'Create Table'],
+    rows: [[table.name, formatCreateTable(table)]],
+  };
+}
+
+// Friendlier summary for the terminal's `tables` command
+export function tableOverview(snapshot: DatabaseSnapshot): CatalogResult {
+  return {
+    columns: ['Table', 'Rows', 'Columns'],
+    rows: snapshot.tables.map(t => [t.name, t.rows.length, t.columns.map(c => c.name).join(', ')]),
+  };
+}
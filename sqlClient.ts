@@ -0,0 +1,230 @@
+import { ExportableResult } from './sqlExport';
+
+// Commands the mysql client handles itself instead of sending to the server
+export type ClientCommand =
+  | { type: 'status' }
+  | { type: 'delimiter'; delimiter: string | null }
+  | { type: 'tee'; file: string | null }
+  | { type: 'notee' }
+  | { type: 'pager'; command: string | null }
+  | { type: 'nopager' }
+  | { type: 'warnings'; enabled: boolean }
+  | { type: 'source'; file: string | null };
+
+const LONG_COMMAND = /^(status|delimiter|tee|notee|pager|nopager|warnings|nowarnings|source)(?![\w.])\s*(.*)$/i;
+// The shortcuts are case-sensitive: \t is notee, \T is tee
+const SHORT_COMMAND = /^\\([sdTtPnWw.])\s*(.*)$/;
+const SHORT_NAMES: Record<string, string> = {
+  s: 'status', d: 'delimiter', T: 'tee', t: 'notee', P: 'pager', n: 'nopager', W: 'warnings', w: 'nowarnings', '.': 'source',
+};
+
+export function parseClientCommand(line: string): ClientCommand | null {
+  const text = line.trim();
+  const long = text.match(LONG_COMMAND);
+  const short = long ? null : text.match(SHORT_COMMAND);
+  if (!long && !short) return null;
+  const name = long ? long[1].toLowerCase() : SHORT_NAMES[short![1]];
+  const rest = (long ?? short)![2].trim();
+  // DELIMITER takes its argument literally, ";" included
+  const arg = name === 'delimiter' ? rest.split(/\s+/)[0] : rest.replace(/;$/, '').trim();
+
+  switch (name) {
+    case 'status':
+      return { type: 'status' };
+    case 'delimiter':
+      return { type: 'delimiter', delimiter: arg || null };
+    case 'tee':
+      return { type: 'tee', file: arg || null };
+    case 'notee':
+      return { type: 'notee' };
+    case 'pager':
+      return { type: 'pager', command: arg || null };
+    case 'nopager':
+      return { type: 'nopager' };
+    case 'warnings':
+    case 'nowarnings':
+      return { type: 'warnings', enabled: name === 'warnings' };
+    default:
+      return { type: 'source', file: arg || null };
+  }
+}
+
+// Whether the text ends inside a string, quoted name or comment, where terminators don't count
+function endsInsideLiteral(text: string): boolean {
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "'" || ch === '"' || ch === '`') {
+      let j = i + 1;
+      while (j < text.length && text[j] !== ch) j += text[j] === '\\' && ch !== '`' ? 2 : 1;
+      if (j >= text.length) return true;
+      i = j + 1;
+    } else if (ch === '#' || (ch === '-' && text[i + 1] === '-' && /\s/.test(text[i + 2] ?? ''))) {
+      const end = text.indexOf('\n', i);
+      if (end === -1) return true;
+      i = end + 1;
+    } else if (ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      if (end === -1) return true;
+      i = end + 2;
+    } else {
+      i++;
+    }
+  }
+  return false;
+}
+
+// A statement is sent when it ends with the delimiter, \g, or \G for vertical output.
+// The terminator is swapped for ";" so the rest of the terminal sees an ordinary statement.
+export function statementEnd(text: string, delimiter: string): { sql: string; vertical: boolean } | null {
+  const trimmed = text.trimEnd();
+  const terminator = /\\[gG]$/.test(trimmed) ? trimmed.slice(-2) : trimmed.endsWith(delimiter) ? delimiter : null;
+  if (!terminator) return null;
+  const body = trimmed.slice(0, -terminator.length).trimEnd();
+  if (endsInsideLiteral(body)) return null;
+  return { sql: body.endsWith(';') ? body : `${body};`, vertical: terminator === '\\G' };
+}
+
+// \c throws away the statement being typed, unless it is inside a string
+export const clearsBuffer = (text: string) => /\\c$/.test(text.trimEnd()) && !endsInsideLiteral(text.trimEnd().slice(0, -2));
+
+const cellText = (cell: string | number | null) => (cell === null ? 'NULL' : String(cell));
+
+// The +---+ box the client draws; multi-line cells (SHOW CREATE TABLE) span several text lines
+export function asciiTable(table: ExportableResult): { separator: string; header: string; rows: string[] } {
+  const cellLines = (cell: string | number | null) => cellText(cell).split('\n');
+  const widths = table.columns.map((col, i) =>
+    Math.max(col.length, 4, ...table.rows.map(row => Math.max(...cellLines(row[i]).map(line => line.length))))
+  );
+  const line = (cells: string[]) => '|' + cells.map((cell, i) => ` ${cell.padEnd(widths[i])} `).join('|') + '|';
+  return {
+    separator: '+' + widths.map(w => '-'.repeat(w + 2)).join('+') + '+',
+    header: line(table.columns),
+    rows: table.rows.map(row => {
+      const lines = row.map(cellLines);
+      const height = Math.max(...lines.map(l => l.length));
+      return Array.from({ length: height }, (_, k) => line(lines.map(cell => cell[k] ?? ''))).join('\n');
+    }),
+  };
+}
+
+export function tableText(table: ExportableResult): string {
+  const { separator, header, rows } = asciiTable(table);
+  return [separator, header, separator, ...rows, separator].join('\n');
+}
+
+// \G output: one block per row, column names right-aligned
+export function verticalText(table: ExportableResult): string {
+  const width = Math.max(...table.columns.map(c => c.length));
+  const stars = '*'.repeat(27);
+  return table.rows
+    .map((row, i) => [`${stars} ${i + 1}. row ${stars}`, ...table.columns.map((col, j) => `${col.padStart(width)}: ${cellText(row[j])}`)].join('\n'))
+    .join('\n');
+}
+
+type PagerStage = (lines: string[]) => string[];
+
+// grep's basic regex has +?|(){} literal and \+ \? \| … as operators: the reverse of JavaScript
+const fromBasicRegex = (pattern: string) =>
+  pattern.replace(/\\([+?|(){}])|([+?|(){}])/g, (_, operator, literal) => (operator ?? `\\${literal}`));
+
+function pagerStage(words: string[]): PagerStage | null {
+  const [program, ...args] = words;
+  const options = args.filter(a => /^-[a-zA-Z]+$/.test(a)).map(a => a.slice(1)).join('');
+  const operands = args.filter(a => !/^-[a-zA-Z]+$/.test(a));
+
+  switch (program) {
+    case 'less':
+    case 'more':
+    case 'cat':
+      return lines => lines;
+    case 'grep':
+    case 'egrep': {
+      if (operands.length !== 1) return null;
+      let pattern: RegExp;
+      try {
+        const extended = program === 'egrep' || options.includes('E');
+        pattern = new RegExp(extended ? operands[0] : fromBasicRegex(operands[0]), options.includes('i') ? 'i' : '');
+      } catch {
+        return null;
+      }
+      const invert = options.includes('v');
+      return lines => lines.filter(line => pattern.test(line) !== invert);
+    }
+    case 'head':
+    case 'tail': {
+      const count = Number(args.join(' ').match(/^-(?:n\s*)?(\d+)$/)?.[1] ?? (args.length === 0 ? 10 : NaN));
+      if (!Number.isInteger(count)) return null;
+      return lines => (program === 'head' ? lines.slice(0, count) : count === 0 ? [] : lines.slice(-count));
+    }
+    case 'sort': {
+      if (operands.length > 0) return null;
+      const numeric = options.includes('n');
+      const sign = options.includes('r') ? -1 : 1;
+      return lines => [...lines].sort((a, b) => sign * (numeric ? parseFloat(a) - parseFloat(b) : a.localeCompare(b)));
+    }
+    case 'wc':
+      return options === 'l' && operands.length === 0 ? lines => [String(lines.length)] : null;
+  }
+  return null;
+}
+
+// There is no shell in the browser, so the pager is a pipeline of the few filters
+// people actually use with mysql; null when the command is anything else
+export function pagerFilter(command: string): ((text: string) => string) | null {
+  // Split on | outside quotes, so grep 'a\|b' stays one stage
+  const stages = command.split(/\|(?=(?:[^'"]|'[^']*'|"[^"]*")*$)/).map(stage => {
+    const words = (stage.match(/'[^']*'|"[^"]*"|\S+/g) ?? []).map(word => word.replace(/^(['"])([\s\S]*)\1$/, '$2'));
+    return words.length > 0 ? pagerStage(words) : null;
+  });
+  if (stages.some(stage => !stage)) return null;
+  return text => stages.reduce((lines, stage) => stage!(lines), text.split('\n')).join('\n');
+}
+
+export interface ClientStatus {
+  database: string;
+  user: string;
+  delimiter: string;
+  pager: string | null;
+  outfile: string | null;
+  tables: number;
+  questions: number;
+  uptimeSeconds: number;
+}
+
+function formatUptime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return [hours > 0 && `${hours} ${hours === 1 ? 'hour' : 'hours'}`, (hours > 0 || minutes > 0) && `${minutes} min`, `${seconds % 60} sec`]
+    .filter(Boolean)
+    .join(' ');
+}
+
+// The block `status` prints, with the values this simulated connection really has
+export function statusText(status: ClientStatus): string {
+  const field = (label: string, value: string | number) => `${`${label}:`.padEnd(24)}${value}`;
+  const perSecond = status.uptimeSeconds > 0 ? status.questions / status.uptimeSeconds : 0;
+  return [
+    '--------------',
+    'mysql  Ver 8.0 for Web (SQL Master Pro, alasql trong trình duyệt)',
+    '',
+    field('Connection id', 1),
+    field('Current database', status.database),
+    field('Current user', `${status.user}@localhost`),
+    field('SSL', 'Not in use'),
+    field('Current pager', status.pager ?? 'stdout'),
+    field('Using outfile', `'${status.outfile ?? ''}'`),
+    field('Using delimiter', status.delimiter),
+    field('Server version', '8.0 (alasql)'),
+    field('Protocol version', 10),
+    field('Connection', 'Localhost via Web Worker'),
+    field('Server characterset', 'utf8mb4'),
+    field('Db     characterset', 'utf8mb4'),
+    field('Client characterset', 'utf8mb4'),
+    field('Conn.  characterset', 'utf8mb4'),
+    field('Uptime', formatUptime(status.uptimeSeconds)),
+    '',
+    `Threads: 1  Questions: ${status.questions}  Slow queries: 0  Opens: ${status.tables}  Flush tables: 1  Open tables: ${status.tables}  Queries per second avg: ${perSecond.toFixed(3)}`,
+    '--------------',
+  ].join('\n');
+}
@@ -0,0 +1,167 @@
+import { findTable } from './sqlCatalog';
+import { Dialect } from './sqlDialects';
+import { Token, tokenize } from './sqlParser';
+import { DatabaseSnapshot } from './sqlSnapshot';
+
+export interface Completion {
+  // Where the word being completed starts in the text, and what has been typed of it
+  start: number;
+  prefix: string;
+  kind: 'table' | 'column' | 'database' | 'keyword';
+  candidates: string[];
+}
+
+const KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'LIKE', 'BETWEEN', 'EXISTS', 'AS', 'DISTINCT',
+  'ORDER', 'GROUP', 'BY', 'ASC', 'DESC', 'HAVING', 'LIMIT', 'OFFSET', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'CROSS', 'OUTER',
+  'ON', 'USING', 'UNION', 'ALL', 'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE', 'TABLE', 'DATABASE',
+  'INDEX', 'VIEW', 'DROP', 'ALTER', 'ADD', 'COLUMN', 'MODIFY', 'CHANGE', 'RENAME', 'TO', 'TRUNCATE', 'PRIMARY', 'FOREIGN',
+  'KEY', 'REFERENCES', 'UNIQUE', 'DEFAULT', 'AUTO_INCREMENT', 'CHECK', 'CONSTRAINT', 'IF', 'SHOW', 'TABLES', 'DATABASES',
+  'COLUMNS', 'DESCRIBE', 'EXPLAIN', 'USE', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'START', 'TRANSACTION', 'BEGIN',
+  'COMMIT', 'ROLLBACK', 'SAVEPOINT', 'GRANT', 'REVOKE', 'WITH', 'INT', 'BIGINT', 'DECIMAL', 'VARCHAR', 'CHAR', 'TEXT',
+  'DATE', 'DATETIME', 'BOOLEAN',
+];
+
+const FUNCTIONS = [
+  'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'ROUND', 'ABS', 'CONCAT', 'UPPER', 'LOWER', 'LENGTH', 'SUBSTRING', 'TRIM',
+  'COALESCE', 'IFNULL', 'NOW', 'CURDATE', 'YEAR', 'MONTH', 'DAY', 'DATE_FORMAT',
+];
+
+// A table name comes next after these
+const TABLE_WORDS = new Set(['FROM', 'JOIN', 'INTO', 'UPDATE', 'TABLE', 'TRUNCATE']);
+// ...and a database name after these
+const DATABASE_WORDS = new Set(['USE', 'DATABASE', 'SCHEMA']);
+// The clause a word belongs to decides whether it is a column
+const CLAUSE_WORDS = new Set(['SELECT', 'FROM', 'JOIN', 'WHERE', 'SET', 'ON', 'BY', 'HAVING', 'INTO', 'UPDATE', 'VALUES', 'LIMIT', 'USING']);
+const COLUMN_CLAUSES = new Set(['SELECT', 'WHERE', 'SET', 'ON', 'BY', 'HAVING', 'USING']);
+const RESERVED = new Set([...KEYWORDS, 'NATURAL', 'STRAIGHT_JOIN', 'FULL']);
+
+const isName = (token: Token | undefined) => !!token && (token.type === 'quoted' || (token.type === 'word' && !RESERVED.has(token.upper)));
+
+// Tables the statement reads or writes, with their aliases: FROM a x, b JOIN c AS y, UPDATE d, INTO e
+function tablesInScope(tokens: Token[]): Map<string, string> {
+  const scope = new Map<string, string>();
+  let clause = '';
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'word' && CLAUSE_WORDS.has(token.upper)) clause = token.upper;
+    const listed = token.value === ',' && clause === 'FROM';
+    if (!((token.type === 'word' && ['FROM', 'JOIN', 'UPDATE', 'INTO'].includes(token.upper)) || listed)) continue;
+
+    let j = i + 1;
+    if (!isName(tokens[j])) continue;
+    // db.table
+    while (tokens[j + 1]?.value === '.' && isName(tokens[j + 2])) j += 2;
+    const table = tokens[j].value;
+    scope.set(table.toLowerCase(), table);
+    if (tokens[j + 1]?.upper === 'AS') j++;
+    if (isName(tokens[j + 1])) scope.set(tokens[j + 1].value.toLowerCase(), table);
+  }
+  return scope;
+}
+
+// Nearest clause word before the end, skipping anything inside parentheses opened after it
+function currentClause(tokens: Token[]): { clause: string; insideParens: boolean } {
+  let depth = 0;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i];
+    if (token.value === ')') depth++;
+    else if (token.value === '(') depth = Math.max(0, depth - 1);
+    else if (depth === 0 && token.type === 'word' && CLAUSE_WORDS.has(token.upper)) {
+      return { clause: token.upper, insideParens: tokens.slice(i).some(t => t.value === '(') };
+    }
+  }
+  return { clause: '', insideParens: false };
+}
+
+const matching = (names: string[], prefix: string) => {
+  const lower = prefix.toLowerCase();
+  return [...new Set(names)].filter(name => name.toLowerCase().startsWith(lower)).sort((a, b) => a.localeCompare(b));
+};
+
+// What Tab could complete at the cursor: tables after FROM / JOIN / INTO / UPDATE, columns of the
+// tables in the statement inside SELECT / WHERE / SET ..., keywords anywhere else
+export function completeSQL(text: string, cursor: number, catalog: DatabaseSnapshot, dialect: Dialect, databases: string[] = []): Completion | null {
+  const word = text.slice(0, cursor).match(/[\p{L}\p{N}_$.]*$/u)![0];
+  const dot = word.lastIndexOf('.');
+  const prefix = word.slice(dot + 1);
+  const start = cursor - prefix.length;
+
+  let before: Token[];
+  try {
+    before = tokenize(text.slice(0, cursor - word.length), dialect).slice(0, -1);
+  } catch {
+    // Inside a string or comment
+    return null;
+  }
+  let all = before;
+  try {
+    all = tokenize(text, dialect).slice(0, -1);
+  } catch {
+    // The rest of the statement is unfinished; what is before the cursor will do
+  }
+
+  const scope = tablesInScope(all);
+  const columnsOf = (name: string) => findTable(catalog, name)?.columns.map(c => c.name) ?? [];
+  const tableNames = catalog.tables.map(t => t.name);
+
+  // alias.col or table.col
+  if (dot >= 0) {
+    const qualifier = word.slice(0, dot).split('.').pop()!.toLowerCase();
+    const table = scope.get(qualifier) ?? tableNames.find(name => name.toLowerCase() === qualifier);
+    return { start, prefix, kind: 'column', candidates: table ? matching(columnsOf(table), prefix) : [] };
+  }
+
+  const previous = before[before.length - 1];
+  const keywords = (names: string[]) => {
+    const found = matching(names, prefix);
+    // Typed in lower case, completed in lower case
+    return prefix && prefix === prefix.toLowerCase() ? found.map(k => k.toLowerCase()) : found;
+  };
+
+  if (previous?.type === 'word' && DATABASE_WORDS.has(previous.upper)) {
+    return { start, prefix, kind: 'database', candidates: matching(databases, prefix) };
+  }
+  // DESC at the start describes a table; after ORDER BY x it is just a keyword
+  const describes = before.length === 1 && ['DESC', 'DESCRIBE'].includes(previous?.upper);
+  if (previous && ((previous.type === 'word' && TABLE_WORDS.has(previous.upper)) || describes)) {
+    return { start, prefix, kind: 'table', candidates: matching(tableNames, prefix) };
+  }
+
+  const { clause, insideParens } = currentClause(before);
+  if (clause === 'FROM' && previous?.value === ',') {
+    return { start, prefix, kind: 'table', candidates: matching(tableNames, prefix) };
+  }
+  // INSERT INTO t (a, b, ...
+  if (clause === 'INTO' && insideParens && (previous?.value === '(' || previous?.value === ',')) {
+    return { start, prefix, kind: 'column', candidates: matching([...scope.values()].flatMap(columnsOf), prefix) };
+  }
+  if (COLUMN_CLAUSES.has(clause)) {
+    // Before FROM is typed, any table's columns may be meant
+    const tables = scope.size > 0 ? [...scope.values()] : tableNames;
+    const columns = matching(tables.flatMap(columnsOf), prefix);
+    return { start, prefix, kind: 'column', candidates: [...columns, ...keywords(FUNCTIONS), ...keywords(KEYWORDS)] };
+  }
+  return { start, prefix, kind: 'keyword', candidates: keywords(KEYWORDS) };
+}
+
+// What every candidate starts with, as far as they agree ignoring case
+export function commonPrefix(candidates: string[]): string {
+  if (candidates.length === 0) return '';
+  let length = candidates[0].length;
+  for (const candidate of candidates) {
+    while (length > 0 && candidate.slice(0, length).toLowerCase() !== candidates[0].slice(0, length).toLowerCase()) length--;
+  }
+  return candidates[0].slice(0, length);
+}
+
+// Candidates laid out in columns, like readline's list after a second Tab
+export function formatCandidates(candidates: string[], width = 80): string {
+  const column = Math.max(...candidates.map(c => c.length)) + 2;
+  const perLine = Math.max(1, Math.floor(width / column));
+  const lines: string[] = [];
+  for (let i = 0; i < candidates.length; i += perLine) {
+    lines.push(candidates.slice(i, i + perLine).map(c => c.padEnd(column)).join('').trimEnd());
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,199 @@
+import { foreignKeyName } from './sqlAlter';
+import { quoteName } from './sqlParser';
+import { TableSnapshot } from './sqlSnapshot';
+
+export interface DesignColumn {
+  // Stays the same through renames, so an edited column is matched to the one it was
+  id: number;
+  name: string;
+  type: string;
+  // "100" for VARCHAR(100), "10,2" for DECIMAL(10,2)
+  size: string;
+  notNull: boolean;
+  unique: boolean;
+  // SQL text; plain words are quoted when the DDL is generated
+  defaultValue: string;
+  autoIncrement: boolean;
+  primaryKey: boolean;
+  references: { table: string; column: string } | null;
+}
+
+export interface DesignIndex {
+  id: number;
+  name: string;
+  // Column ids, in index order
+  columns: number[];
+}
+
+export interface TableDesign {
+  name: string;
+  columns: DesignColumn[];
+  indexes: DesignIndex[];
+}
+
+export const COLUMN_TYPES = ['INT', 'BIGINT', 'DECIMAL', 'FLOAT', 'VARCHAR', 'CHAR', 'TEXT', 'DATE', 'DATETIME', 'BOOLEAN'];
+
+const NUMERIC_TYPE = /^(TINYINT|SMALLINT|MEDIUMINT|INT|INTEGER|BIGINT|DECIMAL|NUMERIC|FLOAT|DOUBLE|REAL)$/i;
+const SIZED_TYPE = /^(VARCHAR|CHAR)$/i;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// 0, NULL, 'text', CURRENT_TIMESTAMP and NOW() go in as written; anything else becomes a string
+function sqlDefault(value: string): string {
+  const text = value.trim();
+  if (/^(-?\d+(\.\d+)?|NULL|TRUE|FALSE|CURRENT_(DATE|TIME|TIMESTAMP)|\w+\(\))$/i.test(text) || /^'(?:[^']|'')*'$/.test(text)) return text;
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+}
+
+export function newColumn(id: number, name = ''): DesignColumn {
+  return { id, name, type: 'VARCHAR', size: '100', notNull: false, unique: false, defaultValue: '', autoIncrement: false, primaryKey: false, references: null };
+}
+
+export function emptyDesign(): TableDesign {
+  return {
+    name: '',
+    columns: [{ ...newColumn(1, 'id'), type: 'INT', size: '', notNull: true, autoIncrement: true, primaryKey: true }],
+    indexes: [],
+  };
+}
+
+export function designFromTable(table: TableSnapshot): TableDesign {
+  const columns = table.columns.map((col, i): DesignColumn => ({
+    id: i + 1,
+    name: col.name,
+    type: col.type,
+    size: col.size === undefined ? '' : col.precision === undefined ? String(col.size) : `${col.size},${col.precision}`,
+    notNull: col.notNull,
+    unique: col.unique,
+    defaultValue: col.defaultValue ?? '',
+    autoIncrement: !!col.autoIncrement,
+    primaryKey: table.primaryKey.includes(col.name),
+    references: col.references ? { ...col.references } : null,
+  }));
+  const idOf = (name: string) => columns.find(c => c.name === name)?.id ?? 0;
+  return {
+    name: table.name,
+    columns,
+    indexes: table.indexes.map((ix, i) => ({ id: i + 1, name: ix.name, columns: ix.columns.map(idOf) })),
+  };
+}
+
+// What stops the design from being valid DDL, in words a student can act on
+export function designProblems(design: TableDesign, tables: TableSnapshot[], original?: TableSnapshot): string[] {
+  const problems: string[] = [];
+  if (!design.name.trim()) problems.push('Chưa đặt tên bảng.');
+  else if (tables.some(t => t !== original && sameName(t.name, design.name))) problems.push(`Bảng "${design.name}" đã tồn tại.`);
+  if (design.columns.length === 0) problems.push('Bảng cần ít nhất một cột.');
+
+  design.columns.forEach((col, i) => {
+    const label = col.name.trim() || `Cột thứ ${i + 1}`;
+    if (!col.name.trim()) problems.push(`${label} chưa có tên.`);
+    else if (design.columns.findIndex(c => sameName(c.name, col.name)) !== i) problems.push(`Trùng tên cột "${col.name}".`);
+    if (SIZED_TYPE.test(col.type) && !col.size.trim()) problems.push(`${label}: ${col.type} cần độ dài, ví dụ ${col.type}(100).`);
+    if (col.autoIncrement && !(col.primaryKey && NUMERIC_TYPE.test(col.type))) problems.push(`${label}: AUTO_INCREMENT chỉ dùng cho cột số làm khóa chính.`);
+    if (col.references) {
+      const parent = sameName(col.references.table, design.name) ? null : tables.find(t => sameName(t.name, col.references!.table));
+      if (!col.references.table) problems.push(`${label}: chưa chọn bảng tham chiếu cho khóa ngoại.`);
+      else if (parent && !parent.columns.some(c => sameName(c.name, col.references!.column))) {
+        problems.push(`${label}: bảng "${parent.name}" không có cột "${col.references.column}".`);
+      } else if (!parent && !sameName(col.references.table, design.name)) problems.push(`${label}: bảng "${col.references.table}" không tồn tại.`);
+    }
+  });
+
+  design.indexes.forEach((ix, i) => {
+    if (!ix.name.trim()) problems.push(`Chỉ mục thứ ${i + 1} chưa có tên.`);
+    else if (design.indexes.findIndex(other => sameName(other.name, ix.name)) !== i) problems.push(`Trùng tên chỉ mục "${ix.name}".`);
+    if (ix.columns.length === 0) problems.push(`Chỉ mục "${ix.name || i + 1}" chưa chọn cột.`);
+  });
+  return problems;
+}
+
+const typeText = (col: DesignColumn) => `${col.type.toUpperCase()}${col.size.trim() ? `(${col.size.replace(/\s+/g, '')})` : ''}`;
+
+// Type and the options MODIFY restates; keys, UNIQUE and foreign keys have their own clauses
+function columnDefinition(col: DesignColumn, options: { unique?: boolean; primaryKey?: boolean } = {}): string {
+  const parts = [quoteName(col.name), typeText(col)];
+  if (col.notNull || col.primaryKey) parts.push('NOT NULL');
+  if (col.defaultValue.trim()) parts.push(`DEFAULT ${sqlDefault(col.defaultValue)}`);
+  if (col.autoIncrement) parts.push('AUTO_INCREMENT');
+  if (options.primaryKey) parts.push('PRIMARY KEY');
+  if (options.unique && col.unique) parts.push('UNIQUE');
+  return parts.join(' ');
+}
+
+const columnList = (design: TableDesign, ids: number[]) =>
+  ids.map(id => design.columns.find(c => c.id === id)).filter((c): c is DesignColumn => !!c).map(c => quoteName(c.name)).join(', ');
+
+const referenceText = (col: DesignColumn) => `FOREIGN KEY (${quoteName(col.name)}) REFERENCES ${quoteName(col.references!.table)}(${quoteName(col.references!.column)})`;
+
+export function createTableSQL(design: TableDesign): string[] {
+  const keys = design.columns.filter(c => c.primaryKey);
+  // A single-column key reads best inline; a composite one needs its own clause
+  const definitions = design.columns.map(col => columnDefinition(col, { unique: true, primaryKey: keys.length === 1 && col.primaryKey }));
+  if (keys.length > 1) definitions.push(`PRIMARY KEY (${keys.map(c => quoteName(c.name)).join(', ')})`);
+  design.columns.filter(c => c.references).forEach(col => definitions.push(referenceText(col)));
+
+  const table = quoteName(design.name);
+  return [
+    `CREATE TABLE ${table} (\n${definitions.map(d => `  ${d}`).join(',\n')}\n);`,
+    ...design.indexes.map(ix => `CREATE INDEX ${quoteName(ix.name)} ON ${table} (${columnList(design, ix.columns)});`),
+  ];
+}
+
+const sameReference = (a: DesignColumn['references'], b: DesignColumn['references']) =>
+  (!a && !b) || (!!a && !!b && sameName(a.table, b.table) && sameName(a.column, b.column));
+
+const definitionChanged = (a: DesignColumn, b: DesignColumn) =>
+  typeText(a) !== typeText(b) ||
+  a.notNull !== b.notNull ||
+  a.autoIncrement !== b.autoIncrement ||
+  (a.defaultValue.trim() ? sqlDefault(a.defaultValue) : '') !== (b.defaultValue.trim() ? sqlDefault(b.defaultValue) : '');
+
+// Only the changes, one ALTER TABLE each, in an order that always works:
+// drop constraints, drop columns, change columns, add columns, add constraints
+export function alterTableSQL(table: TableSnapshot, design: TableDesign): string[] {
+  const before = designFromTable(table);
+  const statements: string[] = [];
+  const renamed = design.name.trim() !== table.name;
+  if (renamed) statements.push(`ALTER TABLE ${quoteName(table.name)} RENAME TO ${quoteName(design.name)};`);
+  const target = quoteName(renamed ? design.name : table.name);
+  const alter = (action: string) => statements.push(`ALTER TABLE ${target} ${action};`);
+
+  const next = new Map(design.columns.map(c => [c.id, c]));
+  const removed = before.columns.filter(c => !next.has(c.id));
+  const kept = before.columns.filter(c => next.has(c.id)).map(old => ({ old, col: next.get(old.id)! }));
+  const added = design.columns.filter(c => !before.columns.some(old => old.id === c.id));
+  const keyIds = (d: TableDesign) => d.columns.filter(c => c.primaryKey).map(c => c.id).join(',');
+  const keyChanged = keyIds(before) !== keyIds(design);
+  const indexKey = (d: TableDesign, ix: DesignIndex) => `${ix.name}|${ix.columns.map(id => d.columns.find(c => c.id === id)?.name).join(',')}`;
+  const droppedIndexes = before.indexes.filter(ix => !design.indexes.some(n => indexKey(design, n) === indexKey(before, ix)));
+  const addedIndexes = design.indexes.filter(ix => !before.indexes.some(o => indexKey(before, o) === indexKey(design, ix)));
+
+  // Foreign key names are positional, so every one goes in the same statement
+  const droppedKeys = before.columns.filter(old => old.references && (!next.has(old.id) || !sameReference(old.references, next.get(old.id)!.references)));
+  if (droppedKeys.length > 0) alter(droppedKeys.map(old => `DROP FOREIGN KEY ${quoteName(foreignKeyName(table, old.name))}`).join(', '));
+  droppedIndexes.forEach(ix => alter(`DROP INDEX ${quoteName(ix.name)}`));
+  kept.filter(({ old, col }) => old.unique && !col.unique).forEach(({ old }) => alter(`DROP INDEX ${quoteName(old.name)}`));
+  if (keyChanged && before.columns.some(c => c.primaryKey)) alter('DROP PRIMARY KEY');
+  removed.forEach(old => alter(`DROP COLUMN ${quoteName(old.name)}`));
+
+  for (const { old, col } of kept) {
+    if (definitionChanged(old, col)) {
+      alter(old.name === col.name ? `MODIFY COLUMN ${columnDefinition(col)}` : `CHANGE COLUMN ${quoteName(old.name)} ${columnDefinition(col)}`);
+    } else if (old.name !== col.name) {
+      alter(`RENAME COLUMN ${quoteName(old.name)} TO ${quoteName(col.name)}`);
+    }
+  }
+  // A new AUTO_INCREMENT id has to be a key the moment it is added
+  const keys = design.columns.filter(c => c.primaryKey);
+  const inlineKey = keyChanged && keys.length === 1 && added.includes(keys[0]);
+  added.forEach(col => alter(`ADD COLUMN ${columnDefinition(col, { unique: true, primaryKey: inlineKey && col === keys[0] })}`));
+
+  if (keyChanged && keys.length > 0 && !inlineKey) alter(`ADD PRIMARY KEY (${keys.map(c => quoteName(c.name)).join(', ')})`);
+  kept.filter(({ old, col }) => !old.unique && col.unique).forEach(({ col }) => alter(`ADD UNIQUE (${quoteName(col.name)})`));
+  addedIndexes.forEach(ix => alter(`ADD INDEX ${quoteName(ix.name)} (${columnList(design, ix.columns)})`));
+  design.columns
+    .filter(col => col.references && !sameReference(before.columns.find(old => old.id === col.id)?.references ?? null, col.references))
+    .forEach(col => alter(`ADD ${referenceText(col)}`));
+  return statements;
+}
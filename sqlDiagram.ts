@@ -0,0 +1,144 @@
+import { DatabaseSnapshot, TableSnapshot, formatColumnType } from './sqlSnapshot';
+
+export interface DiagramColumn {
+  name: string;
+  type: string;
+  primaryKey: boolean;
+  foreignKey: boolean;
+}
+
+export interface DiagramTable {
+  name: string;
+  rows: number;
+  columns: DiagramColumn[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DiagramLink {
+  from: { table: string; column: string };
+  to: { table: string; column: string };
+  // Guessed from a column name like product_id rather than a declared FOREIGN KEY
+  inferred: boolean;
+}
+
+export interface Diagram {
+  tables: DiagramTable[];
+  links: DiagramLink[];
+  width: number;
+  height: number;
+}
+
+export const HEADER_HEIGHT = 30;
+export const ROW_HEIGHT = 22;
+const CHAR_WIDTH = 7.2;
+const MIN_WIDTH = 150;
+const GAP_X = 80;
+const GAP_Y = 50;
+const MARGIN = 20;
+
+const findTable = (tables: TableSnapshot[], name: string) => tables.find(t => t.name.toLowerCase() === name.toLowerCase());
+
+// orders.product_id → products.id: try the stem as written and its usual English plurals
+function inferReference(table: TableSnapshot, column: string, tables: TableSnapshot[]): { table: string; column: string } | null {
+  const match = column.match(/^(\w+?)_?id$/i);
+  if (!match) return null;
+  const stem = match[1];
+  const candidates = [stem, `${stem}s`, `${stem}es`, stem.replace(/y$/i, 'ies')];
+  for (const candidate of candidates) {
+    const target = findTable(tables, candidate);
+    if (!target || target === table) continue;
+    const key = target.primaryKey.length === 1 ? target.primaryKey[0] : target.columns.find(c => c.name.toLowerCase() === 'id')?.name;
+    if (key) return { table: target.name, column: key };
+  }
+  return null;
+}
+
+export function findLinks(snapshot: DatabaseSnapshot): DiagramLink[] {
+  const links: DiagramLink[] = [];
+  for (const table of snapshot.tables) {
+    for (const col of table.columns) {
+      if (col.references) {
+        const target = findTable(snapshot.tables, col.references.table);
+        if (target) links.push({ from: { table: table.name, column: col.name }, to: { table: target.name, column: col.references.column }, inferred: false });
+        continue;
+      }
+      const guess = inferReference(table, col.name, snapshot.tables);
+      if (guess) links.push({ from: { table: table.name, column: col.name }, to: guess, inferred: true });
+    }
+  }
+  return links;
+}
+
+// Tables on a grid, roughly square; each grid column is as wide as its widest table
+export function buildDiagram(snapshot: DatabaseSnapshot): Diagram {
+  const links = findLinks(snapshot);
+  const foreignKeys = new Set(links.map(l => `${l.from.table}.${l.from.column}`));
+  const boxes = snapshot.tables.map(table => {
+    const columns = table.columns.map(col => ({
+      name: col.name,
+      type: formatColumnType(col).toLowerCase(),
+      primaryKey: table.primaryKey.includes(col.name),
+      foreignKey: foreignKeys.has(`${table.name}.${col.name}`),
+    }));
+    const longest = Math.max(table.name.length + 8, ...columns.map(c => c.name.length + c.type.length + 7));
+    return {
+      name: table.name,
+      rows: table.rows.length,
+      columns,
+      x: 0,
+      y: 0,
+      width: Math.max(MIN_WIDTH, Math.ceil(longest * CHAR_WIDTH) + 20),
+      height: HEADER_HEIGHT + Math.max(1, columns.length) * ROW_HEIGHT,
+    };
+  });
+
+  const perRow = Math.max(1, Math.ceil(Math.sqrt(boxes.length)));
+  const columnWidths: number[] = [];
+  const rowHeights: number[] = [];
+  boxes.forEach((box, i) => {
+    const col = i % perRow;
+    const row = Math.floor(i / perRow);
+    columnWidths[col] = Math.max(columnWidths[col] ?? 0, box.width);
+    rowHeights[row] = Math.max(rowHeights[row] ?? 0, box.height);
+  });
+  const offset = (sizes: number[], index: number, gap: number) => MARGIN + sizes.slice(0, index).reduce((sum, size) => sum + size + gap, 0);
+  boxes.forEach((box, i) => {
+    box.x = offset(columnWidths, i % perRow, GAP_X);
+    box.y = offset(rowHeights, Math.floor(i / perRow), GAP_Y);
+  });
+
+  return {
+    tables: boxes,
+    links,
+    width: offset(columnWidths, columnWidths.length, GAP_X) - GAP_X + MARGIN,
+    height: offset(rowHeights, rowHeights.length, GAP_Y) - GAP_Y + MARGIN,
+  };
+}
+
+// Curve from the referencing column to the referenced one, leaving each box on the side facing the other
+export function linkPath(diagram: Diagram, link: DiagramLink): string | null {
+  const from = diagram.tables.find(t => t.name === link.from.table);
+  const to = diagram.tables.find(t => t.name === link.to.table);
+  if (!from || !to) return null;
+  const rowY = (table: DiagramTable, column: string) => {
+    const index = table.columns.findIndex(c => c.name.toLowerCase() === column.toLowerCase());
+    return table.y + HEADER_HEIGHT + Math.max(0, index) * ROW_HEIGHT + ROW_HEIGHT / 2;
+  };
+  const y1 = rowY(from, link.from.column);
+  const y2 = rowY(to, link.to.column);
+
+  if (from === to || Math.abs(from.x - to.x) < 1) {
+    // Same grid column: loop out to the right
+    const x = from.x + from.width;
+    const bend = x + 40;
+    return `M ${x} ${y1} C ${bend} ${y1}, ${bend} ${y2}, ${x} ${y2}`;
+  }
+  const rightward = from.x < to.x;
+  const x1 = rightward ? from.x + from.width : from.x;
+  const x2 = rightward ? to.x : to.x + to.width;
+  const mid = (x1 + x2) / 2;
+  return `M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}`;
+}
@@ -0,0 +1,373 @@
+import { DatabaseSnapshot } from './sqlSnapshot';
+import { findTable } from './sqlCatalog';
+import { TIMEOUT_ERROR, CANCELLED_ERROR } from './sqlWorkerClient';
+
+export type Dialect = 'mysql' | 'postgresql' | 'sqlite';
+
+export interface DialectInfo {
+  id: Dialect;
+  label: string;
+  icon: string;
+  client: string;
+}
+
+export const dialects: DialectInfo[] = [
+  {
+    id: 'mysql',
+    label: 'MySQL 8.0',
+    icon: '🐬',
+    client: 'MySQL 8.0 Command Line Client',
+  },
+  {
+    id: 'postgresql',
+    label: 'PostgreSQL 16',
+    icon: '🐘',
+    client: 'psql (PostgreSQL 16)',
+  },
+  {
+    id: 'sqlite',
+    label: 'SQLite 3',
+    icon: '🪶',
+    client: 'SQLite version 3.45',
+  },
+];
+
+const DIALECT_KEY = 'sqlMasterPro_dialect';
+
+export const dialectInfo = (dialect: Dialect) => dialects.find(d => d.id === dialect)!;
+
+// mysql*> / postgres=*# mark an open transaction, like the real clients do
+export function dialectPrompt(dialect: Dialect, inTransaction: boolean, isFirstLine: boolean): string {
+  switch (dialect) {
+    case 'mysql':
+      if (inTransaction) return isFirstLine ? 'mysql*> ' : '     -> ';
+      return isFirstLine ? 'mysql> ' : '    -> ';
+    case 'postgresql':
+      return `postgres${isFirstLine ? '=' : '-'}${inTransaction ? '*' : ''}# `;
+    case 'sqlite':
+      return isFirstLine ? 'sqlite> ' : '   ...> ';
+  }
+}
+
+export function loadDialect(): Dialect {
+  const saved = localStorage.getItem(DIALECT_KEY);
+  return dialects.some(d => d.id === saved) ? saved as Dialect : 'mysql';
+}
+
+export function saveDialect(dialect: Dialect) {
+  localStorage.setItem(DIALECT_KEY, dialect);
+}
+
+// Blank out string literals (same length) so rules never match inside data.
+// MySQL reads "..." as a string too; PostgreSQL and SQLite read it as an identifier.
+// Backslash escapes follow the engine, which is what dumps and imports generate.
+export function maskStrings(sql: string, doubleQuotedStrings: boolean): string {
+  const quotes = doubleQuotedStrings ? `'"` : `'`;
+  let masked = '';
+  let quote: string | null = null;
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+    if (quote) {
+      if (char === '\\') {
+        masked += '  ';
+        i++;
+      } else if (char === quote && sql[i + 1] === quote) {
+        masked += '  ';
+        i++;
+      } else if (char === quote) {
+        masked += char;
+        quote = null;
+      } else {
+        masked += char === '\n' ? '\n' : ' ';
+      }
+    } else {
+      if (quotes.includes(char)) quote = char;
+      masked += char;
+    }
+  }
+  return masked;
+}
+
+function lineAt(sql: string, index: number) {
+  const before = sql.slice(0, index);
+  const line = before.split('\n').length;
+  const start = before.lastIndexOf('\n') + 1;
+  const end = sql.indexOf('\n', index);
+  return { line, column: index - start, text: sql.slice(start, end === -1 ? undefined : end) };
+}
+
+// psql points at the error with the offending line and a caret
+function pgLocation(sql: string, index: number): string {
+  const { line, column, text } = lineAt(sql, index);
+  const prefix = `LINE ${line}: `;
+  return `\n${prefix}${text}\n${' '.repeat(prefix.length + column)}^`;
+}
+
+export function syntaxError(dialect: Dialect, sql: string, index: number): string {
+  const rest = sql.slice(index).trim();
+  const token = rest.match(/^(\w+|\S)/)?.[0];
+  switch (dialect) {
+    case 'mysql':
+      return 'ERROR 1064 (42000): You have an error in your SQL syntax; check the manual that corresponds to your '
+        + `MySQL server version for the right syntax to use near '${rest.slice(0, 80)}' at line ${lineAt(sql, index).line}`;
+    case 'postgresql':
+      return token
+        ? `ERROR:  syntax error at or near "${token}"${pgLocation(sql, index)}`
+        : 'ERROR:  syntax error at end of input';
+    case 'sqlite':
+      return token ? `Parse error: near "${token}": syntax error` : 'Parse error: incomplete input';
+  }
+}
+
+interface SyntaxRule {
+  pattern: RegExp;
+  allowed: Dialect[];
+  // Vietnamese tip per dialect that rejects it, for the terminal's AI help
+  tips: Partial<Record<Dialect, string>>;
+  error?: (dialect: Dialect, sql: string, match: RegExpExecArray) => string | null;
+}
+
+const MYSQL_TYPES = /\b(DATETIME|TINYINT|MEDIUMINT|LONGTEXT|MEDIUMTEXT|TINYTEXT)\b/gi;
+
+const syntaxRules: SyntaxRule[] = [
+  {
+    pattern: /`/g,
+    allowed: ['mysql', 'sqlite'],
+    tips: { postgresql: 'PostgreSQL không dùng dấu `...`; đặt tên trong nháy kép: "ten_cot" (hoặc bỏ nháy).' },
+  },
+  {
+    pattern: /\bAUTO_INCREMENT\b/gi,
+    allowed: ['mysql'],
+    tips: {
+      postgresql: 'PostgreSQL không có AUTO_INCREMENT: dùng id SERIAL PRIMARY KEY hoặc id INT GENERATED ALWAYS AS IDENTITY.',
+      sqlite: 'SQLite viết liền: id INTEGER PRIMARY KEY AUTOINCREMENT.',
+    },
+  },
+  {
+    pattern: /\bAUTOINCREMENT\b/gi,
+    allowed: ['sqlite'],
+    tips: {
+      mysql: 'MySQL viết có gạch dưới: AUTO_INCREMENT.',
+      postgresql: 'PostgreSQL dùng SERIAL hoặc GENERATED ALWAYS AS IDENTITY.',
+    },
+  },
+  {
+    pattern: /\b(BIG|SMALL)SERIAL\b/gi,
+    allowed: ['postgresql', 'sqlite'],
+    tips: { mysql: 'MySQL: dùng BIGINT AUTO_INCREMENT (hoặc SERIAL).' },
+  },
+  {
+    pattern: /\bGENERATED\s+(ALWAYS|BY\s+DEFAULT)\s+AS\s+IDENTITY\b/gi,
+    allowed: ['postgresql'],
+    tips: {
+      mysql: 'MySQL: dùng INT AUTO_INCREMENT.',
+      sqlite: 'SQLite: dùng INTEGER PRIMARY KEY AUTOINCREMENT.',
+    },
+  },
+  {
+    pattern: /\bFETCH\s+(FIRST|NEXT)\b/gi,
+    allowed: ['postgresql'],
+    tips: {
+      mysql: 'MySQL không có FETCH FIRST: dùng LIMIT n (và OFFSET m).',
+      sqlite: 'SQLite không có FETCH FIRST: dùng LIMIT n (và OFFSET m).',
+    },
+  },
+  {
+    pattern: /\bLIMIT\s+\d+\s*,\s*\d+/gi,
+    allowed: ['mysql', 'sqlite'],
+    tips: { postgresql: 'PostgreSQL không có LIMIT m, n: viết LIMIT n OFFSET m.' },
+    error: (dialect, sql, match) => dialect === 'postgresql'
+      ? `ERROR:  LIMIT #,# syntax is not supported${pgLocation(sql, match.index)}\nHINT:  Use separate LIMIT and OFFSET clauses.`
+      : null,
+  },
+  {
+    pattern: /\bILIKE\b/gi,
+    allowed: ['postgresql'],
+    tips: {
+      mysql: 'MySQL không có ILIKE: LIKE của MySQL vốn đã không phân biệt hoa thường.',
+      sqlite: 'SQLite không có ILIKE: LIKE của SQLite không phân biệt hoa thường với chữ ASCII.',
+    },
+  },
+  {
+    pattern: MYSQL_TYPES,
+    allowed: ['mysql', 'sqlite'],
+    tips: { postgresql: 'Kiểu của MySQL: trong PostgreSQL dùng TIMESTAMP thay DATETIME, SMALLINT thay TINYINT/MEDIUMINT, TEXT thay *TEXT.' },
+    error: (dialect, sql, match) => dialect === 'postgresql'
+      ? `ERROR:  type "${match[0].toLowerCase()}" does not exist${pgLocation(sql, match.index)}`
+      : null,
+  },
+  {
+    pattern: /\bUNSIGNED\b/gi,
+    allowed: ['mysql', 'sqlite'],
+    tips: { postgresql: 'PostgreSQL không có UNSIGNED: dùng CHECK (cot >= 0).' },
+  },
+  {
+    pattern: /\bENGINE\s*=/gi,
+    allowed: ['mysql'],
+    tips: {
+      postgresql: 'ENGINE=... chỉ có trong MySQL, bỏ đi là được.',
+      sqlite: 'ENGINE=... chỉ có trong MySQL, bỏ đi là được.',
+    },
+  },
+];
+
+function findViolation(sql: string, dialect: Dialect) {
+  const masked = maskStrings(sql, dialect === 'mysql');
+  let first: { rule: SyntaxRule; match: RegExpExecArray } | null = null;
+  for (const rule of syntaxRules) {
+    if (rule.allowed.includes(dialect)) continue;
+    rule.pattern.lastIndex = 0;
+    const match = rule.pattern.exec(masked);
+    // The parser stops at whatever comes first in the statement
+    if (match && (!first || match.index < first.match.index)) first = { rule, match };
+  }
+  return first;
+}
+
+// Syntax the selected database would reject before running anything
+export function checkDialect(sql: string, dialect: Dialect): string | null {
+  const violation = findViolation(sql, dialect);
+  if (!violation) return null;
+  const { rule, match } = violation;
+  return rule.error?.(dialect, sql, match) ?? syntaxError(dialect, sql, match.index);
+}
+
+export function dialectTip(sql: string, dialect: Dialect): string | null {
+  return findViolation(sql, dialect)?.rule.tips[dialect] ?? null;
+}
+
+function replaceInCode(sql: string, masked: string, pattern: RegExp, replace: (match: RegExpExecArray) => string): [string, string] {
+  const matches = [...masked.matchAll(pattern)] as RegExpExecArray[];
+  let result = sql;
+  let resultMasked = masked;
+  for (const match of matches.reverse()) {
+    const replacement = replace(match);
+    const end = match.index + match[0].length;
+    result = result.slice(0, match.index) + replacement + result.slice(end);
+    resultMasked = resultMasked.slice(0, match.index) + replacement + resultMasked.slice(end);
+  }
+  return [result, resultMasked];
+}
+
+// Rewrite accepted dialect syntax into what alasql understands
+export function toEngineSQL(sql: string, dialect: Dialect): string {
+  let code = sql;
+  let masked = maskStrings(sql, dialect === 'mysql');
+
+  if (dialect !== 'mysql') {
+    // Quoted identifiers: same length, so positions in error messages still line up
+    [code, masked] = replaceInCode(code, masked, /"((?:[^"]|"")*)"/g, m => `\`${m[1].replace(/""/g, '"')}\``);
+  }
+  if (dialect === 'postgresql') {
+    [code, masked] = replaceInCode(code, masked,
+      /\bOFFSET\s+(\d+)\s+ROWS?\s+FETCH\s+(?:FIRST|NEXT)\s+(\d+)\s+ROWS?\s+ONLY\b/gi, m => `LIMIT ${m[2]} OFFSET ${m[1]}`);
+    [code, masked] = replaceInCode(code, masked, /\bFETCH\s+(?:FIRST|NEXT)\s+(\d+)\s+ROWS?\s+ONLY\b/gi, m => `LIMIT ${m[1]}`);
+    [code, masked] = replaceInCode(code, masked, /\bOFFSET\s+(\d+)\s+ROWS?\b/gi, m => `OFFSET ${m[1]}`);
+    [code, masked] = replaceInCode(code, masked, /\bGENERATED\s+(ALWAYS|BY\s+DEFAULT)\s+AS\s+IDENTITY\b/gi, () => 'AUTO_INCREMENT');
+  } else {
+    [code, masked] = replaceInCode(code, masked, /\bLIMIT\s+(\d+)\s*,\s*(\d+)/gi, m => `LIMIT ${m[2]} OFFSET ${m[1]}`);
+  }
+  if (dialect === 'sqlite') {
+    [code] = replaceInCode(code, masked, /\bAUTOINCREMENT\b/gi, () => 'AUTO_INCREMENT');
+  }
+  return code;
+}
+
+export interface ErrorContext {
+  sql: string;
+  database: string;
+  readCatalog: () => DatabaseSnapshot;
+}
+
+const statementTable = (sql: string) =>
+  sql.match(/\b(?:INTO|UPDATE|TABLE)\s+(?:IF\s+(?:NOT\s+)?EXISTS\s+)?[`"]?(\w+)/i)?.[1] ?? '?';
+
+// alasql's parse errors quote an excerpt ("...tail") with a caret under the failing token
+function parseErrorIndex(message: string, sql: string): number {
+  const [, excerpt = '', caretLine = ''] = message.split('\n');
+  const lineNumber = Number(message.match(/line (\d+)/)?.[1] ?? 1);
+  const caret = caretLine.indexOf('^');
+  const lines = sql.split('\n');
+  const lineStart = lines.slice(0, lineNumber - 1).reduce((sum, l) => sum + l.length + 1, 0);
+  const sourceLine = lines[lineNumber - 1] ?? '';
+  const shown = excerpt.startsWith('...') ? excerpt.slice(3) : excerpt;
+  const offset = sourceLine.indexOf(shown);
+  if (caret === -1 || offset === -1) return sql.length;
+  return lineStart + offset + caret - (excerpt.length - shown.length);
+}
+
+// Rephrase the engine's error the way the selected database would say it
+export function formatEngineError(message: string, dialect: Dialect, context: ErrorContext): string {
+  const { sql, database } = context;
+  let match: RegExpMatchArray | null;
+
+  if (message.startsWith('Parse error')) {
+    return syntaxError(dialect, sql, parseErrorIndex(message, sql));
+  }
+  if ((match = message.match(/^Table does not exist: (\S+)/))) {
+    const table = match[1];
+    if (dialect === 'mysql') return `ERROR 1146 (42S02): Table '${database}.${table}' doesn't exist`;
+    if (dialect === 'postgresql') return `ERROR:  relation "${table}" does not exist`;
+    return `Parse error: no such table: ${table}`;
+  }
+  if ((match = message.match(/^Column does not exist: (\S+)/))) {
+    const column = match[1];
+    if (dialect === 'mysql') return `ERROR 1054 (42S22): Unknown column '${column}' in 'field list'`;
+    if (dialect === 'postgresql') return `ERROR:  column "${column}" does not exist`;
+    return `Parse error: no such column: ${column}`;
+  }
+  if ((match = message.match(/^Can not create table '([^']+)', because it already exists/))) {
+    const table = match[1];
+    if (dialect === 'mysql') return `ERROR 1050 (42S01): Table '${table}' already exists`;
+    if (dialect === 'postgresql') return `ERROR:  relation "${table}" already exists`;
+    return `Parse error: table ${table} already exists`;
+  }
+  if (/already exists in (primary key|unique) index/.test(message)) {
+    const table = statementTable(sql);
+    const isPrimary = message.includes('primary key');
+    if (dialect === 'mysql') return `ERROR 1062 (23000): Duplicate entry for key '${table}.${isPrimary ? 'PRIMARY' : 'UNIQUE'}'`;
+    if (dialect === 'postgresql') {
+      return `ERROR:  duplicate key value violates unique constraint "${table}_${isPrimary ? 'pkey' : 'key'}"`;
+    }
+    const keyColumns = findTable(context.readCatalog(), table)?.primaryKey ?? [];
+    const columns = isPrimary && keyColumns.length > 0 ? keyColumns.map(c => `${table}.${c}`).join(', ') : table;
+    return `Runtime error: UNIQUE constraint failed: ${columns}`;
+  }
+  if (message === TIMEOUT_ERROR) {
+    if (dialect === 'mysql') return `ERROR 3024 (HY000): ${TIMEOUT_ERROR}`;
+    if (dialect === 'postgresql') return 'ERROR:  canceling statement due to statement timeout';
+    return 'Runtime error: interrupted';
+  }
+  if (message === CANCELLED_ERROR) {
+    if (dialect === 'mysql') return `ERROR 1317 (70100): ${CANCELLED_ERROR}`;
+    if (dialect === 'postgresql') return 'ERROR:  canceling statement due to user request';
+    return 'Runtime error: interrupted';
+  }
+  return message;
+}
+
+// Status lines as each client prints them after a statement
+// The mysql client appends the warning count to its status line
+const warningCount = (warnings: number) => (warnings > 0 ? `, ${warnings} ${warnings === 1 ? 'warning' : 'warnings'}` : '');
+
+export function rowsStatus(dialect: Dialect, count: number, executionTime: number, warnings = 0): string {
+  if (dialect === 'postgresql') return `(${count} ${count === 1 ? 'row' : 'rows'})`;
+  if (dialect === 'sqlite') return `${count} row(s) • Run Time: ${executionTime}ms`;
+  return count === 0 ? `Empty set${warningCount(warnings)} (${executionTime}ms)` : `${count} row(s) in set${warningCount(warnings)} (${executionTime}ms)`;
+}
+
+export function commandStatus(dialect: Dialect, sql: string, affectedRows: number, executionTime: number, warnings = 0): string {
+  if (dialect === 'postgresql') {
+    // psql prints the command tag: INSERT 0 3, UPDATE 2, CREATE TABLE...
+    const keyword = sql.trim().match(/^(\w+)(?:\s+(TABLE|INDEX|VIEW|DATABASE|SCHEMA))?/i);
+    const command = keyword ? [keyword[1], keyword[2]].filter(Boolean).join(' ').toUpperCase() : 'OK';
+    if (command === 'INSERT') return `INSERT 0 ${affectedRows}`;
+    if (['UPDATE', 'DELETE'].includes(command)) return `${command} ${affectedRows}`;
+    return command;
+  }
+  if (dialect === 'sqlite') return `changes: ${affectedRows} • Run Time: ${executionTime}ms`;
+  return `Query OK, ${affectedRows} row(s) affected${warningCount(warnings)} (${executionTime}ms)`;
+}
+
+// Errors already written in a database's own words
+export const isDialectError = (message: string) => /^(ERROR\b|Parse error:|Runtime error:)/.test(message);
@@ -0,0 +1,186 @@
+import { Dialect } from './sqlDialects';
+import { Span, tryParseSQL } from './sqlParser';
+import { DatabaseSnapshot, TableSnapshot } from './sqlSnapshot';
+import { quoteAlias } from './sqlStages';
+
+type Row = Record<string, unknown>;
+
+export interface RowChange {
+  kind: 'inserted' | 'deleted' | 'updated';
+  before: Row | null;
+  after: Row | null;
+  // Columns whose value differs; empty for an update that set the same value
+  changed: string[];
+}
+
+export interface TableDiff {
+  table: string;
+  columns: string[];
+  changes: RowChange[];
+  unchanged: number;
+  // A preview shows what would happen; nothing has been written yet
+  preview: boolean;
+}
+
+interface DMLPreview {
+  table: string;
+  sql: string;
+  columns: string[];
+  // UPDATE ... JOIN: a target row comes back once per joined row that matches it
+  joined: boolean;
+}
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+const findTable = (snapshot: DatabaseSnapshot, name: string) =>
+  snapshot.tables.find(t => t.name.toLowerCase() === name.toLowerCase());
+
+// The table an INSERT / UPDATE / DELETE writes to
+export function dmlTarget(sql: string, dialect: Dialect): string | null {
+  const { statement } = tryParseSQL(sql, dialect);
+  if (statement?.type === 'insert') return statement.table;
+  if ((statement?.type === 'update' || statement?.type === 'delete') && statement.table.kind === 'table') return statement.table.name;
+  return null;
+}
+
+export function diffTables(before: DatabaseSnapshot, after: DatabaseSnapshot, name: string): TableDiff | null {
+  const old = findTable(before, name);
+  const current = findTable(after, name);
+  if (!old && !current) return null;
+  const table = (current ?? old)!;
+  const columns = table.columns.map(c => c.name);
+  const changesOf = (a: Row, b: Row) => columns.filter(c => !sameValue(a[c], b[c]));
+  const oldRows = old?.rows ?? [];
+  const newRows = current?.rows ?? [];
+  const changes: RowChange[] = [];
+  let unchanged = 0;
+
+  if (table.primaryKey.length > 0) {
+    // Rows keep their identity through the key, so an update is never mistaken for delete + insert
+    const keyOf = (row: Row) => JSON.stringify(table.primaryKey.map(c => row[c] ?? null));
+    const remaining = new Map(newRows.map(row => [keyOf(row), row]));
+    for (const row of oldRows) {
+      const next = remaining.get(keyOf(row));
+      remaining.delete(keyOf(row));
+      if (!next) changes.push({ kind: 'deleted', before: row, after: null, changed: [] });
+      else {
+        const changed = changesOf(row, next);
+        if (changed.length > 0) changes.push({ kind: 'updated', before: row, after: next, changed });
+        else unchanged++;
+      }
+    }
+    remaining.forEach(row => changes.push({ kind: 'inserted', before: null, after: row, changed: [] }));
+  } else if (oldRows.length === newRows.length) {
+    // No key: UPDATE changes rows in place, so position is identity
+    oldRows.forEach((row, i) => {
+      const changed = changesOf(row, newRows[i]);
+      if (changed.length > 0) changes.push({ kind: 'updated', before: row, after: newRows[i], changed });
+      else unchanged++;
+    });
+  } else {
+    // No key and rows came or went: match identical rows, the rest were deleted or inserted
+    const pending = newRows.map(row => JSON.stringify(columns.map(c => row[c] ?? null)));
+    for (const row of oldRows) {
+      const index = pending.indexOf(JSON.stringify(columns.map(c => row[c] ?? null)));
+      if (index === -1) changes.push({ kind: 'deleted', before: row, after: null, changed: [] });
+      else {
+        pending[index] = '';
+        unchanged++;
+      }
+    }
+    newRows.forEach((row, i) => {
+      if (pending[i] !== '') changes.push({ kind: 'inserted', before: null, after: row, changed: [] });
+    });
+  }
+
+  return { table: table.name, columns, changes, unchanged, preview: false };
+}
+
+// Runs a statement and, for DML, reports what it did to the table it wrote to
+export async function runWithDiff<T extends { error?: string }>(
+  sql: string,
+  dialect: Dialect,
+  readCatalog: () => DatabaseSnapshot,
+  run: (sql: string) => Promise<T>,
+): Promise<{ result: T; diff: TableDiff | null }> {
+  const target = dmlTarget(sql, dialect);
+  const before = target ? readCatalog() : null;
+  const result = await run(sql);
+  const diff = target && before && !result.error ? diffTables(before, readCatalog(), target) : null;
+  return { result, diff };
+}
+
+// The rows an UPDATE / DELETE would touch, as a SELECT that changes nothing
+function previewDML(sql: string, dialect: Dialect): DMLPreview | null {
+  const { statement } = tryParseSQL(sql, dialect);
+  if ((statement?.type !== 'update' && statement?.type !== 'delete') || statement.table.kind !== 'table') return null;
+
+  const text = (node: { span: Span }) => collapse(sql.slice(node.span.start, node.span.end));
+  const target = statement.table;
+  const tail = [
+    statement.where ? `WHERE ${text(statement.where)}` : '',
+    statement.orderBy.length > 0 ? `ORDER BY ${statement.orderBy.map(text).join(', ')}` : '',
+    statement.limit ? text(statement.limit) : '',
+  ].filter(Boolean).join(' ');
+
+  if (statement.type === 'delete') {
+    return { table: target.name, sql: collapse(`SELECT * FROM ${text(target)} ${tail}`), columns: [], joined: false };
+  }
+  // New values ride along as extra columns, computed from the same row they will replace
+  const values = statement.set.map((a, i) => `${text(a.value)} AS ${quoteAlias(`__set${i}`, dialect)}`);
+  const rows = statement.joins.length > 0 ? `${target.alias ?? target.name}.*` : '*';
+  return {
+    table: target.name,
+    sql: collapse(`SELECT ${rows}, ${values.join(', ')} FROM ${text(target)} ${statement.joins.map(text).join(' ')} ${tail}`),
+    columns: statement.set.map(a => a.column),
+    joined: statement.joins.length > 0,
+  };
+}
+
+function previewDiff(preview: DMLPreview, columns: string[], rows: (string | number | null)[][], table?: TableSnapshot): TableDiff {
+  const width = columns.length - preview.columns.length;
+  // No matching rows may also mean no column names from the engine
+  const tableColumns = rows.length > 0 ? columns.slice(0, width) : table?.columns.map(c => c.name) ?? [];
+  // MySQL updates each target row once, with the first joined row that matches it;
+  // without a primary key, identical target rows can't be told apart and count once
+  const identity = table && table.primaryKey.length > 0
+    ? table.primaryKey.map(key => tableColumns.findIndex(c => c.toLowerCase() === key.toLowerCase()))
+    : tableColumns.map((_, i) => i);
+  const seen = new Set<string>();
+  const targetRows = preview.joined
+    ? rows.filter(cells => {
+        const key = JSON.stringify(identity.map(i => cells[i] ?? null));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+    : rows;
+  const changes = targetRows.map((cells): RowChange => {
+    const before: Row = Object.fromEntries(tableColumns.map((c, i) => [c, cells[i]]));
+    if (preview.columns.length === 0) return { kind: 'deleted', before, after: null, changed: [] };
+    const after: Row = { ...before };
+    preview.columns.forEach((column, i) => {
+      const name = tableColumns.find(c => c.toLowerCase() === column.toLowerCase()) ?? column;
+      after[name] = cells[width + i];
+    });
+    return { kind: 'updated', before, after, changed: tableColumns.filter(c => !sameValue(before[c], after[c])) };
+  });
+  const total = table?.rows.length ?? targetRows.length;
+  return { table: table?.name ?? preview.table, columns: tableColumns, changes, unchanged: Math.max(0, total - targetRows.length), preview: true };
+}
+
+export const canPreview = (sql: string, dialect: Dialect) => previewDML(sql, dialect) !== null;
+
+// What an UPDATE / DELETE would do, without running it; null for anything else
+export async function previewWithDiff<T extends { columns: string[]; rows: (string | number | null)[][]; error?: string }>(
+  sql: string,
+  dialect: Dialect,
+  readCatalog: () => DatabaseSnapshot,
+  run: (sql: string) => Promise<T>,
+): Promise<{ diff: TableDiff | null; error?: string } | null> {
+  const preview = previewDML(sql, dialect);
+  if (!preview) return null;
+  const result = await run(preview.sql);
+  if (result.error) return { diff: null, error: result.error };
+  return { diff: previewDiff(preview, result.columns, result.rows, findTable(readCatalog(), preview.table)) };
+}
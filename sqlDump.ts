@@ -0,0 +1,215 @@
+import { DatabaseSnapshot } from './sqlSnapshot';
+import { formatCreateTable } from './sqlCatalog';
+import { splitStatements } from './sqlSplit';
+
+const quoteIdent = (name: string) => `\`${name.replace(/`/g, '``')}\``;
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export function formatSQLValue(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (value instanceof Date) {
+    return `'${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())} ${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}'`;
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `'${text.replace(/[\0\n\r\x1a'"\\]/g, ch => MYSQL_ESCAPES[ch])}'`;
+}
+
+// What mysqldump escapes in a string, and what MySQL reads back from each escape
+const MYSQL_ESCAPES: Record<string, string> = { '\0': '\\0', '\n': '\\n', '\r': '\\r', '\x1a': '\\Z', "'": "\\'", '"': '\\"', '\\': '\\\\' };
+const MYSQL_UNESCAPES: Record<string, string> = { '0': '\0', b: '\b', n: '\n', r: '\r', t: '\t', Z: '\x1a', '%': '\\%', _: '\\_' };
+
+// A string as alasql reads it. alasql takes backslashes literally but its lexer still reads \'
+// as a quote, so backslashes right before a quote or at the very end go in as CHAR(92)
+function engineString(text: string): string {
+  const quote = (part: string) => `'${part.replace(/'/g, "''")}'`;
+  if (!/\\(?='|$)/.test(text)) return quote(text);
+  const parts = text.split(/(\\+)(?='|$)/).flatMap((part, i) =>
+    i % 2 === 1 ? Array.from(part, () => 'CHAR(92)') : part ? [quote(part)] : []
+  );
+  return `CONCAT(${parts.join(', ')})`;
+}
+
+// MySQL strings ('it\'s', 'C:\\dir', 'line\n') rewritten as strings alasql reads the same way
+export function standardStrings(sql: string): string {
+  let out = '';
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (ch === '`' || ch === '"') {
+      const end = sql.indexOf(ch, i + 1);
+      const next = end === -1 ? sql.length : end + 1;
+      out += sql.slice(i, next);
+      i = next;
+    } else if (ch === "'") {
+      let text = '';
+      let j = i + 1;
+      while (j < sql.length) {
+        if (sql[j] === '\\' && j + 1 < sql.length) {
+          text += MYSQL_UNESCAPES[sql[j + 1]] ?? sql[j + 1];
+          j += 2;
+        } else if (sql[j] === "'" && sql[j + 1] === "'") {
+          text += "'";
+          j += 2;
+        } else if (sql[j] === "'") {
+          break;
+        } else {
+          text += sql[j++];
+        }
+      }
+      out += engineString(text);
+      i = j + 1;
+    } else {
+      out += ch;
+      i++;
+    }
+  }
+  return out;
+}
+
+export function buildInsert(table: string, columns: string[] | null, rows: unknown[][]): string {
+  const columnList = columns ? ` (${columns.map(quoteIdent).join(',')})` : '';
+  const values = rows.map(row => `(${row.map(formatSQLValue).join(',')})`).join(',');
+  return `INSERT INTO ${quoteIdent(table)}${columnList} VALUES ${values};`;
+}
+
+// Same layout as mysqldump so the file loads into a real MySQL server too
+export function buildDump(snapshot: DatabaseSnapshot, database: string): string {
+  const lines = [
+    `-- SQL Master Pro dump`,
+    `-- Database: ${database}`,
+    `-- Generated: ${new Date().toISOString()}`,
+    '',
+    'SET NAMES utf8mb4;',
+    'SET FOREIGN_KEY_CHECKS=0;',
+    '',
+  ];
+
+  for (const table of snapshot.tables) {
+    lines.push(
+      '--',
+      `-- Table structure for table ${quoteIdent(table.name)}`,
+      '--',
+      '',
+      `DROP TABLE IF EXISTS ${quoteIdent(table.name)};`,
+      `${formatCreateTable(table)};`,
+      '',
+    );
+
+    if (table.rows.length > 0) {
+      const columns = table.columns.map(c => c.name);
+      lines.push(
+        '--',
+        `-- Dumping data for table ${quoteIdent(table.name)}`,
+        '--',
+        '',
+        buildInsert(table.name, columns, table.rows.map(row => columns.map(c => row[c]))),
+        '',
+      );
+    }
+  }
+
+  lines.push('SET FOREIGN_KEY_CHECKS=1;', '');
+  return lines.join('\n');
+}
+
+// Session settings and table locks have no meaning in the sandbox
+const IGNORED_STATEMENT = /^(SET\s|LOCK\s+TABLES?\b|UNLOCK\s+TABLES?\b)/i;
+const INLINE_INDEX = /^\s*(?:FULLTEXT\s+|SPATIAL\s+)?(?:KEY|INDEX)\s+(`[^`]+`|\w+)\s*\(((?:[^()]|\(\d+\))*)\)\s*$/i;
+
+// Split the body of CREATE TABLE (...) on top-level commas
+function splitDefinitions(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      parts.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(body.slice(start));
+  return parts;
+}
+
+// Rewrite MySQL-only CREATE TABLE syntax into what alasql understands
+function adaptCreateTable(sql: string): string[] {
+  const header = sql.match(/^CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(`[^`]+`|\w+)\s*\(/i);
+  const close = sql.lastIndexOf(')');
+  if (!header || close === -1) return [sql];
+
+  const tableName = header[1];
+  const indexes: string[] = [];
+  const definitions = splitDefinitions(sql.slice(header[0].length, close))
+    .filter(def => {
+      const index = def.match(INLINE_INDEX);
+      if (index) indexes.push(`CREATE INDEX ${index[1]} ON ${tableName} (${index[2].replace(/\(\d+\)/g, '')})`);
+      return !index;
+    })
+    .map(def => def
+      .replace(/\s+(?:CHARACTER\s+SET|CHARSET)\s+\w+/gi, '')
+      .replace(/\s+COLLATE\s+\w+/gi, '')
+      .replace(/\s+COMMENT\s+'(?:[^'\\]|\\.|'')*'/gi, ''));
+
+  // Table options after the closing parenthesis (ENGINE=..., CHARSET=...) are dropped
+  return [`${sql.slice(0, header[0].length)}${definitions.join(',')})`, ...indexes];
+}
+
+// A statement from a .sql file (MySQL syntax) as the statements alasql should run
+export function prepareStatement(sql: string): string[] {
+  if (IGNORED_STATEMENT.test(sql)) return [];
+  return (/^CREATE\s+TABLE\b/i.test(sql) ? adaptCreateTable(sql) : [sql]).map(standardStrings);
+}
+
+export interface ScriptSummary {
+  executed: number;
+  failed?: { line: number; sql: string; message: string };
+}
+
+// Run a .sql script statement by statement, stopping at the first error like `mysql < file`
+export function runScript<R extends { error?: string }>(
+  text: string,
+  execute: (sql: string) => R,
+  onResult?: (sql: string, result: R) => void
+): ScriptSummary {
+  const { statements, remainder, remainderLine } = splitStatements(text);
+  if (remainder) statements.push({ sql: remainder, line: remainderLine });
+
+  let executed = 0;
+  for (const statement of statements) {
+    for (const sql of prepareStatement(statement.sql)) {
+      const result = execute(sql);
+      onResult?.(sql, result);
+      if (result.error) {
+        return { executed, failed: { line: statement.line, sql: statement.sql, message: result.error } };
+      }
+    }
+    executed++;
+  }
+  return { executed };
+}
+
+export function downloadTextFile(filename: string, content: string, type = 'text/plain') {
+  downloadBlob(filename, new Blob([content], { type: `${type};charset=utf-8` }));
+}
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
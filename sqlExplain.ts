@@ -0,0 +1,590 @@
+import { Dialect } from './sqlDialects';
+import {
+  AlterAction,
+  ColumnConstraint,
+  ColumnDefinition,
+  Expression,
+  Join,
+  Limit,
+  OrderItem,
+  SelectStatement,
+  Span,
+  SQLSyntaxError,
+  Statement,
+  TableConstraint,
+  TableRef,
+  tryParseSQL,
+} from './sqlParser';
+
+export type ExplainMode = 'easy' | 'technical';
+
+export interface ExplainPart {
+  // Clause keyword, e.g. SELECT, WHERE, LEFT JOIN
+  type: string;
+  // The clause as written in the statement
+  content: string;
+  explanation: string;
+}
+
+export interface SQLExplanation {
+  statement: Statement | null;
+  parts: ExplainPart[];
+  error: SQLSyntaxError | null;
+}
+
+// Shared by the terminal, the explainer and the code runner so all three say the same thing
+export function explainSQL(sql: string, mode: ExplainMode, dialect: Dialect = 'mysql'): SQLExplanation {
+  const { statement, error } = tryParseSQL(sql, dialect);
+  if (!statement) return { statement: null, parts: [], error };
+  return { statement, parts: explainStatement(sql, statement, mode), error: null };
+}
+
+// One short sentence per statement, for the line-by-line runner (and its voice-over)
+export function summarizeSQL(sql: string, dialect: Dialect = 'mysql'): string {
+  const { statement, error } = tryParseSQL(sql, dialect);
+  if (!statement) return error ? `Câu lệnh có lỗi cú pháp ở dòng ${error.line}, cột ${error.column}` : 'Thực thi câu lệnh SQL';
+  return summarizeStatement(statement);
+}
+
+export function syntaxErrorPart(error: SQLSyntaxError, mode: ExplainMode): ExplainPart {
+  return {
+    type: 'Lỗi cú pháp',
+    content: error.found || '(hết câu lệnh)',
+    explanation: mode === 'easy'
+      ? `🤔 Câu lệnh bị sai ở dòng ${error.line}, cột ${error.column}${error.found ? ` (gần "${error.found}")` : ' (câu lệnh kết thúc quá sớm)'}. Kiểm tra lại cú pháp!`
+      : error.message,
+  };
+}
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const AGGREGATES = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'GROUP_CONCAT', 'STRING_AGG'];
+
+export type FunctionCall = Extract<Expression, { kind: 'function' }>;
+
+// Aggregate calls in an expression, outermost only (window functions don't fold rows)
+export function aggregateCalls(expr: Expression): FunctionCall[] {
+  switch (expr.kind) {
+    case 'function':
+      return AGGREGATES.includes(expr.name) && !expr.over ? [expr] : expr.args.flatMap(aggregateCalls);
+    case 'binary': return [...aggregateCalls(expr.left), ...aggregateCalls(expr.right)];
+    case 'unary': case 'cast': case 'is': return aggregateCalls(expr.operand);
+    case 'like': return [...aggregateCalls(expr.operand), ...aggregateCalls(expr.pattern)];
+    case 'between': return [expr.operand, expr.low, expr.high].flatMap(aggregateCalls);
+    case 'in': return [expr.operand, ...(Array.isArray(expr.values) ? expr.values : [])].flatMap(aggregateCalls);
+    case 'case':
+      return [
+        ...(expr.operand ? aggregateCalls(expr.operand) : []),
+        ...expr.branches.flatMap(b => [...aggregateCalls(b.when), ...aggregateCalls(b.then)]),
+        ...(expr.otherwise ? aggregateCalls(expr.otherwise) : []),
+      ];
+    default: return [];
+  }
+}
+
+export const hasAggregate = (expr: Expression) => aggregateCalls(expr).length > 0;
+
+function summarizeStatement(statement: Statement): string {
+  const tableOf = (ref: TableRef) => (ref.kind === 'table' ? ref.name : 'truy vấn con');
+  switch (statement.type) {
+    case 'select': {
+      if (statement.from.length === 0) return 'Tính toán và hiển thị giá trị';
+      const tables = [...statement.from, ...statement.joins.map(j => j.table)].map(tableOf);
+      let text = `Truy vấn lấy dữ liệu từ bảng ${tables[0]}`;
+      if (tables.length > 1) text += ` kết hợp ${tables.slice(1).join(', ')}`;
+      if (statement.groupBy.length > 0) text += ', có nhóm dữ liệu';
+      else if (statement.where) text += ', có lọc điều kiện';
+      return text;
+    }
+    case 'insert':
+      return statement.query
+        ? `Thêm dữ liệu từ câu SELECT vào bảng ${statement.table}`
+        : `Thêm ${statement.values.length} dòng mới vào bảng ${statement.table}`;
+    case 'update':
+      return `Cập nhật dữ liệu trong bảng ${tableOf(statement.table)}${statement.where ? '' : ' (mọi dòng)'}`;
+    case 'delete':
+      return `Xóa dữ liệu khỏi bảng ${tableOf(statement.table)}${statement.where ? '' : ' (mọi dòng)'}`;
+    case 'create_table':
+      return `Tạo bảng mới ${statement.table} với ${statement.columns.length} cột`;
+    case 'create_index':
+      return `Tạo index trên bảng ${statement.table} để tìm kiếm nhanh hơn`;
+    case 'create_view':
+      return `Tạo view ${statement.name}`;
+    case 'create_database':
+      return `Tạo database mới ${statement.name}`;
+    case 'alter_table':
+      return `Thay đổi cấu trúc bảng ${statement.table}`;
+    case 'drop':
+      return `Xóa ${dropObjectName[statement.object]} ${statement.names.join(', ')}`;
+    case 'truncate':
+      return `Xóa toàn bộ dữ liệu trong bảng ${statement.table}`;
+    case 'rename_table':
+      return `Đổi tên bảng ${statement.renames.map(r => `${r.from} thành ${r.to}`).join(', ')}`;
+    case 'grant':
+      return `Cấp quyền cho ${statement.accounts.map(a => a.user).join(', ')}`;
+    case 'revoke':
+      return `Thu hồi quyền của ${statement.accounts.map(a => a.user).join(', ')}`;
+    case 'user':
+      return `${{ create: 'Tạo', drop: 'Xóa', alter: 'Sửa' }[statement.action]} ${statement.role ? 'role' : 'user'} ${statement.accounts.map(a => a.user).join(', ')}`;
+    case 'transaction':
+      return transactionText[statement.action];
+    case 'use':
+      return `Chuyển sang database ${statement.database}`;
+    case 'show':
+      return `Xem thông tin ${statement.what}`;
+    case 'describe':
+      return `Xem cấu trúc bảng ${statement.table}`;
+    case 'explain':
+      return `Xem kế hoạch thực thi: ${summarizeStatement(statement.statement).toLowerCase()}`;
+    case 'set':
+      return 'Đặt giá trị biến';
+    case 'create_routine':
+      return `Tạo ${statement.object.toLowerCase()} ${statement.name}`;
+  }
+}
+
+const dropObjectName = { TABLE: 'bảng', VIEW: 'view', DATABASE: 'database', INDEX: 'index' };
+
+const transactionText = {
+  begin: 'Bắt đầu transaction',
+  commit: 'Lưu vĩnh viễn các thay đổi (COMMIT)',
+  rollback: 'Hoàn tác các thay đổi (ROLLBACK)',
+  savepoint: 'Đánh dấu savepoint',
+  release: 'Bỏ savepoint',
+};
+
+function explainStatement(sql: string, statement: Statement, mode: ExplainMode): ExplainPart[] {
+  const easy = mode === 'easy';
+  const text = (node: { span: Span }) => collapse(sql.slice(node.span.start, node.span.end));
+  const between = (first: { span: Span }, last: { span: Span }) => collapse(sql.slice(first.span.start, last.span.end));
+  const part = (type: string, content: string, easyText: string, technicalText: string): ExplainPart => ({
+    type,
+    content,
+    explanation: easy ? easyText : technicalText,
+  });
+  const tableName = (ref: TableRef) => (ref.kind === 'table' ? ref.name : ref.alias ?? 'subquery');
+  const describeTable = (ref: TableRef) => {
+    if (ref.kind === 'subquery') {
+      return easy ? `kết quả của một truy vấn con${ref.alias ? ` (đặt tên ${ref.alias})` : ''}` : `a derived table${ref.alias ? ` "${ref.alias}"` : ''}`;
+    }
+    const name = ref.schema ? `${ref.schema}.${ref.name}` : ref.name;
+    if (!ref.alias) return easy ? name : `"${name}"`;
+    return easy ? `${name} (gọi tắt là ${ref.alias})` : `"${name}" aliased as "${ref.alias}"`;
+  };
+
+  // a AND b AND c reads better as a list
+  const conditions = (expr: Expression): Expression[] => expr.kind === 'binary' && (expr.operator === 'AND' || expr.operator === '&&')
+    ? [...conditions(expr.left), ...conditions(expr.right)]
+    : [expr];
+  const hasSubquery = (expr: Expression): boolean => {
+    switch (expr.kind) {
+      case 'exists': case 'subquery': return true;
+      case 'in': return !Array.isArray(expr.values) || expr.values.some(hasSubquery) || hasSubquery(expr.operand);
+      case 'binary': return hasSubquery(expr.left) || hasSubquery(expr.right);
+      case 'unary': return hasSubquery(expr.operand);
+      case 'between': return hasSubquery(expr.operand) || hasSubquery(expr.low) || hasSubquery(expr.high);
+      case 'like': case 'is': case 'cast': return hasSubquery(expr.operand);
+      case 'function': return expr.args.some(hasSubquery);
+      default: return false;
+    }
+  };
+  const whereParts = (where: Expression | null, action: string): ExplainPart[] => {
+    if (!where) return [];
+    const list = conditions(where).map(text);
+    const subquery = hasSubquery(where);
+    return [part(
+      'WHERE',
+      `WHERE ${text(where)}`,
+      `🔍 ${action} các dòng thỏa ${list.length > 1 ? `TẤT CẢ điều kiện: ${list.join(' VÀ ')}` : `điều kiện: ${list[0]}`}${subquery ? ' (điều kiện có dùng truy vấn con)' : ''}`,
+      `WHERE clause: ${list.length > 1 ? `${list.length} conditions combined with AND: ${list.join('; ')}` : `Filters rows where ${list[0]}`}${subquery ? ' (uses a subquery)' : ''}`
+    )];
+  };
+
+  const orderParts = (orderBy: OrderItem[]): ExplainPart[] => {
+    if (orderBy.length === 0) return [];
+    const items = orderBy.map(item => ({ column: text(item.expr), desc: item.direction === 'DESC' }));
+    return [part(
+      'ORDER BY',
+      `ORDER BY ${between(orderBy[0], orderBy[orderBy.length - 1])}`,
+      `📊 Sắp xếp theo ${items.map(i => `${i.column} (${i.desc ? 'giảm dần' : 'tăng dần'})`).join(', rồi ')}`,
+      `ORDER BY clause: Sorts by ${items.map(i => `${i.column} ${i.desc ? 'DESC' : 'ASC'}`).join(', then ')}`
+    )];
+  };
+
+  const limitParts = (limit: Limit | null): ExplainPart[] => {
+    if (!limit) return [];
+    const count = limit.count.kind === 'literal' && limit.count.value === null ? null : text(limit.count);
+    const offset = limit.offset ? text(limit.offset) : null;
+    return [part(
+      'LIMIT',
+      text(limit),
+      offset
+        ? `🔢 Bỏ qua ${offset} dòng đầu${count ? `, lấy ${count} dòng tiếp theo` : ''}`
+        : `🔢 Chỉ lấy ${count} kết quả đầu tiên`,
+      `LIMIT clause: ${count ? `Returns at most ${count} rows` : 'Returns the remaining rows'}${offset ? ` after skipping ${offset}` : ''}`
+    )];
+  };
+
+  const joinPart = (join: Join): ExplainPart => {
+    const table = describeTable(join.table);
+    const name = tableName(join.table);
+    const condition = join.on ? text(join.on) : join.using.length > 0 ? `cùng giá trị cột ${join.using.join(', ')}` : null;
+    const technicalCondition = join.on ? `ON ${text(join.on)}` : join.using.length > 0 ? `USING (${join.using.join(', ')})` : 'with no condition';
+    const easyText = {
+      INNER: `🔗 Kết nối với bảng ${table}, chỉ giữ các dòng khớp nhau${condition ? ` theo: ${condition}` : ''}`,
+      LEFT: `🔗 Kết nối với bảng ${table}: giữ MỌI dòng của bảng bên trái, dòng nào không khớp${condition ? ` (${condition})` : ''} thì cột của ${name} là NULL`,
+      RIGHT: `🔗 Kết nối với bảng ${table}: giữ MỌI dòng của ${name}, dòng nào không khớp${condition ? ` (${condition})` : ''} thì cột bảng bên trái là NULL`,
+      FULL: `🔗 Kết nối với bảng ${table}: giữ mọi dòng của CẢ HAI bảng, chỗ không khớp là NULL`,
+      CROSS: `🔗 Ghép mỗi dòng với TẤT CẢ các dòng của bảng ${table} (tích Descartes)`,
+      NATURAL: `🔗 Kết nối với bảng ${table}, tự khớp theo các cột trùng tên`,
+    }[join.joinType];
+    const label = join.joinType === 'NATURAL' ? 'NATURAL JOIN' : `${join.joinType} JOIN`;
+    return part(
+      join.joinType === 'INNER' ? 'JOIN' : label,
+      text(join),
+      easyText,
+      `${label}: Combines rows from ${table} ${join.joinType === 'CROSS' ? 'with every row (cartesian product)' : technicalCondition}`
+    );
+  };
+
+  const selectParts = (query: SelectStatement): ExplainPart[] => {
+    const parts: ExplainPart[] = [];
+
+    for (const cte of query.with) {
+      parts.push(part(
+        'WITH',
+        text(cte),
+        `🧩 Tạo bảng tạm "${cte.name}" (CTE) từ một truy vấn con để dùng ở phần sau`,
+        `WITH clause: Defines common table expression "${cte.name}" for the main query`
+      ));
+    }
+
+    const columns = query.columns.map(item => {
+      const expr = text(item.expr);
+      if (!item.alias) return expr;
+      return easy ? `${expr} (đặt tên "${item.alias}")` : `${expr} AS "${item.alias}"`;
+    });
+    const allColumns = query.columns.length === 1 && query.columns[0].expr.kind === 'column' && query.columns[0].expr.name === '*';
+    const aggregated = query.groupBy.length === 0 && query.columns.some(item => hasAggregate(item.expr));
+    parts.push(part(
+      'SELECT',
+      `SELECT ${query.distinct ? 'DISTINCT ' : ''}${between(query.columns[0], query.columns[query.columns.length - 1])}`,
+      `🎯 Chọn ${allColumns ? 'TẤT CẢ các cột' : `các cột: ${columns.join(', ')}`}`
+        + `${query.distinct ? ', bỏ các dòng trùng nhau' : ''}${aggregated ? ' — hàm gộp tính trên toàn bộ dòng nên ra 1 dòng kết quả' : ''}`,
+      `SELECT clause: Returns ${allColumns ? 'all columns' : `${columns.length} column(s): ${columns.join(', ')}`}`
+        + `${query.distinct ? ' (DISTINCT removes duplicate rows)' : ''}${aggregated ? '; aggregates without GROUP BY yield a single row' : ''}`
+    ));
+
+    if (query.from.length > 0) {
+      const tables = query.from.map(describeTable);
+      parts.push(part(
+        'FROM',
+        `FROM ${between(query.from[0], query.from[query.from.length - 1])}`,
+        tables.length > 1
+          ? `📋 Lấy dữ liệu từ các bảng: ${tables.join(', ')} (ghép mọi cặp dòng, nên lọc bằng WHERE)`
+          : `📋 Lấy dữ liệu từ ${query.from[0].kind === 'table' ? 'bảng: ' : ''}${tables[0]}`,
+        `FROM clause: Reads from ${tables.join(', ')}${tables.length > 1 ? ' (implicit cross join)' : ''}`
+      ));
+    }
+    parts.push(...query.joins.map(joinPart));
+    parts.push(...whereParts(query.where, 'Chỉ giữ'));
+
+    if (query.groupBy.length > 0) {
+      const groups = query.groupBy.map(text).join(', ');
+      parts.push(part(
+        'GROUP BY',
+        `GROUP BY ${groups}`,
+        `📦 Nhóm các dòng có cùng ${groups} lại, mỗi nhóm thành 1 dòng kết quả`,
+        `GROUP BY clause: Groups rows by ${groups} for aggregation`
+      ));
+    }
+    if (query.having) {
+      parts.push(part(
+        'HAVING',
+        `HAVING ${text(query.having)}`,
+        `🧮 Chỉ giữ các nhóm thỏa: ${text(query.having)} (lọc SAU khi nhóm)`,
+        `HAVING clause: Filters groups where ${text(query.having)}`
+      ));
+    }
+    parts.push(...orderParts(query.orderBy));
+    parts.push(...limitParts(query.limit));
+
+    for (const { operator, query: next } of query.compound) {
+      const easyText = {
+        UNION: '➕ Ghép thêm kết quả của truy vấn sau, bỏ các dòng trùng',
+        'UNION ALL': '➕ Ghép thêm kết quả của truy vấn sau, giữ cả dòng trùng',
+        INTERSECT: '🔀 Chỉ giữ các dòng có ở CẢ HAI truy vấn',
+        'INTERSECT ALL': '🔀 Chỉ giữ các dòng có ở CẢ HAI truy vấn',
+        EXCEPT: '➖ Bỏ đi các dòng có trong truy vấn sau',
+        'EXCEPT ALL': '➖ Bỏ đi các dòng có trong truy vấn sau',
+      }[operator] ?? `${operator} truy vấn sau`;
+      parts.push(part(
+        operator,
+        `${operator} ${text(next)}`,
+        easyText,
+        `${operator}: Combines the result with the following query (${operator.endsWith('ALL') ? 'keeps duplicates' : 'removes duplicates'})`
+      ));
+    }
+    return parts;
+  };
+
+  const constraintText = (constraint: ColumnConstraint): string | null => {
+    switch (constraint.kind) {
+      case 'not_null': return easy ? 'bắt buộc có giá trị' : 'NOT NULL';
+      case 'default': return easy ? `mặc định ${text(constraint.value!)}` : `DEFAULT ${text(constraint.value!)}`;
+      case 'auto_increment': return easy ? 'tự động tăng' : 'auto-increment';
+      case 'primary_key': return easy ? 'khóa chính' : 'PRIMARY KEY';
+      case 'unique': return easy ? 'không được trùng' : 'UNIQUE';
+      case 'check': return easy ? `phải thỏa ${text(constraint.value!)}` : `CHECK ${text(constraint.value!)}`;
+      case 'references': {
+        const target = `${constraint.references!.table}(${constraint.references!.columns.join(', ')})`;
+        return easy ? `tham chiếu ${target}` : `REFERENCES ${target}`;
+      }
+      default: return null;
+    }
+  };
+
+  const columnPart = (column: ColumnDefinition, type = 'COLUMN'): ExplainPart => {
+    const details = column.constraints.map(constraintText).filter(Boolean);
+    return part(
+      type,
+      text(column),
+      `📐 Cột ${column.name} kiểu ${column.dataType}${details.length > 0 ? `: ${details.join(', ')}` : ''}`,
+      `Column "${column.name}" ${column.dataType}${details.length > 0 ? ` (${details.join(', ')})` : ''}`
+    );
+  };
+
+  const tableConstraintPart = (constraint: TableConstraint): ExplainPart => {
+    const columns = constraint.columns.join(', ');
+    const name = constraint.name ? ` "${constraint.name}"` : '';
+    switch (constraint.kind) {
+      case 'primary_key':
+        return part('PRIMARY KEY', text(constraint), `🔑 Khóa chính${name}: (${columns}) xác định duy nhất mỗi dòng`, `PRIMARY KEY${name} on (${columns})`);
+      case 'foreign_key': {
+        const target = `${constraint.references!.table}(${constraint.references!.columns.join(', ')})`;
+        return part('FOREIGN KEY', text(constraint), `🔗 Khóa ngoại${name}: (${columns}) phải có sẵn trong ${target}`, `FOREIGN KEY${name} (${columns}) REFERENCES ${target}`);
+      }
+      case 'unique':
+        return part('UNIQUE', text(constraint), `🚫 Không cho phép trùng giá trị ở (${columns})`, `UNIQUE constraint${name} on (${columns})`);
+      case 'check':
+        return part('CHECK', text(constraint), `✅ Mọi dòng phải thỏa: ${text(constraint.check!)}`, `CHECK constraint${name}: ${text(constraint.check!)}`);
+      case 'index':
+        return part('INDEX', text(constraint), `⚡ Tạo index trên (${columns}) để tìm kiếm nhanh hơn`, `INDEX on (${columns})`);
+    }
+  };
+
+  const alterPart = (action: AlterAction): ExplainPart => {
+    switch (action.action) {
+      case 'add_column': {
+        const column = columnPart(action.column, 'ADD COLUMN');
+        return { ...column, content: text(action), explanation: easy ? `➕ Thêm ${column.explanation.replace(/^📐 /, '').replace(/^Cột/, 'cột')}` : `ADD COLUMN: ${column.explanation}` };
+      }
+      case 'drop_column':
+        return part('DROP COLUMN', text(action), `🗑️ Xóa cột ${action.name} (mất luôn dữ liệu của cột)`, `DROP COLUMN "${action.name}"`);
+      case 'modify_column':
+        return part(
+          'MODIFY COLUMN',
+          text(action),
+          `🔧 Đổi cột ${action.from}${action.from !== action.column.name ? ` thành ${action.column.name}` : ''} sang kiểu ${action.column.dataType}`,
+          `Redefines column "${action.from}" as "${action.column.name}" ${action.column.dataType}`
+        );
+      case 'rename_column':
+        return part('RENAME COLUMN', text(action), `✏️ Đổi tên cột ${action.from} thành ${action.to}`, `RENAME COLUMN "${action.from}" TO "${action.to}"`);
+      case 'rename_table':
+        return part('RENAME', text(action), `✏️ Đổi tên bảng thành ${action.to}`, `Renames the table to "${action.to}"`);
+      case 'add_constraint':
+        return { ...tableConstraintPart(action.constraint), content: text(action) };
+      case 'drop_constraint':
+        return part(`DROP ${action.kind}`, text(action), `🗑️ Bỏ ${action.kind}${action.name ? ` ${action.name}` : ''}`, `Drops ${action.kind}${action.name ? ` "${action.name}"` : ''}`);
+      case 'other':
+        return part('ALTER', text(action), `🔧 ${text(action)}`, `Table option: ${text(action)}`);
+    }
+  };
+
+  const accounts = (list: { user: string; host: string }[]) => list.map(a => `'${a.user}'@'${a.host}'`).join(', ');
+
+  switch (statement.type) {
+    case 'select':
+      return selectParts(statement);
+
+    case 'insert': {
+      const columns = statement.columns.length > 0 ? ` (${statement.columns.join(', ')})` : '';
+      const mode = statement.replace ? 'REPLACE' : 'INSERT';
+      const source = statement.query
+        ? { easy: 'các dòng lấy từ câu SELECT bên dưới', technical: 'rows produced by a SELECT' }
+        : { easy: `${statement.values.length} dòng mới`, technical: `${statement.values.length} row(s)` };
+      const parts = [part(
+        mode,
+        `${mode} INTO ${statement.table}${columns}`,
+        `${statement.replace ? '🔁' : '➕'} Thêm ${source.easy} vào bảng ${statement.table}${columns ? `, điền các cột${columns}` : ''}`
+          + `${statement.replace ? ' — dòng trùng khóa sẽ bị thay thế' : ''}${statement.ignore ? ' — dòng trùng khóa sẽ bị bỏ qua' : ''}`,
+        `${mode} INTO: Adds ${source.technical} to "${statement.table}"${columns}${statement.replace ? ', replacing rows with the same key' : ''}${statement.ignore ? ', skipping duplicate keys' : ''}`
+      )];
+      if (statement.query) parts.push(...selectParts(statement.query));
+      if (statement.onDuplicate.length > 0) {
+        const set = statement.onDuplicate.map(a => text(a)).join(', ');
+        parts.push(part(
+          'ON DUPLICATE KEY UPDATE',
+          `ON DUPLICATE KEY UPDATE ${set}`,
+          `♻️ Nếu dòng đã tồn tại (trùng khóa) thì cập nhật: ${set}`,
+          `On duplicate key: updates ${set}`
+        ));
+      }
+      if (statement.returning.length > 0) {
+        const returned = statement.returning.map(item => text(item)).join(', ');
+        parts.push(part('RETURNING', `RETURNING ${returned}`, `↩️ Trả về ${returned} của các dòng vừa thêm`, `RETURNING: Outputs ${returned} of the inserted rows`));
+      }
+      return parts;
+    }
+
+    case 'update': {
+      const table = describeTable(statement.table);
+      const set = statement.set.map(a => (easy ? `${a.column} thành ${text(a.value)}` : text(a)));
+      const parts = [part(
+        'UPDATE',
+        `UPDATE ${text(statement.table)} SET ${between(statement.set[0], statement.set[statement.set.length - 1])}`,
+        `✏️ Cập nhật bảng ${table}: đổi ${set.join(', ')}`,
+        `UPDATE: Modifies rows in ${table}, setting ${set.join(', ')}`
+      ), ...statement.joins.map(joinPart), ...whereParts(statement.where, 'Chỉ cập nhật')];
+      if (!statement.where) {
+        parts.push(part('WHERE', '(không có WHERE)', '⚠️ Không có WHERE nên MỌI dòng trong bảng đều bị cập nhật!', 'No WHERE clause: every row is updated'));
+      }
+      return [...parts, ...orderParts(statement.orderBy), ...limitParts(statement.limit)];
+    }
+
+    case 'delete': {
+      const table = describeTable(statement.table);
+      const parts = [part(
+        'DELETE',
+        `DELETE FROM ${text(statement.table)}`,
+        `🗑️ Xóa dữ liệu từ bảng: ${table}`,
+        `DELETE FROM: Removes rows from ${table}`
+      ), ...whereParts(statement.where, 'Chỉ xóa')];
+      if (!statement.where) {
+        parts.push(part('WHERE', '(không có WHERE)', '⚠️ Không có WHERE nên MỌI dòng trong bảng đều bị xóa!', 'No WHERE clause: every row is deleted'));
+      }
+      return [...parts, ...orderParts(statement.orderBy), ...limitParts(statement.limit)];
+    }
+
+    case 'create_table': {
+      const source = statement.like
+        ? { easy: ` giống hệt cấu trúc bảng ${statement.like}`, technical: ` with the structure of "${statement.like}"` }
+        : statement.query
+          ? { easy: ' từ kết quả của câu SELECT', technical: ' from the result of a SELECT' }
+          : { easy: ` với ${statement.columns.length} cột`, technical: ` with ${statement.columns.length} column(s)` };
+      return [
+        part(
+          'CREATE TABLE',
+          `CREATE TABLE ${statement.ifNotExists ? 'IF NOT EXISTS ' : ''}${statement.table}`,
+          `🏗️ Tạo bảng mới ${statement.table}${source.easy}${statement.ifNotExists ? ' (bỏ qua nếu bảng đã có)' : ''}`,
+          `CREATE TABLE: Creates ${statement.temporary ? 'temporary ' : ''}table "${statement.table}"${source.technical}`
+        ),
+        ...statement.columns.map(column => columnPart(column)),
+        ...statement.constraints.map(tableConstraintPart),
+        ...(statement.query ? selectParts(statement.query) : []),
+      ];
+    }
+
+    case 'create_index':
+      return [part(
+        'CREATE INDEX',
+        text(statement),
+        `⚡ Tạo ${statement.unique ? 'unique ' : ''}index ${statement.name} trên bảng ${statement.table} (${statement.columns.join(', ')}) để tìm kiếm nhanh hơn${statement.unique ? ', đồng thời cấm giá trị trùng' : ''}`,
+        `CREATE ${statement.unique ? 'UNIQUE ' : ''}INDEX: Indexes ${statement.table}(${statement.columns.join(', ')})`
+      )];
+
+    case 'create_view':
+      return [
+        part('CREATE VIEW', `CREATE VIEW ${statement.name}`, `🪟 Lưu câu truy vấn bên dưới thành view ${statement.name}, dùng như một bảng ảo`, `CREATE VIEW: Stores the query below as view "${statement.name}"`),
+        ...selectParts(statement.query),
+      ];
+
+    case 'create_database':
+      return [part('CREATE DATABASE', text(statement), `🗄️ Tạo database mới: ${statement.name}`, `CREATE DATABASE: Creates database "${statement.name}"`)];
+
+    case 'alter_table':
+      return [
+        part('ALTER TABLE', `ALTER TABLE ${statement.table}`, `🔧 Thay đổi cấu trúc bảng: ${statement.table}`, `ALTER TABLE: Modifies table structure "${statement.table}"`),
+        ...statement.actions.map(alterPart),
+      ];
+
+    case 'drop': {
+      const object = dropObjectName[statement.object];
+      const names = statement.names.join(', ');
+      return [part(
+        `DROP ${statement.object}`,
+        text(statement),
+        `💣 Xóa hẳn ${object} ${names}${statement.table ? ` của bảng ${statement.table}` : ''}${statement.object === 'TABLE' || statement.object === 'DATABASE' ? ' cùng toàn bộ dữ liệu' : ''}${statement.ifExists ? ' (nếu có)' : ''}`,
+        `DROP ${statement.object}: Removes ${names}${statement.ifExists ? ' if it exists' : ''}`
+      )];
+    }
+
+    case 'truncate':
+      return [part('TRUNCATE', text(statement), `🧹 Xóa toàn bộ dữ liệu trong bảng ${statement.table} (giữ lại cấu trúc)`, `TRUNCATE: Removes all rows from "${statement.table}", keeping its structure`)];
+
+    case 'rename_table':
+      return statement.renames.map(r => part('RENAME TABLE', `${r.from} TO ${r.to}`, `✏️ Đổi tên bảng ${r.from} thành ${r.to}`, `RENAME TABLE: "${r.from}" to "${r.to}"`));
+
+    case 'grant':
+    case 'revoke': {
+      const grant = statement.type === 'grant';
+      const keyword = grant ? 'GRANT' : 'REVOKE';
+      const what = statement.on
+        ? statement.privileges.map(p => `${p.name}${p.columns.length > 0 ? ` (${p.columns.join(', ')})` : ''}`).join(', ')
+        : `role ${statement.roles.join(', ')}`;
+      const on = statement.on ? (easy ? ` trên ${statement.on === '*.*' ? 'mọi database' : statement.on}` : ` ON ${statement.on}`) : '';
+      return [part(
+        keyword,
+        text(statement),
+        `${grant ? '🔓 Cấp' : '🔒 Thu hồi'} quyền ${what}${on} ${grant ? 'cho' : 'của'} ${accounts(statement.accounts)}${statement.withGrantOption ? ', kèm quyền cấp lại cho người khác' : ''}`,
+        `${keyword}: ${grant ? 'Grants' : 'Revokes'} ${what}${on} ${grant ? 'to' : 'from'} ${accounts(statement.accounts)}${statement.withGrantOption ? ' WITH GRANT OPTION' : ''}`
+      )];
+    }
+
+    case 'user': {
+      const kind = statement.role ? 'role' : 'user';
+      const verb = { create: ['Tạo', 'Creates'], drop: ['Xóa', 'Drops'], alter: ['Sửa thông tin', 'Alters'] }[statement.action];
+      return [part(
+        `${statement.action.toUpperCase()} ${kind.toUpperCase()}`,
+        text(statement),
+        `👤 ${verb[0]} ${kind} ${accounts(statement.accounts)}`,
+        `${statement.action.toUpperCase()} ${kind.toUpperCase()}: ${verb[1]} ${accounts(statement.accounts)}`
+      )];
+    }
+
+    case 'transaction': {
+      const technical = {
+        begin: 'Starts a transaction; changes stay private until COMMIT',
+        commit: 'Makes all changes of the transaction permanent',
+        rollback: statement.savepoint ? `Undoes changes made after savepoint "${statement.savepoint}"` : 'Undoes all changes of the transaction',
+        savepoint: `Marks savepoint "${statement.savepoint}" to roll back to later`,
+        release: `Removes savepoint "${statement.savepoint}"`,
+      }[statement.action];
+      const easyText = statement.action === 'rollback' && statement.savepoint
+        ? `↩️ Hoàn tác các thay đổi từ sau savepoint ${statement.savepoint}`
+        : `🔄 ${transactionText[statement.action]}${statement.savepoint ? ` ${statement.savepoint}` : ''}`;
+      return [part(statement.action === 'begin' ? 'START TRANSACTION' : statement.action.toUpperCase(), text(statement), easyText, `${statement.action.toUpperCase()}: ${technical}`)];
+    }
+
+    case 'use':
+      return [part('USE', text(statement), `📂 Chuyển sang làm việc với database ${statement.database}`, `USE: Sets the default database to "${statement.database}"`)];
+
+    case 'show':
+      return [part('SHOW', text(statement), `👀 Xem thông tin: ${statement.what}`, `SHOW: Lists ${statement.what}`)];
+
+    case 'describe':
+      return [part('DESCRIBE', text(statement), `👀 Xem cấu trúc (các cột, kiểu dữ liệu) của bảng ${statement.table}`, `DESCRIBE: Shows the columns of "${statement.table}"`)];
+
+    case 'explain':
+      return [
+        part('EXPLAIN', 'EXPLAIN', '🧭 Xem database định chạy câu lệnh bên dưới thế nào (không chạy thật)', 'EXPLAIN: Shows the execution plan of the statement'),
+        ...explainStatement(sql, statement.statement, mode),
+      ];
+
+    case 'set':
+      return [part('SET', text(statement), `⚙️ Đặt giá trị: ${statement.assignments.map(text).join(', ') || text(statement)}`, `SET: Assigns ${statement.assignments.map(text).join(', ') || 'a session setting'}`)];
+
+    case 'create_routine':
+      return [part(`CREATE ${statement.object}`, `CREATE ${statement.object} ${statement.name}`, `🧱 Tạo ${statement.object.toLowerCase()} ${statement.name}`, `CREATE ${statement.object}: Defines "${statement.name}"`)];
+  }
+}
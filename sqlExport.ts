@@ -0,0 +1,55 @@
+import { buildInsert } from './sqlDump';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'sql';
+
+export interface ExportableResult {
+  columns: string[];
+  rows: (string | number | null)[][];
+}
+
+export const exportFormats: { id: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { id: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv' },
+  { id: 'json', label: 'JSON', extension: 'json', mime: 'application/json' },
+  { id: 'markdown', label: 'Markdown', extension: 'md', mime: 'text/markdown' },
+  { id: 'sql', label: 'INSERT', extension: 'sql', mime: 'application/sql' },
+];
+
+export function parseExportFormat(text: string): ExportFormat | null {
+  const name = text.trim().toLowerCase();
+  if (name === 'md') return 'markdown';
+  if (name === 'insert') return 'sql';
+  return exportFormats.some(f => f.id === name) ? (name as ExportFormat) : null;
+}
+
+const csvCell = (value: string | number | null) => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const markdownCell = (value: string | number | null) =>
+  value === null ? 'NULL' : String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+// Table name for INSERT scripts: the first table in FROM, or `result` for computed queries
+export function guessTableName(sql?: string): string {
+  return sql?.match(/\bFROM\s+`?(\w+)`?/i)?.[1] ?? 'result';
+}
+
+export function formatResult(result: ExportableResult, format: ExportFormat, tableName = 'result'): string {
+  const { columns, rows } = result;
+  switch (format) {
+    case 'csv':
+      return [columns, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+    case 'json':
+      return JSON.stringify(rows.map(row => Object.fromEntries(columns.map((col, i) => [col, row[i]]))), null, 2);
+    case 'markdown':
+      return [
+        `| ${columns.map(markdownCell).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`),
+      ].join('\n');
+    case 'sql':
+      // One INSERT per row so students can pick the lines they need
+      return rows.map(row => buildInsert(tableName, columns, [row])).join('\n');
+  }
+}
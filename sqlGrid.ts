@@ -0,0 +1,95 @@
+import { Dialect } from './sqlDialects';
+import { quoteName } from './sqlParser';
+import { ColumnSnapshot, TableSnapshot } from './sqlSnapshot';
+
+type Row = Record<string, unknown>;
+
+export type SortDirection = 'asc' | 'desc';
+
+const NUMERIC_TYPE = /^(TINYINT|SMALLINT|MEDIUMINT|INT|INTEGER|BIGINT|DECIMAL|NUMERIC|FLOAT|DOUBLE|REAL|NUMBER)$/i;
+const BOOLEAN_TYPE = /^(BOOL|BOOLEAN)$/i;
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// Local date and time as MySQL writes them; the time is left off for a DATE column
+function dateText(value: Date, dateOnly: boolean): string {
+  const date = `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  if (dateOnly) return date;
+  const time = `${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}`;
+  return `${date} ${time}${value.getMilliseconds() ? `.${pad(value.getMilliseconds(), 3)}` : ''}`;
+}
+
+const isMidnight = (value: Date) => value.getHours() + value.getMinutes() + value.getSeconds() + value.getMilliseconds() === 0;
+
+export const cellText = (value: unknown) => {
+  if (value === null || value === undefined) return 'NULL';
+  if (value instanceof Date) return dateText(value, isMidnight(value));
+  return String(value);
+};
+
+// What the user typed in a cell, as a SQL literal for that column's type; NULL stays NULL
+export function typedLiteral(text: string, column: ColumnSnapshot): string {
+  const value = text.trim();
+  if (/^NULL$/i.test(value)) return 'NULL';
+  if (NUMERIC_TYPE.test(column.type) && /^-?\d+(\.\d+)?$/.test(value)) return value;
+  if (BOOLEAN_TYPE.test(column.type) && /^(TRUE|FALSE|0|1)$/i.test(value)) return value.toUpperCase();
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+// A value already in the table, as a SQL literal; a datetime keeps its time so the WHERE still matches
+function valueLiteral(value: unknown, column?: ColumnSnapshot): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  const text = value instanceof Date ? dateText(value, /^DATE$/i.test(column?.type ?? '')) : String(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+// The primary key picks out exactly one row; without one every column has to match
+export function rowWhere(table: TableSnapshot, row: Row, dialect: Dialect): string {
+  const columns = table.primaryKey.length > 0 ? table.primaryKey : table.columns.map(c => c.name);
+  const columnOf = (name: string) => table.columns.find(c => c.name === name);
+  return columns
+    .map(c => (row[c] === null || row[c] === undefined ? `${quoteName(c, dialect)} IS NULL` : `${quoteName(c, dialect)} = ${valueLiteral(row[c], columnOf(c))}`))
+    .join(' AND ');
+}
+
+export function updateCellSQL(table: TableSnapshot, row: Row, column: ColumnSnapshot, text: string, dialect: Dialect): string {
+  return `UPDATE ${quoteName(table.name, dialect)} SET ${quoteName(column.name, dialect)} = ${typedLiteral(text, column)} WHERE ${rowWhere(table, row, dialect)};`;
+}
+
+export function deleteRowSQL(table: TableSnapshot, row: Row, dialect: Dialect): string {
+  return `DELETE FROM ${quoteName(table.name, dialect)} WHERE ${rowWhere(table, row, dialect)};`;
+}
+
+// Empty fields are left out, so AUTO_INCREMENT and DEFAULT fill them in
+export function insertRowSQL(table: TableSnapshot, values: Record<string, string>, dialect: Dialect): string | null {
+  const columns = table.columns.filter(c => (values[c.name] ?? '').trim() !== '');
+  if (columns.length === 0) return null;
+  return `INSERT INTO ${quoteName(table.name, dialect)} (${columns.map(c => quoteName(c.name, dialect)).join(', ')}) VALUES (${columns.map(c => typedLiteral(values[c.name], c)).join(', ')});`;
+}
+
+// Rows that match every column filter (case-insensitive "contains"), then sorted; indexes point into table.rows
+export function visibleRows(table: TableSnapshot, filters: Record<string, string>, sort: { column: string; direction: SortDirection } | null): number[] {
+  const active = Object.entries(filters).filter(([, text]) => text.trim() !== '');
+  const indexes = table.rows
+    .map((row, i) => ({ row, i }))
+    .filter(({ row }) => active.every(([column, text]) => cellText(row[column]).toLowerCase().includes(text.trim().toLowerCase())));
+  if (sort) {
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    indexes.sort((a, b) => {
+      const x = a.row[sort.column];
+      const y = b.row[sort.column];
+      // NULL first, as MySQL sorts it ascending
+      if (x === null || x === undefined) return y === null || y === undefined ? 0 : -sign;
+      if (y === null || y === undefined) return sign;
+      if (typeof x === 'number' && typeof y === 'number') return (x - y) * sign;
+      return cellText(x).localeCompare(cellText(y), undefined, { numeric: true }) * sign;
+    });
+  }
+  return indexes.map(({ i }) => i);
+}
+
+// Rows the WHERE would also hit: identical rows in a table without a primary key
+export const matchingRows = (table: TableSnapshot, row: Row) =>
+  table.primaryKey.length > 0 ? 1 : table.rows.filter(other => table.columns.every(c => valueLiteral(other[c.name], c) === valueLiteral(row[c.name], c))).length;
@@ -0,0 +1,186 @@
+import { Dialect } from './sqlDialects';
+import { aggregateCalls } from './sqlExplain';
+import { Span, SQLSyntaxError, tryParseSQL } from './sqlParser';
+import { TableSnapshot } from './sqlSnapshot';
+import { qualifiedColumns, quoteAlias } from './sqlStages';
+
+type Cell = string | number | null;
+type Rows = Cell[][];
+
+export interface AggregateColumn {
+  text: string;
+  name: string;
+  distinct: boolean;
+  // null for COUNT(*)
+  argument: string | null;
+}
+
+export interface GroupPlan {
+  keys: string[];
+  aggregates: AggregateColumn[];
+  having: string | null;
+  // Rows after WHERE: their own columns, then one per key, then one per aggregate argument
+  rowsSql: string;
+  // One row per group: keys, then one value per aggregate
+  groupsSql: string;
+  keptSql: string | null;
+}
+
+export interface GroupBucket {
+  key: Cell[];
+  // Indexes into the source rows
+  rows: number[];
+  // Per aggregate, the argument of every row in the bucket
+  args: Cell[][];
+  values: Cell[];
+  kept: boolean;
+}
+
+export interface GroupView {
+  columns: string[];
+  rows: Rows;
+  rowBucket: number[];
+  buckets: GroupBucket[];
+}
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export function hasGroups(sql: string, dialect: Dialect): boolean {
+  const { statement } = tryParseSQL(sql, dialect);
+  if (statement?.type !== 'select' || statement.from.length === 0) return false;
+  return statement.groupBy.length > 0 || statement.columns.some(item => aggregateCalls(item.expr).length > 0);
+}
+
+export function planGroups(sql: string, dialect: Dialect, tables: TableSnapshot[]): { plan: GroupPlan | null; notes: string[]; error: SQLSyntaxError | null } {
+  const { statement, error } = tryParseSQL(sql, dialect);
+  if (!statement) return { plan: null, notes: [], error };
+  if (statement.type !== 'select' || statement.from.length === 0) {
+    return { plan: null, notes: ['Chỉ câu SELECT ... FROM mới có bước gom nhóm.'], error: null };
+  }
+
+  const query = statement;
+  const text = (node: { span: Span }) => collapse(sql.slice(node.span.start, node.span.end));
+  const calls = [...query.columns.flatMap(item => aggregateCalls(item.expr)), ...(query.having ? aggregateCalls(query.having) : [])];
+  if (query.groupBy.length === 0 && calls.length === 0) {
+    return { plan: null, notes: ['Câu lệnh không có GROUP BY hay hàm gộp.'], error: null };
+  }
+
+  // Same call written twice (SELECT COUNT(*) ... HAVING COUNT(*) > 1) is one column
+  const aggregates: AggregateColumn[] = [];
+  for (const call of calls) {
+    const callText = text(call);
+    if (aggregates.some(a => a.text.toUpperCase() === callText.toUpperCase())) continue;
+    const star = call.args.length === 0 || (call.args[0].kind === 'column' && call.args[0].name === '*');
+    aggregates.push({ text: callText, name: call.name, distinct: call.distinct, argument: star ? null : text(call.args[0]) });
+  }
+
+  const prefix = query.with.length > 0 ? `${collapse(sql.slice(query.span.start, query.with[query.with.length - 1].span.end))} ` : '';
+  const source = [
+    collapse(sql.slice(query.from[0].span.start, query.from[query.from.length - 1].span.end)),
+    ...query.joins.map(text),
+  ].join(' ');
+  const filtered = `FROM ${source}${query.where ? ` WHERE ${text(query.where)}` : ''}`;
+  const keys = query.groupBy.map(text);
+  const refs = [...query.from, ...query.joins.map(j => j.table)];
+  const data = qualifiedColumns(refs, query, tables, dialect)?.join(', ') ?? '*';
+
+  const keyColumns = keys.map((key, i) => `${key} AS ${quoteAlias(`__group${i}`, dialect)}`);
+  const argColumns = aggregates.filter(a => a.argument).map((a, i) => `${a.argument} AS ${quoteAlias(`__arg${i}`, dialect)}`);
+  const valueColumns = aggregates.map((a, i) => `${a.text} AS ${quoteAlias(`__agg${i}`, dialect)}`);
+  const groupsSql = `${prefix}SELECT ${[...keyColumns, ...valueColumns].join(', ')} ${filtered}${keys.length > 0 ? ` GROUP BY ${keys.join(', ')}` : ''}`;
+  const having = query.having ? text(query.having) : null;
+
+  const notes: string[] = [];
+  if (query.compound.length > 0) notes.push(`Câu lệnh có ${query.compound[0].operator}: chỉ minh họa truy vấn đầu tiên.`);
+
+  return {
+    plan: {
+      keys,
+      aggregates,
+      having,
+      rowsSql: `${prefix}SELECT ${[data, ...keyColumns, ...argColumns].join(', ')} ${filtered}`,
+      groupsSql,
+      keptSql: having ? `${groupsSql} HAVING ${having}` : null,
+    },
+    notes,
+    error: null,
+  };
+}
+
+// Buckets in the order their first row appears, so the colors read top to bottom
+export function buildGroups(plan: GroupPlan, columns: string[], rows: Rows, groups: Rows, kept: Rows | null): GroupView {
+  const argCount = plan.aggregates.filter(a => a.argument).length;
+  const keyCount = plan.keys.length;
+  const dataWidth = columns.length - keyCount - argCount;
+
+  const buckets: GroupBucket[] = [];
+  const bucketByKey = new Map<string, number>();
+  const rowBucket = rows.map((row, i) => {
+    const keyCells = row.slice(dataWidth, dataWidth + keyCount);
+    const key = JSON.stringify(keyCells);
+    let index = bucketByKey.get(key);
+    if (index === undefined) {
+      index = buckets.length;
+      bucketByKey.set(key, index);
+      buckets.push({ key: keyCells, rows: [], args: plan.aggregates.map(() => []), values: [], kept: true });
+    }
+    const bucket = buckets[index];
+    bucket.rows.push(i);
+    let arg = dataWidth + keyCount;
+    plan.aggregates.forEach((aggregate, a) => {
+      if (aggregate.argument) bucket.args[a].push(row[arg++]);
+    });
+    return index;
+  });
+
+  // Aggregates without GROUP BY still produce one row when nothing matched
+  if (keyCount === 0 && buckets.length === 0) {
+    buckets.push({ key: [], rows: [], args: plan.aggregates.map(() => []), values: [], kept: true });
+  }
+
+  const keptKeys = kept ? new Set(kept.map(row => JSON.stringify(row.slice(0, keyCount)))) : null;
+  for (const group of groups) {
+    const index = bucketByKey.get(JSON.stringify(group.slice(0, keyCount))) ?? (keyCount === 0 ? 0 : undefined);
+    if (index === undefined) continue;
+    buckets[index].values = group.slice(keyCount);
+    if (keptKeys) buckets[index].kept = keptKeys.has(JSON.stringify(group.slice(0, keyCount)));
+  }
+
+  return { columns: columns.slice(0, dataWidth), rows: rows.map(row => row.slice(0, dataWidth)), rowBucket, buckets };
+}
+
+export const formatCell = (value: Cell) => {
+  if (value === null) return 'NULL';
+  if (typeof value === 'number' && !Number.isInteger(value)) return String(Math.round(value * 100) / 100);
+  return String(value);
+};
+
+// How one aggregate arrives at its value for one bucket, spelled out with the bucket's own numbers
+export function explainAggregate(aggregate: AggregateColumn, bucket: GroupBucket, index: number): string {
+  const result = formatCell(bucket.values[index] ?? null);
+  if (!aggregate.argument) return `${bucket.rows.length} dòng → ${result}`;
+
+  const all = bucket.args[index];
+  let values = all.filter(v => v !== null);
+  const skipped = all.length - values.length;
+  if (aggregate.distinct) values = values.filter((v, i) => values.indexOf(v) === i);
+  const shown = values.slice(0, 6).map(formatCell);
+  const more = values.length > 6 ? ` … (+${values.length - 6})` : '';
+  const nullNote = skipped > 0 ? ` (bỏ qua ${skipped} NULL)` : '';
+  if (values.length === 0) return `không có giá trị nào khác NULL → ${result}`;
+
+  switch (aggregate.name) {
+    case 'COUNT':
+      return `${values.length} giá trị${aggregate.distinct ? ' khác nhau' : ''}${nullNote} → ${result}`;
+    case 'SUM':
+      return `${shown.join(' + ')}${more} = ${result}${nullNote}`;
+    case 'AVG':
+      return `(${shown.join(' + ')}${more}) / ${values.length} = ${result}${nullNote}`;
+    case 'MIN':
+      return `nhỏ nhất trong {${shown.join(', ')}${more}} = ${result}`;
+    case 'MAX':
+      return `lớn nhất trong {${shown.join(', ')}${more}} = ${result}`;
+    default:
+      return `ghép {${shown.join(', ')}${more}} = ${result}`;
+  }
+}
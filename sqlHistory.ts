@@ -0,0 +1,107 @@
+// Terminal command history, kept per workspace like ~/.mysql_history is kept per user
+const HISTORY_KEY = 'sqlMasterPro_history_';
+const MAX_HISTORY = 500;
+
+export type HistoryCommand =
+  | { type: 'list'; count: number | null }
+  | { type: 'recall'; reference: string };
+
+export interface CommandHistory {
+  // Newest first
+  commands: string[];
+  // Entries that fell off the end past MAX_HISTORY, so the ones left keep their numbers
+  dropped: number;
+}
+
+export const EMPTY_HISTORY: CommandHistory = { commands: [], dropped: 0 };
+
+const isCommandList = (list: unknown): list is string[] =>
+  Array.isArray(list) && list.every(item => typeof item === 'string');
+
+export function loadHistory(workspace: string): CommandHistory {
+  const saved = localStorage.getItem(HISTORY_KEY + workspace);
+  if (saved) {
+    try {
+      const data = JSON.parse(saved);
+      // Older saves are just the list
+      if (isCommandList(data)) return { commands: data, dropped: 0 };
+      if (isCommandList(data?.commands) && Number.isInteger(data.dropped) && data.dropped >= 0) {
+        return { commands: data.commands, dropped: data.dropped };
+      }
+    } catch {
+      // Invalid data, start over
+    }
+  }
+  return EMPTY_HISTORY;
+}
+
+export function saveHistory(workspace: string, history: CommandHistory) {
+  try {
+    localStorage.setItem(HISTORY_KEY + workspace, JSON.stringify(history));
+  } catch {
+    // Storage full: the history lives on in memory for this session
+  }
+}
+
+export function deleteHistory(workspace: string) {
+  localStorage.removeItem(HISTORY_KEY + workspace);
+}
+
+// Appended in the order typed, like bash and the mysql client, so an entry's number never changes.
+// Only a repeat of the command just before it is left out
+export function addToHistory(history: CommandHistory, command: string): CommandHistory {
+  if (history.commands[0] === command) return history;
+  const commands = [command, ...history.commands];
+  return {
+    commands: commands.slice(0, MAX_HISTORY),
+    dropped: history.dropped + Math.max(0, commands.length - MAX_HISTORY),
+  };
+}
+
+// The number `history` shows for commands[index]
+const entryNumber = (history: CommandHistory, index: number) => history.dropped + history.commands.length - index;
+
+// `history`, `history 20`, and the shell's !n, !-n, !! and !prefix
+export function parseHistoryCommand(line: string): HistoryCommand | null {
+  const text = line.trim().replace(/;$/, '').trim();
+  const list = text.match(/^history(?:\s+(\d+))?$/i);
+  if (list) return { type: 'list', count: list[1] ? Number(list[1]) : null };
+  if (/^!(!|-?\d+|[^\s=(!][^\s]*)$/.test(text)) return { type: 'recall', reference: text.slice(1) };
+  return null;
+}
+
+// Entries are numbered oldest first, so !1 is the first command ever typed in this workspace
+export function findHistoryEntry(history: CommandHistory, reference: string): string | null {
+  const list = history.commands;
+  if (reference === '!') return list[0] ?? null;
+  if (/^-\d+$/.test(reference)) return list[Number(reference.slice(1)) - 1] ?? null;
+  if (/^\d+$/.test(reference)) {
+    const index = entryNumber(history, 0) - Number(reference);
+    return index >= 0 ? list[index] ?? null : null;
+  }
+  // SQL keywords come in either case, so !select also finds SELECT ...
+  return list.find(command => command.toLowerCase().startsWith(reference.toLowerCase())) ?? null;
+}
+
+// The newest entry at or after `from` (0 = newest) containing the query, ignoring case
+export function searchHistory(list: string[], query: string, from = 0): number {
+  const lower = query.toLowerCase();
+  for (let i = Math.max(0, from); i < list.length; i++) {
+    if (list[i].toLowerCase().includes(lower)) return i;
+  }
+  return -1;
+}
+
+// `history` output: numbered like bash, continuation lines of multi-line entries indented under the first
+export function historyText(history: CommandHistory, count: number | null): string {
+  const list = history.commands;
+  const shown = count === null ? list : list.slice(0, count);
+  const width = String(entryNumber(history, 0)).length;
+  return shown
+    .map((command, i) => {
+      const number = String(entryNumber(history, i)).padStart(width + 2);
+      return `${number}  ${command.split('\n').join(`\n${' '.repeat(width + 4)}`)}`;
+    })
+    .reverse()
+    .join('\n');
+}
@@ -0,0 +1,253 @@
+import { buildInsert, standardStrings } from './sqlDump';
+
+export type ImportFormat = 'csv' | 'tsv' | 'json';
+export type ImportType = 'INT' | 'DECIMAL' | 'DATE' | 'VARCHAR';
+export type ImportValue = string | number | null;
+
+export interface ParsedData {
+  headers: string[];
+  rows: ImportValue[][];
+}
+
+export interface ImportColumn {
+  source: number;
+  name: string;
+  type: ImportType;
+  // VARCHAR length or DECIMAL precision/scale, e.g. "100" or "10,2"
+  size: string;
+}
+
+// A leading zero means a code or phone number, which must stay text
+const INT_VALUE = /^[-+]?(?:0|[1-9]\d{0,14})$/;
+const DECIMAL_VALUE = /^[-+]?(?:0|[1-9]\d*)\.\d+$/;
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+// Spreadsheets exported with a Vietnamese locale write dates as dd/mm/yyyy
+const LOCAL_DATE = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/;
+
+export function detectFormat(fileName: string, text: string): ImportFormat {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'json' || /^\s*[[{]/.test(text)) return 'json';
+  if (ext === 'tsv') return 'tsv';
+  const firstLine = text.split('\n', 1)[0];
+  return firstLine.includes('\t') && !firstLine.includes(',') ? 'tsv' : 'csv';
+}
+
+// Excel uses ; instead of , when the decimal separator is a comma
+function detectDelimiter(firstLine: string): string {
+  const count = (ch: string) => firstLine.split(ch).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+}
+
+export function parseDelimited(text: string, delimiter: string): ParsedData {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) throw new Error('File không có dữ liệu');
+
+  const [headers, ...rows] = nonEmpty;
+  return {
+    headers: headers.map(h => h.trim()),
+    rows: rows.map(r => headers.map((_, i) => (r[i] === undefined || r[i].trim() === '' ? null : r[i].trim()))),
+  };
+}
+
+const toImportValue = (value: unknown): ImportValue => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Accepts an array of objects, or an array of arrays whose first row is the header
+export function parseJSONRows(text: string): ParsedData {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`JSON không hợp lệ: ${(err as Error).message}`);
+  }
+  if (!Array.isArray(data) || data.length === 0) {
+    throw new Error('JSON phải là một mảng khác rỗng, ví dụ [{"id": 1, "name": "An"}]');
+  }
+
+  if (data.every(Array.isArray)) {
+    const [headers, ...rows] = data as unknown[][];
+    return {
+      headers: headers.map(String),
+      rows: rows.map(r => headers.map((_, i) => toImportValue(r[i]))),
+    };
+  }
+
+  if (!data.every(item => item && typeof item === 'object' && !Array.isArray(item))) {
+    throw new Error('Mỗi phần tử trong mảng JSON phải là một object');
+  }
+  const objects = data as Record<string, unknown>[];
+  const headers: string[] = [];
+  objects.forEach(obj => Object.keys(obj).forEach(key => {
+    if (!headers.includes(key)) headers.push(key);
+  }));
+  return {
+    headers,
+    rows: objects.map(obj => headers.map(key => toImportValue(obj[key]))),
+  };
+}
+
+export function parseImportFile(fileName: string, text: string): ParsedData {
+  const format = detectFormat(fileName, text);
+  if (format === 'json') return parseJSONRows(text);
+  if (format === 'tsv') return parseDelimited(text, '\t');
+  return parseDelimited(text, detectDelimiter(text.split('\n', 1)[0]));
+}
+
+// "Họ tên" -> "ho_ten": identifiers students can type without backticks
+export function toIdentifier(text: string, fallback: string): string {
+  const name = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  if (!name) return fallback;
+  return /^\d/.test(name) ? `${fallback}_${name}` : name.slice(0, 64);
+}
+
+// "Điểm thi.xlsx.csv" -> "diem_thi_xlsx": only the last extension is dropped
+export const tableNameFromFile = (fileName: string) => toIdentifier(fileName.replace(/\.[^.]*$/, ''), 'imported');
+
+function toISODate(text: string): string | null {
+  const iso = text.match(ISO_DATE);
+  const local = iso ? null : text.match(LOCAL_DATE);
+  if (!iso && !local) return null;
+  const [year, month, day] = iso ? [iso[1], iso[2], iso[3]] : [local![3], local![2], local![1]];
+
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  if (date.getMonth() !== Number(month) - 1) return null;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+const varcharSize = (length: number) => String([50, 100, 255].find(n => length <= n) ?? Math.min(Math.ceil(length / 100) * 100, 65535));
+
+export function inferColumn(values: ImportValue[]): Pick<ImportColumn, 'type' | 'size'> {
+  const present = values.filter((v): v is string | number => v !== null).map(String);
+  if (present.length === 0) return { type: 'VARCHAR', size: '255' };
+
+  if (present.every(v => INT_VALUE.test(v))) return { type: 'INT', size: '' };
+  if (present.every(v => INT_VALUE.test(v) || DECIMAL_VALUE.test(v))) {
+    const scale = Math.max(...present.map(v => v.split('.')[1]?.length ?? 0));
+    const digits = Math.max(...present.map(v => v.replace(/^[-+]/, '').split('.')[0].length));
+    return { type: 'DECIMAL', size: `${Math.max(digits + scale, 10)},${scale}` };
+  }
+  if (present.every(v => toISODate(v) !== null)) return { type: 'DATE', size: '' };
+  return { type: 'VARCHAR', size: varcharSize(Math.max(...present.map(v => v.length))) };
+}
+
+export function suggestColumns(data: ParsedData): ImportColumn[] {
+  const used = new Set<string>();
+  return data.headers.map((header, i) => {
+    let name = toIdentifier(header, `col${i + 1}`);
+    while (used.has(name)) name = `${name}_${i + 1}`;
+    used.add(name);
+    return { source: i, name, ...inferColumn(data.rows.map(r => r[i])) };
+  });
+}
+
+export function formatImportType(column: ImportColumn): string {
+  return column.size && column.type !== 'INT' && column.type !== 'DATE' ? `${column.type}(${column.size})` : column.type;
+}
+
+export function convertValue(value: ImportValue, type: ImportType): ImportValue {
+  if (value === null) return null;
+  const text = String(value);
+  switch (type) {
+    case 'INT':
+    case 'DECIMAL': {
+      const n = Number(text);
+      return Number.isFinite(n) ? n : null;
+    }
+    case 'DATE':
+      return toISODate(text);
+    default:
+      return text;
+  }
+}
+
+export function convertRows(data: ParsedData, columns: ImportColumn[]): ImportValue[][] {
+  return data.rows.map(row => columns.map(col => convertValue(row[col.source], col.type)));
+}
+
+const quoteIdent = (name: string) => `\`${name.replace(/`/g, '``')}\``;
+
+export function buildCreateImportTable(table: string, columns: ImportColumn[], primaryKey: string | null): string {
+  const definitions = columns.map(col => `${quoteIdent(col.name)} ${formatImportType(col)}`);
+  if (primaryKey) definitions.push(`PRIMARY KEY (${quoteIdent(primaryKey)})`);
+  return `CREATE TABLE ${quoteIdent(table)} (${definitions.join(', ')})`;
+}
+
+// Large files go in several INSERTs so one bad row doesn't hide which part failed.
+// They run straight on the engine, not through a script, so the strings are given in its form
+export function buildImportInserts(table: string, columns: string[], rows: ImportValue[][], chunkSize = 500): string[] {
+  const statements: string[] = [];
+  for (let i = 0; i < rows.length; i += chunkSize) {
+    statements.push(standardStrings(buildInsert(table, columns, rows.slice(i, i + chunkSize)).replace(/;$/, '')));
+  }
+  return statements;
+}
+
+// Problems MySQL would reject: missing names, duplicate names, a primary key with NULL or duplicate values
+export function validateImport(columns: ImportColumn[], rows: ImportValue[][], primaryKey: string | null): string | null {
+  const names = columns.map(c => c.name.toLowerCase());
+  const empty = columns.find(c => !/^\w{1,64}$/.test(c.name));
+  if (empty) return `Tên cột không hợp lệ: "${empty.name}" (chỉ dùng chữ, số và _)`;
+  const duplicate = names.find((n, i) => names.indexOf(n) !== i);
+  if (duplicate) return `Tên cột bị trùng: ${duplicate}`;
+
+  if (primaryKey) {
+    const index = columns.findIndex(c => c.name === primaryKey);
+    const seen = new Set<string>();
+    for (let r = 0; r < rows.length; r++) {
+      const value = rows[r][index];
+      if (value === null) return `Khóa chính ${primaryKey} bị trống ở dòng ${r + 1}`;
+      if (seen.has(String(value))) return `Khóa chính ${primaryKey} bị trùng giá trị ${value} ở dòng ${r + 1}`;
+      seen.add(String(value));
+    }
+  }
+  return null;
+}
@@ -0,0 +1,140 @@
+import { Dialect } from './sqlDialects';
+import { Join, Span, SQLSyntaxError, TableRef, tryParseSQL } from './sqlParser';
+import { TableSnapshot } from './sqlSnapshot';
+import { qualifiedColumns } from './sqlStages';
+
+type Rows = (string | number | null)[][];
+
+export interface JoinStep {
+  joinType: Join['joinType'];
+  clause: string;
+  leftName: string;
+  rightName: string;
+  // Rows of everything joined so far, and of the table being joined
+  leftSql: string;
+  rightSql: string;
+  // Only the pairs that satisfy the condition: left columns, then right columns
+  pairSql: string;
+  leftWidth: number;
+}
+
+export interface JoinPlan {
+  steps: JoinStep[];
+  notes: string[];
+  error: SQLSyntaxError | null;
+}
+
+// One row of the join result, as indexes into the left and right rows; null is NULL padding
+export interface JoinMatch {
+  left: number | null;
+  right: number | null;
+}
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const refName = (ref: TableRef) => {
+  if (ref.kind === 'subquery') return ref.alias ?? 'truy vấn con';
+  return ref.alias ? `${ref.name} ${ref.alias}` : ref.name;
+};
+
+export function hasJoins(sql: string, dialect: Dialect): boolean {
+  const { statement } = tryParseSQL(sql, dialect);
+  return statement?.type === 'select' && statement.joins.length > 0;
+}
+
+// Every JOIN of a SELECT as three queries: what it starts from, what it adds, and which pairs match
+export function planJoins(sql: string, dialect: Dialect, tables: TableSnapshot[]): JoinPlan {
+  const { statement, error } = tryParseSQL(sql, dialect);
+  if (!statement) return { steps: [], notes: [], error };
+  if (statement.type !== 'select' || statement.joins.length === 0) {
+    return { steps: [], notes: ['Câu lệnh không có JOIN.'], error: null };
+  }
+
+  const query = statement;
+  const text = (node: { span: Span }) => collapse(sql.slice(node.span.start, node.span.end));
+  const prefix = query.with.length > 0 ? `${collapse(sql.slice(query.span.start, query.with[query.with.length - 1].span.end))} ` : '';
+  const fromText = collapse(sql.slice(query.from[0].span.start, query.from[query.from.length - 1].span.end));
+  const refs = [...query.from, ...query.joins.map(j => j.table)];
+
+  const notes: string[] = [];
+  if (query.where) notes.push(`JOIN chạy TRƯỚC WHERE, nên ở đây chưa lọc theo ${text(query.where)}.`);
+
+  const steps: JoinStep[] = [];
+  query.joins.forEach((join, i) => {
+    const label = join.joinType === 'INNER' ? 'JOIN' : `${join.joinType} JOIN`;
+    const leftRefs = refs.slice(0, query.from.length + i);
+    const leftColumns = qualifiedColumns(leftRefs, query, tables, dialect);
+    const rightColumns = qualifiedColumns([join.table], query, tables, dialect);
+    if (!leftColumns || !rightColumns) {
+      notes.push(`Chưa minh họa được ${label} ${refName(join.table)}: chỉ hỗ trợ JOIN giữa các bảng có sẵn trong database.`);
+      return;
+    }
+
+    const leftSource = [fromText, ...query.joins.slice(0, i).map(text)].join(' ');
+    const right = text(join.table);
+    const condition = join.on ? ` ON ${text(join.on)}` : join.using.length > 0 ? ` USING (${join.using.join(', ')})` : '';
+    // The same pairing as an inner join; NULL padding is added afterwards from what didn't match
+    const pairJoin = join.joinType === 'NATURAL'
+      ? `NATURAL JOIN ${right}`
+      : join.joinType === 'CROSS' || !condition ? `CROSS JOIN ${right}` : `INNER JOIN ${right}${condition}`;
+
+    steps.push({
+      joinType: join.joinType,
+      clause: text(join),
+      leftName: leftRefs.length === 1 ? refName(leftRefs[0]) : `Kết quả ghép ${leftRefs.map(refName).join(' + ')}`,
+      rightName: refName(join.table),
+      leftSql: `${prefix}SELECT ${leftColumns.join(', ')} FROM ${leftSource}`,
+      rightSql: `${prefix}SELECT ${rightColumns.join(', ')} FROM ${right}`,
+      pairSql: `${prefix}SELECT ${[...leftColumns, ...rightColumns].join(', ')} FROM ${leftSource} ${pairJoin}`,
+      leftWidth: leftColumns.length,
+    });
+  });
+
+  return { steps, notes, error: null };
+}
+
+// Rows come back as values, so pairs are traced to their source rows by value; identical rows share the pairs
+export function matchJoin(step: JoinStep, left: Rows, right: Rows, pairs: Rows): JoinMatch[] {
+  const indexBy = (rows: Rows) => {
+    const index = new Map<string, number[]>();
+    rows.forEach((row, i) => {
+      const key = JSON.stringify(row);
+      index.set(key, [...(index.get(key) ?? []), i]);
+    });
+    return index;
+  };
+  const leftIndex = indexBy(left);
+  const rightIndex = indexBy(right);
+
+  const seen = new Map<string, number>();
+  const matches = new Map<number, number[]>();
+  const matchedRight = new Set<number>();
+  for (const pair of pairs) {
+    const leftKey = JSON.stringify(pair.slice(0, step.leftWidth));
+    const rightKey = JSON.stringify(pair.slice(step.leftWidth));
+    const lefts = leftIndex.get(leftKey);
+    const rights = rightIndex.get(rightKey);
+    if (!lefts || !rights) continue;
+    const n = seen.get(`${leftKey}|${rightKey}`) ?? 0;
+    seen.set(`${leftKey}|${rightKey}`, n + 1);
+    const l = lefts[Math.floor(n / rights.length) % lefts.length];
+    const r = rights[n % rights.length];
+    matches.set(l, [...(matches.get(l) ?? []), r]);
+    matchedRight.add(r);
+  }
+
+  const keepLeft = step.joinType === 'LEFT' || step.joinType === 'FULL';
+  const keepRight = step.joinType === 'RIGHT' || step.joinType === 'FULL';
+  const result: JoinMatch[] = [];
+  left.forEach((_, l) => {
+    const rights = matches.get(l);
+    if (rights) result.push(...rights.sort((a, b) => a - b).map(r => ({ left: l, right: r })));
+    else if (keepLeft) result.push({ left: l, right: null });
+  });
+  if (keepRight) {
+    right.forEach((_, r) => {
+      if (!matchedRight.has(r)) result.push({ left: null, right: r });
+    });
+  }
+  return result;
+}
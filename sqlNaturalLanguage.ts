@@ -0,0 +1,182 @@
+import { formatCreateTable } from './sqlCatalog';
+import { Dialect, dialectInfo } from './sqlDialects';
+import { DatabaseSnapshot } from './sqlSnapshot';
+
+export type NlProviderId = 'patterns' | 'openai';
+
+export interface NlSettings {
+  provider: NlProviderId;
+  // Base URL of an OpenAI-compatible server: Ollama, llama.cpp server, LM Studio, vLLM ...
+  url: string;
+  model: string;
+  apiKey: string;
+  timeout: number;
+}
+
+// What the model gets to see: the tables as they are right now
+export interface NlContext {
+  schema: DatabaseSnapshot;
+  dialect: Dialect;
+  database: string;
+}
+
+export interface NlProvider {
+  id: NlProviderId;
+  label: string;
+  // SQL written by a model is shown and waits for "yes"; the fixed patterns run straight away
+  confirm: boolean;
+  // null when the request can't be turned into SQL; throws NlProviderError when the provider fails
+  translate: (request: string, context: NlContext) => Promise<string | null>;
+}
+
+export class NlProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NlProviderError';
+  }
+}
+
+const NL_KEY = 'sqlMasterPro_nlProvider';
+
+export const DEFAULT_NL_SETTINGS: NlSettings = {
+  provider: 'patterns',
+  url: 'http://localhost:11434/v1',
+  model: 'qwen2.5-coder:7b',
+  apiKey: '',
+  timeout: 30000,
+};
+
+export function loadNlSettings(): NlSettings {
+  const saved = localStorage.getItem(NL_KEY);
+  if (saved) {
+    try {
+      return { ...DEFAULT_NL_SETTINGS, ...JSON.parse(saved) };
+    } catch {
+      // Invalid data, fall back to the defaults
+    }
+  }
+  return DEFAULT_NL_SETTINGS;
+}
+
+export function saveNlSettings(settings: NlSettings) {
+  localStorage.setItem(NL_KEY, JSON.stringify(settings));
+}
+
+// Vietnamese to SQL mappings
+const vietnameseToSQL: { pattern: RegExp; template: string }[] = [
+  { pattern: /lấy\s+tất\s+cả\s+(?:từ\s+)?(?:bảng\s+)?(\w+)/i, template: 'SELECT * FROM $1' },
+  { pattern: /đếm\s+(?:số\s+)?(?:lượng\s+)?(?:trong\s+)?(?:bảng\s+)?(\w+)/i, template: 'SELECT COUNT(*) FROM $1' },
+  { pattern: /xem\s+(?:bảng\s+)?(\w+)/i, template: 'SELECT * FROM $1' },
+  { pattern: /hiển\s+thị\s+(?:tất\s+cả\s+)?(?:bảng\s+)?(\w+)/i, template: 'SELECT * FROM $1' },
+  { pattern: /tìm\s+(.+)\s+trong\s+(\w+)\s+(?:với|có|where)\s+(.+)/i, template: 'SELECT $1 FROM $2 WHERE $3' },
+  { pattern: /sắp\s+xếp\s+(\w+)\s+theo\s+(\w+)\s+(?:tăng|tăng\s+dần)/i, template: 'SELECT * FROM $1 ORDER BY $2 ASC' },
+  { pattern: /sắp\s+xếp\s+(\w+)\s+theo\s+(\w+)\s+(?:giảm|giảm\s+dần)/i, template: 'SELECT * FROM $1 ORDER BY $2 DESC' },
+  { pattern: /thêm\s+(.+)\s+vào\s+(\w+)/i, template: 'INSERT INTO $2 VALUES ($1)' },
+  { pattern: /xóa\s+(?:từ\s+)?(\w+)\s+(?:với|có|where)\s+(.+)/i, template: 'DELETE FROM $1 WHERE $2' },
+];
+
+export function translateWithPatterns(text: string): string | null {
+  for (const mapping of vietnameseToSQL) {
+    const match = text.match(mapping.pattern);
+    if (match) {
+      let sql = mapping.template;
+      for (let i = 1; i < match.length; i++) {
+        sql = sql.replace(`$${i}`, match[i]);
+      }
+      return sql + ';';
+    }
+  }
+  return null;
+}
+
+// The request in a line the terminal should translate: "ai <anything>", or a phrase the patterns know
+export function naturalLanguageRequest(text: string): string | null {
+  const asked = text.trim().match(/^ai\s+([\s\S]+)$/i);
+  if (asked && !/^(on|off)$/i.test(asked[1].trim())) return asked[1].trim();
+  return vietnameseToSQL.some(mapping => mapping.pattern.test(text)) ? text.trim() : null;
+}
+
+export const patternProvider: NlProvider = {
+  id: 'patterns',
+  label: 'Mẫu câu có sẵn (offline)',
+  confirm: false,
+  translate: async request => translateWithPatterns(request),
+};
+
+export function schemaPrompt(context: NlContext): string {
+  const tables = context.schema.tables.map(table => `${formatCreateTable(table)};`).join('\n\n');
+  return [
+    `You translate requests, usually written in Vietnamese, into ${dialectInfo(context.dialect).label} SQL for the database \`${context.database}\`.`,
+    'Answer with the SQL only: no explanation and no markdown. End every statement with ;.',
+    'Use only the tables and columns below. If the request cannot be answered with them, answer NONE.',
+    '',
+    tables || 'The database has no tables yet.',
+  ].join('\n');
+}
+
+// Models wrap SQL in ```sql fences, and reasoning models think out loud first
+export function extractSQL(content: string): string | null {
+  const text = content.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+  const fenced = text.match(/```(?:sql)?\s*([\s\S]*?)```/i);
+  const sql = (fenced ? fenced[1] : text).trim();
+  if (!sql || /^NONE\b/i.test(sql)) return null;
+  return sql.endsWith(';') ? sql : `${sql};`;
+}
+
+export const chatCompletionsURL = (url: string) => {
+  const base = url.trim().replace(/\/+$/, '');
+  return base.endsWith('/chat/completions') ? base : `${base}/chat/completions`;
+};
+
+export function openAIProvider(settings: NlSettings): NlProvider {
+  const endpoint = chatCompletionsURL(settings.url);
+  return {
+    id: 'openai',
+    label: settings.model,
+    confirm: true,
+    translate: async (request, context) => {
+      const controller = new AbortController();
+      // The timeout covers the whole answer: a local model may accept the request and then be slow
+      const timer = setTimeout(() => controller.abort(), settings.timeout);
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: settings.model,
+            temperature: 0,
+            stream: false,
+            messages: [
+              { role: 'system', content: schemaPrompt(context) },
+              { role: 'user', content: request },
+            ],
+          }),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          const detail = await response.text().catch(() => '');
+          throw new NlProviderError(`${endpoint} trả về HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+        }
+        const content = (await response.json())?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') throw new SyntaxError('No message content');
+        return extractSQL(content);
+      } catch (err) {
+        if (err instanceof NlProviderError) throw err;
+        if (err instanceof SyntaxError) throw new NlProviderError(`${endpoint} không trả lời theo dạng chat completions của OpenAI`);
+        if ((err as Error).name === 'AbortError') {
+          throw new NlProviderError(`${settings.model} không trả lời sau ${Math.round(settings.timeout / 1000)} giây`);
+        }
+        // fetch only says "Failed to fetch": the server is down or doesn't allow this origin
+        throw new NlProviderError(`Không kết nối được ${endpoint} (server chưa chạy hoặc chưa cho phép CORS)`);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+export const nlProvider = (settings: NlSettings): NlProvider =>
+  settings.provider === 'openai' ? openAIProvider(settings) : patternProvider;
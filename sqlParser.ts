@@ -0,0 +1,1407 @@
+import { Dialect } from './sqlDialects';
+
+// Offsets into the original text, end exclusive
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export type TokenType = 'word' | 'quoted' | 'string' | 'number' | 'variable' | 'operator' | 'punctuation' | 'eof';
+
+export interface Token extends Span {
+  type: TokenType;
+  // Unquoted and unescaped for names and strings
+  value: string;
+  upper: string;
+}
+
+export class SQLSyntaxError extends Error {
+  offset: number;
+  line: number;
+  column: number;
+  // Text of the token where parsing stopped ('' at the end of input)
+  found: string;
+
+  constructor(message: string, sql: string, offset: number, found: string) {
+    const { line, column } = positionAt(sql, offset);
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'SQLSyntaxError';
+    this.offset = offset;
+    this.line = line;
+    this.column = column;
+    this.found = found;
+  }
+}
+
+export function positionAt(sql: string, offset: number): { line: number; column: number } {
+  const before = sql.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+// ---- AST ----
+
+export type Expression =
+  | { kind: 'column'; table: string | null; name: string; span: Span }
+  | { kind: 'literal'; value: string | number | boolean | null; span: Span }
+  | { kind: 'variable'; name: string; span: Span }
+  | { kind: 'function'; name: string; args: Expression[]; distinct: boolean; over: WindowSpec | null; span: Span }
+  | { kind: 'unary'; operator: string; operand: Expression; span: Span }
+  | { kind: 'binary'; operator: string; left: Expression; right: Expression; span: Span }
+  | { kind: 'is'; operand: Expression; not: boolean; value: 'NULL' | 'TRUE' | 'FALSE' | 'UNKNOWN'; span: Span }
+  | { kind: 'between'; operand: Expression; low: Expression; high: Expression; not: boolean; span: Span }
+  | { kind: 'in'; operand: Expression; values: Expression[] | SelectStatement; not: boolean; span: Span }
+  | { kind: 'like'; operator: string; operand: Expression; pattern: Expression; not: boolean; span: Span }
+  | { kind: 'exists'; query: SelectStatement; span: Span }
+  | { kind: 'subquery'; query: SelectStatement; quantifier: 'ANY' | 'ALL' | 'SOME' | null; span: Span }
+  | { kind: 'case'; operand: Expression | null; branches: { when: Expression; then: Expression }[]; otherwise: Expression | null; span: Span }
+  | { kind: 'cast'; operand: Expression; dataType: string; span: Span }
+  | { kind: 'interval'; value: Expression; unit: string; span: Span }
+  | { kind: 'row'; items: Expression[]; span: Span };
+
+export interface WindowSpec {
+  partitionBy: Expression[];
+  orderBy: OrderItem[];
+}
+
+export interface SelectItem {
+  expr: Expression;
+  alias: string | null;
+  span: Span;
+}
+
+export type TableRef =
+  | { kind: 'table'; name: string; schema: string | null; alias: string | null; span: Span }
+  | { kind: 'subquery'; query: SelectStatement; alias: string | null; span: Span };
+
+export interface Join {
+  joinType: 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS' | 'NATURAL';
+  table: TableRef;
+  on: Expression | null;
+  using: string[];
+  span: Span;
+}
+
+export interface OrderItem {
+  expr: Expression;
+  direction: 'ASC' | 'DESC';
+  span: Span;
+}
+
+export interface Limit {
+  count: Expression;
+  offset: Expression | null;
+  span: Span;
+}
+
+export interface CommonTableExpression {
+  name: string;
+  columns: string[];
+  query: SelectStatement;
+  span: Span;
+}
+
+export interface Assignment {
+  column: string;
+  value: Expression;
+  span: Span;
+}
+
+export interface ColumnConstraint {
+  kind: 'not_null' | 'null' | 'default' | 'auto_increment' | 'primary_key' | 'unique' | 'check' | 'references' | 'comment' | 'other';
+  value: Expression | null;
+  references: { table: string; columns: string[] } | null;
+  span: Span;
+}
+
+export interface ColumnDefinition {
+  name: string;
+  dataType: string;
+  constraints: ColumnConstraint[];
+  span: Span;
+}
+
+export interface TableConstraint {
+  kind: 'primary_key' | 'unique' | 'foreign_key' | 'check' | 'index';
+  name: string | null;
+  columns: string[];
+  references: { table: string; columns: string[] } | null;
+  check: Expression | null;
+  span: Span;
+}
+
+export type AlterAction =
+  | { action: 'add_column'; column: ColumnDefinition; span: Span }
+  | { action: 'drop_column'; name: string; span: Span }
+  | { action: 'modify_column'; from: string; column: ColumnDefinition; span: Span }
+  | { action: 'rename_column'; from: string; to: string; span: Span }
+  | { action: 'rename_table'; to: string; span: Span }
+  | { action: 'add_constraint'; constraint: TableConstraint; span: Span }
+  | { action: 'drop_constraint'; kind: string; name: string | null; span: Span }
+  | { action: 'other'; span: Span };
+
+export interface Account {
+  user: string;
+  host: string;
+}
+
+export interface SelectStatement {
+  type: 'select';
+  with: CommonTableExpression[];
+  distinct: boolean;
+  columns: SelectItem[];
+  from: TableRef[];
+  joins: Join[];
+  where: Expression | null;
+  groupBy: Expression[];
+  having: Expression | null;
+  orderBy: OrderItem[];
+  limit: Limit | null;
+  // UNION / INTERSECT / EXCEPT with the following queries, in order
+  compound: { operator: string; query: SelectStatement }[];
+  span: Span;
+}
+
+export interface InsertStatement {
+  type: 'insert';
+  replace: boolean;
+  ignore: boolean;
+  table: string;
+  columns: string[];
+  values: Expression[][];
+  query: SelectStatement | null;
+  onDuplicate: Assignment[];
+  returning: SelectItem[];
+  span: Span;
+}
+
+export interface UpdateStatement {
+  type: 'update';
+  table: TableRef;
+  joins: Join[];
+  set: Assignment[];
+  where: Expression | null;
+  orderBy: OrderItem[];
+  limit: Limit | null;
+  span: Span;
+}
+
+export interface DeleteStatement {
+  type: 'delete';
+  table: TableRef;
+  where: Expression | null;
+  orderBy: OrderItem[];
+  limit: Limit | null;
+  span: Span;
+}
+
+export type Statement =
+  | SelectStatement
+  | InsertStatement
+  | UpdateStatement
+  | DeleteStatement
+  | { type: 'create_table'; table: string; ifNotExists: boolean; temporary: boolean; columns: ColumnDefinition[]; constraints: TableConstraint[]; query: SelectStatement | null; like: string | null; span: Span }
+  | { type: 'create_index'; name: string; table: string; columns: string[]; unique: boolean; span: Span }
+  | { type: 'create_view'; name: string; query: SelectStatement; span: Span }
+  | { type: 'create_database'; name: string; ifNotExists: boolean; span: Span }
+  | { type: 'alter_table'; table: string; actions: AlterAction[]; span: Span }
+  | { type: 'drop'; object: 'TABLE' | 'VIEW' | 'DATABASE' | 'INDEX'; names: string[]; table: string | null; ifExists: boolean; span: Span }
+  | { type: 'truncate'; table: string; span: Span }
+  | { type: 'rename_table'; renames: { from: string; to: string }[]; span: Span }
+  | { type: 'grant' | 'revoke'; privileges: { name: string; columns: string[] }[]; roles: string[]; on: string | null; accounts: Account[]; withGrantOption: boolean; span: Span }
+  | { type: 'user'; action: 'create' | 'drop' | 'alter'; role: boolean; accounts: Account[]; span: Span }
+  | { type: 'transaction'; action: 'begin' | 'commit' | 'rollback' | 'savepoint' | 'release'; savepoint: string | null; span: Span }
+  | { type: 'use'; database: string; span: Span }
+  | { type: 'show'; what: string; span: Span }
+  | { type: 'describe'; table: string; span: Span }
+  | { type: 'explain'; statement: Statement; span: Span }
+  | { type: 'set'; assignments: Assignment[]; span: Span }
+  | { type: 'create_routine'; object: string; name: string; span: Span };
+
+// ---- Tokenizer ----
+
+const OPERATORS = ['<=>', '<<', '>>', '<=', '>=', '<>', '!=', '||', '&&', '::', ':=', '=', '<', '>', '+', '-', '*', '/', '%', '!', '~', '&', '|', '^'];
+
+export function tokenize(sql: string, dialect: Dialect = 'mysql'): Token[] {
+  const tokens: Token[] = [];
+  // MySQL reads "text" as a string; the others as a quoted name
+  const stringQuotes = dialect === 'mysql' ? `'"` : `'`;
+  let i = 0;
+
+  const push = (type: TokenType, start: number, value: string) => {
+    tokens.push({ type, start, end: i, value, upper: value.toUpperCase() });
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const start = i;
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if ((ch === '-' && sql[i + 1] === '-') || ch === '#') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+    } else if (ch === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      if (end === -1) throw new SQLSyntaxError('Unterminated comment', sql, start, '/*');
+      i = end + 2;
+    } else if (ch === "'" || ch === '"' || ch === '`') {
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= sql.length) {
+          throw new SQLSyntaxError(ch === '`' ? 'Unterminated quoted name' : 'Unterminated string literal', sql, start, sql.slice(start, start + 20));
+        }
+        if (sql[i] === '\\' && ch !== '`') {
+          value += sql[i + 1] ?? '';
+          i += 2;
+        } else if (sql[i] === ch && sql[i + 1] === ch) {
+          value += ch;
+          i += 2;
+        } else if (sql[i] === ch) {
+          i++;
+          break;
+        } else {
+          value += sql[i++];
+        }
+      }
+      push(stringQuotes.includes(ch) ? 'string' : 'quoted', start, value);
+    } else if (/\d/.test(ch) || (ch === '.' && /\d/.test(sql[i + 1] ?? ''))) {
+      const match = sql.slice(i).match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/)!;
+      i += match[0].length;
+      push('number', start, match[0]);
+    } else if (/[\p{L}_$]/u.test(ch)) {
+      const match = sql.slice(i).match(/^[\p{L}\p{N}_$]+/u)!;
+      i += match[0].length;
+      push('word', start, match[0]);
+    } else if (ch === '@' && /[@\p{L}_]/u.test(sql[i + 1] ?? '')) {
+      const match = sql.slice(i).match(/^@@?[\p{L}\p{N}_$.]+/u)!;
+      i += match[0].length;
+      push('variable', start, match[0]);
+    } else if (ch === '?') {
+      i++;
+      push('variable', start, '?');
+    } else if ('(),;.@'.includes(ch)) {
+      i++;
+      push('punctuation', start, ch);
+    } else {
+      const operator = OPERATORS.find(op => sql.startsWith(op, i));
+      if (!operator) throw new SQLSyntaxError(`Unexpected character '${ch}'`, sql, start, ch);
+      i += operator.length;
+      push('operator', start, operator);
+    }
+  }
+  tokens.push({ type: 'eof', start: sql.length, end: sql.length, value: '', upper: '' });
+  return tokens;
+}
+
+// ---- Parser ----
+
+// Words that end an expression or a clause, so they can't be bare names or aliases
+const RESERVED = new Set([
+  'ADD', 'ALL', 'ALTER', 'AND', 'AS', 'ASC', 'BETWEEN', 'BY', 'CASE', 'CHECK', 'COLLATE', 'CONSTRAINT', 'CREATE', 'CROSS',
+  'DEFAULT', 'DELETE', 'DESC', 'DISTINCT', 'DROP', 'ELSE', 'END', 'EXCEPT', 'EXISTS', 'FETCH', 'FOR', 'FOREIGN', 'FROM',
+  'FULL', 'GRANT', 'GROUP', 'HAVING', 'IN', 'INNER', 'INSERT', 'INTERSECT', 'INTO', 'IS', 'JOIN', 'KEY', 'LEFT', 'LIKE',
+  'ILIKE', 'LIMIT', 'NATURAL', 'NOT', 'NULL', 'OFFSET', 'ON', 'OR', 'ORDER', 'OUTER', 'PRIMARY', 'REFERENCES', 'REGEXP',
+  'RETURNING', 'RIGHT', 'RLIKE', 'SELECT', 'SET', 'STRAIGHT_JOIN', 'TABLE', 'THEN', 'TO', 'UNION', 'UNIQUE', 'UPDATE',
+  'USING', 'VALUES', 'WHEN', 'WHERE', 'WINDOW', 'WITH', 'XOR',
+]);
+
+// Reserved words that are still ordinary functions when followed by "("
+const FUNCTION_WORDS = new Set(['LEFT', 'RIGHT', 'INSERT', 'REPLACE', 'VALUES', 'DEFAULT', 'CHECK']);
+
+// Functions the SQL standard lets you call without parentheses
+const NILADIC = new Set(['CURRENT_DATE', 'CURRENT_TIME', 'CURRENT_TIMESTAMP', 'CURRENT_USER', 'LOCALTIME', 'LOCALTIMESTAMP']);
+
+const COMPARISON = new Set(['=', '<=>', '<>', '!=', '<', '<=', '>', '>=']);
+
+// Binding strength of infix operators, loosest first (MySQL order)
+function infixPrecedence(token: Token, dialect: Dialect): number {
+  if (token.type === 'word') {
+    switch (token.upper) {
+      case 'OR': return 1;
+      case 'XOR': return 2;
+      case 'AND': return 3;
+      case 'IS': case 'LIKE': case 'ILIKE': case 'REGEXP': case 'RLIKE': case 'IN': case 'BETWEEN': case 'NOT': return 5;
+      case 'DIV': case 'MOD': return 10;
+      default: return 0;
+    }
+  }
+  if (token.type !== 'operator') return 0;
+  if (token.value === '||') return dialect === 'mysql' ? 1 : 9;
+  if (token.value === '&&') return 3;
+  if (COMPARISON.has(token.value)) return 5;
+  switch (token.value) {
+    case '|': return 6;
+    case '&': return 7;
+    case '<<': case '>>': return 8;
+    case '+': case '-': return 9;
+    case '*': case '/': case '%': return 10;
+    case '^': return 11;
+    case '::': return 13;
+    default: return 0;
+  }
+}
+
+// Parse one statement (a trailing ";" is fine). Throws SQLSyntaxError with the line and column.
+export function parseSQL(sql: string, dialect: Dialect = 'mysql'): Statement {
+  const tokens = tokenize(sql, dialect);
+  let pos = 0;
+
+  const peek = (ahead = 0) => tokens[Math.min(pos + ahead, tokens.length - 1)];
+  const previousEnd = () => tokens[Math.max(pos - 1, 0)].end;
+  const span = (start: number): Span => ({ start, end: previousEnd() });
+  const isWord = (token: Token, ...words: string[]) => token.type === 'word' && words.includes(token.upper);
+  const isPunct = (token: Token, value: string) => token.type === 'punctuation' && token.value === value;
+  const isOperator = (token: Token, value: string) => token.type === 'operator' && token.value === value;
+
+  const fail = (expected: string, token = peek()): never => {
+    const found = sql.slice(token.start, token.end);
+    throw new SQLSyntaxError(`Expected ${expected} but found ${token.type === 'eof' ? 'end of input' : `'${found}'`}`, sql, token.start, found);
+  };
+
+  const acceptWord = (...words: string[]) => {
+    if (!isWord(peek(), ...words)) return null;
+    return tokens[pos++];
+  };
+  const expectWord = (...words: string[]) => acceptWord(...words) ?? fail(words.join(' or '));
+  const acceptWords = (...words: string[]) => {
+    if (!words.every((word, i) => isWord(peek(i), word))) return false;
+    pos += words.length;
+    return true;
+  };
+  const expectWords = (...words: string[]) => acceptWords(...words) || fail(words.join(' '));
+  const acceptPunct = (value: string) => (isPunct(peek(), value) ? tokens[pos++] : null);
+  const expectPunct = (value: string) => acceptPunct(value) ?? fail(`'${value}'`);
+  const acceptOperator = (value: string) => (isOperator(peek(), value) ? tokens[pos++] : null);
+
+  const isNameToken = (token: Token) => token.type === 'quoted' || (token.type === 'word' && !RESERVED.has(token.upper));
+  // Names may also be reserved words when quoted, or any word where nothing else fits
+  const parseName = (what = 'a name', allowReserved = false): string => {
+    const token = peek();
+    if (isNameToken(token) || (allowReserved && token.type === 'word')) {
+      pos++;
+      return token.value;
+    }
+    return fail(what);
+  };
+  // db.table or table
+  const parseQualifiedName = (what = 'a table name') => {
+    const first = parseName(what);
+    if (acceptPunct('.')) return { schema: first as string | null, name: parseName(what, true) };
+    return { schema: null as string | null, name: first };
+  };
+  const qualified = (name: { schema: string | null; name: string }) => (name.schema ? `${name.schema}.${name.name}` : name.name);
+
+  const parseNameList = (what = 'a column name') => {
+    expectPunct('(');
+    const names: string[] = [];
+    do {
+      names.push(parseName(what, true));
+      // Index prefix length and direction: name(10) DESC
+      if (acceptPunct('(')) {
+        pos++;
+        expectPunct(')');
+      }
+      acceptWord('ASC', 'DESC');
+    } while (acceptPunct(','));
+    expectPunct(')');
+    return names;
+  };
+
+  const parseList = <T>(item: () => T): T[] => {
+    const items = [item()];
+    while (acceptPunct(',')) items.push(item());
+    return items;
+  };
+
+  // Skip a balanced "( ... )" group without modelling it
+  const skipGroup = () => {
+    expectPunct('(');
+    let depth = 1;
+    while (depth > 0) {
+      const token = tokens[pos++];
+      if (token.type === 'eof') fail("')'", token);
+      if (isPunct(token, '(')) depth++;
+      if (isPunct(token, ')')) depth--;
+    }
+  };
+
+  const skipToEnd = () => {
+    while (peek().type !== 'eof' && !isPunct(peek(), ';')) pos++;
+  };
+
+  // ---- expressions ----
+
+  const parseExpression = (minPrecedence = 1): Expression => {
+    let left = parsePrefix();
+    for (;;) {
+      const token = peek();
+      const precedence = infixPrecedence(token, dialect);
+      if (precedence === 0 || precedence < minPrecedence) return left;
+      left = parseInfix(left, token, precedence);
+    }
+  };
+
+  const parseInfix = (left: Expression, token: Token, precedence: number): Expression => {
+    const start = left.span.start;
+    pos++;
+
+    if (token.type === 'operator' && token.value === '::') {
+      return { kind: 'cast', operand: left, dataType: parseDataType(), span: span(start) };
+    }
+    if (token.type === 'word') {
+      const not = token.upper === 'NOT';
+      const keyword = not ? expectWord('IN', 'LIKE', 'ILIKE', 'BETWEEN', 'REGEXP', 'RLIKE') : token;
+      switch (keyword.upper) {
+        case 'IS': {
+          const negated = !!acceptWord('NOT');
+          const value = expectWord('NULL', 'TRUE', 'FALSE', 'UNKNOWN').upper as 'NULL' | 'TRUE' | 'FALSE' | 'UNKNOWN';
+          return { kind: 'is', operand: left, not: negated, value, span: span(start) };
+        }
+        case 'IN': {
+          expectPunct('(');
+          const values = isWord(peek(), 'SELECT', 'WITH') ? parseQuery() : parseList(() => parseExpression());
+          expectPunct(')');
+          return { kind: 'in', operand: left, values, not, span: span(start) };
+        }
+        case 'BETWEEN': {
+          // AND binds the range, so parse the bounds above AND's level
+          const low = parseExpression(4);
+          expectWord('AND');
+          const high = parseExpression(4);
+          return { kind: 'between', operand: left, low, high, not, span: span(start) };
+        }
+        case 'LIKE': case 'ILIKE': case 'REGEXP': case 'RLIKE': {
+          const pattern = parseExpression(precedence + 1);
+          if (acceptWord('ESCAPE')) parseExpression(precedence + 1);
+          return { kind: 'like', operator: keyword.upper, operand: left, pattern, not, span: span(start) };
+        }
+      }
+    }
+    const right = parseExpression(precedence + 1);
+    const operator = token.type === 'word' ? token.upper : token.value;
+    return { kind: 'binary', operator, left, right, span: span(start) };
+  };
+
+  const parsePrefix = (): Expression => {
+    const token = peek();
+    const start = token.start;
+
+    if (token.type === 'number') {
+      pos++;
+      return { kind: 'literal', value: Number(token.value), span: span(start) };
+    }
+    if (token.type === 'string') {
+      pos++;
+      return { kind: 'literal', value: token.value, span: span(start) };
+    }
+    if (token.type === 'variable') {
+      pos++;
+      return { kind: 'variable', name: token.value, span: span(start) };
+    }
+    if (token.type === 'operator' && ['-', '+', '~', '!'].includes(token.value)) {
+      pos++;
+      const operand = parseExpression(12);
+      return { kind: 'unary', operator: token.value === '!' ? 'NOT' : token.value, operand, span: span(start) };
+    }
+    if (isOperator(token, '*')) {
+      pos++;
+      return { kind: 'column', table: null, name: '*', span: span(start) };
+    }
+    if (isPunct(token, '(')) {
+      pos++;
+      if (isWord(peek(), 'SELECT', 'WITH')) {
+        const query = parseQuery();
+        expectPunct(')');
+        return { kind: 'subquery', query, quantifier: null, span: span(start) };
+      }
+      const items = parseList(() => parseExpression());
+      expectPunct(')');
+      if (items.length > 1) return { kind: 'row', items, span: span(start) };
+      return { ...items[0], span: span(start) };
+    }
+    if (token.type === 'quoted') return parseNameOrCall();
+    if (token.type !== 'word') return fail('an expression');
+
+    switch (token.upper) {
+      case 'NULL':
+        pos++;
+        return { kind: 'literal', value: null, span: span(start) };
+      case 'TRUE':
+      case 'FALSE':
+        pos++;
+        return { kind: 'literal', value: token.upper === 'TRUE', span: span(start) };
+      case 'NOT': {
+        pos++;
+        const operand = parseExpression(4);
+        return { kind: 'unary', operator: 'NOT', operand, span: span(start) };
+      }
+      case 'EXISTS': {
+        pos++;
+        expectPunct('(');
+        const query = parseQuery();
+        expectPunct(')');
+        return { kind: 'exists', query, span: span(start) };
+      }
+      case 'ANY':
+      case 'ALL':
+      case 'SOME':
+        if (isPunct(peek(1), '(') && isWord(peek(2), 'SELECT', 'WITH')) {
+          pos += 2;
+          const query = parseQuery();
+          expectPunct(')');
+          return { kind: 'subquery', query, quantifier: token.upper as 'ANY' | 'ALL' | 'SOME', span: span(start) };
+        }
+        break;
+      case 'CASE': {
+        pos++;
+        const operand = isWord(peek(), 'WHEN') ? null : parseExpression();
+        const branches: { when: Expression; then: Expression }[] = [];
+        while (acceptWord('WHEN')) {
+          const when = parseExpression();
+          expectWord('THEN');
+          branches.push({ when, then: parseExpression() });
+        }
+        if (branches.length === 0) fail('WHEN');
+        const otherwise = acceptWord('ELSE') ? parseExpression() : null;
+        expectWord('END');
+        return { kind: 'case', operand, branches, otherwise, span: span(start) };
+      }
+      case 'CAST':
+      case 'CONVERT':
+        if (isPunct(peek(1), '(')) {
+          pos += 2;
+          const operand = parseExpression();
+          if (!acceptWord('AS') && !(token.upper === 'CONVERT' && acceptPunct(','))) fail('AS');
+          const dataType = parseDataType();
+          expectPunct(')');
+          return { kind: 'cast', operand, dataType, span: span(start) };
+        }
+        break;
+      case 'INTERVAL': {
+        pos++;
+        const value = parseExpression(10);
+        const unit = parseName('an interval unit', true).toUpperCase();
+        return { kind: 'interval', value, unit, span: span(start) };
+      }
+    }
+    // DEFAULT also stands for a column's default in VALUES lists
+    if ((NILADIC.has(token.upper) || token.upper === 'DEFAULT') && !isPunct(peek(1), '(')) {
+      pos++;
+      return { kind: 'function', name: token.upper, args: [], distinct: false, over: null, span: span(start) };
+    }
+    if (RESERVED.has(token.upper) && !(FUNCTION_WORDS.has(token.upper) && isPunct(peek(1), '('))) {
+      return fail('an expression');
+    }
+    return parseNameOrCall();
+  };
+
+  const parseNameOrCall = (): Expression => {
+    const token = tokens[pos++];
+    const start = token.start;
+
+    if (token.type === 'word' && isPunct(peek(), '(')) {
+      pos++;
+      const name = token.upper;
+      let distinct = false;
+      let args: Expression[] = [];
+      if (isOperator(peek(), '*')) {
+        const star = tokens[pos++];
+        args = [{ kind: 'column', table: null, name: '*', span: { start: star.start, end: star.end } }];
+      } else if (!isPunct(peek(), ')')) {
+        distinct = !!acceptWord('DISTINCT');
+        acceptWord('ALL');
+        args = parseList(() => parseExpression());
+        // GROUP_CONCAT(x ORDER BY y SEPARATOR ', ')
+        if (acceptWords('ORDER', 'BY')) parseList(parseOrderItem);
+        if (acceptWord('SEPARATOR')) args.push(parsePrefix());
+        // EXTRACT(YEAR FROM d) reads like two arguments
+        if (acceptWord('FROM')) args.push(parseExpression());
+      }
+      expectPunct(')');
+      let over: WindowSpec | null = null;
+      if (acceptWord('OVER')) over = parseWindow();
+      return { kind: 'function', name, args, distinct, over, span: span(start) };
+    }
+
+    // a, a.b, a.b.c, a.*
+    const parts = [token.value];
+    while (isPunct(peek(), '.')) {
+      pos++;
+      if (isOperator(peek(), '*')) {
+        pos++;
+        parts.push('*');
+        break;
+      }
+      parts.push(parseName('a column name', true));
+    }
+    const name = parts[parts.length - 1];
+    const table = parts.length > 1 ? parts[parts.length - 2] : null;
+    return { kind: 'column', table, name, span: span(start) };
+  };
+
+  const parseWindow = (): WindowSpec => {
+    if (!isPunct(peek(), '(')) {
+      parseName('a window name');
+      return { partitionBy: [], orderBy: [] };
+    }
+    pos++;
+    const partitionBy = acceptWords('PARTITION', 'BY') ? parseList(() => parseExpression()) : [];
+    const orderBy = acceptWords('ORDER', 'BY') ? parseList(parseOrderItem) : [];
+    // Frames (ROWS BETWEEN ...) don't change what the explainers say
+    let depth = 1;
+    while (depth > 0) {
+      const next = tokens[pos++];
+      if (next.type === 'eof') fail("')'", next);
+      if (isPunct(next, '(')) depth++;
+      if (isPunct(next, ')')) depth--;
+    }
+    return { partitionBy, orderBy };
+  };
+
+  const parseDataType = (): string => {
+    const start = peek().start;
+    const first = parseName('a data type', true).toUpperCase();
+    // Multi-word types
+    if (first === 'DOUBLE') acceptWord('PRECISION');
+    if (first === 'CHARACTER' || first === 'CHAR') acceptWord('VARYING');
+    if (first === 'TIMESTAMP' || first === 'TIME') {
+      if (acceptWord('WITH', 'WITHOUT')) expectWords('TIME', 'ZONE');
+    }
+    if (isPunct(peek(), '(')) skipGroup();
+    while (acceptWord('UNSIGNED', 'SIGNED', 'ZEROFILL'));
+    return sql.slice(start, previousEnd()).replace(/\s+/g, ' ');
+  };
+
+  const parseOrderItem = (): OrderItem => {
+    const start = peek().start;
+    const expr = parseExpression();
+    const direction = (acceptWord('ASC', 'DESC')?.upper ?? 'ASC') as 'ASC' | 'DESC';
+    if (acceptWord('NULLS')) expectWord('FIRST', 'LAST');
+    return { expr, direction, span: span(start) };
+  };
+
+  // MySQL also takes a string as an alias: SELECT COUNT(*) AS 'total'
+  const parseAlias = (): string | null => {
+    const explicit = !!acceptWord('AS');
+    const token = peek();
+    if (dialect === 'mysql' && token.type === 'string') {
+      pos++;
+      return token.value;
+    }
+    if (explicit) return parseName('an alias');
+    if (isNameToken(token) && !isWord(token, 'OVER', 'SEPARATOR', 'ESCAPE', 'NULLS')) return parseName('an alias');
+    return null;
+  };
+
+  // ---- queries ----
+
+  const parseTableRef = (): TableRef => {
+    const start = peek().start;
+    if (acceptPunct('(')) {
+      if (!isWord(peek(), 'SELECT', 'WITH')) fail('SELECT');
+      const query = parseQuery();
+      expectPunct(')');
+      return { kind: 'subquery', query, alias: parseAlias(), span: span(start) };
+    }
+    const name = parseQualifiedName();
+    const alias = parseAlias();
+    return { kind: 'table', name: name.name, schema: name.schema, alias, span: span(start) };
+  };
+
+  const parseJoin = (): Join | null => {
+    const start = peek().start;
+    let joinType: Join['joinType'];
+    if (acceptWord('JOIN', 'STRAIGHT_JOIN')) joinType = 'INNER';
+    else if (acceptWords('INNER', 'JOIN')) joinType = 'INNER';
+    else if (acceptWords('CROSS', 'JOIN')) joinType = 'CROSS';
+    else if (acceptWord('NATURAL')) {
+      acceptWord('LEFT', 'RIGHT', 'INNER');
+      acceptWord('OUTER');
+      expectWord('JOIN');
+      joinType = 'NATURAL';
+    } else if (isWord(peek(), 'LEFT', 'RIGHT', 'FULL') && !isPunct(peek(1), '(')) {
+      joinType = tokens[pos++].upper as 'LEFT' | 'RIGHT' | 'FULL';
+      acceptWord('OUTER');
+      expectWord('JOIN');
+    } else {
+      return null;
+    }
+    const table = parseTableRef();
+    let on: Expression | null = null;
+    let using: string[] = [];
+    if (acceptWord('ON')) on = parseExpression();
+    else if (acceptWord('USING')) using = parseNameList();
+    return { joinType, table, on, using, span: span(start) };
+  };
+
+  const parseLimit = (): Limit | null => {
+    const start = peek().start;
+    if (acceptWord('LIMIT')) {
+      const first = parseExpression();
+      // LIMIT offset, count
+      if (acceptPunct(',')) return { count: parseExpression(), offset: first, span: span(start) };
+      const offset = acceptWord('OFFSET') ? parseExpression() : null;
+      return { count: first, offset, span: span(start) };
+    }
+    // OFFSET m ROWS FETCH FIRST n ROWS ONLY
+    let offset: Expression | null = null;
+    if (acceptWord('OFFSET')) {
+      offset = parseExpression();
+      acceptWord('ROW', 'ROWS');
+    }
+    if (acceptWord('FETCH')) {
+      expectWord('FIRST', 'NEXT');
+      const count = parseExpression();
+      expectWord('ROW', 'ROWS');
+      expectWord('ONLY');
+      return { count, offset, span: span(start) };
+    }
+    if (offset) return { count: { kind: 'literal', value: null, span: offset.span }, offset, span: span(start) };
+    return null;
+  };
+
+  const parseWith = (): CommonTableExpression[] => {
+    if (!acceptWord('WITH')) return [];
+    acceptWord('RECURSIVE');
+    return parseList(() => {
+      const start = peek().start;
+      const name = parseName('a CTE name');
+      const columns = isPunct(peek(), '(') ? parseNameList() : [];
+      expectWord('AS');
+      expectPunct('(');
+      const query = parseQuery();
+      expectPunct(')');
+      return { name, columns, query, span: span(start) };
+    });
+  };
+
+  const parseSelectCore = (withClause: CommonTableExpression[], start: number): SelectStatement => {
+    if (acceptPunct('(')) {
+      const inner = parseQuery();
+      expectPunct(')');
+      return inner;
+    }
+    expectWord('SELECT');
+    let distinct = false;
+    if (acceptWord('DISTINCT', 'DISTINCTROW')) distinct = true;
+    else acceptWord('ALL');
+
+    const columns = parseList((): SelectItem => {
+      const itemStart = peek().start;
+      const expr = parseExpression();
+      // SELECT * FORM t: the typo is the error, not an alias
+      const alias = expr.kind === 'column' && expr.name === '*' ? null : parseAlias();
+      return { expr, alias, span: span(itemStart) };
+    });
+
+    const from: TableRef[] = [];
+    const joins: Join[] = [];
+    if (acceptWord('FROM')) {
+      from.push(parseTableRef());
+      for (;;) {
+        if (acceptPunct(',')) {
+          from.push(parseTableRef());
+          continue;
+        }
+        const join = parseJoin();
+        if (!join) break;
+        joins.push(join);
+      }
+    }
+    const where = acceptWord('WHERE') ? parseExpression() : null;
+    const groupBy = acceptWords('GROUP', 'BY') ? parseList(() => parseExpression()) : [];
+    if (groupBy.length > 0) acceptWords('WITH', 'ROLLUP');
+    const having = acceptWord('HAVING') ? parseExpression() : null;
+    const orderBy = acceptWords('ORDER', 'BY') ? parseList(parseOrderItem) : [];
+    const limit = parseLimit();
+    if (acceptWord('FOR')) {
+      expectWord('UPDATE', 'SHARE');
+    }
+
+    return {
+      type: 'select',
+      with: withClause,
+      distinct,
+      columns,
+      from,
+      joins,
+      where,
+      groupBy,
+      having,
+      orderBy,
+      limit,
+      compound: [],
+      span: span(start),
+    };
+  };
+
+  const parseQuery = (): SelectStatement => {
+    const start = peek().start;
+    const withClause = parseWith();
+    const query = parseSelectCore(withClause, start);
+    while (isWord(peek(), 'UNION', 'INTERSECT', 'EXCEPT')) {
+      let operator = tokens[pos++].upper;
+      const quantifier = acceptWord('ALL', 'DISTINCT');
+      if (quantifier?.upper === 'ALL') operator += ' ALL';
+      query.compound.push({ operator, query: parseSelectCore([], peek().start) });
+    }
+    query.span = span(start);
+    return query;
+  };
+
+  // ---- data changes ----
+
+  // col = value, also t.col = value in multi-table updates
+  const parseAssignment = (): Assignment => {
+    const start = peek().start;
+    let column = parseName('a column name');
+    while (acceptPunct('.')) column = parseName('a column name', true);
+    if (!acceptOperator('=')) fail("'='");
+    return { column, value: parseExpression(), span: span(start) };
+  };
+
+  const parseInsert = (start: number): InsertStatement => {
+    const replace = tokens[pos++].upper === 'REPLACE';
+    acceptWord('LOW_PRIORITY', 'DELAYED', 'HIGH_PRIORITY');
+    const ignore = !!acceptWord('IGNORE');
+    // SQLite: INSERT OR REPLACE / OR IGNORE
+    if (acceptWord('OR')) expectWord('REPLACE', 'IGNORE', 'ABORT', 'FAIL', 'ROLLBACK');
+    acceptWord('INTO');
+    const table = qualified(parseQualifiedName());
+    let columns: string[] = [];
+    if (isPunct(peek(), '(') && !isWord(peek(1), 'SELECT', 'WITH')) columns = parseNameList();
+
+    let values: Expression[][] = [];
+    let query: SelectStatement | null = null;
+    if (acceptWord('VALUES', 'VALUE')) {
+      values = parseList(() => {
+        acceptWord('ROW');
+        expectPunct('(');
+        const row = isPunct(peek(), ')') ? [] : parseList(() => parseExpression());
+        expectPunct(')');
+        return row;
+      });
+    } else if (acceptWord('SET')) {
+      const assignments = parseList(parseAssignment);
+      columns = assignments.map(a => a.column);
+      values = [assignments.map(a => a.value)];
+    } else if (isWord(peek(), 'SELECT', 'WITH') || isPunct(peek(), '(')) {
+      query = parseQuery();
+    } else if (acceptWords('DEFAULT', 'VALUES')) {
+      values = [[]];
+    } else {
+      fail('VALUES or SELECT');
+    }
+
+    let onDuplicate: Assignment[] = [];
+    if (acceptWords('ON', 'DUPLICATE')) {
+      expectWords('KEY', 'UPDATE');
+      onDuplicate = parseList(parseAssignment);
+    } else if (acceptWords('ON', 'CONFLICT')) {
+      if (isPunct(peek(), '(')) parseNameList();
+      expectWord('DO');
+      if (!acceptWord('NOTHING')) {
+        expectWords('UPDATE', 'SET');
+        onDuplicate = parseList(parseAssignment);
+        if (acceptWord('WHERE')) parseExpression();
+      }
+    }
+    const returning = acceptWord('RETURNING') ? parseList((): SelectItem => {
+      const itemStart = peek().start;
+      const expr = parseExpression();
+      return { expr, alias: parseAlias(), span: span(itemStart) };
+    }) : [];
+    return { type: 'insert', replace, ignore, table, columns, values, query, onDuplicate, returning, span: span(start) };
+  };
+
+  const parseUpdate = (start: number): UpdateStatement => {
+    pos++;
+    while (acceptWord('LOW_PRIORITY', 'IGNORE'));
+    const table = parseTableRef();
+    const joins: Join[] = [];
+    for (let join = parseJoin(); join; join = parseJoin()) joins.push(join);
+    expectWord('SET');
+    const set = parseList(parseAssignment);
+    const where = acceptWord('WHERE') ? parseExpression() : null;
+    const orderBy = acceptWords('ORDER', 'BY') ? parseList(parseOrderItem) : [];
+    const limit = parseLimit();
+    return { type: 'update', table, joins, set, where, orderBy, limit, span: span(start) };
+  };
+
+  const parseDelete = (start: number): DeleteStatement => {
+    pos++;
+    while (acceptWord('LOW_PRIORITY', 'QUICK', 'IGNORE'));
+    expectWord('FROM');
+    const table = parseTableRef();
+    const where = acceptWord('WHERE') ? parseExpression() : null;
+    const orderBy = acceptWords('ORDER', 'BY') ? parseList(parseOrderItem) : [];
+    const limit = parseLimit();
+    return { type: 'delete', table, where, orderBy, limit, span: span(start) };
+  };
+
+  // ---- definitions ----
+
+  const parseReferences = () => {
+    expectWord('REFERENCES');
+    const table = qualified(parseQualifiedName());
+    const columns = isPunct(peek(), '(') ? parseNameList() : [];
+    while (acceptWord('ON')) {
+      expectWord('DELETE', 'UPDATE');
+      if (!acceptWord('CASCADE', 'RESTRICT')) {
+        if (acceptWord('SET')) expectWord('NULL', 'DEFAULT');
+        else expectWords('NO', 'ACTION');
+      }
+    }
+    return { table, columns };
+  };
+
+  const parseColumnDefinition = (): ColumnDefinition => {
+    const start = peek().start;
+    const name = parseName('a column name');
+    const dataType = parseDataType();
+    const constraints: ColumnConstraint[] = [];
+    for (;;) {
+      const itemStart = peek().start;
+      const constraint = (kind: ColumnConstraint['kind'], value: Expression | null = null, references: ColumnConstraint['references'] = null) => {
+        constraints.push({ kind, value, references, span: span(itemStart) });
+      };
+      if (acceptWords('NOT', 'NULL')) constraint('not_null');
+      else if (acceptWord('NULL')) constraint('null');
+      else if (acceptWord('DEFAULT')) constraint('default', parsePrefix());
+      else if (acceptWord('AUTO_INCREMENT', 'AUTOINCREMENT')) constraint('auto_increment');
+      else if (acceptWords('PRIMARY', 'KEY')) constraint('primary_key');
+      else if (acceptWord('UNIQUE')) {
+        acceptWord('KEY');
+        constraint('unique');
+      } else if (acceptWord('KEY')) constraint('primary_key');
+      else if (acceptWord('CHECK')) {
+        expectPunct('(');
+        const check = parseExpression();
+        expectPunct(')');
+        constraint('check', check);
+      } else if (isWord(peek(), 'REFERENCES')) constraint('references', null, parseReferences());
+      else if (acceptWord('COMMENT')) constraint('comment', parsePrefix());
+      else if (acceptWord('GENERATED')) {
+        // GENERATED { ALWAYS | BY DEFAULT } AS IDENTITY, or a generated column AS (expr)
+        if (!acceptWord('ALWAYS')) expectWords('BY', 'DEFAULT');
+        expectWord('AS');
+        if (acceptWord('IDENTITY')) constraint('auto_increment');
+        else {
+          skipGroup();
+          acceptWord('STORED', 'VIRTUAL');
+          constraint('other');
+        }
+      } else if (acceptWords('ON', 'UPDATE')) {
+        parsePrefix();
+        constraint('other');
+      } else if (acceptWord('COLLATE') || acceptWords('CHARACTER', 'SET')) {
+        parseName('a collation', true);
+        constraint('other');
+      } else if (acceptWord('IDENTITY')) {
+        if (isPunct(peek(), '(')) skipGroup();
+        constraint('auto_increment');
+      } else break;
+    }
+    return { name, dataType, constraints, span: span(start) };
+  };
+
+  const isTableConstraintStart = () => isWord(peek(), 'CONSTRAINT', 'PRIMARY', 'FOREIGN', 'UNIQUE', 'CHECK', 'KEY', 'INDEX', 'FULLTEXT', 'SPATIAL');
+
+  const parseTableConstraint = (): TableConstraint => {
+    const start = peek().start;
+    const name = acceptWord('CONSTRAINT') && !isTableConstraintStart() ? parseName('a constraint name') : null;
+    const constraint = (kind: TableConstraint['kind'], columns: string[], extra: Partial<TableConstraint> = {}): TableConstraint => ({
+      kind, name, columns, references: null, check: null, ...extra, span: span(start),
+    });
+    // UNIQUE / FOREIGN KEY / INDEX may name the index after the keyword instead of with CONSTRAINT
+    const indexName = () => (!isPunct(peek(), '(') ? parseName('an index name') : null);
+    if (acceptWords('PRIMARY', 'KEY')) return constraint('primary_key', parseNameList());
+    if (acceptWord('UNIQUE')) {
+      acceptWord('KEY', 'INDEX');
+      const named = indexName();
+      return constraint('unique', parseNameList(), { name: name ?? named });
+    }
+    if (acceptWords('FOREIGN', 'KEY')) {
+      const named = indexName();
+      const columns = parseNameList();
+      return { ...constraint('foreign_key', columns, { name: name ?? named }), references: parseReferences(), span: span(start) };
+    }
+    if (acceptWord('CHECK')) {
+      expectPunct('(');
+      const check = parseExpression();
+      expectPunct(')');
+      return constraint('check', [], { check });
+    }
+    acceptWord('FULLTEXT', 'SPATIAL');
+    expectWord('KEY', 'INDEX');
+    const named = indexName();
+    return constraint('index', parseNameList(), { name: name ?? named });
+  };
+
+  const parseCreate = (start: number): Statement => {
+    pos++;
+    const orReplace = acceptWords('OR', 'REPLACE');
+    const temporary = !!acceptWord('TEMPORARY', 'TEMP');
+
+    if (acceptWord('TABLE')) {
+      const ifNotExists = acceptWords('IF', 'NOT', 'EXISTS');
+      const table = qualified(parseQualifiedName());
+      const columns: ColumnDefinition[] = [];
+      const constraints: TableConstraint[] = [];
+      let query: SelectStatement | null = null;
+      let like: string | null = null;
+      if (acceptWord('LIKE')) {
+        like = qualified(parseQualifiedName());
+      } else if (isPunct(peek(), '(') && !isWord(peek(1), 'SELECT', 'WITH')) {
+        pos++;
+        do {
+          if (isTableConstraintStart()) constraints.push(parseTableConstraint());
+          else columns.push(parseColumnDefinition());
+        } while (acceptPunct(','));
+        expectPunct(')');
+      }
+      // Table options (ENGINE=InnoDB ...) then an optional AS SELECT
+      while (peek().type !== 'eof' && !isPunct(peek(), ';') && !isWord(peek(), 'AS', 'SELECT', 'WITH') && !isPunct(peek(), '(')) pos++;
+      acceptWord('AS');
+      if (isWord(peek(), 'SELECT', 'WITH') || isPunct(peek(), '(')) query = parseQuery();
+      if (!query && !like && columns.length === 0) fail("'('");
+      return { type: 'create_table', table, ifNotExists, temporary, columns, constraints, query, like, span: span(start) };
+    }
+    if (isWord(peek(), 'UNIQUE', 'FULLTEXT', 'SPATIAL', 'INDEX')) {
+      const unique = tokens[pos].upper === 'UNIQUE';
+      acceptWord('UNIQUE', 'FULLTEXT', 'SPATIAL');
+      expectWord('INDEX');
+      acceptWords('IF', 'NOT', 'EXISTS');
+      const name = parseName('an index name');
+      expectWord('ON');
+      const table = qualified(parseQualifiedName());
+      const columns = parseNameList();
+      return { type: 'create_index', name, table, columns, unique, span: span(start) };
+    }
+    if (acceptWord('VIEW')) {
+      acceptWords('IF', 'NOT', 'EXISTS');
+      const name = qualified(parseQualifiedName('a view name'));
+      if (isPunct(peek(), '(')) parseNameList();
+      expectWord('AS');
+      return { type: 'create_view', name, query: parseQuery(), span: span(start) };
+    }
+    if (acceptWord('DATABASE', 'SCHEMA')) {
+      const ifNotExists = acceptWords('IF', 'NOT', 'EXISTS');
+      const name = parseName('a database name');
+      skipToEnd();
+      return { type: 'create_database', name, ifNotExists, span: span(start) };
+    }
+    if (isWord(peek(), 'USER', 'ROLE')) {
+      const role = tokens[pos++].upper === 'ROLE';
+      acceptWords('IF', 'NOT', 'EXISTS');
+      const accounts = parseAccounts();
+      skipToEnd();
+      return { type: 'user', action: 'create', role, accounts, span: span(start) };
+    }
+    if (isWord(peek(), 'TRIGGER', 'PROCEDURE', 'FUNCTION', 'EVENT')) {
+      const object = tokens[pos++].upper;
+      const name = parseName(`a ${object.toLowerCase()} name`);
+      skipToEnd();
+      return { type: 'create_routine', object, name, span: span(start) };
+    }
+    if (orReplace) return fail('VIEW');
+    return fail('TABLE, INDEX, VIEW, DATABASE or USER');
+  };
+
+  const parseAlter = (start: number): Statement => {
+    pos++;
+    if (isWord(peek(), 'USER', 'ROLE')) {
+      const role = tokens[pos++].upper === 'ROLE';
+      acceptWords('IF', 'EXISTS');
+      const accounts = parseAccounts();
+      skipToEnd();
+      return { type: 'user', action: 'alter', role, accounts, span: span(start) };
+    }
+    expectWord('TABLE');
+    const table = qualified(parseQualifiedName());
+    const actions = parseList((): AlterAction => {
+      const actionStart = peek().start;
+      if (acceptWord('ADD')) {
+        if (isTableConstraintStart()) return { action: 'add_constraint', constraint: parseTableConstraint(), span: span(actionStart) };
+        acceptWord('COLUMN');
+        const column = parseColumnDefinition();
+        if (!acceptWord('FIRST') && acceptWord('AFTER')) parseName('a column name');
+        return { action: 'add_column', column, span: span(actionStart) };
+      }
+      if (acceptWord('DROP')) {
+        if (acceptWords('PRIMARY', 'KEY')) return { action: 'drop_constraint', kind: 'PRIMARY KEY', name: null, span: span(actionStart) };
+        if (acceptWords('FOREIGN', 'KEY') || acceptWord('INDEX', 'KEY', 'CONSTRAINT', 'CHECK')) {
+          const kind = sql.slice(actionStart, previousEnd()).replace(/^DROP\s+/i, '').toUpperCase();
+          return { action: 'drop_constraint', kind, name: parseName('a constraint name'), span: span(actionStart) };
+        }
+        acceptWord('COLUMN');
+        acceptWords('IF', 'EXISTS');
+        return { action: 'drop_column', name: parseName('a column name'), span: span(actionStart) };
+      }
+      if (acceptWord('MODIFY')) {
+        acceptWord('COLUMN');
+        const column = parseColumnDefinition();
+        return { action: 'modify_column', from: column.name, column, span: span(actionStart) };
+      }
+      if (acceptWord('CHANGE')) {
+        acceptWord('COLUMN');
+        const from = parseName('a column name');
+        return { action: 'modify_column', from, column: parseColumnDefinition(), span: span(actionStart) };
+      }
+      if (acceptWord('RENAME')) {
+        if (acceptWord('COLUMN')) {
+          const from = parseName('a column name');
+          expectWord('TO');
+          return { action: 'rename_column', from, to: parseName('a column name'), span: span(actionStart) };
+        }
+        if (acceptWord('INDEX', 'KEY')) {
+          parseName('an index name');
+          expectWord('TO');
+          parseName('an index name');
+          return { action: 'other', span: span(actionStart) };
+        }
+        acceptWord('TO', 'AS');
+        return { action: 'rename_table', to: qualified(parseQualifiedName()), span: span(actionStart) };
+      }
+      if (acceptWord('ALTER')) {
+        acceptWord('COLUMN');
+        parseName('a column name');
+        if (acceptWord('SET')) {
+          if (acceptWord('DEFAULT')) parsePrefix();
+          else expectWords('NOT', 'NULL');
+        } else {
+          expectWord('DROP');
+          if (!acceptWord('DEFAULT')) expectWords('NOT', 'NULL');
+        }
+        return { action: 'other', span: span(actionStart) };
+      }
+      // Table options such as ENGINE=InnoDB or AUTO_INCREMENT = 100
+      if (peek().type === 'word' && !RESERVED.has(peek().upper)) {
+        pos++;
+        acceptOperator('=');
+        parsePrefix();
+        return { action: 'other', span: span(actionStart) };
+      }
+      return fail('ADD, DROP, MODIFY, CHANGE, RENAME or ALTER');
+    });
+    return { type: 'alter_table', table, actions, span: span(start) };
+  };
+
+  const parseDrop = (start: number): Statement => {
+    pos++;
+    if (isWord(peek(), 'USER', 'ROLE')) {
+      const role = tokens[pos++].upper === 'ROLE';
+      acceptWords('IF', 'EXISTS');
+      return { type: 'user', action: 'drop', role, accounts: parseAccounts(), span: span(start) };
+    }
+    acceptWord('TEMPORARY');
+    const objectToken = expectWord('TABLE', 'VIEW', 'DATABASE', 'SCHEMA', 'INDEX');
+    const object = objectToken.upper === 'SCHEMA' ? 'DATABASE' : objectToken.upper as 'TABLE' | 'VIEW' | 'DATABASE' | 'INDEX';
+    const ifExists = acceptWords('IF', 'EXISTS');
+    const names = object === 'DATABASE' ? [parseName('a database name')] : parseList(() => qualified(parseQualifiedName()));
+    const table = object === 'INDEX' && acceptWord('ON') ? qualified(parseQualifiedName()) : null;
+    acceptWord('CASCADE', 'RESTRICT');
+    return { type: 'drop', object, names, table, ifExists, span: span(start) };
+  };
+
+  // ---- access control ----
+
+  const parseAccount = (): Account => {
+    const token = peek();
+    if (token.type !== 'string' && !isNameToken(token)) fail('a user name');
+    pos++;
+    let host = '%';
+    const next = peek();
+    if (next.type === 'variable' && next.value.startsWith('@') && !next.value.startsWith('@@')) {
+      pos++;
+      host = next.value.slice(1);
+    } else if (acceptPunct('@')) {
+      const hostToken = tokens[pos++];
+      if (hostToken.type === 'eof') fail('a host name', hostToken);
+      host = hostToken.value;
+    }
+    return { user: token.value, host };
+  };
+
+  const parseAccounts = () => {
+    const accounts = parseList(parseAccount);
+    // IDENTIFIED BY 'password' and other account options
+    while (peek().type !== 'eof' && !isPunct(peek(), ';') && !isWord(peek(), 'FROM', 'TO')) pos++;
+    return accounts;
+  };
+
+  const parseGrant = (start: number): Statement => {
+    const type = tokens[pos++].upper === 'GRANT' ? 'grant' : 'revoke';
+    const privileges: { name: string; columns: string[] }[] = [];
+    const names: string[] = [];
+    do {
+      const words: string[] = [];
+      while (peek().type === 'word' && !isWord(peek(), 'ON', 'TO', 'FROM')) words.push(tokens[pos++].upper);
+      if (words.length === 0) {
+        // Role names may be quoted
+        if (peek().type === 'string' || peek().type === 'quoted') names.push(tokens[pos++].value);
+        else fail('a privilege');
+        continue;
+      }
+      const columns = isPunct(peek(), '(') ? parseNameList() : [];
+      const name = words.join(' ').replace(/ PRIVILEGES$/, '');
+      privileges.push({ name, columns });
+      names.push(words.join(' '));
+    } while (acceptPunct(','));
+
+    let on: string | null = null;
+    if (acceptWord('ON')) {
+      acceptWord('TABLE');
+      const objectStart = peek().start;
+      // *.*, db.*, db.table, table
+      for (;;) {
+        const token = peek();
+        if (isOperator(token, '*') || isNameToken(token) || (token.type === 'word' && pos > 0 && isPunct(tokens[pos - 1], '.'))) pos++;
+        else fail('a table name');
+        if (!acceptPunct('.')) break;
+      }
+      on = sql.slice(objectStart, previousEnd()).replace(/\s+/g, '');
+    }
+    expectWord(type === 'grant' ? 'TO' : 'FROM');
+    const accounts = parseList(parseAccount);
+    const withGrantOption = acceptWords('WITH', 'GRANT', 'OPTION') || acceptWords('WITH', 'ADMIN', 'OPTION');
+    // Without ON, the names are roles being granted to users
+    return on === null
+      ? { type, privileges: [], roles: names, on, accounts, withGrantOption, span: span(start) }
+      : { type, privileges, roles: [], on, accounts, withGrantOption, span: span(start) };
+  };
+
+  // ---- statements ----
+
+  const parseStatement = (): Statement => {
+    const token = peek();
+    const start = token.start;
+    if (isPunct(token, '(')) return parseQuery();
+    if (token.type !== 'word') return fail('a statement');
+
+    switch (token.upper) {
+      case 'SELECT':
+      case 'WITH':
+        return parseQuery();
+      case 'INSERT':
+      case 'REPLACE':
+        return parseInsert(start);
+      case 'UPDATE':
+        return parseUpdate(start);
+      case 'DELETE':
+        return parseDelete(start);
+      case 'CREATE':
+        return parseCreate(start);
+      case 'ALTER':
+        return parseAlter(start);
+      case 'DROP':
+        return parseDrop(start);
+      case 'TRUNCATE': {
+        pos++;
+        acceptWord('TABLE');
+        return { type: 'truncate', table: qualified(parseQualifiedName()), span: span(start) };
+      }
+      case 'RENAME': {
+        pos++;
+        expectWord('TABLE');
+        const renames = parseList(() => {
+          const from = qualified(parseQualifiedName());
+          expectWord('TO');
+          return { from, to: qualified(parseQualifiedName()) };
+        });
+        return { type: 'rename_table', renames, span: span(start) };
+      }
+      case 'GRANT':
+      case 'REVOKE':
+        return parseGrant(start);
+      case 'START':
+      case 'BEGIN': {
+        pos++;
+        if (token.upper === 'START') expectWord('TRANSACTION');
+        else acceptWord('WORK', 'TRANSACTION');
+        skipToEnd();
+        return { type: 'transaction', action: 'begin', savepoint: null, span: span(start) };
+      }
+      case 'COMMIT':
+        pos++;
+        acceptWord('WORK');
+        return { type: 'transaction', action: 'commit', savepoint: null, span: span(start) };
+      case 'ROLLBACK': {
+        pos++;
+        acceptWord('WORK');
+        let savepoint: string | null = null;
+        if (acceptWord('TO')) {
+          acceptWord('SAVEPOINT');
+          savepoint = parseName('a savepoint name');
+        }
+        return { type: 'transaction', action: 'rollback', savepoint, span: span(start) };
+      }
+      case 'SAVEPOINT':
+        pos++;
+        return { type: 'transaction', action: 'savepoint', savepoint: parseName('a savepoint name'), span: span(start) };
+      case 'RELEASE':
+        pos++;
+        expectWord('SAVEPOINT');
+        return { type: 'transaction', action: 'release', savepoint: parseName('a savepoint name'), span: span(start) };
+      case 'USE':
+        pos++;
+        return { type: 'use', database: parseName('a database name'), span: span(start) };
+      case 'SHOW': {
+        pos++;
+        const whatStart = peek().start;
+        if (peek().type === 'eof') fail('what to show');
+        skipToEnd();
+        return { type: 'show', what: sql.slice(whatStart, previousEnd()).replace(/\s+/g, ' '), span: span(start) };
+      }
+      case 'DESCRIBE':
+      case 'DESC':
+      case 'EXPLAIN':
+        pos++;
+        if (token.upper === 'EXPLAIN' && isWord(peek(), 'SELECT', 'WITH', 'INSERT', 'UPDATE', 'DELETE', 'REPLACE')) {
+          return { type: 'explain', statement: parseStatement(), span: span(start) };
+        }
+        return { type: 'describe', table: qualified(parseQualifiedName()), span: span(start) };
+      case 'SET': {
+        pos++;
+        if (isWord(peek(), 'PASSWORD', 'TRANSACTION', 'NAMES', 'ROLE') || isWord(peek(1), 'TRANSACTION')) {
+          skipToEnd();
+          return { type: 'set', assignments: [], span: span(start) };
+        }
+        const assignments = parseList((): Assignment => {
+          const itemStart = peek().start;
+          acceptWord('GLOBAL', 'SESSION', 'LOCAL');
+          const name = peek().type === 'variable' ? tokens[pos++].value : parseName('a variable name', true);
+          if (!acceptOperator('=') && !acceptOperator(':=') && !acceptWord('TO')) fail("'='");
+          return { column: name, value: parseExpression(), span: span(itemStart) };
+        });
+        return { type: 'set', assignments, span: span(start) };
+      }
+      default:
+        return fail('a statement');
+    }
+  };
+
+  const statement = parseStatement();
+  acceptPunct(';');
+  if (peek().type !== 'eof') fail('end of statement');
+  return statement;
+}
+
+export function tryParseSQL(sql: string, dialect: Dialect = 'mysql'): { statement: Statement | null; error: SQLSyntaxError | null } {
+  try {
+    return { statement: parseSQL(sql, dialect), error: null };
+  } catch (err) {
+    if (err instanceof SQLSyntaxError) return { statement: null, error: err };
+    throw err;
+  }
+}
+
+// Source text of a node, as the user wrote it
+export const sourceOf = (sql: string, node: { span: Span }) => sql.slice(node.span.start, node.span.end);
+
+// Table and column names are written bare unless they need quoting
+export const quoteName = (name: string, dialect: Dialect = 'mysql') => {
+  if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !RESERVED.has(name.toUpperCase())) return name;
+  return dialect === 'mysql' ? `\`${name.replace(/`/g, '``')}\`` : `"${name.replace(/"/g, '""')}"`;
+};
@@ -0,0 +1,419 @@
+import { DatabaseSnapshot } from './sqlSnapshot';
+import { findTable } from './sqlCatalog';
+
+export type Privilege =
+  | 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE'
+  | 'CREATE' | 'DROP' | 'ALTER' | 'INDEX' | 'REFERENCES'
+  | 'CREATE USER' | 'GRANT OPTION';
+
+export interface Grant {
+  privilege: Privilege;
+  // '*' = every database / every table
+  database: string;
+  table: string;
+  // Column-level grant; null = whole table
+  columns: string[] | null;
+}
+
+export interface Account {
+  user: string;
+  host: string;
+  isRole: boolean;
+  grants: Grant[];
+  // Roles granted to this account (GRANT role TO user)
+  roles: string[];
+}
+
+export interface Session {
+  user: string;
+  host: string;
+  activeRoles: string[];
+}
+
+export const ROOT_SESSION: Session = { user: 'root', host: 'localhost', activeRoles: [] };
+
+const TABLE_PRIVILEGES: Privilege[] = ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'CREATE', 'DROP', 'ALTER', 'INDEX', 'REFERENCES'];
+const COLUMN_PRIVILEGES: Privilege[] = ['SELECT', 'INSERT', 'UPDATE', 'REFERENCES'];
+const STORAGE_KEY = 'sqlMasterPro_accounts';
+
+export function loadAccounts(): Account[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveAccounts(accounts: Account[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(accounts));
+}
+
+export const isRoot = (session: Session) => session.user === 'root';
+export const formatAccount = (user: string, host: string) => `'${user}'@'${host}'`;
+const quoteAccount = (user: string, host: string) => `\`${user}\`@\`${host}\``;
+const quoteIdent = (name: string) => (name === '*' ? '*' : `\`${name}\``);
+const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function findAccount(accounts: Account[], user: string): Account | undefined {
+  return accounts.find(a => same(a.user, user));
+}
+
+// ---------- Parsing ----------
+
+export interface AccountName {
+  user: string;
+  host: string;
+}
+
+export interface GrantLevel {
+  database: string | null; // null = current database
+  table: string;
+}
+
+export type PrivilegeCommand =
+  | { type: 'createUser'; accounts: AccountName[]; isRole: boolean; ifNotExists: boolean }
+  | { type: 'dropUser'; accounts: AccountName[]; isRole: boolean; ifExists: boolean }
+  | { type: 'grant'; privileges: { privilege: Privilege; columns: string[] | null }[]; level: GrantLevel; accounts: AccountName[]; withGrantOption: boolean }
+  | { type: 'revoke'; privileges: { privilege: Privilege; columns: string[] | null }[]; level: GrantLevel; accounts: AccountName[] }
+  | { type: 'revokeAll'; accounts: AccountName[] }
+  | { type: 'grantRole'; roles: string[]; accounts: AccountName[] }
+  | { type: 'revokeRole'; roles: string[]; accounts: AccountName[] }
+  | { type: 'showGrants'; account: AccountName | null; using: string[] }
+  | { type: 'setRole'; roles: string[] | 'ALL' | 'NONE' | 'DEFAULT' }
+  | { type: 'currentUser'; column: string }
+  | { type: 'flush' };
+
+const IDENT = '(?:`[^`]+`|\'[^\']+\'|"[^"]+"|[\\w-]+)';
+const ACCOUNT = `${IDENT}(?:\\s*@\\s*${IDENT}|@[\\w.%-]+)?`;
+const ACCOUNT_LIST = `${ACCOUNT}(?:\\s*,\\s*${ACCOUNT})*`;
+const unquote = (text: string) => text.trim().replace(/^[`'"]|[`'"]$/g, '');
+
+function parseAccounts(text: string, defaultHost = '%'): AccountName[] {
+  return (text.match(new RegExp(ACCOUNT, 'g')) ?? []).map(item => {
+    const [user, host] = item.split(/\s*@\s*/);
+    return { user: unquote(user), host: host ? unquote(host) : defaultHost };
+  });
+}
+
+// Split on commas that are not inside parentheses: "SELECT (a, b), INSERT"
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')') depth--;
+    else if (text[i] === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(p => p.trim()).filter(Boolean);
+}
+
+function parsePrivileges(text: string): { privilege: Privilege; columns: string[] | null }[] | null {
+  const result: { privilege: Privilege; columns: string[] | null }[] = [];
+  for (const part of splitTopLevel(text)) {
+    const match = part.match(/^([A-Z ]+?)\s*(?:\(([^)]*)\))?$/i);
+    if (!match) return null;
+    const name = match[1].trim().toUpperCase().replace(/\s+/g, ' ');
+    const columns = match[2] ? match[2].split(',').map(unquote) : null;
+    if (name === 'ALL' || name === 'ALL PRIVILEGES') {
+      TABLE_PRIVILEGES.forEach(privilege => result.push({ privilege, columns: null }));
+    } else if (name === 'USAGE') {
+      continue;
+    } else if ([...TABLE_PRIVILEGES, 'CREATE USER', 'GRANT OPTION'].includes(name)) {
+      result.push({ privilege: name as Privilege, columns });
+    } else {
+      return null;
+    }
+  }
+  return result;
+}
+
+function parseLevel(text: string): GrantLevel {
+  const parts = text.replace(/^TABLE\s+/i, '').split('.').map(unquote);
+  return parts.length === 2 ? { database: parts[0], table: parts[1] } : { database: null, table: parts[0] };
+}
+
+// Privileges are named in the statement; the role form is GRANT r1, r2 TO user
+const looksLikeRoleList = (text: string) => parsePrivileges(text) === null;
+
+export function parsePrivilegeCommand(sql: string): PrivilegeCommand | null {
+  const text = sql.trim().replace(/;\s*$/, '').replace(/\s+/g, ' ');
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(new RegExp(`^CREATE (USER|ROLE) (IF NOT EXISTS )?(${ACCOUNT_LIST})(?: IDENTIFIED (?:WITH \\w+ )?BY '[^']*')*$`, 'i')))) {
+    const isRole = match[1].toUpperCase() === 'ROLE';
+    return { type: 'createUser', isRole, ifNotExists: !!match[2], accounts: parseAccounts(match[3]) };
+  }
+  if ((match = text.match(new RegExp(`^DROP (USER|ROLE) (IF EXISTS )?(${ACCOUNT_LIST})$`, 'i')))) {
+    return { type: 'dropUser', isRole: match[1].toUpperCase() === 'ROLE', ifExists: !!match[2], accounts: parseAccounts(match[3]) };
+  }
+  if ((match = text.match(new RegExp(`^GRANT (.+?) ON ((?:TABLE )?[\`\\w*.-]+) TO (${ACCOUNT_LIST})( WITH GRANT OPTION)?$`, 'i')))) {
+    const privileges = parsePrivileges(match[1]);
+    if (!privileges) return null;
+    if (match[4]) privileges.push({ privilege: 'GRANT OPTION', columns: null });
+    return { type: 'grant', privileges, level: parseLevel(match[2]), accounts: parseAccounts(match[3]), withGrantOption: !!match[4] };
+  }
+  if ((match = text.match(new RegExp(`^REVOKE (.+?) ON ((?:TABLE )?[\`\\w*.-]+) FROM (${ACCOUNT_LIST})$`, 'i')))) {
+    const privileges = parsePrivileges(match[1]);
+    if (!privileges) return null;
+    return { type: 'revoke', privileges, level: parseLevel(match[2]), accounts: parseAccounts(match[3]) };
+  }
+  if ((match = text.match(new RegExp(`^REVOKE ALL(?: PRIVILEGES)?, GRANT OPTION FROM (${ACCOUNT_LIST})$`, 'i')))) {
+    return { type: 'revokeAll', accounts: parseAccounts(match[1]) };
+  }
+  if ((match = text.match(new RegExp(`^GRANT (.+?) TO (${ACCOUNT_LIST})$`, 'i'))) && looksLikeRoleList(match[1])) {
+    return { type: 'grantRole', roles: parseAccounts(match[1]).map(a => a.user), accounts: parseAccounts(match[2]) };
+  }
+  if ((match = text.match(new RegExp(`^REVOKE (.+?) FROM (${ACCOUNT_LIST})$`, 'i'))) && looksLikeRoleList(match[1])) {
+    return { type: 'revokeRole', roles: parseAccounts(match[1]).map(a => a.user), accounts: parseAccounts(match[2]) };
+  }
+  if ((match = text.match(new RegExp(`^SHOW GRANTS(?: FOR (${ACCOUNT}|CURRENT_USER(?:\\(\\))?))?(?: USING (.+))?$`, 'i')))) {
+    const account = match[1] && !/^CURRENT_USER/i.test(match[1]) ? parseAccounts(match[1])[0] : null;
+    return { type: 'showGrants', account, using: match[2] ? parseAccounts(match[2]).map(a => a.user) : [] };
+  }
+  if ((match = text.match(/^SET ROLE (.+)$/i))) {
+    const value = match[1].trim().toUpperCase();
+    if (value === 'ALL' || value === 'NONE' || value === 'DEFAULT') return { type: 'setRole', roles: value };
+    return { type: 'setRole', roles: parseAccounts(match[1]).map(a => a.user) };
+  }
+  if ((match = text.match(/^SELECT (CURRENT_USER|USER|CURRENT_ROLE)\(\)$/i))) {
+    return { type: 'currentUser', column: `${match[1].toUpperCase()}()` };
+  }
+  if (/^FLUSH PRIVILEGES$/i.test(text)) return { type: 'flush' };
+  return null;
+}
+
+// ---------- Grants ----------
+
+function levelMatches(grant: Grant, database: string, table: string) {
+  return (grant.database === '*' || same(grant.database, database)) && (grant.table === '*' || same(grant.table, table));
+}
+
+// The account's own grants plus those of its active roles (roles can hold roles too)
+export function effectiveGrants(accounts: Account[], session: Session): Grant[] {
+  const seen = new Set<string>();
+  const collect = (name: string, includeRoles: string[] | null): Grant[] => {
+    const account = findAccount(accounts, name);
+    if (!account || seen.has(account.user.toLowerCase())) return [];
+    seen.add(account.user.toLowerCase());
+    const roles = includeRoles ?? account.roles;
+    return [...account.grants, ...roles.flatMap(role => collect(role, null))];
+  };
+  return collect(session.user, session.activeRoles);
+}
+
+export function addGrants(account: Account, privileges: { privilege: Privilege; columns: string[] | null }[], database: string, table: string) {
+  for (const { privilege, columns } of privileges) {
+    const existing = account.grants.find(g => g.privilege === privilege && same(g.database, database) && same(g.table, table));
+    if (!existing) {
+      account.grants.push({ privilege, database, table, columns });
+    } else if (existing.columns && columns) {
+      existing.columns = [...new Set([...existing.columns, ...columns])];
+    } else {
+      existing.columns = null;
+    }
+  }
+}
+
+// Returns false when the account had none of these privileges at that level
+export function removeGrants(account: Account, privileges: { privilege: Privilege; columns: string[] | null }[], database: string, table: string): boolean {
+  let removed = false;
+  for (const { privilege, columns } of privileges) {
+    const existing = account.grants.find(g => g.privilege === privilege && same(g.database, database) && same(g.table, table));
+    if (!existing) continue;
+    removed = true;
+    if (columns && existing.columns) {
+      existing.columns = existing.columns.filter(c => !columns.some(col => same(c, col)));
+      if (existing.columns.length > 0) continue;
+    }
+    account.grants = account.grants.filter(g => g !== existing);
+  }
+  return removed;
+}
+
+// Same layout as MySQL's SHOW GRANTS: USAGE first, one line per level, then roles
+export function formatGrants(account: Account, extraGrants: Grant[] = []): string[] {
+  const target = quoteAccount(account.user, account.host);
+  const lines = [`GRANT USAGE ON *.* TO ${target}`];
+  const levels = new Map<string, Grant[]>();
+  for (const grant of [...account.grants, ...extraGrants]) {
+    const key = `${quoteIdent(grant.database)}.${quoteIdent(grant.table)}`;
+    levels.set(key, [...(levels.get(key) ?? []), grant]);
+  }
+
+  levels.forEach((grants, level) => {
+    const privileges = grants
+      .filter(g => g.privilege !== 'GRANT OPTION')
+      .map(g => (g.columns ? `${g.privilege} (${g.columns.map(quoteIdent).join(', ')})` : g.privilege));
+    const withGrant = grants.some(g => g.privilege === 'GRANT OPTION') ? ' WITH GRANT OPTION' : '';
+    if (privileges.length > 0) lines.push(`GRANT ${[...new Set(privileges)].join(', ')} ON ${level} TO ${target}${withGrant}`);
+  });
+
+  if (account.roles.length > 0) {
+    lines.push(`GRANT ${account.roles.map(r => quoteAccount(r, '%')).join(',')} TO ${target}`);
+  }
+  return lines;
+}
+
+// ---------- Access checks ----------
+
+export interface AccessRequirement {
+  privilege: Privilege | 'ANY';
+  table: string;
+  // Columns the statement touches; null = whole table
+  columns: string[] | null;
+}
+
+const KEYWORDS = new Set([
+  'SELECT', 'FROM', 'WHERE', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'ON', 'USING', 'AS',
+  'GROUP', 'ORDER', 'BY', 'HAVING', 'LIMIT', 'OFFSET', 'UNION', 'ALL', 'AND', 'OR', 'NOT', 'SET', 'VALUES', 'NATURAL',
+]);
+
+// Strings and comments never name tables or columns
+function stripLiterals(sql: string): string {
+  return sql
+    .replace(/'(?:[^'\\]|\\.|'')*'|"(?:[^"\\]|\\.|"")*"/g, "''")
+    .replace(/--[^\n]*|#[^\n]*|\/\*[\s\S]*?\*\//g, ' ');
+}
+
+const tableName = (text: string) => unquote(text.split('.').pop()!);
+
+// Tables named after FROM / JOIN, including comma lists "FROM a x, b y"
+function readTables(sql: string): string[] {
+  const tables: string[] = [];
+  const fromClause = /\b(?:FROM|JOIN)\s+((?:`[^`]+`|[\w.]+)(?:\s+(?:AS\s+)?\w+)?(?:\s*,\s*(?:`[^`]+`|[\w.]+)(?:\s+(?:AS\s+)?\w+)?)*)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = fromClause.exec(sql))) {
+    for (const item of match[1].split(',')) {
+      const name = item.trim().split(/\s+/)[0];
+      if (name && !KEYWORDS.has(name.toUpperCase())) tables.push(tableName(name));
+    }
+  }
+  return tables;
+}
+
+// Names defined in WITH are not real tables
+function readCteNames(sql: string): string[] {
+  if (!/^\s*WITH\b/i.test(sql)) return [];
+  return [...sql.matchAll(/(?:\bWITH(?:\s+RECURSIVE)?|,)\s*(`[^`]+`|\w+)(?:\s*\([^)]*\))?\s+AS\s*\(/gi)].map(m => unquote(m[1]));
+}
+
+// Identifiers in the statement that are columns of the table; `*` means all of them
+function readColumns(sql: string, table: string, catalog: DatabaseSnapshot): string[] | null {
+  const info = findTable(catalog, table);
+  if (!info) return null;
+  const body = sql.replace(/\bCOUNT\s*\(\s*\*\s*\)/gi, 'COUNT(1)');
+  if (/(?:\bSELECT\s+(?:DISTINCT\s+)?|,\s*)(?:[\w`]+\.)?\*/i.test(body)) {
+    return info.columns.map(c => c.name);
+  }
+  const words = new Set((sql.match(/`[^`]+`|\b[A-Za-z_]\w*\b/g) ?? []).map(w => unquote(w).toLowerCase()));
+  return info.columns.map(c => c.name).filter(name => words.has(name.toLowerCase()));
+}
+
+// Which privileges a statement needs on which tables (best effort, regex based)
+export function analyzeStatement(sql: string, catalog: DatabaseSnapshot): AccessRequirement[] {
+  const text = stripLiterals(sql).trim().replace(/;\s*$/, '');
+  const ctes = readCteNames(text);
+  const realTable = (name: string) => !ctes.some(cte => same(cte, name));
+  const reads = (exclude: string[] = []) => readTables(text)
+    .filter(t => realTable(t) && !exclude.some(e => same(e, t)))
+    .map(t => ({ privilege: 'SELECT' as const, table: t, columns: readColumns(text, t, catalog) }));
+  let match: RegExpMatchArray | null;
+
+  if (/^(SELECT|WITH|\()/i.test(text)) return reads();
+
+  if ((match = text.match(/^(INSERT|REPLACE)\s+(?:IGNORE\s+)?(?:INTO\s+)?(`[^`]+`|[\w.]+)\s*(?:\(([^)]*)\))?/i))) {
+    const table = tableName(match[2]);
+    const columns = match[3] ? match[3].split(',').map(c => unquote(c.trim())) : findTable(catalog, table)?.columns.map(c => c.name) ?? null;
+    const needs: AccessRequirement[] = [{ privilege: 'INSERT', table, columns }];
+    if (match[1].toUpperCase() === 'REPLACE') needs.push({ privilege: 'DELETE', table, columns: null });
+    return [...needs, ...reads([table])];
+  }
+  if ((match = text.match(/^UPDATE\s+(?:LOW_PRIORITY\s+|IGNORE\s+)*(`[^`]+`|[\w.]+)(?:\s+(?:AS\s+)?\w+)?\s+SET\s+([\s\S]+?)(?:\s+WHERE\s|\s+ORDER\s|\s+LIMIT\s|$)/i))) {
+    const table = tableName(match[1]);
+    const columns = splitTopLevel(match[2]).map(a => unquote(a.split('=')[0].trim().split('.').pop()!));
+    return [{ privilege: 'UPDATE', table, columns }, ...reads([table])];
+  }
+  if ((match = text.match(/^DELETE\s+(?:LOW_PRIORITY\s+|QUICK\s+|IGNORE\s+)*FROM\s+(`[^`]+`|[\w.]+)/i))) {
+    const table = tableName(match[1]);
+    return [{ privilege: 'DELETE', table, columns: null }, ...reads([table])];
+  }
+  if ((match = text.match(/^CREATE\s+(?:TEMPORARY\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(`[^`]+`|[\w.]+)/i))) {
+    return [{ privilege: 'CREATE', table: tableName(match[1]), columns: null }, ...reads()];
+  }
+  if ((match = text.match(/^CREATE\s+(?:UNIQUE\s+|FULLTEXT\s+)?INDEX\s+\S+\s+ON\s+(`[^`]+`|[\w.]+)/i))
+    || (match = text.match(/^DROP\s+INDEX\s+\S+\s+ON\s+(`[^`]+`|[\w.]+)/i))) {
+    return [{ privilege: 'INDEX', table: tableName(match[1]), columns: null }];
+  }
+  if ((match = text.match(/^CREATE\s+(?:OR\s+REPLACE\s+)?VIEW\s+(`[^`]+`|[\w.]+)/i))) {
+    return [{ privilege: 'CREATE', table: tableName(match[1]), columns: null }, ...reads()];
+  }
+  if ((match = text.match(/^DROP\s+(?:TEMPORARY\s+)?(?:TABLE|VIEW)\s+(?:IF\s+EXISTS\s+)?(.+)$/i))) {
+    return match[1].split(',').map(t => ({ privilege: 'DROP' as const, table: tableName(t.trim()), columns: null }));
+  }
+  if ((match = text.match(/^TRUNCATE\s+(?:TABLE\s+)?(`[^`]+`|[\w.]+)/i))) {
+    return [{ privilege: 'DROP', table: tableName(match[1]), columns: null }];
+  }
+  if ((match = text.match(/^ALTER\s+TABLE\s+(`[^`]+`|[\w.]+)/i))) {
+    return [{ privilege: 'ALTER', table: tableName(match[1]), columns: null }];
+  }
+  if ((match = text.match(/^RENAME\s+TABLE\s+(`[^`]+`|[\w.]+)\s+TO\s+(`[^`]+`|[\w.]+)/i))) {
+    return [
+      { privilege: 'ALTER', table: tableName(match[1]), columns: null },
+      { privilege: 'DROP', table: tableName(match[1]), columns: null },
+      { privilege: 'CREATE', table: tableName(match[2]), columns: null },
+      { privilege: 'INSERT', table: tableName(match[2]), columns: null },
+    ];
+  }
+  if ((match = text.match(/^(?:DESC|DESCRIBE|EXPLAIN)\s+(`[^`]+`|[\w.]+)$/i))
+    || (match = text.match(/^SHOW\s+(?:FULL\s+)?(?:COLUMNS|FIELDS|INDEX|INDEXES|KEYS)\s+(?:FROM|IN)\s+(`[^`]+`|[\w.]+)/i))
+    || (match = text.match(/^SHOW\s+CREATE\s+TABLE\s+(`[^`]+`|[\w.]+)/i))) {
+    return [{ privilege: 'ANY', table: tableName(match[1]), columns: null }];
+  }
+  return [];
+}
+
+export const accessDenied = (command: string, session: Session, table: string) =>
+  `ERROR 1142 (42000): ${command} command denied to user ${formatAccount(session.user, session.host)} for table '${table}'`;
+
+export const columnAccessDenied = (command: string, session: Session, column: string, table: string) =>
+  `ERROR 1143 (42000): ${command} command denied to user ${formatAccount(session.user, session.host)} for column '${column}' in table '${table}'`;
+
+export const databaseAccessDenied = (session: Session, database: string) =>
+  `ERROR 1044 (42000): Access denied for user ${formatAccount(session.user, session.host)} to database '${database}'`;
+
+export const needsPrivilege = (privilege: string) =>
+  `ERROR 1227 (42000): Access denied; you need (at least one of) the ${privilege} privilege(s) for this operation`;
+
+export function hasPrivilege(grants: Grant[], privilege: Privilege, database: string, table = '*'): boolean {
+  return grants.some(g => g.privilege === privilege && g.columns === null && levelMatches(g, database, table));
+}
+
+export function hasAnyPrivilegeOn(grants: Grant[], database: string, table?: string): boolean {
+  return grants.some(g => g.privilege !== 'GRANT OPTION' && (g.database === '*' || same(g.database, database)) && (!table || g.table === '*' || same(g.table, table)));
+}
+
+// First requirement the grants don't satisfy, as a MySQL error message
+export function checkRequirements(grants: Grant[], session: Session, database: string, needs: AccessRequirement[]): string | null {
+  for (const need of needs) {
+    if (need.privilege === 'ANY') {
+      if (!hasAnyPrivilegeOn(grants, database, need.table)) return accessDenied('SELECT', session, need.table);
+      continue;
+    }
+    if (hasPrivilege(grants, need.privilege, database, need.table)) continue;
+
+    const columnGrants = grants.filter(g => g.privilege === need.privilege && g.columns && levelMatches(g, database, need.table));
+    if (columnGrants.length === 0 || !need.columns || !COLUMN_PRIVILEGES.includes(need.privilege)) {
+      return accessDenied(need.privilege, session, need.table);
+    }
+    const allowed = new Set(columnGrants.flatMap(g => g.columns!.map(c => c.toLowerCase())));
+    const missing = need.columns.find(c => !allowed.has(c.toLowerCase()));
+    if (missing) return columnAccessDenied(need.privilege, session, missing, need.table);
+  }
+  return null;
+}
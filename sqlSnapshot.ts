@@ -0,0 +1,244 @@
+import alasql from 'alasql';
+import { sourceOf, tryParseSQL } from './sqlParser';
+import { splitStatements } from './sqlSplit';
+
+export interface ColumnSnapshot {
+  name: string;
+  type: string;
+  size?: number;
+  precision?: number;
+  notNull: boolean;
+  unique: boolean;
+  defaultValue?: string;
+  autoIncrement?: { next: number; step: number };
+  references?: { table: string; column: string };
+}
+
+export interface IndexSnapshot {
+  name: string;
+  columns: string[];
+}
+
+export interface CheckSnapshot {
+  name?: string;
+  expression: string;
+}
+
+export interface TableSnapshot {
+  name: string;
+  columns: ColumnSnapshot[];
+  primaryKey: string[];
+  indexes: IndexSnapshot[];
+  // UNIQUE over several columns; a single-column one is ColumnSnapshot.unique.
+  // Both are missing from snapshots saved before they were captured
+  uniqueKeys?: string[][];
+  checks?: CheckSnapshot[];
+  rows: Record<string, unknown>[];
+}
+
+export interface DatabaseSnapshot {
+  tables: TableSnapshot[];
+  savedAt: number;
+}
+
+// alasql keeps its catalog on the table objects but only types `data`
+interface AlasqlColumn {
+  columnid: string;
+  dbtypeid?: string;
+  dbsize?: number;
+  dbprecision?: number;
+  notnull?: boolean;
+  primarykey?: boolean;
+  identity?: { value: number; step: number };
+  foreignkey?: { tableid: string; columnid: string };
+}
+
+interface AlasqlTable {
+  data: Record<string, unknown>[];
+  columns: AlasqlColumn[];
+  pk?: { columns: string[] };
+  uk?: { columns: (string | { expression?: { columnid?: string } })[] }[];
+  inddefs?: Record<string, { rightfns: string }>;
+  defaultfns?: string;
+  identities?: Record<string, { value: number; step: number }>;
+  // CHECKs and foreign keys compiled to functions; `sql` is added by noteCheckConstraints
+  checks?: { id?: string; fk?: boolean; sql?: string }[];
+}
+
+const quoteIdent = (name: string) => `\`${name.replace(/`/g, '``')}\``;
+
+// alasql compiles DEFAULT clauses to JS source; only plain literals and
+// no-argument function calls can be turned back into SQL.
+function parseDefaults(defaultfns?: string): Record<string, string> {
+  const defaults: Record<string, string> = {};
+  if (!defaultfns) return defaults;
+
+  const entry = /"([^"]+)":('(?:[^'\\]|\\.)*'|-?\d+(?:\.\d+)?|true|false|null|alasql\.stdfn\["(\w+)"\]\(\))/g;
+  let match: RegExpExecArray | null;
+  while ((match = entry.exec(defaultfns))) {
+    const [, column, value, fn] = match;
+    if (fn) {
+      defaults[column] = `${fn}()`;
+    } else if (value.startsWith("'")) {
+      const text = value.slice(1, -1).replace(/\\(.)/g, '$1');
+      defaults[column] = `'${text.replace(/'/g, "''")}'`;
+    } else {
+      defaults[column] = value.toUpperCase();
+    }
+  }
+  return defaults;
+}
+
+// alasql compiles CHECK constraints and keeps no SQL for them, so the source text of each
+// CHECK in a CREATE TABLE is attached to its compiled check for captureSnapshot to save
+export function noteCheckConstraints(sql: string): void {
+  const { statements, remainder, remainderLine } = splitStatements(sql);
+  if (remainder) statements.push({ sql: remainder, line: remainderLine });
+  for (const { sql: text } of statements) {
+    if (!/^CREATE\s+(?:TEMPORARY\s+)?TABLE\b/i.test(text)) continue;
+    const { statement } = tryParseSQL(text);
+    if (statement?.type !== 'create_table') continue;
+    const table = (alasql.tables as unknown as Record<string, AlasqlTable>)[statement.table.replace(/^.*\./, '')];
+    // alasql adds column CHECKs in column order, then the table's own CHECK constraints
+    const expressions = [
+      ...statement.columns.flatMap(col => col.constraints.filter(c => c.kind === 'check' && c.value).map(c => sourceOf(text, c.value!))),
+      ...statement.constraints.filter(c => c.kind === 'check' && c.check).map(c => sourceOf(text, c.check!)),
+    ];
+    const checks = (table?.checks ?? []).filter(check => !check.fk);
+    // CREATE TABLE IF NOT EXISTS on an existing table, or a CHECK alasql didn't compile
+    if (checks.length !== expressions.length || checks.some(check => check.sql !== undefined)) continue;
+    checks.forEach((check, i) => (check.sql = expressions[i].trim()));
+  }
+}
+
+const columnName = (col: string | { expression?: { columnid?: string } }) =>
+  typeof col === 'string' ? col : col.expression?.columnid;
+
+function captureTable(name: string, table: AlasqlTable): TableSnapshot {
+  const defaults = parseDefaults(table.defaultfns);
+  const primaryKey = table.pk?.columns ?? table.columns.filter(c => c.primarykey).map(c => c.columnid);
+  const uniqueColumns = new Set((table.uk ?? []).filter(uk => uk.columns.length === 1).map(uk => columnName(uk.columns[0])));
+  const uniqueKeys = (table.uk ?? [])
+    .filter(uk => uk.columns.length > 1)
+    .map(uk => uk.columns.map(columnName))
+    .filter((key): key is string[] => key.every(col => col !== undefined));
+  const checks = (table.checks ?? [])
+    .filter(check => !check.fk && check.sql !== undefined)
+    .map(check => ({ name: check.id, expression: check.sql! }));
+
+  const columns: ColumnSnapshot[] = table.columns.map(col => {
+    const identity = table.identities?.[col.columnid] ?? col.identity;
+    return {
+      name: col.columnid,
+      type: (col.dbtypeid || 'VARCHAR').toUpperCase(),
+      size: col.dbsize,
+      precision: col.dbprecision,
+      notNull: !!col.notnull,
+      unique: uniqueColumns.has(col.columnid),
+      defaultValue: defaults[col.columnid],
+      autoIncrement: identity ? { next: identity.value, step: identity.step } : undefined,
+      references: col.foreignkey ? { table: col.foreignkey.tableid, column: col.foreignkey.columnid } : undefined,
+    };
+  });
+
+  const indexes = Object.entries(table.inddefs ?? {}).map(([indexName, def]) => ({
+    name: indexName,
+    columns: Array.from(def.rightfns.matchAll(/r\['([^']+)'\]/g), m => m[1]),
+  }));
+
+  return {
+    name,
+    columns,
+    primaryKey,
+    indexes,
+    uniqueKeys,
+    checks,
+    rows: table.data.map(row => ({ ...row })),
+  };
+}
+
+// Read schema + rows of the current alasql database
+export function captureSnapshot(): DatabaseSnapshot {
+  const tables = alasql.tables as unknown as Record<string, AlasqlTable>;
+  return {
+    tables: Object.entries(tables).map(([name, table]) => captureTable(name, table)),
+    savedAt: Date.now(),
+  };
+}
+
+export function formatColumnType(col: ColumnSnapshot): string {
+  if (col.size === undefined) return col.type;
+  return col.precision === undefined ? `${col.type}(${col.size})` : `${col.type}(${col.size},${col.precision})`;
+}
+
+export function buildCreateTable(table: TableSnapshot): string {
+  const definitions = table.columns.map(col => {
+    const parts = [quoteIdent(col.name), formatColumnType(col)];
+    if (col.notNull) parts.push('NOT NULL');
+    if (col.autoIncrement) parts.push('AUTO_INCREMENT');
+    if (col.defaultValue !== undefined) parts.push(`DEFAULT ${col.defaultValue}`);
+    if (col.unique) parts.push('UNIQUE');
+    if (col.references) parts.push(`REFERENCES ${quoteIdent(col.references.table)}(${quoteIdent(col.references.column)})`);
+    return parts.join(' ');
+  });
+
+  if (table.primaryKey.length > 0) {
+    definitions.push(`PRIMARY KEY (${table.primaryKey.map(quoteIdent).join(', ')})`);
+  }
+  for (const key of table.uniqueKeys ?? []) {
+    definitions.push(`UNIQUE (${key.map(quoteIdent).join(', ')})`);
+  }
+  for (const check of table.checks ?? []) {
+    definitions.push(`${check.name ? `CONSTRAINT ${quoteIdent(check.name)} ` : ''}CHECK (${check.expression})`);
+  }
+
+  return `CREATE TABLE ${quoteIdent(table.name)} (${definitions.join(', ')})`;
+}
+
+// Referenced tables must exist before a REFERENCES clause is compiled
+function sortByDependencies(tables: TableSnapshot[]): TableSnapshot[] {
+  const byName = new Map(tables.map(t => [t.name, t]));
+  const sorted: TableSnapshot[] = [];
+  const visited = new Set<string>();
+
+  const visit = (table: TableSnapshot) => {
+    if (visited.has(table.name)) return;
+    visited.add(table.name);
+    for (const col of table.columns) {
+      const parent = col.references && byName.get(col.references.table);
+      if (parent) visit(parent);
+    }
+    sorted.push(table);
+  };
+
+  tables.forEach(visit);
+  return sorted;
+}
+
+// Replace every table of the current alasql database with the snapshot
+export function applySnapshot(snapshot: DatabaseSnapshot): void {
+  for (const name of Object.keys(alasql.tables)) {
+    alasql(`DROP TABLE ${quoteIdent(name)}`);
+  }
+
+  for (const table of sortByDependencies(snapshot.tables)) {
+    const createSQL = buildCreateTable(table);
+    alasql(createSQL);
+    noteCheckConstraints(createSQL);
+    if (table.rows.length > 0) {
+      alasql(`INSERT INTO ${quoteIdent(table.name)} SELECT * FROM ?`, [table.rows.map(row => ({ ...row }))]);
+    }
+
+    // INSERT ... SELECT bumps identities to MAX + 1; put back the real counter
+    const identities = (alasql.tables[table.name] as unknown as AlasqlTable).identities ?? {};
+    for (const col of table.columns) {
+      if (col.autoIncrement && identities[col.name]) {
+        identities[col.name].value = col.autoIncrement.next;
+      }
+    }
+
+    for (const index of table.indexes) {
+      alasql(`CREATE INDEX ${quoteIdent(index.name)} ON ${quoteIdent(table.name)} (${index.columns.map(quoteIdent).join(', ')})`);
+    }
+  }
+}
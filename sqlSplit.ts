@@ -0,0 +1,106 @@
+export interface SplitStatement {
+  sql: string;
+  line: number;
+}
+
+export interface SplitResult {
+  statements: SplitStatement[];
+  // Text after the last delimiter: an unfinished statement
+  remainder: string;
+  remainderLine: number;
+  // Delimiter in effect at the end of the text (changed by DELIMITER lines)
+  delimiter: string;
+}
+
+const DELIMITER_COMMAND = /[ \t]*DELIMITER[ \t]+(\S+)[^\n]*(?:\n|$)/iy;
+
+// Split a script into statements the way the mysql client does: delimiters inside
+// quotes or comments don't count, and `DELIMITER //` switches the delimiter.
+export function splitStatements(text: string, initialDelimiter = ';'): SplitResult {
+  const statements: SplitStatement[] = [];
+  let delimiter = initialDelimiter;
+  let current = '';
+  let hasContent = false;
+  let line = 1;
+  let startLine = 1;
+  let atLineStart = true;
+  let i = 0;
+
+  const consume = (chunk: string, keep = true) => {
+    if (keep) current += chunk;
+    for (const ch of chunk) if (ch === '\n') line++;
+    i += chunk.length;
+  };
+
+  const markContent = () => {
+    if (!hasContent) {
+      hasContent = true;
+      startLine = line;
+    }
+  };
+
+  while (i < text.length) {
+    if (atLineStart && !hasContent) {
+      DELIMITER_COMMAND.lastIndex = i;
+      const match = DELIMITER_COMMAND.exec(text);
+      if (match) {
+        delimiter = match[1];
+        consume(match[0], false);
+        current = '';
+        continue;
+      }
+    }
+
+    const ch = text[i];
+    atLineStart = ch === '\n';
+
+    if (text.startsWith(delimiter, i)) {
+      if (hasContent) statements.push({ sql: current.trim(), line: startLine });
+      consume(delimiter, false);
+      current = '';
+      hasContent = false;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"' || ch === '`') {
+      markContent();
+      let j = i + 1;
+      while (j < text.length) {
+        if (text[j] === '\\' && ch !== '`') {
+          j += 2;
+        } else if (text[j] === ch) {
+          if (text[j + 1] === ch) j += 2;
+          else break;
+        } else {
+          j++;
+        }
+      }
+      consume(text.slice(i, j + 1));
+      continue;
+    }
+
+    // Comments become whitespace so tokens on either side stay apart
+    if ((ch === '-' && text[i + 1] === '-' && /[\s]|^$/.test(text[i + 2] ?? '')) || ch === '#') {
+      const end = text.indexOf('\n', i);
+      consume(end === -1 ? text.slice(i) : text.slice(i, end), false);
+      continue;
+    }
+    if (ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      const comment = end === -1 ? text.slice(i) : text.slice(i, end + 2);
+      consume(comment, false);
+      current += ' ';
+      continue;
+    }
+
+    if (!/\s/.test(ch)) markContent();
+    consume(ch);
+  }
+
+  return {
+    statements,
+    remainder: hasContent ? current.trim() : '',
+    remainderLine: startLine,
+    delimiter,
+  };
+}
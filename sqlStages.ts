@@ -0,0 +1,255 @@
+import { Dialect } from './sqlDialects';
+import { hasAggregate } from './sqlExplain';
+import { SelectStatement, Span, SQLSyntaxError, TableRef, tryParseSQL } from './sqlParser';
+import { TableSnapshot } from './sqlSnapshot';
+
+export type StageKind = 'from' | 'join' | 'where' | 'group' | 'having' | 'select' | 'distinct' | 'order' | 'limit';
+
+export interface QueryStage {
+  kind: StageKind;
+  label: string;
+  // The clause as the user wrote it
+  clause: string;
+  description: string;
+  // Rows shown for this stage
+  sql: string;
+  // Rows of `sql` that make it through, for stages that drop rows
+  keepSql?: string;
+  // Trailing columns of `sql` that tag each row with its group
+  groupKeys?: number;
+}
+
+export interface StagePlan {
+  stages: QueryStage[];
+  notes: string[];
+  error: SQLSyntaxError | null;
+}
+
+export interface StageView {
+  columns: string[];
+  rows: (string | number | null)[][];
+  kept: number[];
+  dropped: number[];
+}
+
+type Rows = (string | number | null)[][];
+
+const GROUP_COLUMN = '__group';
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export const quoteAlias = (name: string, dialect: Dialect) =>
+  dialect === 'mysql' ? `\`${name.replace(/`/g, '``')}\`` : `"${name.replace(/"/g, '""')}"`;
+
+// The order the database evaluates a SELECT in, each step as a query of its own
+export function planStages(sql: string, dialect: Dialect, tables: TableSnapshot[]): StagePlan {
+  const { statement, error } = tryParseSQL(sql, dialect);
+  if (!statement) return { stages: [], notes: [], error };
+  if (statement.type !== 'select') {
+    return { stages: [], notes: ['Chỉ câu SELECT mới có thứ tự thực thi từng bước để minh họa.'], error: null };
+  }
+  if (statement.from.length === 0) {
+    return { stages: [], notes: ['Câu SELECT không có FROM nên chỉ có một bước: tính giá trị.'], error: null };
+  }
+
+  const query = statement;
+  const notes: string[] = [];
+  if (query.compound.length > 0) {
+    notes.push(`Câu lệnh có ${query.compound[0].operator}: chỉ minh họa truy vấn đầu tiên, các truy vấn sau chạy theo đúng thứ tự này rồi mới ghép kết quả.`);
+  }
+
+  const text = (node: { span: Span }) => collapse(sql.slice(node.span.start, node.span.end));
+  const between = (first: { span: Span }, last: { span: Span }) => collapse(sql.slice(first.span.start, last.span.end));
+  const prefix = query.with.length > 0 ? `${collapse(sql.slice(query.span.start, query.with[query.with.length - 1].span.end))} ` : '';
+
+  const fromText = between(query.from[0], query.from[query.from.length - 1]);
+  const sourceText = (joinCount: number) => [fromText, ...query.joins.slice(0, joinCount).map(text)].join(' ');
+  const columnList = (refs: TableRef[]) => qualifiedColumns(refs, query, tables, dialect)?.join(', ') ?? '*';
+
+  const whereText = query.where ? ` WHERE ${text(query.where)}` : '';
+  const allRefs = [...query.from, ...query.joins.map(j => j.table)];
+  const filtered = `FROM ${sourceText(query.joins.length)}${whereText}`;
+  const stages: QueryStage[] = [];
+
+  stages.push({
+    kind: 'from',
+    label: 'FROM',
+    clause: `FROM ${fromText}`,
+    description: query.from.length > 1
+      ? 'Đọc các bảng trong FROM và ghép MỌI cặp dòng với nhau (tích Descartes).'
+      : `Đọc toàn bộ dòng của ${describeRef(query.from[0])}. Chưa có gì bị lọc cả.`,
+    sql: `${prefix}SELECT ${columnList(query.from)} FROM ${fromText}`,
+  });
+
+  query.joins.forEach((join, i) => {
+    const name = describeRef(join.table);
+    const condition = join.on ? ` theo điều kiện ${text(join.on)}` : join.using.length > 0 ? ` theo cột ${join.using.join(', ')}` : '';
+    stages.push({
+      kind: 'join',
+      label: join.joinType === 'INNER' ? 'JOIN' : `${join.joinType} JOIN`,
+      clause: text(join),
+      description: {
+        INNER: `Ghép thêm ${name}${condition}. Dòng nào không tìm được cặp thì biến mất.`,
+        LEFT: `Ghép thêm ${name}${condition}. Dòng bên trái không có cặp vẫn được giữ, các cột của ${name} là NULL.`,
+        RIGHT: `Ghép thêm ${name}${condition}. Mọi dòng của ${name} được giữ, phía bên trái không khớp là NULL.`,
+        FULL: `Ghép thêm ${name}${condition}. Giữ mọi dòng của cả hai phía, chỗ không khớp là NULL.`,
+        CROSS: `Ghép mỗi dòng hiện có với TẤT CẢ các dòng của ${name}.`,
+        NATURAL: `Ghép thêm ${name}, tự khớp theo các cột trùng tên.`,
+      }[join.joinType],
+      sql: `${prefix}SELECT ${columnList(allRefs.slice(0, query.from.length + i + 1))} FROM ${sourceText(i + 1)}`,
+    });
+  });
+
+  const allColumns = columnList(allRefs);
+  const unfiltered = `${prefix}SELECT ${allColumns} FROM ${sourceText(query.joins.length)}`;
+  if (query.where) {
+    stages.push({
+      kind: 'where',
+      label: 'WHERE',
+      clause: `WHERE ${text(query.where)}`,
+      description: `Kiểm tra từng dòng với điều kiện ${text(query.where)}. Dòng xanh được giữ, dòng đỏ bị loại. Lúc này SELECT chưa chạy nên WHERE không dùng được alias.`,
+      sql: unfiltered,
+      keepSql: `${unfiltered}${whereText}`,
+    });
+  }
+
+  const aggregated = query.columns.some(item => hasAggregate(item.expr)) || (!!query.having && hasAggregate(query.having));
+  const keys = query.groupBy.map(text);
+  const groupText = keys.length > 0 ? ` GROUP BY ${keys.join(', ')}` : '';
+  if (keys.length > 0 || aggregated) {
+    const tags = keys.map((key, i) => `, ${key} AS ${quoteAlias(`${GROUP_COLUMN}${i}`, dialect)}`).join('');
+    stages.push({
+      kind: 'group',
+      label: 'GROUP BY',
+      clause: keys.length > 0 ? `GROUP BY ${keys.join(', ')}` : '(hàm gộp, không có GROUP BY)',
+      description: keys.length > 0
+        ? `Xếp các dòng có cùng ${keys.join(', ')} vào chung một nhóm. Từ đây mỗi nhóm sẽ chỉ còn 1 dòng kết quả.`
+        : 'Có hàm gộp nhưng không có GROUP BY: toàn bộ các dòng là MỘT nhóm duy nhất.',
+      sql: `${prefix}SELECT ${allColumns}${tags} ${filtered}${keys.length > 0 ? ` ORDER BY ${keys.join(', ')}` : ''}`,
+      groupKeys: keys.length,
+    });
+  }
+
+  const havingText = query.having ? ` HAVING ${text(query.having)}` : '';
+  if (query.having) {
+    const groups = `${prefix}SELECT ${keys.length > 0 ? `${keys.join(', ')}, ` : ''}COUNT(*) AS ${quoteAlias('số dòng', dialect)} ${filtered}${groupText}`;
+    stages.push({
+      kind: 'having',
+      label: 'HAVING',
+      clause: `HAVING ${text(query.having)}`,
+      description: `Kiểm tra từng NHÓM với điều kiện ${text(query.having)}. Nhóm xanh được giữ, nhóm đỏ bị loại.`,
+      sql: groups,
+      keepSql: `${groups}${havingText}`,
+    });
+  }
+
+  const columnsText = between(query.columns[0], query.columns[query.columns.length - 1]);
+  const projected = `${prefix}SELECT ${columnsText} ${filtered}${groupText}${havingText}`;
+  stages.push({
+    kind: 'select',
+    label: 'SELECT',
+    clause: `SELECT ${columnsText}`,
+    description: `Tính các cột cần hiển thị${aggregated ? ' (hàm gộp được tính cho từng nhóm)' : ''}. Alias đặt ở đây mới bắt đầu có tên.`,
+    sql: projected,
+  });
+
+  let ordered = projected;
+  if (query.distinct) {
+    ordered = `${prefix}SELECT DISTINCT ${columnsText} ${filtered}${groupText}${havingText}`;
+    stages.push({
+      kind: 'distinct',
+      label: 'DISTINCT',
+      clause: 'DISTINCT',
+      description: 'Bỏ các dòng giống hệt nhau, mỗi kiểu chỉ giữ một dòng (dòng đỏ là bản trùng).',
+      sql: projected,
+      keepSql: ordered,
+    });
+  }
+
+  if (query.orderBy.length > 0) {
+    const orderText = query.orderBy.map(text).join(', ');
+    ordered = `${ordered} ORDER BY ${orderText}`;
+    stages.push({
+      kind: 'order',
+      label: 'ORDER BY',
+      clause: `ORDER BY ${orderText}`,
+      description: 'Sắp xếp kết quả. ORDER BY chạy sau SELECT nên dùng được alias.',
+      sql: ordered,
+    });
+  }
+
+  if (query.limit) {
+    stages.push({
+      kind: 'limit',
+      label: 'LIMIT',
+      clause: text(query.limit),
+      description: 'Cuối cùng mới cắt lấy số dòng cần thiết. Dòng xanh là kết quả trả về.',
+      sql: ordered,
+      keepSql: `${ordered} ${text(query.limit)}`,
+    });
+  }
+
+  return { stages, notes, error: null };
+}
+
+function describeRef(ref: TableRef): string {
+  if (ref.kind === 'subquery') return `truy vấn con${ref.alias ? ` ${ref.alias}` : ''}`;
+  return `bảng ${ref.name}`;
+}
+
+// t.col AS "t.col" for every column, so same-named columns of joined tables don't overwrite each other
+export function qualifiedColumns(refs: TableRef[], query: SelectStatement, tables: TableSnapshot[], dialect: Dialect): string[] | null {
+  const columns: string[] = [];
+  for (const ref of refs) {
+    // Subqueries and CTEs have no catalog entry
+    if (ref.kind !== 'table' || query.with.some(cte => cte.name.toLowerCase() === ref.name.toLowerCase())) return null;
+    const table = tables.find(t => t.name.toLowerCase() === ref.name.toLowerCase());
+    if (!table) return null;
+    const qualifier = ref.alias ?? ref.name;
+    columns.push(...table.columns.map(c => `${qualifier}.${c.name} AS ${quoteAlias(`${qualifier}.${c.name}`, dialect)}`));
+  }
+  return columns;
+}
+
+// Identical rows can't be told apart, so kept rows are matched by value, each match used once
+function matchRows(rows: Rows, keptRows: Rows): number[] {
+  const remaining = new Map<string, number>();
+  for (const row of keptRows) {
+    const key = JSON.stringify(row);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+  const kept: number[] = [];
+  rows.forEach((row, i) => {
+    const key = JSON.stringify(row);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      kept.push(i);
+      remaining.set(key, count - 1);
+    }
+  });
+  return kept;
+}
+
+export function buildStageView(stage: QueryStage, columns: string[], rows: Rows, keptRows?: Rows): StageView {
+  if (stage.groupKeys !== undefined) {
+    // Swap the trailing group tags for a group number up front; alternate groups are highlighted
+    const dataWidth = columns.length - stage.groupKeys;
+    let group = 0;
+    let previous: string | null = null;
+    const kept: number[] = [];
+    const grouped = rows.map((row, i) => {
+      const key = JSON.stringify(row.slice(dataWidth));
+      if (key !== previous) {
+        group++;
+        previous = key;
+      }
+      if (group % 2 === 1) kept.push(i);
+      return [group, ...row.slice(0, dataWidth)];
+    });
+    return { columns: ['Nhóm', ...columns.slice(0, dataWidth)], rows: grouped, kept, dropped: [] };
+  }
+  if (!keptRows) return { columns, rows, kept: [], dropped: [] };
+  const kept = matchRows(rows, keptRows);
+  const keptSet = new Set(kept);
+  return { columns, rows, kept, dropped: rows.map((_, i) => i).filter(i => !keptSet.has(i)) };
+}
@@ -0,0 +1,69 @@
+import { DatabaseSnapshot } from './sqlSnapshot';
+import { NamedSnapshot } from './sqlTimeline';
+
+const DB_NAME = 'sqlMasterPro';
+const DB_VERSION = 2;
+const SNAPSHOT_STORE = 'snapshots';
+const NAMED_SNAPSHOT_STORE = 'namedSnapshots';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openStorage(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) db.createObjectStore(SNAPSHOT_STORE);
+        if (!db.objectStoreNames.contains(NAMED_SNAPSHOT_STORE)) db.createObjectStore(NAMED_SNAPSHOT_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry later (e.g. private mode rejected the first open)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = SNAPSHOT_STORE
+): Promise<T> {
+  return openStorage().then(db => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+// One snapshot per workspace, keyed by workspace name
+export async function loadSnapshot(workspace: string): Promise<DatabaseSnapshot | null> {
+  const snapshot = await runRequest<DatabaseSnapshot | undefined>('readonly', store => store.get(workspace));
+  return snapshot ?? null;
+}
+
+export async function saveSnapshot(workspace: string, snapshot: DatabaseSnapshot): Promise<void> {
+  await runRequest('readwrite', store => store.put(snapshot, workspace));
+}
+
+export async function deleteSnapshot(workspace: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(workspace));
+}
+
+// Snapshots the user saved by name, all of a workspace's under its name
+export async function loadNamedSnapshots(workspace: string): Promise<NamedSnapshot[]> {
+  const list = await runRequest<NamedSnapshot[] | undefined>('readonly', store => store.get(workspace), NAMED_SNAPSHOT_STORE);
+  return list ?? [];
+}
+
+export async function saveNamedSnapshots(workspace: string, list: NamedSnapshot[]): Promise<void> {
+  await runRequest('readwrite', store => store.put(list, workspace), NAMED_SNAPSHOT_STORE);
+}
+
+export async function deleteNamedSnapshots(workspace: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(workspace), NAMED_SNAPSHOT_STORE);
+}
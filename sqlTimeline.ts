@@ -0,0 +1,60 @@
+import { DatabaseSnapshot } from './sqlSnapshot';
+
+// Each undo step holds a full copy of the tables, so keep the history short
+export const MAX_TIMELINE_STEPS = 30;
+
+export interface TimelineEntry {
+  id: number;
+  // Statement (or action like "reset") that produced the change
+  label: string;
+  at: number;
+}
+
+// The tables to put back when this step is undone (or redone)
+export interface TimelineStep extends TimelineEntry {
+  snapshot: DatabaseSnapshot;
+}
+
+export interface NamedSnapshot {
+  name: string;
+  createdAt: number;
+  snapshot: DatabaseSnapshot;
+}
+
+export type TimelineCommand =
+  | { type: 'undo'; steps: number }
+  | { type: 'redo'; steps: number }
+  | { type: 'save'; name: string }
+  | { type: 'restore'; name: string }
+  | { type: 'delete'; name: string }
+  | { type: 'list' };
+
+const unquote = (name: string) => name.trim().replace(/^(['"`])(.*)\1$/, '$2').trim();
+
+// undo [n], redo [n], snapshot save|restore|delete <name>, snapshot list
+export function parseTimelineCommand(input: string): TimelineCommand | null {
+  const text = input.trim().replace(/;\s*$/, '');
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(undo|redo)(?:\s+(\d+))?$/i))) {
+    const steps = Math.max(1, Number(match[2] ?? 1));
+    return { type: match[1].toLowerCase() as 'undo' | 'redo', steps };
+  }
+  if (/^snapshots?(\s+list)?$/i.test(text)) return { type: 'list' };
+  if ((match = text.match(/^snapshot\s+(save|restore|delete|drop)\s+(.+)$/i))) {
+    const action = match[1].toLowerCase();
+    const name = unquote(match[2]);
+    return { type: action === 'drop' ? 'delete' : action as 'save' | 'restore' | 'delete', name };
+  }
+  return null;
+}
+
+export const isValidSnapshotName = (name: string) => name.length > 0 && name.length <= 64;
+
+export const sameSnapshotName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// One line for the timeline, however long the statement was
+export function timelineLabel(sql: string): string {
+  const line = sql.replace(/\s+/g, ' ').trim().replace(/;$/, '');
+  return line.length > 80 ? `${line.slice(0, 77)}...` : line;
+}
@@ -0,0 +1,57 @@
+import { DatabaseSnapshot } from './sqlSnapshot';
+
+export type TransactionCommand =
+  | { type: 'begin' }
+  | { type: 'commit' }
+  | { type: 'rollback' }
+  | { type: 'savepoint'; name: string }
+  | { type: 'rollbackTo'; name: string }
+  | { type: 'release'; name: string }
+  | { type: 'autocommit'; enabled: boolean };
+
+export interface Savepoint {
+  name: string;
+  snapshot: DatabaseSnapshot;
+}
+
+// Tables as they were at START TRANSACTION, plus every SAVEPOINT taken since
+export interface OpenTransaction {
+  start: DatabaseSnapshot;
+  savepoints: Savepoint[];
+  // Changes made so far; COMMIT turns them into one undo step
+  statements: string[];
+}
+
+const NAME = '(`[^`]+`|\\w+)';
+const unquote = (name: string) => name.replace(/^`|`$/g, '');
+
+// MySQL commits the open transaction before any DDL statement
+export const IMPLICIT_COMMIT_SQL = /^\s*(CREATE|DROP|ALTER|TRUNCATE|RENAME)\b/i;
+
+export function parseTransactionCommand(sql: string): TransactionCommand | null {
+  const text = sql.trim().replace(/;\s*$/, '');
+  let match: RegExpMatchArray | null;
+
+  if (/^(START\s+TRANSACTION(\s+(READ\s+(ONLY|WRITE)|WITH\s+CONSISTENT\s+SNAPSHOT)\s*,?)*|BEGIN(\s+WORK)?)$/i.test(text)) {
+    return { type: 'begin' };
+  }
+  if (/^COMMIT(\s+WORK)?$/i.test(text)) return { type: 'commit' };
+  if (/^ROLLBACK(\s+WORK)?$/i.test(text)) return { type: 'rollback' };
+  if ((match = text.match(new RegExp(`^SAVEPOINT\\s+${NAME}$`, 'i')))) {
+    return { type: 'savepoint', name: unquote(match[1]) };
+  }
+  if ((match = text.match(new RegExp(`^ROLLBACK(?:\\s+WORK)?\\s+TO\\s+(?:SAVEPOINT\\s+)?${NAME}$`, 'i')))) {
+    return { type: 'rollbackTo', name: unquote(match[1]) };
+  }
+  if ((match = text.match(new RegExp(`^RELEASE\\s+SAVEPOINT\\s+${NAME}$`, 'i')))) {
+    return { type: 'release', name: unquote(match[1]) };
+  }
+  if ((match = text.match(/^SET\s+(?:(?:SESSION|@@SESSION\.|@@)\s*)?autocommit\s*=\s*(0|1|ON|OFF|TRUE|FALSE)$/i))) {
+    return { type: 'autocommit', enabled: /^(1|ON|TRUE)$/i.test(match[1]) };
+  }
+  return null;
+}
+
+export function findSavepoint(transaction: OpenTransaction, name: string): number {
+  return transaction.savepoints.findIndex(sp => sp.name.toLowerCase() === name.toLowerCase());
+}
@@ -0,0 +1,655 @@
+import { Dialect, dialects, maskStrings } from './sqlDialects';
+
+// The translator also targets SQL Server, which the engine itself does not emulate
+export type TranslateDialect = Dialect | 'sqlserver';
+
+export const translateDialects: { id: TranslateDialect; label: string; icon: string }[] = [
+  ...dialects.map(({ id, label, icon }) => ({ id, label, icon })),
+  { id: 'sqlserver', label: 'SQL Server', icon: '🪟' },
+];
+
+export interface TranslationNote {
+  line: number;
+  level: 'change' | 'warning';
+  message: string;
+}
+
+export interface Translation {
+  target: TranslateDialect;
+  sql: string;
+  notes: TranslationNote[];
+}
+
+interface RuleContext {
+  from: TranslateDialect;
+  to: TranslateDialect;
+  sql: string;
+  masked: string;
+  match: RegExpExecArray;
+  start: number;
+  note: (level: TranslationNote['level'], message: string) => void;
+}
+
+// New text plus where to keep scanning, so a replacement is never matched again
+interface RuleEdit {
+  sql: string;
+  cursor: number;
+}
+
+interface TranslateRule {
+  pattern: RegExp;
+  apply: (ctx: RuleContext) => RuleEdit | null;
+}
+
+interface Rewrite {
+  text: string;
+  note?: string;
+  warning?: string;
+}
+
+const label = (dialect: TranslateDialect) => translateDialects.find(d => d.id === dialect)!.label;
+
+// Blank out strings and quoted names so rules only ever see SQL keywords
+function mask(sql: string, from: TranslateDialect, to: TranslateDialect): string {
+  const quoted = ['`[^`]*`'];
+  if (from !== 'mysql') quoted.push('"[^"]*"');
+  if (from === 'sqlite' || from === 'sqlserver' || to === 'sqlserver') quoted.push('\\[[^\\]\\n]*\\]');
+  return maskStrings(sql, from === 'mysql').replace(
+    new RegExp(quoted.join('|'), 'g'),
+    name => name[0] + ' '.repeat(name.length - 2) + name[name.length - 1]
+  );
+}
+
+const matchEnd = (ctx: RuleContext) => ctx.start + ctx.match[0].length;
+
+const shown = (sql: string) => sql.replace(/\s+/g, ' ').trim();
+
+function replaceSpan(ctx: RuleContext, end: number, text: string, cursorOffset = text.length): RuleEdit {
+  return { sql: ctx.sql.slice(0, ctx.start) + text + ctx.sql.slice(end), cursor: ctx.start + cursorOffset };
+}
+
+function report(ctx: RuleContext, rewrite: Rewrite) {
+  if (rewrite.note) ctx.note('change', rewrite.note);
+  if (rewrite.warning) ctx.note('warning', rewrite.warning);
+}
+
+// Argument spans of the call whose "(" is at `open`, split on top-level commas
+function callArgs(masked: string, open: number): { args: [number, number][]; end: number } | null {
+  const args: [number, number][] = [];
+  let depth = 0;
+  let argStart = open + 1;
+  for (let i = open; i < masked.length; i++) {
+    const char = masked[i];
+    if (char === '(') depth++;
+    else if (char === ')' && --depth === 0) {
+      if (masked.slice(argStart, i).trim() || args.length > 0) args.push([argStart, i]);
+      return { args, end: i + 1 };
+    } else if (char === ',' && depth === 1) {
+      args.push([argStart, i]);
+      argStart = i + 1;
+    }
+  }
+  return null;
+}
+
+// Rewrite a function call; `render` gets the original text of each argument
+function callRule(name: RegExp, render: (args: string[], name: string, ctx: RuleContext) => Rewrite | null): TranslateRule {
+  return {
+    pattern: new RegExp(`\\b(?:${name.source})\\s*\\(`, 'gi'),
+    apply: ctx => {
+      const call = callArgs(ctx.masked, matchEnd(ctx) - 1);
+      if (!call) return null;
+      const args = call.args.map(([a, b]) => ctx.sql.slice(a, b).trim());
+      const rewrite = render(args, ctx.match[0].replace(/\s*\($/, '').toUpperCase(), ctx);
+      if (!rewrite) return null;
+      report(ctx, rewrite);
+      // Keep scanning inside the arguments: calls can be nested
+      const open = rewrite.text.indexOf('(');
+      return replaceSpan(ctx, call.end, rewrite.text, open === -1 ? rewrite.text.length : open + 1);
+    },
+  };
+}
+
+function keywordRule(pattern: RegExp, render: (ctx: RuleContext) => Rewrite | null): TranslateRule {
+  return {
+    pattern,
+    apply: ctx => {
+      const rewrite = render(ctx);
+      if (!rewrite) return null;
+      report(ctx, rewrite);
+      return replaceSpan(ctx, matchEnd(ctx), rewrite.text);
+    },
+  };
+}
+
+// A construct with no faithful equivalent: leave the text alone and say so
+function warningRule(pattern: RegExp, warn: (ctx: RuleContext) => string | null): TranslateRule {
+  return {
+    pattern,
+    apply: ctx => {
+      const message = warn(ctx);
+      if (message) ctx.note('warning', message);
+      return null;
+    },
+  };
+}
+
+const quoteIdentifier = (name: string, to: TranslateDialect) => {
+  if (to === 'mysql') return `\`${name.replace(/`/g, '``')}\``;
+  if (to === 'sqlserver') return `[${name.replace(/]/g, ']]')}]`;
+  return `"${name.replace(/"/g, '""')}"`;
+};
+
+const identifierForms: Record<TranslateDialect, string[]> = {
+  mysql: ['`(?:[^`]|``)*`'],
+  postgresql: ['"(?:[^"]|"")*"'],
+  sqlite: ['`(?:[^`]|``)*`', '"(?:[^"]|"")*"', '\\[[^\\]]*\\]'],
+  sqlserver: ['\\[(?:[^\\]]|\\]\\])*\\]', '"(?:[^"]|"")*"'],
+};
+
+const unquoteIdentifier = (quoted: string) => {
+  const close = quoted[quoted.length - 1];
+  return quoted.slice(1, -1).split(close + close).join(close);
+};
+
+// End of the statement containing `index`: the next top-level ";" or the subquery's ")"
+function statementEnd(masked: string, index: number): number {
+  let depth = 0;
+  for (let i = index; i < masked.length; i++) {
+    if (masked[i] === '(') depth++;
+    else if (masked[i] === ')' && --depth < 0) return i;
+    else if (masked[i] === ';' && depth === 0) return i;
+  }
+  return masked.length;
+}
+
+// The SELECT a LIMIT clause belongs to: the closest one at the same nesting depth
+function owningSelect(masked: string, index: number): RegExpExecArray | null {
+  const selects = [...masked.slice(0, index).matchAll(/\bSELECT\s+(?:DISTINCT\s+)?/gi)] as RegExpExecArray[];
+  for (const select of selects.reverse()) {
+    const between = masked.slice(select.index, index);
+    if (between.split('(').length === between.split(')').length) return select;
+  }
+  return null;
+}
+
+const trimEnd = (masked: string, end: number) => {
+  while (end > 0 && /\s/.test(masked[end - 1])) end--;
+  return end;
+};
+
+const DATE_UNITS = ['YEAR', 'MONTH', 'WEEK', 'DAY', 'HOUR', 'MINUTE', 'SECOND'];
+
+const UNIT_SECONDS: Record<string, number> = { SECOND: 1, MINUTE: 60, HOUR: 3600, DAY: 86400, WEEK: 604800 };
+
+// SQL Server also accepts abbreviations like dd or yyyy
+const normalizeUnit = (unit: string) => {
+  const upper = unit.trim().toUpperCase();
+  const aliases: Record<string, string> = {
+    YY: 'YEAR', YYYY: 'YEAR', MM: 'MONTH', M: 'MONTH', WK: 'WEEK', WW: 'WEEK',
+    DD: 'DAY', D: 'DAY', HH: 'HOUR', MI: 'MINUTE', N: 'MINUTE', SS: 'SECOND', S: 'SECOND',
+  };
+  return aliases[upper] ?? upper;
+};
+
+function renderDateAdd(date: string, amount: string, unit: string, to: TranslateDialect): string {
+  const negative = amount.startsWith('-');
+  let magnitude = (negative ? amount.slice(1) : amount).trim().replace(/^'(\d+)'$/, '$1');
+  const isLiteral = /^\d+$/.test(magnitude);
+  const sign = negative ? '-' : '+';
+  switch (to) {
+    case 'mysql':
+      return `${negative ? 'DATE_SUB' : 'DATE_ADD'}(${date}, INTERVAL ${magnitude} ${unit})`;
+    case 'postgresql':
+      return isLiteral
+        ? `(${date} ${sign} INTERVAL '${magnitude} ${unit.toLowerCase()}')`
+        : `(${date} ${sign} ${magnitude} * INTERVAL '1 ${unit.toLowerCase()}')`;
+    case 'sqlite': {
+      // SQLite modifiers have no weeks
+      let sqliteUnit = unit.toLowerCase();
+      if (unit === 'WEEK') {
+        magnitude = isLiteral ? String(Number(magnitude) * 7) : `(${magnitude}) * 7`;
+        sqliteUnit = 'day';
+      }
+      const modifier = isLiteral ? `'${sign}${magnitude} ${sqliteUnit}s'` : `'${sign}' || ${magnitude} || ' ${sqliteUnit}s'`;
+      return `datetime(${date}, ${modifier})`;
+    }
+    case 'sqlserver':
+      return `DATEADD(${unit.toLowerCase()}, ${negative ? '-' : ''}${magnitude}, ${date})`;
+  }
+}
+
+function renderDateDiff(unit: string, startDate: string, endDate: string, to: TranslateDialect): Rewrite {
+  const seconds = UNIT_SECONDS[unit];
+  switch (to) {
+    case 'mysql':
+      return { text: unit === 'DAY' ? `DATEDIFF(${endDate}, ${startDate})` : `TIMESTAMPDIFF(${unit}, ${startDate}, ${endDate})` };
+    case 'sqlserver':
+      return {
+        text: `DATEDIFF(${unit.toLowerCase()}, ${startDate}, ${endDate})`,
+        warning: unit === 'DAY' ? undefined
+          : 'DATEDIFF của SQL Server đếm số lần vượt mốc (31/12 → 01/01 là 1 năm), không phải số đơn vị trọn vẹn: kết quả có thể lệch 1.',
+      };
+    case 'postgresql': {
+      if (unit === 'DAY') return { text: `(CAST(${endDate} AS DATE) - CAST(${startDate} AS DATE))` };
+      if (seconds) return { text: `FLOOR(EXTRACT(EPOCH FROM (CAST(${endDate} AS TIMESTAMP) - CAST(${startDate} AS TIMESTAMP))) / ${seconds})` };
+      const age = `AGE(${endDate}, ${startDate})`;
+      return { text: unit === 'YEAR' ? `EXTRACT(YEAR FROM ${age})` : `(EXTRACT(YEAR FROM ${age}) * 12 + EXTRACT(MONTH FROM ${age}))` };
+    }
+    case 'sqlite': {
+      if (unit === 'DAY') return { text: `CAST(julianday(date(${endDate})) - julianday(date(${startDate})) AS INTEGER)` };
+      const days = `(julianday(${endDate}) - julianday(${startDate}))`;
+      if (seconds) return { text: `CAST(${days} * 86400 / ${seconds} AS INTEGER)` };
+      const divisor = unit === 'YEAR' ? 365.25 : 30.44;
+      return {
+        text: `CAST(${days} / ${divisor} AS INTEGER)`,
+        warning: `SQLite không có hàm hiệu theo ${unit === 'YEAR' ? 'năm' : 'tháng'}: đã chia số ngày cho ${divisor}, kết quả chỉ gần đúng.`,
+      };
+    }
+  }
+}
+
+// MySQL DATE_FORMAT specifiers in each target's notation
+const FORMAT_CODES: Record<string, Partial<Record<TranslateDialect, string>>> = {
+  '%Y': { postgresql: 'YYYY', sqlite: '%Y', sqlserver: 'yyyy' },
+  '%m': { postgresql: 'MM', sqlite: '%m', sqlserver: 'MM' },
+  '%d': { postgresql: 'DD', sqlite: '%d', sqlserver: 'dd' },
+  '%H': { postgresql: 'HH24', sqlite: '%H', sqlserver: 'HH' },
+  '%i': { postgresql: 'MI', sqlite: '%M', sqlserver: 'mm' },
+  '%s': { postgresql: 'SS', sqlite: '%S', sqlserver: 'ss' },
+};
+
+// Zero-argument functions that only differ by name
+const FUNCTION_NAMES: Record<string, Partial<Record<TranslateDialect, string>>> = {
+  NOW: { sqlite: "datetime('now')", sqlserver: 'GETDATE()' },
+  GETDATE: { mysql: 'NOW()', postgresql: 'NOW()', sqlite: "datetime('now')" },
+  CURDATE: { postgresql: 'CURRENT_DATE', sqlite: "date('now')", sqlserver: 'CAST(GETDATE() AS DATE)' },
+  RAND: { postgresql: 'RANDOM()', sqlite: 'RANDOM()', sqlserver: 'NEWID()' },
+  RANDOM: { mysql: 'RAND()', sqlserver: 'NEWID()' },
+};
+
+// Applied one after another over the whole text; order matters where one rule's output feeds another
+const translateRules: TranslateRule[] = [
+  // MySQL "strings" would be read as names everywhere else
+  {
+    pattern: /"/g,
+    apply: ctx => {
+      if (ctx.from !== 'mysql') return null;
+      const end = ctx.masked.indexOf('"', ctx.start + 1);
+      if (end === -1) return null;
+      const content = ctx.sql.slice(ctx.start + 1, end).replace(/\\"/g, '"').replace(/""/g, '"');
+      ctx.note('change', `Chuỗi "..." → '...' (ở ${label(ctx.to)} dấu nháy kép dùng cho tên cột/bảng)`);
+      return replaceSpan(ctx, end + 1, `'${content.replace(/'/g, "''")}'`);
+    },
+  },
+  // Quoted table/column names
+  {
+    pattern: /[`"[]/g,
+    apply: ctx => {
+      const pattern = new RegExp(identifierForms[ctx.from].join('|'), 'g');
+      pattern.lastIndex = ctx.start;
+      const found = pattern.exec(ctx.masked);
+      if (!found || found.index !== ctx.start) return null;
+      const quoted = ctx.sql.slice(ctx.start, ctx.start + found[0].length);
+      const text = quoteIdentifier(unquoteIdentifier(quoted), ctx.to);
+      if (text[0] !== quoted[0]) {
+        ctx.note('change', `Tên ${quoted[0]}...${quoted[quoted.length - 1]} → ${text[0]}...${text[text.length - 1]} (cách ${label(ctx.to)} đặt tên trong dấu nháy)`);
+      }
+      return replaceSpan(ctx, ctx.start + found[0].length, text);
+    },
+  },
+  // SELECT TOP n → LIMIT n at the end of the statement
+  {
+    pattern: /\bSELECT\s+(DISTINCT\s+)?TOP\s*(?:\(\s*(\d+)\s*\)|(\d+))\s+/gi,
+    apply: ctx => {
+      if (ctx.to === 'sqlserver') return null;
+      const count = ctx.match[2] ?? ctx.match[3];
+      const select = `SELECT ${ctx.match[1] ? 'DISTINCT ' : ''}`;
+      const end = trimEnd(ctx.masked, statementEnd(ctx.masked, matchEnd(ctx)));
+      const body = ctx.sql.slice(matchEnd(ctx), end);
+      ctx.note('change', `TOP (${count}) → LIMIT ${count} ở cuối câu`);
+      return replaceSpan(ctx, end, `${select}${body} LIMIT ${count}`, select.length);
+    },
+  },
+  // LIMIT n OFFSET m, LIMIT m, n and [OFFSET m ROWS] FETCH FIRST n ROWS ONLY
+  {
+    pattern: /\b(?:LIMIT\s+(\d+)(?:\s*,\s*(\d+)|\s+OFFSET\s+(\d+))?|(?:OFFSET\s+(\d+)\s+ROWS?\s+)?FETCH\s+(?:FIRST|NEXT)\s+(\d+)\s+ROWS?\s+ONLY)/gi,
+    apply: ctx => {
+      const [original, limitA, limitB, offsetA, offsetB, fetch] = ctx.match;
+      const count = fetch ?? limitB ?? limitA;
+      const offset = offsetB ?? (limitB ? limitA : offsetA);
+
+      if (ctx.to !== 'sqlserver') {
+        const text = ctx.to === 'postgresql' && fetch ? original : `LIMIT ${count}${offset ? ` OFFSET ${offset}` : ''}`;
+        if (text !== original) ctx.note('change', `${shown(original)} → ${text}`);
+        return replaceSpan(ctx, matchEnd(ctx), text);
+      }
+
+      const select = owningSelect(ctx.masked, ctx.start);
+      if (offset || !select) {
+        const hasOrder = /\bORDER\s+BY\b/i.test(ctx.masked.slice(select?.index ?? 0, ctx.start));
+        const fetchClause = `OFFSET ${offset ?? 0} ROWS FETCH NEXT ${count} ROWS ONLY`;
+        if (shown(original) !== fetchClause) ctx.note('change', `${shown(original)} → ${fetchClause}`);
+        if (!hasOrder) {
+          ctx.note('warning', 'SQL Server bắt buộc ORDER BY khi dùng OFFSET/FETCH: đã thêm ORDER BY (SELECT NULL), nên sắp xếp theo cột cụ thể.');
+        }
+        return replaceSpan(ctx, matchEnd(ctx), `${hasOrder ? '' : 'ORDER BY (SELECT NULL) '}${fetchClause}`);
+      }
+
+      // Without OFFSET, TOP right after SELECT [DISTINCT] is the idiomatic form
+      const insertAt = select.index + select[0].length;
+      const removeFrom = trimEnd(ctx.masked, ctx.start);
+      const top = `TOP (${count}) `;
+      ctx.note('change', `${shown(original)} → ${top.trim()} ngay sau SELECT`);
+      const sql = ctx.sql.slice(0, insertAt) + top + ctx.sql.slice(insertAt, removeFrom) + ctx.sql.slice(matchEnd(ctx));
+      return { sql, cursor: removeFrom + top.length };
+    },
+  },
+  // Auto-increment columns
+  {
+    pattern: /\b(SMALLINT|BIGINT|INTEGER|INT)(?:\s*\(\s*\d+\s*\))?((?:\s+(?:UNSIGNED|NOT\s+NULL|PRIMARY\s+KEY))*)\s+(AUTO_INCREMENT|AUTOINCREMENT|GENERATED\s+(?:ALWAYS|BY\s+DEFAULT)\s+AS\s+IDENTITY|IDENTITY(?:\s*\(\s*\d+\s*,\s*\d+\s*\))?)((?:\s+(?:NOT\s+NULL|PRIMARY\s+KEY))*)|\b(SMALL|BIG)?SERIAL\b((?:\s+(?:NOT\s+NULL|PRIMARY\s+KEY))*)/gi,
+    apply: ctx => {
+      const [original, intType, before = '', marker, after = '', serialSize, serialAfter = ''] = ctx.match;
+      const modifiers = `${before} ${after} ${serialAfter}`;
+      const type = intType ? intType.toUpperCase().replace('INTEGER', 'INT') : `${serialSize?.toUpperCase() ?? ''}INT`;
+      const primaryKey = /PRIMARY\s+KEY/i.test(modifiers) ? ' PRIMARY KEY' : '';
+      const notNull = /NOT\s+NULL/i.test(modifiers) ? ' NOT NULL' : '';
+      const unsigned = /UNSIGNED/i.test(modifiers);
+      let text: string;
+      switch (ctx.to) {
+        case 'mysql':
+          text = `${type}${unsigned ? ' UNSIGNED' : ''}${notNull} AUTO_INCREMENT${primaryKey}`;
+          break;
+        case 'postgresql':
+          text = `${{ BIGINT: 'BIGSERIAL', SMALLINT: 'SMALLSERIAL' }[type] ?? 'SERIAL'}${primaryKey}`;
+          break;
+        case 'sqlserver':
+          text = `${type} IDENTITY(1,1)${notNull}${primaryKey}`;
+          break;
+        case 'sqlite':
+          if (primaryKey) {
+            text = 'INTEGER PRIMARY KEY AUTOINCREMENT';
+          } else {
+            text = `INTEGER${notNull}`;
+            ctx.note('warning', 'SQLite chỉ cho AUTOINCREMENT trên cột INTEGER PRIMARY KEY khai báo ngay tại cột: cột này sẽ không tự tăng.');
+          }
+          break;
+      }
+      if (unsigned && ctx.to !== 'mysql') ctx.note('warning', `${label(ctx.to)} không có UNSIGNED: đã bỏ, thêm CHECK (cot >= 0) nếu cần.`);
+      if (shown(text).toUpperCase() !== shown(original).toUpperCase()) {
+        ctx.note('change', `${shown(marker ?? `${serialSize ?? ''}SERIAL`).toUpperCase()} → ${text}`);
+      }
+      return replaceSpan(ctx, matchEnd(ctx), text);
+    },
+  },
+  callRule(/IFNULL/, (args, _name, { to }) => (to === 'postgresql' || to === 'sqlserver') && args.length === 2
+    ? { text: `COALESCE(${args.join(', ')})`, note: 'IFNULL(a, b) → COALESCE(a, b)' }
+    : null),
+  callRule(/ISNULL/, (args, _name, { from, to }) => {
+    // MySQL ISNULL(x) is a test; SQL Server ISNULL(x, y) picks a fallback
+    if (args.length === 1 && from !== 'sqlserver') {
+      return to === 'mysql' ? null : { text: `(${args[0]} IS NULL)`, note: 'ISNULL(x) → (x IS NULL)' };
+    }
+    if (args.length !== 2 || to === 'sqlserver') return null;
+    const name = to === 'mysql' ? 'IFNULL' : 'COALESCE';
+    return { text: `${name}(${args.join(', ')})`, note: `ISNULL(a, b) → ${name}(a, b)` };
+  }),
+  callRule(/NOW|GETDATE|CURDATE|RAND|RANDOM/, (args, name, { to }) => {
+    const text = FUNCTION_NAMES[name]?.[to];
+    return args.length === 0 && text ? { text, note: `${name}() → ${text}` } : null;
+  }),
+  callRule(/DATE_ADD|DATE_SUB|ADDDATE|SUBDATE/, (args, name, { to }) => {
+    const interval = args[1]?.match(/^INTERVAL\s+(.+?)\s+(\w+)$/i);
+    if (args.length !== 2 || !interval || to === 'mysql') return null;
+    const unit = interval[2].toUpperCase();
+    if (!DATE_UNITS.includes(unit)) return null;
+    const text = renderDateAdd(args[0], name.includes('SUB') ? `-${interval[1]}` : interval[1], unit, to);
+    return { text, note: `${name}(..., INTERVAL ${interval[1]} ${unit}) → ${text}` };
+  }),
+  callRule(/DATEADD/, (args, _name, { to }) => {
+    const unit = normalizeUnit(args[0] ?? '');
+    if (args.length !== 3 || to === 'sqlserver' || !DATE_UNITS.includes(unit)) return null;
+    const text = renderDateAdd(args[2], args[1], unit, to);
+    return { text, note: `DATEADD(${args[0]}, ...) → ${text}` };
+  }),
+  callRule(/DATEDIFF|TIMESTAMPDIFF/, (args, name, { to }) => {
+    // MySQL DATEDIFF(end, start) counts days; the others name the unit first and take the start date first
+    const mysqlDays = name === 'DATEDIFF' && args.length === 2;
+    const [unit, startDate, endDate] = mysqlDays ? ['DAY', args[1], args[0]] : [normalizeUnit(args[0] ?? ''), args[1], args[2]];
+    if (!endDate || !DATE_UNITS.includes(unit)) return null;
+    if ((mysqlDays || name === 'TIMESTAMPDIFF') && to === 'mysql') return null;
+    if (name === 'DATEDIFF' && !mysqlDays && to === 'sqlserver') return null;
+    const rewrite = renderDateDiff(unit, startDate, endDate, to);
+    const reordered = mysqlDays && to === 'sqlserver' ? ' (chú ý: SQL Server đặt ngày bắt đầu trước)' : '';
+    return { ...rewrite, note: `${name}(...) → ${rewrite.text}${reordered}` };
+  }),
+  callRule(/YEAR|MONTH|DAY/, (args, part, { to }) => {
+    if (args.length !== 1 || to === 'mysql' || to === 'sqlserver') return null;
+    const text = to === 'postgresql'
+      ? `EXTRACT(${part} FROM ${args[0]})`
+      : `CAST(strftime('${{ YEAR: '%Y', MONTH: '%m', DAY: '%d' }[part]}', ${args[0]}) AS INTEGER)`;
+    return { text, note: `${part}(d) → ${text.replace(args[0], 'd')}` };
+  }),
+  callRule(/DATE_FORMAT/, (args, _name, { to }) => {
+    const format = args[1]?.match(/^'(.*)'$/)?.[1];
+    if (args.length !== 2 || to === 'mysql') return null;
+    if (format === undefined) {
+      return { text: `DATE_FORMAT(${args.join(', ')})`, warning: `Không dịch được DATE_FORMAT với định dạng không phải chuỗi hằng sang ${label(to)}.` };
+    }
+    const unknown = format.match(/%[^YmdHis]/g);
+    const converted = format.replace(/%[YmdHis]/g, code => FORMAT_CODES[code][to] ?? code);
+    const text = to === 'postgresql'
+      ? `TO_CHAR(${args[0]}, '${converted}')`
+      : to === 'sqlite'
+        ? `strftime('${converted}', ${args[0]})`
+        : `FORMAT(${args[0]}, '${converted}')`;
+    return {
+      text,
+      note: `DATE_FORMAT(d, '${format}') → ${text.replace(args[0], 'd')}`,
+      warning: unknown ? `Mã định dạng ${[...new Set(unknown)].join(', ')} chưa được chuyển, hãy kiểm tra lại.` : undefined,
+    };
+  }),
+  warningRule(/\b(TO_CHAR|FORMAT|STRFTIME)\s*\(/gi, ({ from, to, match }) => {
+    const name = match[1].toUpperCase();
+    const native = { TO_CHAR: 'postgresql', FORMAT: 'sqlserver', STRFTIME: 'sqlite' }[name];
+    return native === from ? `${name}() không có bản tương đương 1-1 trong ${label(to)}: hãy viết lại định dạng ngày.` : null;
+  }),
+  callRule(/GROUP_CONCAT|STRING_AGG/, (args, name, { to }) => {
+    let [value, separator = "','"] = args;
+    if (name === 'GROUP_CONCAT' && args.length === 1) {
+      const inline = value.match(/^(.*?)\s+SEPARATOR\s+('(?:[^']|'')*')$/i);
+      if (inline) [, value, separator] = inline;
+    }
+    if (!value) return null;
+    const warning = /\bORDER\s+BY\b/i.test(value)
+      ? 'ORDER BY bên trong hàm gộp chuỗi viết khác nhau ở mỗi hệ (SQL Server dùng WITHIN GROUP): hãy kiểm tra lại.'
+      : /^DISTINCT\b/i.test(value) && to === 'sqlserver'
+        ? 'STRING_AGG của SQL Server không nhận DISTINCT: lọc trùng trong subquery trước.'
+        : undefined;
+    const text = to === 'mysql'
+      ? `GROUP_CONCAT(${value} SEPARATOR ${separator})`
+      : to === 'sqlite'
+        ? `GROUP_CONCAT(${value}, ${separator})`
+        : `STRING_AGG(${value}, ${separator})`;
+    const target = to === 'postgresql' || to === 'sqlserver' ? 'STRING_AGG' : 'GROUP_CONCAT';
+    return { text, note: target !== name ? `${name}(...) → ${target}(...)` : undefined, warning };
+  }),
+  // a || b is OR in MySQL and unknown to SQL Server
+  {
+    pattern: /(?:'(?:[^']|'')*'|[\w.]+)(?:\s*\|\|\s*(?:'(?:[^']|'')*'|[\w.]+))+/g,
+    apply: ctx => {
+      const parts = ctx.sql.slice(ctx.start, matchEnd(ctx)).split(/\s*\|\|\s*/);
+      if (ctx.from === 'mysql') {
+        ctx.note('change', '|| → OR (trong MySQL || là phép OR logic)');
+        return replaceSpan(ctx, matchEnd(ctx), parts.join(' OR '));
+      }
+      if (ctx.to !== 'mysql' && ctx.to !== 'sqlserver') return null;
+      ctx.note('change', `a || b → CONCAT(a, b) (${ctx.to === 'mysql' ? 'trong MySQL || là phép OR' : 'SQL Server không có ||'})`);
+      return replaceSpan(ctx, matchEnd(ctx), `CONCAT(${parts.join(', ')})`);
+    },
+  },
+  warningRule(/\|\|/g, ({ from, to }) => from === 'mysql'
+    ? 'Trong MySQL || là phép OR: hãy viết lại phần này bằng OR.'
+    : to === 'mysql' || to === 'sqlserver' ? `${label(to)} không nối chuỗi bằng ||: hãy viết lại bằng CONCAT(...).` : null),
+  callRule(/CONCAT/, (args, _name, { to }) => to === 'sqlite' && args.length > 1
+    ? { text: `(${args.join(' || ')})`, note: 'CONCAT(a, b) → a || b (SQLite nối chuỗi bằng ||)' }
+    : null),
+  callRule(/LEN|LENGTH|CHAR_LENGTH/, (args, name, { from, to }) => {
+    const target = { mysql: 'CHAR_LENGTH', postgresql: 'LENGTH', sqlite: 'LENGTH', sqlserver: 'LEN' }[to];
+    // MySQL LENGTH counts bytes, not characters
+    if (args.length !== 1 || name === target || (name === 'LENGTH' && from === 'mysql' && to !== 'sqlserver')) return null;
+    return { text: `${target}(${args[0]})`, note: `${name}() → ${target}()` };
+  }),
+  keywordRule(/\bLIKE\b/gi, ({ from, to }) => from === 'postgresql'
+    ? { text: 'LIKE', warning: `LIKE của PostgreSQL phân biệt hoa thường, còn ở ${label(to)} thì không: kết quả có thể nhiều hơn.` }
+    : null),
+  keywordRule(/\bILIKE\b/gi, ({ to }) => to === 'postgresql' ? null : {
+    text: 'LIKE',
+    note: `ILIKE → LIKE (${to === 'sqlite' ? 'LIKE của SQLite không phân biệt hoa thường với chữ ASCII' : `LIKE của ${label(to)} mặc định không phân biệt hoa thường`})`,
+  }),
+  // value::type casts
+  {
+    pattern: /('(?:[^']|'')*'|[\w.]+)::(\w+(?:\s*\(\s*\d+(?:\s*,\s*\d+)?\s*\))?)/g,
+    apply: ctx => {
+      if (ctx.to === 'postgresql') return null;
+      const [value, type] = ctx.sql.slice(ctx.start, matchEnd(ctx)).split('::');
+      ctx.note('change', `x::${type} → CAST(x AS ${type})`);
+      return replaceSpan(ctx, matchEnd(ctx), `CAST(${value} AS ${type})`);
+    },
+  },
+  warningRule(/\)::\w+/g, ({ to }) => to === 'postgresql' ? null : 'Ép kiểu (...)::type cần viết lại thành CAST((...) AS type).'),
+  keywordRule(/\b(TRUE|FALSE)\b/gi, ({ to, match }) => {
+    if (to !== 'sqlserver') return null;
+    const text = match[0].toUpperCase() === 'TRUE' ? '1' : '0';
+    return { text, note: `${match[0].toUpperCase()} → ${text} (SQL Server dùng kiểu BIT)` };
+  }),
+  keywordRule(/\b(BOOLEAN|BOOL)\b/gi, ({ to, match }) => to === 'sqlserver' ? { text: 'BIT', note: `${match[0].toUpperCase()} → BIT` } : null),
+  keywordRule(/\bDATETIME\b/gi, ({ to }) => to === 'postgresql' ? { text: 'TIMESTAMP', note: 'DATETIME → TIMESTAMP' } : null),
+  keywordRule(/\bTIMESTAMP\b(?!\s*\()/gi, ({ from, to }) => to === 'sqlserver' && from !== 'sqlserver'
+    ? { text: 'DATETIME2', note: 'TIMESTAMP → DATETIME2 (TIMESTAMP của SQL Server là rowversion, không phải ngày giờ)' }
+    : null),
+  keywordRule(/\b(TINYINT|MEDIUMINT)\b(?:\s*\(\s*\d+\s*\))?/gi, ({ to, match }) => {
+    const name = match[1].toUpperCase();
+    const text = name === 'TINYINT'
+      ? (to === 'postgresql' ? 'SMALLINT' : null)
+      : (to === 'postgresql' || to === 'sqlserver' ? 'INT' : null);
+    return text ? { text, note: `${name} → ${text}` } : null;
+  }),
+  keywordRule(/\bDOUBLE\b(?!\s+PRECISION)/gi, ({ to }) => to === 'postgresql'
+    ? { text: 'DOUBLE PRECISION', note: 'DOUBLE → DOUBLE PRECISION' }
+    : to === 'sqlserver' ? { text: 'FLOAT', note: 'DOUBLE → FLOAT' } : null),
+  keywordRule(/\b(LONGTEXT|MEDIUMTEXT|TINYTEXT|TEXT)\b/gi, ({ to, match }) => {
+    const name = match[0].toUpperCase();
+    if (to === 'sqlserver') return { text: 'NVARCHAR(MAX)', note: `${name} → NVARCHAR(MAX)` };
+    return name !== 'TEXT' && to !== 'mysql' ? { text: 'TEXT', note: `${name} → TEXT` } : null;
+  }),
+  // INT(11): display widths only exist in MySQL
+  keywordRule(/\b(TINYINT|SMALLINT|INT|INTEGER|BIGINT)\s*\(\s*\d+\s*\)/gi, ({ to, match }) => to === 'mysql' ? null : {
+    text: match[1].toUpperCase(),
+    note: `${shown(match[0])} → ${match[1].toUpperCase()} (độ rộng hiển thị chỉ có trong MySQL)`,
+  }),
+  keywordRule(/[ \t]*\b(?:ENGINE|(?:DEFAULT\s+)?CHARSET|(?:DEFAULT\s+)?CHARACTER\s+SET|COLLATE|AUTO_INCREMENT)\s*=\s*\w+/gi, ({ to, match }) => to === 'mysql' ? null : {
+    text: '',
+    note: `Bỏ tùy chọn bảng ${shown(match[0])} (chỉ có trong MySQL)`,
+  }),
+  keywordRule(/\bREPLACE\s+INTO\b/gi, ({ to }) => {
+    if (to === 'mysql') return null;
+    if (to === 'sqlite') return { text: 'INSERT OR REPLACE INTO', note: 'REPLACE INTO → INSERT OR REPLACE INTO' };
+    return {
+      text: 'INSERT INTO',
+      warning: `${label(to)} không có REPLACE INTO: dùng ${to === 'postgresql' ? 'INSERT ... ON CONFLICT (khóa) DO UPDATE' : 'MERGE'} để ghi đè dòng trùng khóa.`,
+    };
+  }),
+  keywordRule(/\bINSERT\s+IGNORE\s+INTO\b/gi, ({ to }) => {
+    if (to === 'mysql') return null;
+    if (to === 'sqlite') return { text: 'INSERT OR IGNORE INTO', note: 'INSERT IGNORE → INSERT OR IGNORE' };
+    return {
+      text: 'INSERT INTO',
+      warning: `${label(to)} không có INSERT IGNORE: ${to === 'postgresql' ? 'thêm ON CONFLICT DO NOTHING ở cuối câu' : 'dùng WHERE NOT EXISTS hoặc MERGE'}.`,
+    };
+  }),
+  keywordRule(/\bSHOW\s+TABLES\b/gi, ({ to }) => {
+    const text = {
+      mysql: null,
+      postgresql: "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'",
+      sqlite: "SELECT name FROM sqlite_master WHERE type = 'table'",
+      sqlserver: 'SELECT name FROM sys.tables',
+    }[to];
+    return text ? { text, note: `SHOW TABLES → truy vấn danh mục bảng của ${label(to)}` } : null;
+  }),
+  keywordRule(/^(?:DESCRIBE|DESC)\s+(\w+)(?=\s*(?:;|$))/gim, ({ to, match }) => {
+    const table = match[1];
+    if (to === 'sqlite') return { text: `PRAGMA table_info(${table})`, note: `DESCRIBE → PRAGMA table_info(${table})` };
+    if (to === 'sqlserver') return { text: `EXEC sp_columns ${table}`, note: `DESCRIBE → EXEC sp_columns ${table}` };
+    if (to === 'postgresql') {
+      return {
+        text: `SELECT column_name, data_type, is_nullable FROM information_schema.columns WHERE table_name = '${table}'`,
+        note: 'DESCRIBE → truy vấn information_schema.columns (trong psql có thể gõ \\d tên_bảng)',
+      };
+    }
+    return null;
+  }),
+  warningRule(/\bENUM\s*\(/gi, ({ to }) => to === 'mysql' ? null
+    : `${label(to)} không có cột ENUM: dùng VARCHAR kèm CHECK (cot IN (...))${to === 'postgresql' ? ' hoặc CREATE TYPE ... AS ENUM' : ''}.`),
+  warningRule(/\bON\s+DUPLICATE\s+KEY\s+UPDATE\b/gi, ({ to }) => {
+    if (to === 'mysql') return null;
+    if (to === 'sqlserver') return 'SQL Server không có ON DUPLICATE KEY UPDATE: viết lại bằng MERGE.';
+    return `${label(to)} dùng ON CONFLICT (cot_khoa) DO UPDATE SET cot = excluded.cot thay cho ON DUPLICATE KEY UPDATE: cần ghi rõ cột khóa.`;
+  }),
+  warningRule(/\bON\s+CONFLICT\b/gi, ({ to }) => to === 'postgresql' || to === 'sqlite' ? null
+    : `${label(to)} không có ON CONFLICT: ${to === 'mysql' ? 'dùng ON DUPLICATE KEY UPDATE' : 'dùng MERGE'}.`),
+  warningRule(/\bRETURNING\b/gi, ({ to }) => {
+    if (to === 'postgresql' || to === 'sqlite') return null;
+    return to === 'sqlserver'
+      ? 'SQL Server không có RETURNING: dùng OUTPUT inserted.cot (đặt trước VALUES/WHERE).'
+      : 'MySQL không có RETURNING: chạy thêm SELECT (hoặc LAST_INSERT_ID()) sau câu lệnh.';
+  }),
+  warningRule(/\bFULL\s+(?:OUTER\s+)?JOIN\b/gi, ({ to }) => to === 'mysql' ? 'MySQL không có FULL OUTER JOIN: ghép LEFT JOIN UNION RIGHT JOIN.' : null),
+];
+
+const lineOf = (sql: string, index: number) => sql.slice(0, index).split('\n').length;
+
+function runRule(rule: TranslateRule, sql: string, from: TranslateDialect, to: TranslateDialect, notes: TranslationNote[]): string {
+  let cursor = 0;
+  // Every step moves the cursor forward, so this ends; the cap is only a safety net
+  for (let guard = 0; guard < 1000; guard++) {
+    const pattern = new RegExp(rule.pattern.source, rule.pattern.flags);
+    pattern.lastIndex = cursor;
+    const masked = mask(sql, from, to);
+    const match = pattern.exec(masked);
+    if (!match) break;
+    const start = match.index;
+    const note = (level: TranslationNote['level'], message: string) => {
+      notes.push({ line: lineOf(sql, start), level, message });
+    };
+    const edit = rule.apply({ from, to, sql, masked, match, start, note });
+    if (edit) {
+      sql = edit.sql;
+      cursor = Math.max(edit.cursor, start + 1);
+    } else {
+      cursor = start + Math.max(match[0].length, 1);
+    }
+  }
+  return sql;
+}
+
+export function translateSQL(sql: string, from: TranslateDialect, to: TranslateDialect): Translation {
+  if (from === to) return { target: to, sql, notes: [] };
+  const notes: TranslationNote[] = [];
+  const translated = translateRules.reduce((text, rule) => runRule(rule, text, from, to, notes), sql);
+
+  // The same construct on one line only needs one note
+  const seen = new Set<string>();
+  const unique = notes.filter(n => {
+    const key = `${n.line}:${n.level}:${n.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  unique.sort((a, b) => a.line - b.line);
+  return { target: to, sql: translated, notes: unique };
+}
+
+export function translateToAll(sql: string, from: TranslateDialect): Translation[] {
+  return translateDialects.map(d => translateSQL(sql, from, d.id));
+}
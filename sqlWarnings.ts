@@ -0,0 +1,72 @@
+import { findTable } from './sqlCatalog';
+import { Dialect } from './sqlDialects';
+import { tryParseSQL } from './sqlParser';
+import { DatabaseSnapshot } from './sqlSnapshot';
+
+export interface SqlWarning {
+  level: 'Note' | 'Warning' | 'Error';
+  code: number;
+  message: string;
+}
+
+export type WarningsCommand = { count: boolean; errorsOnly: boolean };
+
+interface WarningContext {
+  dialect: Dialect;
+  database: string;
+  readCatalog: () => DatabaseSnapshot;
+  hasDatabase: (name: string) => boolean;
+}
+
+// SHOW WARNINGS, SHOW ERRORS and their COUNT(*) forms
+export function parseWarningsCommand(sql: string): WarningsCommand | null {
+  const match = sql.trim().replace(/;\s*$/, '').match(/^SHOW\s+(COUNT\s*\(\s*\*\s*\)\s+)?(WARNINGS|ERRORS)(?:\s+LIMIT\s+\d+(?:\s*,\s*\d+)?)?$/i);
+  return match ? { count: !!match[1], errorsOnly: match[2].toUpperCase() === 'ERRORS' } : null;
+}
+
+// The notes MySQL leaves behind when IF [NOT] EXISTS skips the work; decided before the statement runs
+export function statementWarnings(sql: string, context: WarningContext): SqlWarning[] {
+  if (!/\bIF\s+(NOT\s+)?EXISTS\b/i.test(sql)) return [];
+  const { statement } = tryParseSQL(sql, context.dialect);
+  if (!statement) return [];
+
+  if (statement.type === 'create_table' && statement.ifNotExists && findTable(context.readCatalog(), statement.table)) {
+    return [{ level: 'Note', code: 1050, message: `Table '${statement.table}' already exists` }];
+  }
+  if (statement.type === 'create_database' && statement.ifNotExists && context.hasDatabase(statement.name)) {
+    return [{ level: 'Note', code: 1007, message: `Can't create database '${statement.name}'; database exists` }];
+  }
+  if (statement.type === 'drop' && statement.ifExists) {
+    if (statement.object === 'DATABASE') {
+      return statement.names
+        .filter(name => !context.hasDatabase(name))
+        .map(name => ({ level: 'Note', code: 1008, message: `Can't drop database '${name}'; database doesn't exist` }));
+    }
+    if (statement.object === 'TABLE') {
+      const catalog = context.readCatalog();
+      const missing = statement.names.filter(name => !findTable(catalog, name));
+      // MySQL reports every missing table in one note
+      if (missing.length > 0) {
+        return [{ level: 'Note', code: 1051, message: `Unknown table '${missing.map(name => (name.includes('.') ? name : `${context.database}.${name}`)).join(',')}'` }];
+      }
+    }
+  }
+  return [];
+}
+
+// A failed statement leaves its error as the only diagnostic
+export function errorWarning(error: string): SqlWarning {
+  const match = error.match(/^ERROR (\d+)(?: \(\w+\))?: ([\s\S]*)$/);
+  return match ? { level: 'Error', code: Number(match[1]), message: match[2] } : { level: 'Error', code: 1105, message: error };
+}
+
+export function warningsResult(warnings: SqlWarning[], command: WarningsCommand) {
+  const shown = command.errorsOnly ? warnings.filter(w => w.level === 'Error') : warnings;
+  if (command.count) {
+    return { columns: [`@@session.${command.errorsOnly ? 'error' : 'warning'}_count`], rows: [[shown.length]] };
+  }
+  return { columns: ['Level', 'Code', 'Message'], rows: shown.map(w => [w.level, w.code, w.message]) };
+}
+
+// How the client prints them after a statement when `warnings` is on
+export const formatWarning = (warning: SqlWarning) => `${warning.level} (Code ${warning.code}): ${warning.message}`;
@@ -0,0 +1,78 @@
+import alasql from 'alasql';
+import { DatabaseSnapshot, applySnapshot, captureSnapshot, noteCheckConstraints } from '../utils/sqlSnapshot';
+
+export interface WorkerQueryResult {
+  columns: string[];
+  rows: (string | number | null)[][];
+  error?: string;
+  executionTime: number;
+  affectedRows?: number;
+}
+
+export interface WorkerRequest {
+  id: number;
+  sql: string;
+  // Sent when the main thread's tables changed since the worker last saw them
+  snapshot?: DatabaseSnapshot;
+  captureChanges: boolean;
+}
+
+export interface WorkerResponse {
+  id: number;
+  result: WorkerQueryResult;
+  snapshot?: DatabaseSnapshot;
+}
+
+interface RecordSet {
+  columns: { columnid: string }[];
+  data: Record<string, unknown>[];
+}
+
+const toCell = (value: unknown): string | number | null => {
+  if (value === null || value === undefined || Number.isNaN(value)) return null;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString().slice(0, 19).replace('T', ' ');
+  return JSON.stringify(value);
+};
+
+const isRecordSet = (value: unknown): value is RecordSet =>
+  !!value && typeof value === 'object' && 'columns' in value && 'data' in value;
+
+function toResult(output: unknown, startTime: number): WorkerQueryResult {
+  const executionTime = Math.round(performance.now() - startTime);
+  // Several statements at once: show the last one like the terminal would
+  const last = Array.isArray(output) && output.length > 0 && isRecordSet(output[output.length - 1]) ? output[output.length - 1] : output;
+
+  if (isRecordSet(last)) {
+    const columns = last.columns.map(c => c.columnid);
+    return { columns, rows: last.data.map(row => columns.map(c => toCell(row[c]))), executionTime };
+  }
+  if (Array.isArray(last)) {
+    const columns = last.length > 0 ? Object.keys(last[0]) : [];
+    return { columns, rows: last.map(row => columns.map(c => toCell(row[c]))), executionTime };
+  }
+  return { columns: [], rows: [], affectedRows: typeof last === 'number' ? last : 0, executionTime };
+}
+
+alasql.options.modifier = 'RECORDSET';
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const { id, sql, snapshot, captureChanges } = event.data;
+  let startTime = performance.now();
+  let response: WorkerResponse;
+  try {
+    if (snapshot) applySnapshot(snapshot);
+    // Catching up with the main thread's tables isn't part of the query's time
+    startTime = performance.now();
+    const result = toResult(alasql(sql), startTime);
+    noteCheckConstraints(sql);
+    response = { id, result, snapshot: captureChanges ? captureSnapshot() : undefined };
+  } catch (err) {
+    response = {
+      id,
+      result: { columns: [], rows: [], error: (err as Error).message, executionTime: Math.round(performance.now() - startTime) },
+    };
+  }
+  self.postMessage(response);
+});
@@ -0,0 +1,103 @@
+// Inline worker so the single-file build keeps working
+import SQLWorker from '../workers/sqlWorker?worker&inline';
+import { DatabaseSnapshot } from './sqlSnapshot';
+import { WorkerRequest, WorkerResponse } from '../workers/sqlWorker';
+
+export const TIMEOUT_ERROR = 'Query execution was interrupted, maximum statement execution time exceeded';
+export const CANCELLED_ERROR = 'Query execution was interrupted';
+
+interface QueryOptions {
+  version: number;
+  readTables: () => DatabaseSnapshot;
+  captureChanges: boolean;
+  timeout: number;
+}
+
+interface QueuedQuery {
+  sql: string;
+  options: QueryOptions;
+  resolve: (response: WorkerResponse) => void;
+}
+
+interface PendingQuery {
+  id: number;
+  startTime: number;
+  resolve: (response: WorkerResponse) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+let worker: Worker | null = null;
+let pending: PendingQuery | null = null;
+// One worker runs one query at a time: a query from another component waits its turn instead of cancelling this one
+const queue: QueuedQuery[] = [];
+let nextId = 1;
+// Version of the main thread's tables the worker currently holds; -1 = none
+let syncedVersion = -1;
+
+const failedResponse = (id: number, startTime: number, error: string): WorkerResponse => ({
+  id,
+  result: { columns: [], rows: [], error, executionTime: Math.round(performance.now() - startTime) },
+});
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  worker = new SQLWorker();
+  worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+    if (!pending || event.data.id !== pending.id) return;
+    // A failed statement may have half-applied; reseed from the main thread so it has no effect
+    if (event.data.result.error) syncedVersion = -1;
+    settle(event.data);
+  });
+  // Thrown outside the worker's own try (or the worker failed to load): no answer is coming
+  worker.addEventListener('error', (event: ErrorEvent) => {
+    event.preventDefault();
+    interrupt(event.message || 'Query execution failed');
+  });
+  return worker;
+}
+
+function settle(response: WorkerResponse) {
+  if (!pending) return;
+  const { resolve, timer } = pending;
+  if (timer) clearTimeout(timer);
+  pending = null;
+  resolve(response);
+  runNext();
+}
+
+// A busy worker can't be interrupted from outside: the only real cancel is terminate()
+function interrupt(error: string) {
+  if (!pending) return;
+  const { id, startTime } = pending;
+  worker?.terminate();
+  worker = null;
+  syncedVersion = -1;
+  settle(failedResponse(id, startTime, error));
+}
+
+function runNext() {
+  const next = queue.shift();
+  if (!next) return;
+  const { sql, options, resolve } = next;
+  const id = nextId++;
+  // The timeout counts from when the query starts, not from when it joined the queue
+  const timer = options.timeout > 0 ? setTimeout(() => interrupt(TIMEOUT_ERROR), options.timeout) : null;
+  pending = { id, startTime: performance.now(), resolve, timer };
+  const snapshot = syncedVersion === options.version ? undefined : options.readTables();
+  syncedVersion = options.version;
+  const request: WorkerRequest = { id, sql, snapshot, captureChanges: options.captureChanges };
+  getWorker().postMessage(request);
+}
+
+export function runInWorker(sql: string, options: QueryOptions): Promise<WorkerResponse> {
+  return new Promise(resolve => {
+    queue.push({ sql, options, resolve });
+    if (!pending) runNext();
+  });
+}
+
+// Stop cancels the running query and everything waiting behind it
+export function cancelWorkerQuery() {
+  for (const { resolve } of queue.splice(0)) resolve(failedResponse(nextId++, performance.now(), CANCELLED_ERROR));
+  interrupt(CANCELLED_ERROR);
+}
@@ -0,0 +1,98 @@
+import { DatabaseSnapshot } from './sqlSnapshot';
+
+export type WorkspaceTemplate = 'sample' | 'school' | 'shop' | 'company' | 'empty';
+
+export interface WorkspaceInfo {
+  name: string;
+  template: WorkspaceTemplate;
+  createdAt: number;
+}
+
+export interface SavedWorkspaces {
+  active: string;
+  workspaces: WorkspaceInfo[];
+}
+
+export const DEFAULT_WORKSPACE = 'sandbox';
+
+export const workspaceTemplates: { id: WorkspaceTemplate; icon: string; label: string; tables?: string[] }[] = [
+  { id: 'sample', icon: '📦', label: 'Database mẫu đầy đủ' },
+  { id: 'school', icon: '🏫', label: 'Trường học (students)', tables: ['students'] },
+  { id: 'shop', icon: '🛒', label: 'Cửa hàng (products, orders)', tables: ['products', 'orders'] },
+  { id: 'company', icon: '🏢', label: 'Công ty (employees)', tables: ['employees'] },
+  { id: 'empty', icon: '📄', label: 'Trống', tables: [] },
+];
+
+const STORAGE_KEY = 'sqlMasterPro_workspaces';
+
+export function loadWorkspaceList(): SavedWorkspaces {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      const data: SavedWorkspaces = JSON.parse(saved);
+      if (data.workspaces?.length) return data;
+    } catch {
+      // Invalid data, fall back to the default workspace
+    }
+  }
+  return {
+    active: DEFAULT_WORKSPACE,
+    workspaces: [{ name: DEFAULT_WORKSPACE, template: 'sample', createdAt: Date.now() }],
+  };
+}
+
+export function saveWorkspaceList(data: SavedWorkspaces) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+}
+
+export function buildTemplate(template: WorkspaceTemplate, sample: DatabaseSnapshot): DatabaseSnapshot {
+  const tableNames = workspaceTemplates.find(t => t.id === template)?.tables;
+  return {
+    tables: tableNames ? sample.tables.filter(t => tableNames.includes(t.name)) : sample.tables,
+    savedAt: Date.now(),
+  };
+}
+
+export function isValidWorkspaceName(name: string): boolean {
+  return /^[\w-]{1,64}$/.test(name);
+}
+
+export type DatabaseCommand =
+  | { type: 'create'; name: string; ifNotExists: boolean; source?: string }
+  | { type: 'drop'; name: string; ifExists: boolean }
+  | { type: 'use'; name: string }
+  | { type: 'show' };
+
+const NAME = '(`[^`]+`|[\\w-]+)';
+const unquote = (name: string) => name.replace(/^`|`$/g, '');
+
+// CREATE/DROP/USE/SHOW DATABASES operate on workspaces, never on alasql databases
+export function parseDatabaseCommand(sql: string): DatabaseCommand | null {
+  const text = sql.trim().replace(/;\s*$/, '');
+
+  const create = text.match(new RegExp(
+    `^CREATE\\s+(?:DATABASE|SCHEMA)\\s+(IF\\s+NOT\\s+EXISTS\\s+)?${NAME}` +
+    `(?:\\s+(?:DEFAULT\\s+)?(?:CHARACTER\\s+SET|CHARSET|COLLATE)\\s*=?\\s*\\w+)*` +
+    `(?:\\s+TEMPLATE\\s*=?\\s*${NAME})?$`,
+    'i'
+  ));
+  if (create) {
+    return { type: 'create', name: unquote(create[2]), ifNotExists: !!create[1], source: create[3] && unquote(create[3]) };
+  }
+
+  const drop = text.match(new RegExp(`^DROP\\s+(?:DATABASE|SCHEMA)\\s+(IF\\s+EXISTS\\s+)?${NAME}$`, 'i'));
+  if (drop) {
+    return { type: 'drop', name: unquote(drop[2]), ifExists: !!drop[1] };
+  }
+
+  const use = text.match(new RegExp(`^USE\\s+${NAME}$`, 'i'));
+  if (use) {
+    return { type: 'use', name: unquote(use[1]) };
+  }
+
+  if (/^SHOW\s+(?:DATABASES|SCHEMAS)$/i.test(text)) {
+    return { type: 'show' };
+  }
+
+  return null;
+}
@@ -0,0 +1,974 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { useSQLEngine } from './useSQLEngine';
+import { DatabaseSnapshot, captureSnapshot, applySnapshot, noteCheckConstraints } from '../utils/sqlSnapshot';
+import {
+  loadSnapshot,
+  saveSnapshot,
+  deleteSnapshot,
+  loadNamedSnapshots,
+  saveNamedSnapshots,
+  deleteNamedSnapshots,
+} from '../utils/sqlStorage';
+import { runInWorker, cancelWorkerQuery } from '../utils/sqlWorkerClient';
+import { OpenTransaction, IMPLICIT_COMMIT_SQL, parseTransactionCommand, findSavepoint } from '../utils/sqlTransactions';
+import {
+  TimelineEntry,
+  TimelineStep,
+  NamedSnapshot,
+  MAX_TIMELINE_STEPS,
+  isValidSnapshotName,
+  sameSnapshotName,
+  timelineLabel,
+} from '../utils/sqlTimeline';
+import {
+  Account,
+  Session,
+  ROOT_SESSION,
+  loadAccounts,
+  saveAccounts,
+  isRoot,
+  findAccount,
+  formatAccount,
+  parsePrivilegeCommand,
+  effectiveGrants,
+  addGrants,
+  removeGrants,
+  formatGrants,
+  analyzeStatement,
+  checkRequirements,
+  hasPrivilege,
+  hasAnyPrivilegeOn,
+  accessDenied,
+  databaseAccessDenied,
+  needsPrivilege,
+} from '../utils/sqlPrivileges';
+import { Dialect, loadDialect, saveDialect, checkDialect, toEngineSQL, formatEngineError, isDialectError } from '../utils/sqlDialects';
+import {
+  WorkspaceInfo,
+  WorkspaceTemplate,
+  workspaceTemplates,
+  loadWorkspaceList,
+  saveWorkspaceList,
+  buildTemplate,
+  isValidWorkspaceName,
+  parseDatabaseCommand,
+} from '../utils/sqlWorkspaces';
+import {
+  parseCatalogCommand,
+  findTable,
+  listTables,
+  tableStatus,
+  describeTable,
+  showCreateTable,
+  showIndexes,
+} from '../utils/sqlCatalog';
+import { alterTable } from '../utils/sqlAlter';
+import { deleteHistory } from '../utils/sqlHistory';
+import { SqlWarning, errorWarning, parseWarningsCommand, statementWarnings, warningsResult } from '../utils/sqlWarnings';
+
+export type QueryResult = ReturnType<ReturnType<typeof useSQLEngine>['executeSQL']> & { message?: string; warnings?: SqlWarning[] };
+
+const MUTATING_SQL = /\b(INSERT|UPDATE|DELETE|REPLACE|CREATE|DROP|ALTER|TRUNCATE|RENAME)\b/i;
+const SAVE_DELAY = 300;
+const TIMEOUT_KEY = 'sqlMasterPro_queryTimeout';
+const DEFAULT_TIMEOUT = 10000;
+
+interface DatabaseState {
+  isRestored: boolean;
+  activeWorkspace: string;
+  workspaces: WorkspaceInfo[];
+  // SQL currently executing in the worker, for "query running…" indicators
+  runningQuery: string | null;
+  queryTimeout: number;
+  inTransaction: boolean;
+  autocommit: boolean;
+  // Account the simulated session is connected as (\connect)
+  currentUser: string;
+  // Undo/redo history of the active workspace (labels only) and its saved snapshots
+  undoTimeline: TimelineEntry[];
+  redoTimeline: TimelineEntry[];
+  namedSnapshots: NamedSnapshot[];
+  // Which database the engine pretends to be: accepted syntax and error wording
+  dialect: Dialect;
+  // Bumped after every change to the tables, so schema views know to re-read the catalog
+  catalogVersion: number;
+}
+
+function loadQueryTimeout(): number {
+  const saved = Number(localStorage.getItem(TIMEOUT_KEY));
+  return Number.isFinite(saved) && saved > 0 ? saved : DEFAULT_TIMEOUT;
+}
+
+// alasql is a singleton, so workspace and persistence state is shared by every component
+let state: DatabaseState = {
+  isRestored: false,
+  activeWorkspace: '',
+  workspaces: [],
+  runningQuery: null,
+  queryTimeout: loadQueryTimeout(),
+  inTransaction: false,
+  autocommit: true,
+  currentUser: ROOT_SESSION.user,
+  undoTimeline: [],
+  redoTimeline: [],
+  namedSnapshots: [],
+  dialect: loadDialect(),
+  catalogVersion: 0,
+};
+let sampleTemplate: DatabaseSnapshot = { tables: [], savedAt: 0 };
+let restorePromise: Promise<void> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+// Last saved content of every workspace; the active one lives in alasql
+const snapshots = new Map<string, DatabaseSnapshot>();
+// Bumped whenever the main thread's tables change, so the worker knows to resync
+let tablesVersion = 0;
+let queryCounter = 0;
+let transaction: OpenTransaction | null = null;
+// Users and roles are server-wide, not per workspace
+let accounts: Account[] = loadAccounts();
+let session: Session = ROOT_SESSION;
+// Diagnostics of the last statement, for SHOW WARNINGS
+let lastWarnings: SqlWarning[] = [];
+// Snapshots behind the timeline; the last step of each stack is the next to move
+let undoSteps: TimelineStep[] = [];
+let redoSteps: TimelineStep[] = [];
+let stepCounter = 0;
+// Set while a generated script runs, so all its statements become one step
+let pendingStep: { label: string; before: DatabaseSnapshot; changed: boolean } | null = null;
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getState = () => state;
+
+function setState(patch: Partial<DatabaseState>) {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener());
+}
+
+function persist(workspace: string, snapshot: DatabaseSnapshot) {
+  snapshots.set(workspace, snapshot);
+  saveSnapshot(workspace, snapshot).catch(() => {
+    // IndexedDB unavailable (private mode, quota): keep working in memory
+  });
+}
+
+function cancelSave() {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = null;
+}
+
+function scheduleSave() {
+  // Uncommitted changes stay in memory only; a reload rolls them back like a dropped session
+  if (transaction) return;
+  cancelSave();
+  const workspace = state.activeWorkspace;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    persist(workspace, captureSnapshot());
+  }, SAVE_DELAY);
+}
+
+function saveNow() {
+  cancelSave();
+  persist(state.activeWorkspace, captureSnapshot());
+}
+
+const touchCatalog = () => setState({ catalogVersion: state.catalogVersion + 1 });
+
+function replaceTables(snapshot: DatabaseSnapshot) {
+  applySnapshot(snapshot);
+  tablesVersion++;
+  touchCatalog();
+}
+
+const toEntry = ({ id, label, at }: TimelineStep): TimelineEntry => ({ id, label, at });
+
+function publishTimeline() {
+  setState({ undoTimeline: undoSteps.map(toEntry), redoTimeline: redoSteps.map(toEntry) });
+}
+
+function clearTimeline() {
+  undoSteps = [];
+  redoSteps = [];
+  publishTimeline();
+}
+
+// After a successful change; `before` is what undo puts back
+function recordChange(label: string, before: DatabaseSnapshot) {
+  if (pendingStep) {
+    pendingStep.changed = true;
+    return;
+  }
+  const step = { id: ++stepCounter, label: timelineLabel(label), at: Date.now(), snapshot: before };
+  undoSteps = [...undoSteps, step].slice(-MAX_TIMELINE_STEPS);
+  redoSteps = [];
+  publishTimeline();
+}
+
+// Inside a transaction the change only joins the timeline at COMMIT
+function noteChange(sql: string, before: DatabaseSnapshot | null) {
+  if (transaction) {
+    transaction.statements.push(sql);
+  } else if (pendingStep) {
+    pendingStep.changed = true;
+  } else if (before) {
+    recordChange(sql, before);
+  }
+}
+
+// Copying the tables is only worth it for a statement that may change them
+const undoSnapshotFor = (sql: string) =>
+  MUTATING_SQL.test(sql) && !transaction && !pendingStep ? captureSnapshot() : null;
+
+// Imports and .sql files run many statements; undo treats them as one step
+function runAsStep<T>(label: string, action: () => T): T {
+  if (pendingStep || transaction) return action();
+  pendingStep = { label, before: captureSnapshot(), changed: false };
+  try {
+    return action();
+  } finally {
+    const step = pendingStep;
+    pendingStep = null;
+    if (step.changed) recordChange(step.label, step.before);
+  }
+}
+
+function ensureNoTransaction(action: string) {
+  if (transaction) throw new Error(`Cannot ${action} while a transaction is active; COMMIT or ROLLBACK first`);
+}
+
+// Undo and redo are the same move in opposite directions: each step swaps the
+// snapshot it holds with the tables it replaces
+function travel(direction: 'undo' | 'redo', steps: number): TimelineEntry[] {
+  ensureCanRewrite();
+  ensureNoTransaction(direction);
+  const from = direction === 'undo' ? [...undoSteps] : [...redoSteps];
+  const to = direction === 'undo' ? [...redoSteps] : [...undoSteps];
+  if (from.length === 0) throw new Error(`Nothing to ${direction}`);
+
+  const moved: TimelineStep[] = [];
+  let tables = captureSnapshot();
+  for (let i = 0; i < steps && from.length > 0; i++) {
+    const step = from.pop()!;
+    to.push({ ...step, snapshot: tables });
+    tables = step.snapshot;
+    moved.push(step);
+  }
+  [undoSteps, redoSteps] = direction === 'undo' ? [from, to] : [to, from];
+  replaceTables(tables);
+  saveNow();
+  publishTimeline();
+  return moved.map(toEntry);
+}
+
+const undo = (steps = 1) => travel('undo', steps);
+const redo = (steps = 1) => travel('redo', steps);
+
+function updateNamedSnapshots(list: NamedSnapshot[]) {
+  setState({ namedSnapshots: list });
+  saveNamedSnapshots(state.activeWorkspace, list).catch(() => {
+    // Kept in memory for this session
+  });
+}
+
+function loadWorkspaceSnapshots(workspace: string) {
+  loadNamedSnapshots(workspace)
+    .catch(() => [])
+    .then(list => {
+      if (state.activeWorkspace === workspace) setState({ namedSnapshots: list });
+    });
+}
+
+function saveNamedSnapshot(name: string) {
+  const trimmed = name.trim();
+  if (!isValidSnapshotName(trimmed)) throw new Error(`Incorrect snapshot name '${name}'`);
+  // Saving under an existing name replaces it, like SAVEPOINT does
+  const others = state.namedSnapshots.filter(s => !sameSnapshotName(s.name, trimmed));
+  updateNamedSnapshots([...others, { name: trimmed, createdAt: Date.now(), snapshot: captureSnapshot() }]);
+}
+
+function restoreNamedSnapshot(name: string) {
+  const saved = state.namedSnapshots.find(s => sameSnapshotName(s.name, name.trim()));
+  if (!saved) throw new Error(`Snapshot '${name}' doesn't exist`);
+  ensureCanRewrite();
+  ensureNoTransaction('restore a snapshot');
+  const before = captureSnapshot();
+  replaceTables(saved.snapshot);
+  recordChange(`snapshot restore ${saved.name}`, before);
+  saveNow();
+}
+
+function deleteNamedSnapshot(name: string) {
+  const saved = state.namedSnapshots.find(s => sameSnapshotName(s.name, name.trim()));
+  if (!saved) throw new Error(`Snapshot '${name}' doesn't exist`);
+  updateNamedSnapshots(state.namedSnapshots.filter(s => s !== saved));
+}
+
+function beginTransaction() {
+  if (saveTimer) saveNow();
+  transaction = { start: captureSnapshot(), savepoints: [], statements: [] };
+  setState({ inTransaction: true });
+}
+
+function commitTransaction() {
+  if (!transaction) return;
+  const { start, statements } = transaction;
+  transaction = null;
+  setState({ inTransaction: false });
+  if (statements.length > 0) recordChange(statements.join('; '), start);
+  saveNow();
+}
+
+function rollbackTransaction() {
+  if (!transaction) return;
+  replaceTables(transaction.start);
+  transaction = null;
+  setState({ inTransaction: false });
+}
+
+// Before running a statement: DDL commits implicitly, autocommit=0 opens a transaction
+function prepareStatement(sql: string) {
+  if (IMPLICIT_COMMIT_SQL.test(sql)) {
+    commitTransaction();
+  } else if (!state.autocommit && !transaction) {
+    beginTransaction();
+  }
+}
+
+function updateWorkspaces(workspaces: WorkspaceInfo[], activeWorkspace = state.activeWorkspace) {
+  setState({ workspaces, activeWorkspace });
+  saveWorkspaceList({ active: activeWorkspace, workspaces });
+}
+
+function restoreOnce() {
+  if (restorePromise) return;
+
+  // The engine has just seeded sampleDatabases; keep that as the pristine state
+  sampleTemplate = captureSnapshot();
+  const saved = loadWorkspaceList();
+
+  restorePromise = Promise.all(saved.workspaces.map(info =>
+    loadSnapshot(info.name)
+      .catch(() => null)
+      .then(snapshot => {
+        snapshots.set(info.name, snapshot ?? buildTemplate(info.template, sampleTemplate));
+      })
+  )).then(() => {
+    const active = saved.workspaces.some(w => w.name === saved.active) ? saved.active : saved.workspaces[0].name;
+    replaceTables(snapshots.get(active)!);
+    setState({ isRestored: true, activeWorkspace: active, workspaces: saved.workspaces });
+    loadWorkspaceSnapshots(active);
+  });
+}
+
+function findWorkspace(name: string) {
+  return state.workspaces.find(w => w.name.toLowerCase() === name.toLowerCase());
+}
+
+function contentOf(workspace: WorkspaceInfo): DatabaseSnapshot {
+  return workspace.name === state.activeWorkspace ? captureSnapshot() : snapshots.get(workspace.name)!;
+}
+
+function createWorkspace(name: string, template: WorkspaceTemplate = 'empty') {
+  if (!isValidWorkspaceName(name)) throw new Error(`Incorrect database name '${name}'`);
+  if (findWorkspace(name)) throw new Error(`Can't create database '${name}'; database exists`);
+
+  persist(name, buildTemplate(template, sampleTemplate));
+  updateWorkspaces([...state.workspaces, { name, template, createdAt: Date.now() }]);
+}
+
+function cloneWorkspace(source: string, name: string) {
+  const from = findWorkspace(source);
+  if (!from) throw new Error(`Unknown database '${source}'`);
+  if (!isValidWorkspaceName(name)) throw new Error(`Incorrect database name '${name}'`);
+  if (findWorkspace(name)) throw new Error(`Can't create database '${name}'; database exists`);
+
+  persist(name, contentOf(from));
+  updateWorkspaces([...state.workspaces, { name, template: from.template, createdAt: Date.now() }]);
+}
+
+function switchWorkspace(name: string) {
+  const target = findWorkspace(name);
+  if (!target) throw new Error(`Unknown database '${name}'`);
+  if (target.name === state.activeWorkspace) return;
+
+  // A transaction doesn't follow the user into another workspace
+  commitTransaction();
+  saveNow();
+  replaceTables(snapshots.get(target.name)!);
+  updateWorkspaces(state.workspaces, target.name);
+  // Undo history belongs to the tables it was recorded on
+  clearTimeline();
+  setState({ namedSnapshots: [] });
+  loadWorkspaceSnapshots(target.name);
+}
+
+function deleteWorkspace(name: string) {
+  const target = findWorkspace(name);
+  if (!target) throw new Error(`Can't drop database '${name}'; database doesn't exist`);
+  if (target.name === state.activeWorkspace) {
+    throw new Error(`Can't drop database '${target.name}'; switch to another database with USE first`);
+  }
+
+  snapshots.delete(target.name);
+  deleteSnapshot(target.name).catch(() => {
+    // Already gone from storage
+  });
+  deleteNamedSnapshots(target.name).catch(() => {
+    // Already gone from storage
+  });
+  deleteHistory(target.name);
+  updateWorkspaces(state.workspaces.filter(w => w !== target));
+}
+
+function timedResult(startTime: number) {
+  return (result: Partial<QueryResult>) => ({
+    columns: [],
+    rows: [],
+    affectedRows: 0,
+    ...result,
+    executionTime: Math.round(performance.now() - startTime),
+  }) as QueryResult;
+}
+
+// CREATE/DROP/USE DATABASE and SHOW DATABASES map onto workspaces
+function runDatabaseCommand(sql: string): QueryResult | null {
+  const command = parseDatabaseCommand(sql);
+  if (!command) return null;
+
+  const done = timedResult(performance.now());
+
+  try {
+    switch (command.type) {
+      case 'create':
+        if (command.ifNotExists && findWorkspace(command.name)) return done({});
+        if (command.source && findWorkspace(command.source)) {
+          cloneWorkspace(command.source, command.name);
+        } else if (command.source && !workspaceTemplates.some(t => t.id === command.source)) {
+          return done({ error: `Unknown database '${command.source}'` });
+        } else {
+          createWorkspace(command.name, (command.source as WorkspaceTemplate | undefined) ?? 'empty');
+        }
+        return done({ affectedRows: 1 });
+      case 'drop': {
+        const target = findWorkspace(command.name);
+        if (!target && command.ifExists) return done({});
+        const tableCount = target ? snapshots.get(target.name)?.tables.length ?? 0 : 0;
+        deleteWorkspace(command.name);
+        return done({ affectedRows: tableCount });
+      }
+      case 'use':
+        switchWorkspace(command.name);
+        return done({ message: 'Database changed' });
+      case 'show':
+        return done({
+          columns: ['Database'],
+          rows: state.workspaces.map(w => [w.name]).sort((a, b) => a[0].localeCompare(b[0])),
+        });
+    }
+  } catch (err) {
+    return done({ error: (err as Error).message });
+  }
+}
+
+// SHOW TABLES / SHOW COLUMNS / DESCRIBE / SHOW CREATE TABLE / SHOW INDEX read the live catalog
+function runCatalogCommand(sql: string): QueryResult | null {
+  const command = parseCatalogCommand(sql);
+  if (!command) return null;
+
+  const done = timedResult(performance.now());
+  const workspace = findWorkspace(command.database ?? state.activeWorkspace);
+  if (!workspace) return done({ error: `Unknown database '${command.database}'` });
+
+  const catalog = contentOf(workspace);
+  if (command.type === 'tables') return done(listTables(catalog, workspace.name));
+  if (command.type === 'status') return done(tableStatus(catalog));
+
+  const table = findTable(catalog, command.table);
+  if (!table) return done({ error: `Table '${workspace.name}.${command.table}' doesn't exist` });
+
+  switch (command.type) {
+    case 'columns':
+      return done(describeTable(table));
+    case 'create':
+      return done(showCreateTable(table));
+    case 'index':
+      return done(showIndexes(table));
+  }
+}
+
+// ALTER TABLE rewrites the table from a snapshot; see alterTable for why
+function runAlterCommand(sql: string): QueryResult | null {
+  if (!/^\s*ALTER\s+TABLE\b/i.test(sql)) return null;
+  const done = timedResult(performance.now());
+  const before = captureSnapshot();
+  const altered = alterTable(before, sql, state.activeWorkspace);
+  if (!altered) return null;
+  if ('error' in altered) return done({ error: altered.error });
+
+  prepareStatement(sql);
+  replaceTables(altered.snapshot);
+  noteChange(sql, before);
+  scheduleSave();
+  return done({ affectedRows: 0 });
+}
+
+function runTransactionCommand(sql: string): QueryResult | null {
+  const command = parseTransactionCommand(sql);
+  if (!command) return null;
+
+  const done = timedResult(performance.now());
+
+  switch (command.type) {
+    case 'begin':
+      // START TRANSACTION inside a transaction commits the previous one first
+      commitTransaction();
+      beginTransaction();
+      return done({});
+    case 'commit':
+      commitTransaction();
+      return done({});
+    case 'rollback':
+      rollbackTransaction();
+      return done({});
+    case 'savepoint':
+      // Without an open transaction MySQL accepts SAVEPOINT but it has nothing to undo
+      if (transaction) {
+        const existing = findSavepoint(transaction, command.name);
+        if (existing !== -1) transaction.savepoints.splice(existing, 1);
+        transaction.savepoints.push({ name: command.name, snapshot: captureSnapshot() });
+      }
+      return done({});
+    case 'rollbackTo':
+    case 'release': {
+      const index = transaction ? findSavepoint(transaction, command.name) : -1;
+      if (!transaction || index === -1) return done({ error: `SAVEPOINT ${command.name} does not exist` });
+      if (command.type === 'rollbackTo') {
+        replaceTables(transaction.savepoints[index].snapshot);
+        // Savepoints set after this one are gone, this one stays
+        transaction.savepoints.length = index + 1;
+      } else {
+        transaction.savepoints.length = index;
+      }
+      return done({});
+    }
+    case 'autocommit':
+      if (command.enabled) commitTransaction();
+      setState({ autocommit: command.enabled });
+      return done({});
+  }
+}
+
+function updateAccounts(next: Account[]) {
+  accounts = next;
+  saveAccounts(accounts);
+}
+
+function connectAs(user: string) {
+  if (user.toLowerCase() === ROOT_SESSION.user) {
+    session = ROOT_SESSION;
+  } else {
+    const account = findAccount(accounts, user);
+    if (!account || account.isRole) {
+      throw new Error(`ERROR 1045 (28000): Access denied for user '${user}'@'localhost' (using password: NO)`);
+    }
+    session = { user: account.user, host: account.host, activeRoles: [] };
+  }
+  setState({ currentUser: session.user });
+}
+
+const sessionGrants = () => effectiveGrants(accounts, session);
+
+// Undo/redo, snapshot restores and resets replace every table, so like DROP DATABASE they need DROP on it
+function ensureCanRewrite() {
+  if (isRoot(session) || hasPrivilege(sessionGrants(), 'DROP', state.activeWorkspace)) return;
+  throw new Error(databaseAccessDenied(session, state.activeWorkspace));
+}
+
+function runPrivilegeCommand(sql: string): QueryResult | null {
+  const command = parsePrivilegeCommand(sql);
+  if (!command) return null;
+
+  const done = timedResult(performance.now());
+  const root = isRoot(session);
+  const canManageUsers = root || hasPrivilege(sessionGrants(), 'CREATE USER', '*');
+  // Work on a copy so a failing statement changes nothing
+  const next: Account[] = accounts.map(a => ({ ...a, grants: a.grants.map(g => ({ ...g })), roles: [...a.roles] }));
+  const resolve = (user: string) => findAccount(next, user);
+
+  switch (command.type) {
+    case 'createUser': {
+      const kind = command.isRole ? 'CREATE ROLE' : 'CREATE USER';
+      if (!canManageUsers) return done({ error: needsPrivilege('CREATE USER') });
+      for (const { user, host } of command.accounts) {
+        if (resolve(user) || user.toLowerCase() === ROOT_SESSION.user) {
+          if (command.ifNotExists) continue;
+          return done({ error: `ERROR 1396 (HY000): Operation ${kind} failed for ${formatAccount(user, host)}` });
+        }
+        next.push({ user, host, isRole: command.isRole, grants: [], roles: [] });
+      }
+      updateAccounts(next);
+      return done({});
+    }
+    case 'dropUser': {
+      const kind = command.isRole ? 'DROP ROLE' : 'DROP USER';
+      if (!canManageUsers) return done({ error: needsPrivilege('CREATE USER') });
+      for (const { user, host } of command.accounts) {
+        if (!resolve(user)) {
+          if (command.ifExists) continue;
+          return done({ error: `ERROR 1396 (HY000): Operation ${kind} failed for ${formatAccount(user, host)}` });
+        }
+      }
+      const dropped = command.accounts.map(a => a.user.toLowerCase());
+      updateAccounts(next
+        .filter(a => !dropped.includes(a.user.toLowerCase()))
+        .map(a => ({ ...a, roles: a.roles.filter(r => !dropped.includes(r.toLowerCase())) })));
+      return done({});
+    }
+    case 'grant':
+    case 'revoke': {
+      const database = command.level.database ?? state.activeWorkspace;
+      const table = command.level.table;
+      if (table !== '*') {
+        const workspace = findWorkspace(database);
+        const info = workspace && findTable(contentOf(workspace), table);
+        if (!info) return done({ error: `ERROR 1146 (42S02): Table '${database}.${table}' doesn't exist` });
+        for (const { columns } of command.privileges) {
+          const unknown = columns?.find(c => !info.columns.some(col => col.name.toLowerCase() === c.toLowerCase()));
+          if (unknown) return done({ error: `ERROR 1054 (42S22): Unknown column '${unknown}' in '${info.name}'` });
+        }
+      }
+      if (!root) {
+        const grants = sessionGrants();
+        const allowed = hasPrivilege(grants, 'GRANT OPTION', database, table)
+          && command.privileges.every(p => hasPrivilege(grants, p.privilege, database, table));
+        if (!allowed) {
+          const verb = command.type === 'grant' ? 'GRANT' : 'REVOKE';
+          return done({ error: table === '*' ? databaseAccessDenied(session, database) : accessDenied(verb, session, table) });
+        }
+      }
+      for (const { user, host } of command.accounts) {
+        const account = resolve(user);
+        if (!account) {
+          return done({ error: command.type === 'grant'
+            ? 'ERROR 1410 (42000): You are not allowed to create a user with GRANT'
+            : `ERROR 1141 (42000): There is no such grant defined for user '${user}' on host '${host}'` });
+        }
+        if (command.type === 'grant') {
+          const withGrant = command.withGrantOption ? [{ privilege: 'GRANT OPTION' as const, columns: null }] : [];
+          addGrants(account, [...command.privileges, ...withGrant], database, table);
+        } else if (!removeGrants(account, command.privileges, database, table)) {
+          return done({ error: `ERROR 1141 (42000): There is no such grant defined for user '${account.user}' on host '${account.host}'` });
+        }
+      }
+      updateAccounts(next);
+      return done({});
+    }
+    case 'revokeAll':
+    case 'grantRole':
+    case 'revokeRole': {
+      if (!canManageUsers) return done({ error: needsPrivilege(command.type === 'revokeAll' ? 'CREATE USER' : 'ROLE_ADMIN') });
+      const roles = command.type === 'revokeAll' ? [] : command.roles;
+      for (const role of roles) {
+        if (!resolve(role)?.isRole) return done({ error: `ERROR 3523 (HY000): Unknown authorization ID \`${role}\`@\`%\`` });
+      }
+      for (const { user, host } of command.accounts) {
+        const account = resolve(user);
+        if (!account) return done({ error: `ERROR 3523 (HY000): Unknown authorization ID \`${user}\`@\`${host}\`` });
+        if (command.type === 'revokeAll') {
+          account.grants = [];
+        } else if (command.type === 'grantRole') {
+          account.roles = [...new Set([...account.roles, ...roles.map(r => resolve(r)!.user)])];
+        } else {
+          account.roles = account.roles.filter(r => !roles.some(role => role.toLowerCase() === r.toLowerCase()));
+        }
+      }
+      updateAccounts(next);
+      return done({});
+    }
+    case 'showGrants': {
+      const name = command.account?.user ?? session.user;
+      if (name.toLowerCase() === ROOT_SESSION.user) {
+        return done({
+          columns: ['Grants for root@localhost'],
+          rows: [['GRANT ALL PRIVILEGES ON *.* TO `root`@`localhost` WITH GRANT OPTION']],
+        });
+      }
+      const account = resolve(name);
+      if (!account) {
+        return done({ error: `ERROR 1141 (42000): There is no such grant defined for user '${name}' on host '${command.account?.host ?? '%'}'` });
+      }
+      const roleGrants = command.using.flatMap(role => resolve(role)?.grants ?? []);
+      return done({
+        columns: [`Grants for ${account.user}@${account.host}`],
+        rows: formatGrants(account, roleGrants).map(line => [line]),
+      });
+    }
+    case 'setRole': {
+      if (root) return done({});
+      // The connected user may have been dropped meanwhile: then no role is granted any more
+      const granted = resolve(session.user)?.roles ?? [];
+      let active: string[];
+      if (command.roles === 'ALL') {
+        active = granted;
+      } else if (command.roles === 'NONE' || command.roles === 'DEFAULT') {
+        active = [];
+      } else {
+        const missing = command.roles.find(role => !granted.some(r => r.toLowerCase() === role.toLowerCase()));
+        if (missing) {
+          return done({ error: `ERROR 3530 (HY000): \`${missing}\`@\`%\` is not granted to \`${session.user}\`@\`${session.host}\`` });
+        }
+        active = command.roles;
+      }
+      session = { ...session, activeRoles: active };
+      return done({});
+    }
+    case 'currentUser': {
+      const value = command.column === 'CURRENT_ROLE()'
+        ? session.activeRoles.map(r => `\`${r}\`@\`%\``).join(',') || 'NONE'
+        : `${session.user}@${session.host}`;
+      return done({ columns: [command.column], rows: [[value]] });
+    }
+    case 'flush':
+      return done({});
+  }
+}
+
+// MySQL checks privileges before it looks at anything else
+function checkAccess(sql: string): QueryResult | null {
+  if (isRoot(session)) return null;
+  const done = timedResult(performance.now());
+  const grants = sessionGrants();
+
+  const databaseCommand = parseDatabaseCommand(sql);
+  if (databaseCommand) {
+    if (databaseCommand.type === 'show') return null;
+    const { name } = databaseCommand;
+    const allowed = databaseCommand.type === 'use'
+      ? hasAnyPrivilegeOn(grants, name)
+      : hasPrivilege(grants, databaseCommand.type === 'create' ? 'CREATE' : 'DROP', name);
+    return allowed ? null : done({ error: databaseAccessDenied(session, name) });
+  }
+  if (parsePrivilegeCommand(sql) || parseTransactionCommand(sql)) return null;
+
+  const error = checkRequirements(grants, session, state.activeWorkspace, analyzeStatement(sql, captureSnapshot()));
+  return error ? done({ error }) : null;
+}
+
+// SHOW WARNINGS reads the diagnostics without replacing them
+function runWarningsCommand(sql: string): QueryResult | null {
+  const command = parseWarningsCommand(sql);
+  return command ? timedResult(performance.now())(warningsResult(lastWarnings, command)) : null;
+}
+
+// The engine has no stored programs; say so rather than report the body as a syntax error
+function rejectRoutine(sql: string): QueryResult | null {
+  const match = sql.match(/^\s*CREATE\s+(?:DEFINER\s*=\s*\S+\s+)?(TRIGGER|PROCEDURE|FUNCTION|EVENT)\b/i);
+  if (!match) return null;
+  return timedResult(performance.now())({ error: `ERROR 1235 (42000): This version of MySQL doesn't yet support 'CREATE ${match[1].toUpperCase()}'` });
+}
+
+function runLocalCommand(sql: string): QueryResult | null {
+  return runWarningsCommand(sql)
+    ?? checkAccess(sql)
+    ?? rejectRoutine(sql)
+    ?? runPrivilegeCommand(sql)
+    ?? runDatabaseCommand(sql)
+    ?? runCatalogCommand(sql)
+    ?? runTransactionCommand(sql)
+    ?? runAlterCommand(sql);
+}
+
+function setDialect(dialect: Dialect) {
+  saveDialect(dialect);
+  setState({ dialect });
+}
+
+// Engine errors reworded for the selected dialect; our own messages are left alone
+function withDialectError(result: QueryResult, engineSQL: string): QueryResult {
+  if (!result.error || isDialectError(result.error)) return result;
+  const error = formatEngineError(result.error, state.dialect, {
+    sql: engineSQL,
+    database: state.activeWorkspace,
+    readCatalog: captureSnapshot,
+  });
+  return { ...result, error };
+}
+
+const predictWarnings = (sql: string) => statementWarnings(sql, {
+  dialect: state.dialect,
+  database: state.activeWorkspace,
+  readCatalog: captureSnapshot,
+  hasDatabase: name => !!findWorkspace(name),
+});
+
+// Every statement but SHOW WARNINGS replaces the diagnostics; an error is its own diagnostic
+function noteWarnings(sql: string, result: QueryResult, warnings: SqlWarning[]): QueryResult {
+  if (parseWarningsCommand(sql)) return result;
+  lastWarnings = result.error ? [errorWarning(result.error)] : warnings;
+  return result.error || warnings.length === 0 ? result : { ...result, warnings };
+}
+
+async function runQuery(userSQL: string): Promise<QueryResult> {
+  const warnings = predictWarnings(userSQL);
+  return noteWarnings(userSQL, await runInEngine(userSQL), warnings);
+}
+
+// Runs in the worker so a runaway query can't freeze the page; changes come back as a snapshot
+async function runInEngine(userSQL: string): Promise<QueryResult> {
+  // Syntax the selected database doesn't have is rejected like its parser would
+  const dialectError = checkDialect(userSQL, state.dialect);
+  if (dialectError) return timedResult(performance.now())({ error: dialectError });
+
+  const sql = toEngineSQL(userSQL, state.dialect);
+  const localResult = runLocalCommand(sql);
+  if (localResult) return localResult;
+
+  prepareStatement(sql);
+  const queryId = ++queryCounter;
+  const startVersion = tablesVersion;
+  const mutating = MUTATING_SQL.test(sql);
+  const before = undoSnapshotFor(sql);
+  setState({ runningQuery: sql });
+
+  const { result, snapshot } = await runInWorker(sql, {
+    version: startVersion,
+    readTables: captureSnapshot,
+    captureChanges: mutating,
+    timeout: state.queryTimeout,
+  });
+
+  if (queryId === queryCounter) setState({ runningQuery: null });
+  // Skip if the tables were replaced meanwhile (workspace switch, reset)
+  if (snapshot && !result.error && tablesVersion === startVersion) {
+    applySnapshot(snapshot);
+    touchCatalog();
+    noteChange(userSQL, before);
+    scheduleSave();
+  }
+  return withDialectError(result as QueryResult, sql);
+}
+
+function setQueryTimeout(timeout: number) {
+  localStorage.setItem(TIMEOUT_KEY, String(timeout));
+  setState({ queryTimeout: timeout });
+}
+
+export function useDatabase() {
+  const { executeSQL: runOnEngine, isReady: engineReady } = useSQLEngine();
+  const {
+    isRestored,
+    activeWorkspace,
+    workspaces,
+    runningQuery,
+    queryTimeout,
+    inTransaction,
+    autocommit,
+    currentUser,
+    undoTimeline,
+    redoTimeline,
+    namedSnapshots,
+    dialect,
+    catalogVersion,
+  } = useSyncExternalStore(subscribe, getState);
+
+  useEffect(() => {
+    if (engineReady) restoreOnce();
+  }, [engineReady]);
+
+  // Synchronous path for generated statements (imports, dumps); user queries go through runQuery.
+  // Generated SQL is MySQL-flavoured, so it is translated but never rejected by the dialect.
+  const executeSQL = useCallback((userSQL: string): QueryResult => {
+    const warnings = predictWarnings(userSQL);
+    const sql = toEngineSQL(userSQL, state.dialect);
+    const localResult = runLocalCommand(sql);
+    if (localResult) return noteWarnings(userSQL, localResult, warnings);
+
+    prepareStatement(sql);
+    const before = undoSnapshotFor(sql);
+    const result = runOnEngine(sql);
+    if (!result.error && MUTATING_SQL.test(sql)) {
+      noteCheckConstraints(sql);
+      tablesVersion++;
+      touchCatalog();
+      noteChange(userSQL, before);
+      scheduleSave();
+    }
+    return noteWarnings(userSQL, withDialectError(result, sql), warnings);
+  }, [runOnEngine]);
+
+  // Put the template tables back to their original rows, keep the user's own tables
+  const restoreSampleData = useCallback(() => {
+    const info = findWorkspace(state.activeWorkspace);
+    if (!info) return;
+    ensureCanRewrite();
+    const template = buildTemplate(info.template, sampleTemplate);
+    const templateNames = new Set(template.tables.map(t => t.name));
+    commitTransaction();
+    const before = captureSnapshot();
+    const userTables = before.tables.filter(t => !templateNames.has(t.name));
+    replaceTables({ tables: [...template.tables, ...userTables], savedAt: Date.now() });
+    recordChange('restore sample', before);
+    saveNow();
+  }, []);
+
+  // Wipe everything the user did in this workspace: back to its template
+  const resetDB = useCallback(() => {
+    const info = findWorkspace(state.activeWorkspace);
+    if (!info) return;
+    ensureCanRewrite();
+    // Wiping the workspace discards any open transaction; users and roles are server-wide and stay
+    const before = transaction?.start ?? captureSnapshot();
+    transaction = null;
+    setState({ inTransaction: false });
+    replaceTables(buildTemplate(info.template, sampleTemplate));
+    // ...but a reset can still be undone
+    recordChange('reset', before);
+    saveNow();
+  }, []);
+
+  // Schema + rows of the active workspace, straight from alasql
+  const readCatalog = useCallback(() => captureSnapshot(), []);
+
+  return {
+    executeSQL,
+    runQuery,
+    cancelQuery: cancelWorkerQuery,
+    isQueryRunning: runningQuery !== null,
+    runningQuery,
+    queryTimeout,
+    setQueryTimeout,
+    inTransaction,
+    autocommit,
+    dialect,
+    setDialect,
+    currentUser,
+    connectAs,
+    resetDB,
+    restoreSampleData,
+    undo,
+    redo,
+    undoTimeline,
+    redoTimeline,
+    runAsStep,
+    namedSnapshots,
+    saveNamedSnapshot,
+    restoreNamedSnapshot,
+    deleteNamedSnapshot,
+    readCatalog,
+    catalogVersion,
+    isReady: engineReady && isRestored,
+    activeWorkspace,
+    workspaces,
+    createWorkspace,
+    cloneWorkspace,
+    switchWorkspace,
+    deleteWorkspace,
+  };
+}